@@ -0,0 +1,242 @@
+/**
+ * Compiles the IANA tz database into src/tzdata.ts.
+ *
+ * Reads the binary TZif files produced by zic (e.g. /usr/share/zoneinfo on most Linux
+ * distributions, or the output of `make install` in a tz release) for every zone listed
+ * in src/timezones.ts, and writes per-zone transition tables plus the POSIX TZ rule
+ * that governs instants after the last transition.
+ *
+ * Usage: npx ts-node scripts/generate-tzdata.ts [zoneinfo-dir]
+ */
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { timezones } from '../src/timezones';
+import { getPosixRuleOffset } from '../src/zone-rules';
+
+// Identifiers that were removed from tzdata but are still accepted by DateTz
+const LEGACY_LINKS: Record<string, string> = {
+  'Asia/Riyadh87': 'Asia/Riyadh',
+  'Asia/Riyadh88': 'Asia/Riyadh',
+  'Asia/Riyadh89': 'Asia/Riyadh',
+  'Canada/East-Saskatchewan': 'America/Regina',
+  'Mideast/Riyadh87': 'Asia/Riyadh',
+  'Mideast/Riyadh88': 'Asia/Riyadh',
+  'Mideast/Riyadh89': 'Asia/Riyadh',
+  'US/Pacific-New': 'America/Los_Angeles'
+};
+
+// Transitions before the ECMAScript time range are irrelevant (and zic emits a -2^59 sentinel)
+const MIN_TRANSITION = -8.64e12;
+
+type LocalTimeType = { offset: number; isDst: boolean; abbreviation: string; };
+type ZoneData = { types: LocalTimeType[]; transitions: { time: number; type: number; }[]; rule: string; };
+
+function readTzif(file: string): ZoneData {
+  const buffer = readFileSync(file);
+  if (buffer.toString('latin1', 0, 4) !== 'TZif') {
+    throw new Error(`Not a TZif file: ${file}`);
+  }
+  const version = buffer[4];
+  const readCounts = (offset: number) => ({
+    isutcnt: buffer.readUInt32BE(offset + 20),
+    isstdcnt: buffer.readUInt32BE(offset + 24),
+    leapcnt: buffer.readUInt32BE(offset + 28),
+    timecnt: buffer.readUInt32BE(offset + 32),
+    typecnt: buffer.readUInt32BE(offset + 36),
+    charcnt: buffer.readUInt32BE(offset + 40)
+  });
+
+  let offset = 0;
+  let counts = readCounts(offset);
+  let timeSize = 4;
+  if (version >= 0x32) {
+    // Skip the 32-bit data block and use the 64-bit one that follows it
+    offset += 44 + counts.timecnt * 5 + counts.typecnt * 6 + counts.charcnt + counts.leapcnt * 8 + counts.isstdcnt + counts.isutcnt;
+    counts = readCounts(offset);
+    timeSize = 8;
+  }
+  let cursor = offset + 44;
+  const times: number[] = [];
+  for (let i = 0; i < counts.timecnt; i++) {
+    times.push(timeSize === 8 ? Number(buffer.readBigInt64BE(cursor)) : buffer.readInt32BE(cursor));
+    cursor += timeSize;
+  }
+  const indices: number[] = [];
+  for (let i = 0; i < counts.timecnt; i++) {
+    indices.push(buffer[cursor++]);
+  }
+  const rawTypes: { offset: number; isDst: boolean; abbrIndex: number; }[] = [];
+  for (let i = 0; i < counts.typecnt; i++) {
+    rawTypes.push({ offset: buffer.readInt32BE(cursor), isDst: buffer[cursor + 4] === 1, abbrIndex: buffer[cursor + 5] });
+    cursor += 6;
+  }
+  const chars = buffer.toString('latin1', cursor, cursor + counts.charcnt);
+  cursor += counts.charcnt + counts.leapcnt * (timeSize + 4) + counts.isstdcnt + counts.isutcnt;
+  const footer = version >= 0x32 ? buffer.toString('latin1', cursor).split('\n')[1] || '' : '';
+
+  const types = rawTypes.map(type => ({
+    offset: type.offset,
+    isDst: type.isDst,
+    abbreviation: chars.slice(type.abbrIndex, chars.indexOf('\0', type.abbrIndex))
+  }));
+  const transitions = times
+    .map((time, i) => ({ time, type: indices[i] }))
+    .filter(transition => transition.time > MIN_TRANSITION);
+  return { types, transitions, rule: footer };
+}
+
+/**
+ * Encodes a zone as "types|transitions|rule":
+ * - types: "offset,isDst,abbreviation" entries separated by ";" (type 0 applies before the first transition)
+ * - transitions: base-36 seconds (the first absolute, then deltas), each followed by its type index as A–Z
+ * - rule: POSIX TZ string for instants after the last transition
+ */
+function encodeZone(zone: ZoneData): string {
+  const sameType = (a: LocalTimeType, b: LocalTimeType) => a.offset === b.offset && a.isDst === b.isDst && a.abbreviation === b.abbreviation;
+
+  // Merge duplicate local time types (zic keeps separate ones for std/wall and UT/local indicators)
+  const types: LocalTimeType[] = [];
+  const typeMap = zone.types.map(type => {
+    const index = types.findIndex(existing => sameType(existing, type));
+    return index >= 0 ? index : types.push(type) - 1;
+  });
+
+  // Drop transitions that do not change the local time type
+  const transitions: { time: number; type: number; }[] = [];
+  let current = typeMap[0];
+  for (const transition of zone.transitions) {
+    const type = typeMap[transition.type];
+    if (type !== current) {
+      transitions.push({ time: transition.time, type });
+    }
+    current = type;
+  }
+
+  // Drop trailing transitions that the POSIX rule reproduces
+  const ruleType = (time: number): LocalTimeType => {
+    const offset = getPosixRuleOffset(zone.rule, time * 1000);
+    return { offset: offset.offsetSeconds, isDst: offset.isDst, abbreviation: offset.abbreviation };
+  };
+  if (zone.rule) {
+    // A transition can go when the rule produces it and, from the previous transition on, agrees with the table
+    const agrees = (from: { time: number; type: number; }, until: number) => {
+      for (let time = from.time; time < until; time += 21600) {
+        if (!sameType(types[from.type], ruleType(time))) {
+          return false;
+        }
+      }
+      return sameType(types[from.type], ruleType(until - 1));
+    };
+    while (transitions.length > 1) {
+      const last = transitions[transitions.length - 1];
+      const previous = transitions[transitions.length - 2];
+      if (!sameType(types[last.type], ruleType(last.time)) || !agrees(previous, last.time)) {
+        break;
+      }
+      transitions.pop();
+    }
+    const last = transitions[transitions.length - 1];
+    if (last && !sameType(types[last.type], ruleType(last.time))) {
+      throw new Error(`POSIX rule ${zone.rule} does not continue the transition table`);
+    }
+  }
+
+  const used = Array.from(new Set([typeMap[0], ...transitions.map(t => t.type)]));
+  if (used.length > 26) {
+    throw new Error('Too many local time types to encode');
+  }
+  const encodedTypes = used.map(index => {
+    const type = types[index];
+    return `${type.offset},${type.isDst ? 1 : 0},${type.abbreviation}`;
+  }).join(';');
+  let previousTime = 0;
+  const encodedTransitions = transitions.map((transition, i) => {
+    const value = i === 0 ? transition.time : transition.time - previousTime;
+    previousTime = transition.time;
+    return value.toString(36) + String.fromCharCode(65 + used.indexOf(transition.type));
+  }).join('');
+  return `${encodedTypes}|${encodedTransitions}|${zone.rule}`;
+}
+
+function readVersion(dir: string): string {
+  const versionFile = join(dir, '+VERSION');
+  if (existsSync(versionFile)) {
+    return readFileSync(versionFile, 'utf8').trim();
+  }
+  const zi = join(dir, 'tzdata.zi');
+  if (existsSync(zi)) {
+    const match = /^# version (\S+)/.exec(readFileSync(zi, 'utf8'));
+    if (match) {
+      return match[1];
+    }
+  }
+  throw new Error(`Cannot determine the tzdata version in ${dir}`);
+}
+
+function readCanonicalZones(dir: string): Set<string> {
+  const zi = join(dir, 'tzdata.zi');
+  if (!existsSync(zi)) {
+    return new Set();
+  }
+  const zones = readFileSync(zi, 'utf8').split('\n')
+    .filter(line => line.startsWith('Z '))
+    .map(line => line.split(' ')[1]);
+  return new Set(zones);
+}
+
+function main() {
+  const dir = process.argv[2] || '/usr/share/zoneinfo';
+  const version = readVersion(dir);
+  const canonical = readCanonicalZones(dir);
+  const names = Object.keys(timezones).sort();
+
+  const encoded = new Map<string, string>();
+  for (const name of names) {
+    const source = LEGACY_LINKS[name] || name;
+    const file = join(dir, source);
+    if (!existsSync(file)) {
+      throw new Error(`Missing zone ${source} in ${dir}`);
+    }
+    encoded.set(name, encodeZone(readTzif(file)));
+  }
+
+  // Zones with identical data are stored once and linked, preferring canonical zone names
+  const byData = new Map<string, string[]>();
+  for (const [name, data] of encoded) {
+    byData.set(data, [...(byData.get(data) || []), name]);
+  }
+  const zones: Record<string, string> = {};
+  const links: Record<string, string> = {};
+  for (const [data, group] of byData) {
+    const target = group.find(name => canonical.has(name) && !LEGACY_LINKS[name]) || group[0];
+    zones[target] = data;
+    for (const name of group) {
+      if (name !== target) {
+        links[name] = target;
+      }
+    }
+  }
+
+  const sortedEntries = (record: Record<string, string>) => Object.keys(record).sort()
+    .map(key => `  ${JSON.stringify(key)}: ${JSON.stringify(record[key])},`)
+    .join('\n')
+    .replace(/,$/, '');
+  const output = [
+    '// Generated by scripts/generate-tzdata.ts from the IANA tz database. Do not edit by hand.',
+    '',
+    `export const tzdataVersion = ${JSON.stringify(version)};`,
+    '',
+    'export const tzdataZones: Record<string, string> = {',
+    sortedEntries(zones),
+    '};',
+    '',
+    'export const tzdataLinks: Record<string, string> = {',
+    sortedEntries(links),
+    '};',
+    ''
+  ].join('\n');
+  writeFileSync(join(__dirname, '..', 'src', 'tzdata.ts'), output);
+  console.log(`tzdata ${version}: ${Object.keys(zones).length} zones, ${Object.keys(links).length} links`);
+}
+
+main();
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { BusinessCalendar } from './business-calendar';
+import { DateTz } from './date-tz';
+
+const at = (iso: string, tz: string) => new DateTz(DateTz.fromISO(iso, tz));
+
+describe('BusinessCalendar', () => {
+  const calendar = new BusinessCalendar({ holidays: ['2025-12-25', '2025-12-26', '2026-01-01'] });
+
+  it('adds and subtracts business days on local dates', () => {
+    const invoice = at('2025-12-19T17:30', 'Europe/Rome');
+    const due = calendar.addBusinessDays(invoice, 10);
+    expect(due.toString('YYYY-MM-DD HH:mm')).toBe('2026-01-07 17:30');
+    expect(due.timezone).toBe('Europe/Rome');
+    expect(calendar.subtractBusinessDays(due, 10).toString('YYYY-MM-DD HH:mm')).toBe('2025-12-19 17:30');
+    expect(calendar.addBusinessDays(invoice, -1).toString('YYYY-MM-DD')).toBe('2025-12-18');
+    expect(calendar.addBusinessDays(at('2025-12-20T10:00', 'Europe/Rome'), 0).toString('YYYY-MM-DD')).toBe('2025-12-20');
+    expect(() => calendar.addBusinessDays(invoice, 1.5)).toThrow('Invalid number of business days: 1.5');
+  });
+
+  it('uses the local date in the date\'s own timezone', () => {
+    // Friday 23:30 in New York is already Saturday in UTC
+    const friday = at('2025-06-13T23:30', 'America/New_York');
+    expect(calendar.isBusinessDay(friday)).toBe(true);
+    expect(calendar.isBusinessDay(new DateTz(friday.timestamp, 'UTC'))).toBe(false);
+    expect(calendar.nextBusinessDay(friday).toISO({ offset: true })).toBe('2025-06-16T23:30:00-04:00');
+
+    // The local time is kept across a DST change
+    const beforeSpringForward = at('2025-03-07T09:00', 'America/New_York');
+    expect(calendar.addBusinessDays(beforeSpringForward, 1).toISO({ offset: true })).toBe('2025-03-10T09:00:00-04:00');
+  });
+
+  it('supports other weekends', () => {
+    const gulf = new BusinessCalendar({ weekend: [5, 6] });
+    const thursday = at('2025-06-12T09:00', 'Asia/Dubai');
+    expect(gulf.nextBusinessDay(thursday).toString('YYYY-MM-DD')).toBe('2025-06-15');
+    expect(gulf.isBusinessDay(at('2025-06-15T09:00', 'Asia/Dubai'))).toBe(true);
+    expect(gulf.weekend).toEqual([5, 6]);
+    expect(() => new BusinessCalendar({ weekend: [0, 1, 2, 3, 4, 5, 6] })).toThrow('Invalid weekend: every day is a weekend day');
+    expect(() => new BusinessCalendar({ weekend: [7] })).toThrow('Invalid weekend day: 7');
+  });
+
+  it('counts business days between dates', () => {
+    const monday = at('2025-12-15T09:00', 'Europe/Rome');
+    const friday = at('2025-12-19T18:00', 'Europe/Rome');
+    expect(calendar.businessDaysBetween(monday, friday)).toBe(4);
+    expect(calendar.businessDaysBetween(friday, monday)).toBe(-4);
+    expect(calendar.businessDaysBetween(monday, monday)).toBe(0);
+    expect(calendar.businessDaysBetween(monday, at('2026-01-02T09:00', 'Europe/Rome'))).toBe(11);
+
+    const start = at('2025-01-01T00:00', 'Europe/Rome');
+    for (const days of [1, 7, 23, 260]) {
+      expect(calendar.businessDaysBetween(start, calendar.addBusinessDays(start, days))).toBe(days);
+    }
+    expect(() => calendar.businessDaysBetween(monday, new DateTz(monday.timestamp, 'UTC')))
+      .toThrow('Cannot compare dates with different timezones');
+  });
+
+  it('lists and matches holidays', () => {
+    expect(calendar.holidays).toEqual(['2025-12-25', '2025-12-26', '2026-01-01']);
+    expect(calendar.isHoliday(at('2025-12-25T23:00', 'Pacific/Auckland'))).toBe(true);
+    expect(calendar.isBusinessDay(at('2025-12-25T12:00', 'America/Los_Angeles'))).toBe(false);
+    const fromDates = new BusinessCalendar({ holidays: [at('2025-08-15T00:00', 'Europe/Rome')] });
+    expect(fromDates.holidays).toEqual(['2025-08-15']);
+  });
+
+  it('takes its holidays from a holiday calendar', () => {
+    const italy = new BusinessCalendar({ holidayCalendar: 'IT' });
+    const beforeEaster = at('2025-04-17T09:00', 'Europe/Rome');
+    // Easter Monday and Liberation Day are days off
+    expect(italy.addBusinessDays(beforeEaster, 2).toString('YYYY-MM-DD')).toBe('2025-04-22');
+    expect(italy.addBusinessDays(beforeEaster, 5).toString('YYYY-MM-DD')).toBe('2025-04-28');
+    expect(italy.businessDaysBetween(beforeEaster, at('2025-04-28T09:00', 'Europe/Rome'))).toBe(5);
+    expect(italy.isHoliday(at('2025-04-21T09:00', 'Europe/Rome'))).toBe(true);
+
+    const us = new BusinessCalendar({ holidayCalendar: 'US' });
+    expect(us.isBusinessDay(at('2026-07-03T09:00', 'America/New_York'))).toBe(false);
+    expect(us.businessDaysBetween(at('2026-06-29T09:00', 'America/New_York'), at('2026-07-06T09:00', 'America/New_York'))).toBe(4);
+    expect(() => new BusinessCalendar({ holidayCalendar: 'XX' })).toThrow('Unknown holiday calendar: XX');
+  });
+});
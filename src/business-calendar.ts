@@ -0,0 +1,193 @@
+import { localDay, weekdayOf } from "./calendar-days";
+import { DateTz } from "./date-tz";
+import { HolidayCalendar } from "./holiday-calendar";
+import { BusinessCalendarOptions, IDateTz } from "./idate-tz";
+
+const MS_PER_DAY = 86400000;
+
+const DEFAULT_WEEKEND = [0, 6];
+
+function validateDays(days: number): void {
+  if (!Number.isInteger(days)) {
+    throw new Error(`Invalid number of business days: ${days}`);
+  }
+}
+
+/**
+ * Working days for date arithmetic: every day except the weekend days and the holidays,
+ * listed one by one or generated by a HolidayCalendar. Dates are evaluated on their local
+ * calendar date, in their own timezone, and moving by business days keeps the local time of day.
+ */
+export class BusinessCalendar {
+
+  readonly weekend: readonly number[];
+  readonly holidayCalendar?: HolidayCalendar;
+
+  private readonly weekendDays: Set<number>;
+  private readonly holidayDays: Set<number>;
+
+  /**
+   * Creates a business calendar.
+   * @param options - The weekend days (defaults to Saturday and Sunday), the holidays and a holiday calendar.
+   * @throws Error if a weekend day is not between 0 and 6, every day is a weekend day, a holiday is not a date,
+   * or the holiday calendar is not registered.
+   */
+  constructor(options: BusinessCalendarOptions = {}) {
+    const { weekend = DEFAULT_WEEKEND, holidays = [], holidayCalendar } = options;
+    for (const weekday of weekend) {
+      if (!Number.isInteger(weekday) || weekday < 0 || weekday > 6) {
+        throw new Error(`Invalid weekend day: ${weekday}`);
+      }
+    }
+    this.weekendDays = new Set(weekend);
+    if (this.weekendDays.size === 7) {
+      throw new Error('Invalid weekend: every day is a weekend day');
+    }
+    this.weekend = Array.from(this.weekendDays).sort((a, b) => a - b);
+    this.holidayDays = new Set(holidays.map(holiday => {
+      const date = typeof holiday === 'string' ? new DateTz(DateTz.fromISO(holiday, 'UTC')) : new DateTz(holiday);
+      return localDay(date);
+    }));
+    this.holidayCalendar = typeof holidayCalendar === 'string' ? HolidayCalendar.get(holidayCalendar) : holidayCalendar;
+  }
+
+  /**
+   * Lists the holidays given one by one as ISO dates (YYYY-MM-DD), in order.
+   */
+  get holidays(): string[] {
+    return Array.from(this.holidayDays)
+      .sort((a, b) => a - b)
+      .map(day => new DateTz(day * MS_PER_DAY, 'UTC').toString('YYYY-MM-DD'));
+  }
+
+  /**
+   * Checks whether the local date of a date is one of the holidays, or a day on which
+   * a holiday of the holiday calendar falls or is observed.
+   */
+  isHoliday(date: IDateTz): boolean {
+    return this.isHolidayNumber(localDay(new DateTz(date)));
+  }
+
+  /**
+   * Checks whether the local date of a date is neither a weekend day nor a holiday.
+   */
+  isBusinessDay(date: IDateTz): boolean {
+    return this.isBusinessDayNumber(localDay(new DateTz(date)));
+  }
+
+  /**
+   * Moves a date by a number of business days, keeping its local time of day.
+   * Negative numbers move backwards; zero returns the date unchanged, even on a day off.
+   * @param date - The date to start from.
+   * @param days - The number of business days.
+   * @returns A new DateTz in the date's timezone.
+   * @throws Error if the number of days is not an integer.
+   */
+  addBusinessDays(date: IDateTz, days: number): DateTz {
+    validateDays(days);
+    const start = new DateTz(date);
+    const step = days < 0 ? -1 : 1;
+    let day = localDay(start);
+    for (let remaining = Math.abs(days); remaining > 0;) {
+      day += step;
+      if (this.isBusinessDayNumber(day)) {
+        remaining--;
+      }
+    }
+    return new DateTz(start.plus({ days: day - localDay(start) }));
+  }
+
+  /**
+   * Moves a date back by a number of business days, keeping its local time of day.
+   * @param date - The date to start from.
+   * @param days - The number of business days.
+   * @returns A new DateTz in the date's timezone.
+   * @throws Error if the number of days is not an integer.
+   */
+  subtractBusinessDays(date: IDateTz, days: number): DateTz {
+    validateDays(days);
+    return this.addBusinessDays(date, -days);
+  }
+
+  /**
+   * Finds the first business day after a date, keeping its local time of day.
+   * @param date - The date to start from.
+   * @param inclusive - Whether the date itself counts when it is a business day (defaults to false).
+   */
+  nextBusinessDay(date: IDateTz, inclusive = false): DateTz {
+    if (inclusive && this.isBusinessDay(date)) {
+      return new DateTz(date);
+    }
+    return this.addBusinessDays(date, 1);
+  }
+
+  /**
+   * Finds the last business day before a date, keeping its local time of day.
+   * @param date - The date to start from.
+   * @param inclusive - Whether the date itself counts when it is a business day (defaults to false).
+   */
+  previousBusinessDay(date: IDateTz, inclusive = false): DateTz {
+    if (inclusive && this.isBusinessDay(date)) {
+      return new DateTz(date);
+    }
+    return this.addBusinessDays(date, -1);
+  }
+
+  /**
+   * Counts the business days after the start date up to and including the end date, so that
+   * `businessDaysBetween(date, addBusinessDays(date, n))` is n. The count is negative when
+   * the end is before the start.
+   * @param start - The start date.
+   * @param end - The end date, in the same timezone.
+   * @throws Error if the dates are in different timezones.
+   */
+  businessDaysBetween(start: IDateTz, end: IDateTz): number {
+    const from = new DateTz(start);
+    const to = new DateTz(end);
+    if (!from.isComparable(to)) {
+      throw new Error('Cannot compare dates with different timezones');
+    }
+    const first = localDay(from);
+    const last = localDay(to);
+    if (last < first) {
+      return -this.businessDaysBetween(to, from);
+    }
+    // Whole weeks hold the same number of working weekdays; walk the days left over
+    const span = last - first;
+    let count = Math.floor(span / 7) * (7 - this.weekendDays.size);
+    for (let day = first + Math.floor(span / 7) * 7 + 1; day <= last; day++) {
+      if (!this.weekendDays.has(weekdayOf(day))) {
+        count++;
+      }
+    }
+    for (const holiday of this.holidaysBetween(first + 1, last)) {
+      if (!this.weekendDays.has(weekdayOf(holiday))) {
+        count--;
+      }
+    }
+    return count;
+  }
+
+  private isBusinessDayNumber(day: number): boolean {
+    return !this.weekendDays.has(weekdayOf(day)) && !this.isHolidayNumber(day);
+  }
+
+  private isHolidayNumber(day: number): boolean {
+    return this.holidayDays.has(day) || (this.holidayCalendar !== undefined && this.holidayCalendar.isHoliday(new DateTz(day * MS_PER_DAY, 'UTC')));
+  }
+
+  // The holidays from the first to the last day, both inclusive, each counted once
+  private holidaysBetween(first: number, last: number): Set<number> {
+    const days = new Set(Array.from(this.holidayDays).filter(day => day >= first && day <= last));
+    if (this.holidayCalendar && first <= last) {
+      for (const holiday of this.holidayCalendar.between(new DateTz(first * MS_PER_DAY, 'UTC'), new DateTz(last * MS_PER_DAY, 'UTC'))) {
+        for (const day of [localDay(holiday.date), localDay(holiday.observed)]) {
+          if (day >= first && day <= last) {
+            days.add(day);
+          }
+        }
+      }
+    }
+    return days;
+  }
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { civilFromDays, daysFromCivil, localDay, weekdayOf } from './calendar-days';
+
+const MS_PER_DAY = 86400000;
+
+describe('calendar days', () => {
+  it('counts days like the proleptic Gregorian calendar of Date', () => {
+    for (const [year, month, day] of [[1970, 0, 1], [2024, 1, 29], [1600, 2, 1], [-44, 2, 15], [275760, 8, 13]]) {
+      const expected = new Date(0).setUTCFullYear(year, month, day) / MS_PER_DAY;
+      expect(daysFromCivil(year, month, day)).toBe(expected);
+      expect(civilFromDays(expected)).toEqual({ year, month, day });
+    }
+  });
+
+  it('rolls months and days past the end of their range', () => {
+    expect(daysFromCivil(2025, 12, 1)).toBe(daysFromCivil(2026, 0, 1));
+    expect(daysFromCivil(2025, 14, 1)).toBe(daysFromCivil(2026, 2, 1));
+    expect(daysFromCivil(2025, -1, 1)).toBe(daysFromCivil(2024, 11, 1));
+    expect(daysFromCivil(2025, -13, 1)).toBe(daysFromCivil(2023, 11, 1));
+    expect(daysFromCivil(2025, 2, 0)).toBe(daysFromCivil(2025, 1, 28));
+  });
+
+  it('reads weekdays and local dates', () => {
+    expect(weekdayOf(0)).toBe(4);
+    expect(weekdayOf(-1)).toBe(3);
+    expect(weekdayOf(daysFromCivil(2025, 5, 15))).toBe(0);
+    expect(localDay({ year: 2025, month: 5, day: 15 })).toBe(daysFromCivil(2025, 5, 15));
+  });
+});
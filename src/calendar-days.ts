@@ -0,0 +1,45 @@
+/**
+ * Counts the days between 1970-01-01 and a proleptic Gregorian date.
+ * Uses astronomical year numbering (year 0 is 1 BC) and a zero-based month;
+ * months and days past the end of their range roll into the following ones.
+ */
+export function daysFromCivil(year: number, month: number, day: number): number {
+  const monthOfYear = ((month % 12) + 12) % 12;
+  const y = year + (month - monthOfYear) / 12 - (monthOfYear <= 1 ? 1 : 0);
+  const era = Math.floor(y / 400);
+  const yearOfEra = y - era * 400;
+  const shiftedMonth = (monthOfYear + 10) % 12;
+  const dayOfYear = Math.floor((153 * shiftedMonth + 2) / 5) + day - 1;
+  const dayOfEra = yearOfEra * 365 + Math.floor(yearOfEra / 4) - Math.floor(yearOfEra / 100) + dayOfYear;
+  return era * 146097 + dayOfEra - 719468;
+}
+
+/**
+ * Converts a day count relative to 1970-01-01 into a proleptic Gregorian date.
+ * The returned month is zero-based.
+ */
+export function civilFromDays(days: number): { year: number; month: number; day: number; } {
+  const z = days + 719468;
+  const era = Math.floor(z / 146097);
+  const dayOfEra = z - era * 146097;
+  const yearOfEra = Math.floor((dayOfEra - Math.floor(dayOfEra / 1460) + Math.floor(dayOfEra / 36524) - Math.floor(dayOfEra / 146096)) / 365);
+  const dayOfYear = dayOfEra - (365 * yearOfEra + Math.floor(yearOfEra / 4) - Math.floor(yearOfEra / 100));
+  const shiftedMonth = Math.floor((5 * dayOfYear + 2) / 153);
+  const day = dayOfYear - Math.floor((153 * shiftedMonth + 2) / 5) + 1;
+  const month = shiftedMonth < 10 ? shiftedMonth + 2 : shiftedMonth - 10;
+  return { year: yearOfEra + era * 400 + (month <= 1 ? 1 : 0), month, day };
+}
+
+/**
+ * The weekday (0 = Sunday) of a day counted from 1970-01-01, which was a Thursday.
+ */
+export function weekdayOf(days: number): number {
+  return ((days + 4) % 7 + 7) % 7;
+}
+
+/**
+ * The calendar day of local date fields (such as a DateTz's), counted from 1970-01-01.
+ */
+export function localDay(date: { year: number; month: number; day: number; }): number {
+  return daysFromCivil(date.year, date.month, date.day);
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { CronExpression } from './cron-expression';
+import { DateTz } from './date-tz';
+
+const at = (iso: string, tz: string) => new DateTz(DateTz.fromISO(iso, tz, { precision: 'second' }));
+const runs = (cron: CronExpression, from: DateTz, count: number, pattern = 'YYYY-MM-DD HH:mm') => {
+  const result: string[] = [];
+  for (const run of cron.runs(from)) {
+    if (result.length === count) {
+      break;
+    }
+    result.push(run.toString(pattern));
+  }
+  return result;
+};
+
+describe('CronExpression', () => {
+  it('finds the next and previous runs on the local calendar', () => {
+    const cron = CronExpression.parse('0 9 * * MON-FRI', { tz: 'Europe/Rome' });
+    const friday = at('2025-01-10T10:00', 'Europe/Rome');
+    const next = cron.next(friday);
+    expect(next.toISO({ offset: true })).toBe('2025-01-13T09:00:00+01:00');
+    expect(next.timezone).toBe('Europe/Rome');
+    expect(cron.prev(friday).toISO({ offset: true })).toBe('2025-01-10T09:00:00+01:00');
+    expect(cron.next(cron.next(friday)).toString('YYYY-MM-DD HH:mm')).toBe('2025-01-14 09:00');
+    expect(cron.prev(at('2025-01-10T09:00', 'Europe/Rome')).toString('YYYY-MM-DD')).toBe('2025-01-09');
+
+    // A date in another zone is the same instant
+    const utc = new DateTz(friday.timestamp, 'UTC');
+    expect(cron.next(utc).timestamp).toBe(next.timestamp);
+  });
+
+  it('supports lists, steps, names and the six-field syntax', () => {
+    const from = at('2025-03-01T00:00', 'UTC');
+    expect(runs(CronExpression.parse('*/20 8-9 * * *'), from, 4)).toEqual(['2025-03-01 08:00', '2025-03-01 08:20', '2025-03-01 08:40', '2025-03-01 09:00']);
+    expect(runs(CronExpression.parse('0 12 1 jan,Jul ?'), from, 2)).toEqual(['2025-07-01 12:00', '2026-01-01 12:00']);
+    expect(runs(CronExpression.parse('30 0 0 * * 7'), from, 2, 'YYYY-MM-DD HH:mm:ss')).toEqual(['2025-03-02 00:00:30', '2025-03-09 00:00:30']);
+    expect(runs(CronExpression.parse('0 0 10/10 * *'), from, 3, 'DD')).toEqual(['10', '20', '30']);
+    expect(runs(CronExpression.parse('@monthly'), from, 2, 'YYYY-MM-DD')).toEqual(['2025-04-01', '2025-05-01']);
+    // Both day fields restricted: either one matches
+    expect(runs(CronExpression.parse('0 0 13 * FRI'), from, 3, 'YYYY-MM-DD')).toEqual(['2025-03-07', '2025-03-13', '2025-03-14']);
+    expect(CronExpression.parse('  0   9 * *  1 ').toString()).toBe('0 9 * * 1');
+  });
+
+  it('supports L, W and #', () => {
+    const from = at('2025-01-01T00:00', 'UTC');
+    expect(runs(CronExpression.parse('0 0 L * ?'), from, 3, 'YYYY-MM-DD')).toEqual(['2025-01-31', '2025-02-28', '2025-03-31']);
+    expect(runs(CronExpression.parse('0 0 L-2 * ?'), from, 2, 'YYYY-MM-DD')).toEqual(['2025-01-29', '2025-02-26']);
+    // 2025-02-01 and 2025-03-01 are Saturdays, 2025-06-15 is a Sunday
+    expect(runs(CronExpression.parse('0 0 1W * ?'), from, 3, 'YYYY-MM-DD')).toEqual(['2025-02-03', '2025-03-03', '2025-04-01']);
+    expect(CronExpression.parse('0 0 15W 6 ?').next(from).toString('YYYY-MM-DD')).toBe('2025-06-16');
+    // 2025-05-31 is a Saturday
+    expect(CronExpression.parse('0 0 LW 5 ?').next(from).toString('YYYY-MM-DD')).toBe('2025-05-30');
+    expect(runs(CronExpression.parse('0 0 ? * 5L'), from, 2, 'YYYY-MM-DD')).toEqual(['2025-01-31', '2025-02-28']);
+    expect(runs(CronExpression.parse('0 0 ? * TUE#2'), from, 2, 'YYYY-MM-DD')).toEqual(['2025-01-14', '2025-02-11']);
+    expect(CronExpression.parse('0 0 29 2 *').next(from).toString('YYYY-MM-DD')).toBe('2028-02-29');
+    expect(CronExpression.parse('0 0 30 2 *').next(from)).toBeNull();
+  });
+
+  it('moves runs in a DST gap to the first valid minute', () => {
+    const cron = CronExpression.parse('30 2 * * *', { tz: 'Europe/Rome' });
+    const from = at('2025-03-29T12:00', 'Europe/Rome');
+    expect(runs(cron, from, 3)).toEqual(['2025-03-30 03:00', '2025-03-31 02:30', '2025-04-01 02:30']);
+    expect(cron.next(from).toISO({ offset: true })).toBe('2025-03-30T03:00:00+02:00');
+    expect(cron.prev(at('2025-03-30T12:00', 'Europe/Rome')).toISO({ offset: true })).toBe('2025-03-30T03:00:00+02:00');
+
+    // Every minute of the skipped hour collapses into a single run
+    const everyMinute = CronExpression.parse('* 2 * * *', { tz: 'Europe/Rome' });
+    expect(runs(everyMinute, at('2025-03-30T00:00', 'Europe/Rome'), 2)).toEqual(['2025-03-30 03:00', '2025-03-31 02:00']);
+  });
+
+  it('fires once in a repeated hour', () => {
+    const cron = CronExpression.parse('30 2 * * *', { tz: 'Europe/Rome' });
+    const from = at('2025-10-25T12:00', 'Europe/Rome');
+    expect(runs(cron, from, 2)).toEqual(['2025-10-26 02:30', '2025-10-27 02:30']);
+    expect(cron.next(from).toISO({ offset: true })).toBe('2025-10-26T02:30:00+02:00');
+
+    // From the second pass of 02:10, 02:30 has already fired
+    const secondPass = new DateTz(Date.UTC(2025, 9, 26, 1, 10), 'Europe/Rome');
+    expect(secondPass.toISO({ offset: true })).toBe('2025-10-26T02:10:00+01:00');
+    expect(cron.next(secondPass).toString('YYYY-MM-DD')).toBe('2025-10-27');
+    expect(cron.prev(secondPass).toISO({ offset: true })).toBe('2025-10-26T02:30:00+02:00');
+
+    const quarterly = CronExpression.parse('*/15 * * * *', { tz: 'Europe/Rome' });
+    expect(runs(quarterly, at('2025-10-26T01:50', 'Europe/Rome'), 6, 'HH:mm')).toEqual(['02:00', '02:15', '02:30', '02:45', '03:00', '03:15']);
+  });
+
+  it('rejects malformed expressions', () => {
+    expect(() => CronExpression.parse('* * * *')).toThrow('Invalid cron expression: expected 5 or 6 fields in "* * * *"');
+    expect(() => CronExpression.parse('61 * * * *')).toThrow('Invalid cron expression: 61 in the minute field');
+    expect(() => CronExpression.parse('0 0 * * FRI-MON')).toThrow('Invalid cron expression: FRI-MON in the day-of-week field');
+    expect(() => CronExpression.parse('*/0 * * * *')).toThrow('Invalid cron expression: */0 in the minute field');
+    expect(() => CronExpression.parse('0 0 * FOO *')).toThrow('Invalid cron expression: FOO in the month field');
+    expect(() => CronExpression.parse('0 0 ? * MON#6')).toThrow('Invalid cron expression: MON#6 in the day-of-week field');
+    expect(() => CronExpression.parse('0 ? * * *')).toThrow('Invalid cron expression: ? in the hour field');
+    expect(() => CronExpression.parse('0 0 * * *', { tz: 'Mars/Olympus' })).toThrow('Invalid timezone: Mars/Olympus');
+  });
+});
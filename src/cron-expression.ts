@@ -0,0 +1,320 @@
+import { civilFromDays, daysFromCivil, weekdayOf } from "./calendar-days";
+import { DateTz } from "./date-tz";
+import { CronExpressionParseOptions, DateTzPrecision, IDateTz } from "./idate-tz";
+import { timezones } from "./timezones";
+import { getPreviousZoneTransition, getZoneOffset, resolveLocalTime } from "./zone-rules";
+
+const MS_PER_DAY = 86400000;
+
+// Every weekday and month-day combination recurs within one 400-year Gregorian cycle
+const MAX_SEARCH_DAYS = 146097;
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+};
+
+type Field = { name: string; min: number; max: number; names?: readonly string[]; };
+
+const SECOND: Field = { name: 'second', min: 0, max: 59 };
+const MINUTE: Field = { name: 'minute', min: 0, max: 59 };
+const HOUR: Field = { name: 'hour', min: 0, max: 23 };
+const DAY_OF_MONTH: Field = { name: 'day-of-month', min: 1, max: 31 };
+const MONTH: Field = { name: 'month', min: 1, max: 12, names: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'] };
+// 0 and 7 are both Sunday
+const DAY_OF_WEEK: Field = { name: 'day-of-week', min: 0, max: 7, names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'] };
+
+type DaysOfMonth = {
+  // `*` or `?`
+  any: boolean;
+  days: Set<number>;
+  // `L` (0) and `L-n` (n): days counted back from the last day of the month
+  fromLast: number[];
+  // `nW`: the weekday nearest to day n, within the month
+  nearestWeekdays: number[];
+  // `LW`: the last weekday of the month
+  lastWeekday: boolean;
+};
+
+type DaysOfWeek = {
+  // `*` or `?`
+  any: boolean;
+  weekdays: Set<number>;
+  // `d#n`: the nth given weekday of the month
+  nth: { weekday: number; nth: number; }[];
+  // `dL`: the last given weekday of the month
+  last: number[];
+};
+
+// The weekday closest to a day of the month, without leaving the month
+function nearestWeekday(year: number, month: number, date: number, length: number): number {
+  const weekday = weekdayOf(daysFromCivil(year, month, date));
+  if (weekday === 6) {
+    return date === 1 ? 3 : date - 1;
+  }
+  if (weekday === 0) {
+    return date === length ? date - 2 : date + 1;
+  }
+  return date;
+}
+
+function invalid(reason: string): Error {
+  return new Error(`Invalid cron expression: ${reason}`);
+}
+
+function parseValue(field: Field, text: string, item: string): number {
+  const named = field.names ? field.names.indexOf(text.toUpperCase()) : -1;
+  const value = named >= 0 ? named + field.min : /^\d+$/.test(text) ? Number(text) : NaN;
+  if (!(value >= field.min && value <= field.max)) {
+    throw invalid(`${item} in the ${field.name} field`);
+  }
+  return value;
+}
+
+// `*`, `a`, `a-b`, each optionally followed by `/step`
+function parseRange(field: Field, item: string): number[] {
+  const parts = item.split('/');
+  const step = parts.length === 2 && /^\d+$/.test(parts[1]) ? Number(parts[1]) : parts.length === 1 ? 1 : 0;
+  if (step < 1 || parts.length > 2) {
+    throw invalid(`${item} in the ${field.name} field`);
+  }
+  const bounds = parts[0].split('-');
+  if (bounds.length > 2) {
+    throw invalid(`${item} in the ${field.name} field`);
+  }
+  const first = parts[0] === '*' ? field.min : parseValue(field, bounds[0], item);
+  const last = parts[0] === '*' ? field.max
+    : bounds.length === 2 ? parseValue(field, bounds[1], item)
+      : parts.length === 2 ? field.max : first;
+  if (first > last) {
+    throw invalid(`${item} in the ${field.name} field`);
+  }
+  const values: number[] = [];
+  for (let value = first; value <= last; value += step) {
+    values.push(value);
+  }
+  return values;
+}
+
+function parseField(field: Field, text: string): number[] {
+  const values = new Set(text.split(',').flatMap(item => parseRange(field, item)));
+  return Array.from(values).sort((a, b) => a - b);
+}
+
+function parseDaysOfMonth(text: string): DaysOfMonth {
+  const result: DaysOfMonth = { any: text === '*' || text === '?', days: new Set(), fromLast: [], nearestWeekdays: [], lastWeekday: false };
+  if (result.any) {
+    return result;
+  }
+  for (const item of text.toUpperCase().split(',')) {
+    const fromLast = /^L(?:-(\d+))?$/.exec(item);
+    const nearest = /^(\d+)W$/.exec(item);
+    if (fromLast && Number(fromLast[1] || 0) <= 30) {
+      result.fromLast.push(Number(fromLast[1] || 0));
+    } else if (item === 'LW') {
+      result.lastWeekday = true;
+    } else if (nearest) {
+      result.nearestWeekdays.push(parseValue(DAY_OF_MONTH, nearest[1], item));
+    } else {
+      parseRange(DAY_OF_MONTH, item).forEach(day => result.days.add(day));
+    }
+  }
+  return result;
+}
+
+function parseDaysOfWeek(text: string): DaysOfWeek {
+  const result: DaysOfWeek = { any: text === '*' || text === '?', weekdays: new Set(), nth: [], last: [] };
+  if (result.any) {
+    return result;
+  }
+  for (const item of text.toUpperCase().split(',')) {
+    const nth = /^(\w+)#(\d+)$/.exec(item);
+    const last = /^(\w+)L$/.exec(item);
+    if (nth) {
+      if (Number(nth[2]) < 1 || Number(nth[2]) > 5) {
+        throw invalid(`${item} in the ${DAY_OF_WEEK.name} field`);
+      }
+      result.nth.push({ weekday: parseValue(DAY_OF_WEEK, nth[1], item) % 7, nth: Number(nth[2]) });
+    } else if (last) {
+      result.last.push(parseValue(DAY_OF_WEEK, last[1], item) % 7);
+    } else {
+      parseRange(DAY_OF_WEEK, item).forEach(weekday => result.weekdays.add(weekday % 7));
+    }
+  }
+  return result;
+}
+
+/**
+ * A cron schedule read in a timezone. Both the 5-field (minute hour day-of-month month
+ * day-of-week) and the 6-field syntax (with a leading second field) are supported, with
+ * names (JAN, MON), ranges, lists, steps, `?`, `L`, `W`, `#` and the `@daily`-style macros.
+ * When both day fields are restricted, a day matching either of them matches.
+ *
+ * Runs follow the local wall clock. A run in a DST gap fires at the first valid time
+ * after the gap; a run in a repeated hour fires once, at its first occurrence.
+ */
+export class CronExpression {
+
+  readonly timezone: string;
+
+  private readonly source: string;
+  private readonly precision: DateTzPrecision;
+  private readonly seconds: number[];
+  private readonly minutes: number[];
+  private readonly hours: number[];
+  private readonly months: Set<number>;
+  private readonly daysOfMonth: DaysOfMonth;
+  private readonly daysOfWeek: DaysOfWeek;
+
+  private constructor(source: string, fields: string[], timezone: string) {
+    const [second, minute, hour, dayOfMonth, month, dayOfWeek] = fields.length === 6 ? fields : ['0', ...fields];
+    if (dayOfMonth !== '?' && dayOfMonth.includes('?') || dayOfWeek !== '?' && dayOfWeek.includes('?')) {
+      throw invalid('? must be the whole day field');
+    }
+    this.source = source;
+    this.timezone = timezone;
+    this.precision = fields.length === 6 ? 'second' : 'minute';
+    this.seconds = parseField(SECOND, second);
+    this.minutes = parseField(MINUTE, minute);
+    this.hours = parseField(HOUR, hour);
+    this.months = new Set(parseField(MONTH, month));
+    this.daysOfMonth = parseDaysOfMonth(dayOfMonth);
+    this.daysOfWeek = parseDaysOfWeek(dayOfWeek);
+  }
+
+  /**
+   * Parses a cron expression.
+   * @param expression - Five or six whitespace-separated fields, or a macro such as `@daily`.
+   * @param options - The timezone the fields are read in (defaults to UTC).
+   * @throws Error if a field is malformed or out of range, or the timezone is unknown.
+   */
+  static parse(expression: string, options: CronExpressionParseOptions = {}): CronExpression {
+    const tz = options.tz || 'UTC';
+    if (!timezones[tz]) {
+      throw new Error(`Invalid timezone: ${tz}`);
+    }
+    const source = String(expression).trim().replace(/\s+/g, ' ');
+    const fields = (MACROS[source.toLowerCase()] || source).split(' ');
+    if (fields.length !== 5 && fields.length !== 6) {
+      throw invalid(`expected 5 or 6 fields in "${source}"`);
+    }
+    return new CronExpression(source, fields, tz);
+  }
+
+  /**
+   * Finds the first run strictly after a date, or null when the expression never fires.
+   * @param from - The reference date (defaults to now).
+   */
+  next(from?: IDateTz): DateTz | null {
+    return this.search(from ? from.timestamp : Date.now(), 1);
+  }
+
+  /**
+   * Finds the last run strictly before a date, or null when the expression never fires.
+   * @param from - The reference date (defaults to now).
+   */
+  prev(from?: IDateTz): DateTz | null {
+    return this.search(from ? from.timestamp : Date.now(), -1);
+  }
+
+  /**
+   * Yields the runs after a date, lazily and without end.
+   * @param from - The reference date (defaults to now).
+   */
+  *runs(from?: IDateTz): Generator<DateTz> {
+    let run = this.next(from);
+    while (run) {
+      yield run;
+      run = this.next(run);
+    }
+  }
+
+  [Symbol.iterator](): Iterator<DateTz> {
+    return this.runs();
+  }
+
+  toString(): string {
+    return this.source;
+  }
+
+  private matchesDay(day: number): boolean {
+    const { year, month, day: date } = civilFromDays(day);
+    const length = daysFromCivil(year, month + 1, 1) - daysFromCivil(year, month, 1);
+    const weekday = weekdayOf(day);
+    const { daysOfMonth, daysOfWeek } = this;
+    const inMonth = daysOfMonth.days.has(date)
+      || daysOfMonth.fromLast.some(count => date === length - count)
+      || daysOfMonth.nearestWeekdays.some(target => target <= length && date === nearestWeekday(year, month, target, length))
+      || (daysOfMonth.lastWeekday && date === nearestWeekday(year, month, length, length));
+    const inWeek = daysOfWeek.weekdays.has(weekday)
+      || daysOfWeek.nth.some(item => item.weekday === weekday && Math.ceil(date / 7) === item.nth)
+      || daysOfWeek.last.some(item => item === weekday && date + 7 > length);
+    if (daysOfMonth.any || daysOfWeek.any) {
+      return (daysOfMonth.any || inMonth) && (daysOfWeek.any || inWeek);
+    }
+    return inMonth || inWeek;
+  }
+
+  /**
+   * Walks the local calendar from a date, forwards or backwards, and returns the first
+   * run on the far side of it. Wall-clock times map to instants monotonically, so the
+   * walk can start at the local time of the date.
+   */
+  private search(timestamp: number, direction: 1 | -1): DateTz | null {
+    const tz = this.timezone;
+    const offset = getZoneOffset(tz, timestamp).offsetSeconds;
+    let bound = timestamp + offset * 1000;
+    if (direction < 0) {
+      // In a repeated hour, the first pass of a later wall-clock time can still be before the date
+      const previous = getPreviousZoneTransition(tz, timestamp);
+      bound += previous ? Math.max(previous.before.offsetSeconds - offset, 0) * 1000 : 0;
+    }
+    const order = (values: Iterable<number>) => direction > 0 ? [...values] : [...values].reverse();
+    const hours = order(this.hours);
+    const minutes = order(this.minutes);
+    const seconds = order(this.seconds);
+    const skip = (start: number, length: number) => direction > 0 ? start + length - 1 < bound : start > bound;
+    const isRun = (instant: number) => direction > 0 ? instant > timestamp : instant < timestamp;
+
+    const firstDay = Math.floor(bound / MS_PER_DAY);
+    let day = firstDay;
+    while (Math.abs(day - firstDay) <= MAX_SEARCH_DAYS) {
+      const { year, month } = civilFromDays(day);
+      if (!this.months.has(month + 1)) {
+        day = direction > 0 ? daysFromCivil(year, month + 1, 1) : daysFromCivil(year, month, 0);
+        continue;
+      }
+      if (this.matchesDay(day)) {
+        for (const hour of hours) {
+          const hourStart = day * MS_PER_DAY + hour * 3600000;
+          if (skip(hourStart, 3600000)) {
+            continue;
+          }
+          for (const minute of minutes) {
+            const minuteStart = hourStart + minute * 60000;
+            if (skip(minuteStart, 60000)) {
+              continue;
+            }
+            for (const second of seconds) {
+              const local = minuteStart + second * 1000;
+              if (skip(local, 1)) {
+                continue;
+              }
+              const instant = resolveLocalTime(tz, local);
+              if (isRun(instant)) {
+                return new DateTz(instant, tz, this.precision);
+              }
+            }
+          }
+        }
+      }
+      day += direction;
+    }
+    return null;
+  }
+}
@@ -1,6 +1,7 @@
 import { describe, expect, it } from 'vitest';
 import { DateTz } from './date-tz';
-import { IDateTz } from './idate-tz';
+import { DateTzDiffMode, DateTzDiffUnit, DateTzDisambiguation, DateTzFields, DateTzOffsetConflict, DateTzOverflow, DateTzPrecision, DateTzRelativeCalendarUnit, IDateTz } from './idate-tz';
+import { tzdataVersion } from './tzdata';
 
 const BASE_TIMESTAMP = Date.UTC(2021, 0, 1, 0, 0); // 2021-01-01 00:00 UTC
 
@@ -54,6 +55,35 @@ describe('DateTz', () => {
     expect(dateTz.toString()).toBe('2021-01-01 00:00:00');
   });
 
+  it('keeps seconds and milliseconds when a finer precision is requested', () => {
+    const withSeconds = BASE_TIMESTAMP + 45_000 + 500;
+    const seconds = new DateTz(withSeconds, 'UTC', 'second');
+    expect(seconds.timestamp).toBe(BASE_TIMESTAMP + 45_000);
+    expect(seconds.toString()).toBe('2021-01-01 00:00:45');
+    const millis = new DateTz(withSeconds, 'UTC', 'millisecond');
+    expect(millis.timestamp).toBe(withSeconds);
+    expect(millis.second).toBe(45);
+    expect(millis.millisecond).toBe(500);
+    expect(millis.toString('HH:mm:ss.SSS')).toBe('00:00:45.500');
+    expect(millis.clone().precision).toBe('millisecond');
+  });
+
+  it('applies the global default precision to new instances', () => {
+    const previous = DateTz.defaultPrecision;
+    DateTz.defaultPrecision = 'second';
+    try {
+      const dateTz = new DateTz(BASE_TIMESTAMP + 12_345, 'UTC');
+      expect(dateTz.precision).toBe('second');
+      expect(dateTz.timestamp).toBe(BASE_TIMESTAMP + 12_000);
+    } finally {
+      DateTz.defaultPrecision = previous;
+    }
+  });
+
+  it('rejects unknown precisions', () => {
+    expect(() => new DateTz(BASE_TIMESTAMP, 'UTC', 'hour' as unknown as DateTzPrecision)).toThrow('Invalid precision: hour');
+  });
+
   it('formats using a custom pattern and timezone token', () => {
     const dateTz = new DateTz(BASE_TIMESTAMP, 'Europe/Rome');
     expect(dateTz.toString('DD/MM/YYYY HH:mm tz')).toBe('01/01/2021 01:00 Europe/Rome');
@@ -64,6 +94,85 @@ describe('DateTz', () => {
     expect(dateTz.toString('LM DD, YYYY hh:mm aa')).toBe('January 01, 2021 12:00 am');
   });
 
+  it('formats localized month, weekday and day period names', () => {
+    const dateTz = new DateTz(Date.UTC(2025, 5, 15, 12, 30), 'Europe/Rome');
+    expect(dateTz.toString('EEEE, MMMM DD')).toBe('Sunday, June 15');
+    expect(dateTz.toString('EEE DD MMM')).toBe('Sun 15 Jun');
+    expect(dateTz.toString('EEEEE MMMMM')).toBe('S J');
+    expect(dateTz.toString('EEEE DD MMMM YYYY', 'it')).toBe('domenica 15 giugno 2025');
+    expect(dateTz.toString('LM', 'it')).toBe('Giugno');
+    expect(dateTz.toString('hh:mm aaa', 'ko')).toBe('02:30 오후');
+    expect(dateTz.toString('hh:mm aaa')).toBe('02:30 PM');
+    expect(dateTz.toString('BBBB')).toBe('in the afternoon');
+    // The local date decides the weekday: 23:30 UTC on Sunday is already Monday in Tokyo
+    expect(new DateTz(Date.UTC(2025, 5, 15, 23, 30), 'Asia/Tokyo').toString('EEEE')).toBe('Monday');
+  });
+
+  it('writes digits in the numbering system of the locale', () => {
+    const dateTz = new DateTz(Date.UTC(2025, 5, 15, 9, 5), 'UTC');
+    expect(dateTz.toString('DD/MM/YYYY HH:mm', 'ar-EG-u-nu-arab')).toBe('١٥/٠٦/٢٠٢٥ ٠٩:٠٥');
+    expect(dateTz.toString('DD/MM/YYYY', 'hi-IN-u-nu-deva')).toBe('१५/०६/२०२५');
+    expect(dateTz.toString('ar-EG-u-nu-arab')).toBe('٢٠٢٥-٠٦-١٥ ٠٩:٠٥:٠٠');
+    expect(dateTz.toString('DD/MM/YYYY', 'ar-EG')).toBe('15/06/2025');
+  });
+
+  it('resolves locale presets through Intl.DateTimeFormat', () => {
+    const dateTz = new DateTz(Date.UTC(2025, 5, 15, 7, 5), 'America/New_York');
+    expect(dateTz.toString('LT', 'en-US')).toBe('3:05 AM');
+    expect(dateTz.toString('LTS', 'en-US')).toBe('3:05:00 AM');
+    expect(dateTz.toString('LT', 'it')).toBe('3:05');
+    expect(dateTz.toString('L', 'en-US')).toBe('06/15/2025');
+    expect(dateTz.toString('L', 'de')).toBe('15.06.2025');
+    expect(dateTz.toString('LL', 'en-US')).toBe('June 15, 2025');
+    expect(dateTz.toString('LLL', 'it')).toBe('15 giugno 2025 alle ore 3:05');
+    expect(dateTz.toString('LLLL', 'en-US')).toBe('Sunday, June 15, 2025 at 3:05 AM');
+    expect(dateTz.toString('L LT', 'en-GB')).toBe('15/06/2025 3:05');
+  });
+
+  it('formats offsets, zone abbreviations and calendar numbers', () => {
+    const winter = new DateTz(Date.UTC(2025, 1, 3, 8, 5, 7, 250), 'Europe/Rome', 'millisecond');
+    expect(winter.toString('YYYY-MM-DDTHH:mm:ss.SSSZ')).toBe('2025-02-03T09:05:07.250+01:00');
+    expect(winter.toString('ZZ ZZZZ')).toBe('+0100 CET');
+    expect(winter.toString('D/M H:m h S SS')).toBe('3/2 9:5 9 2 25');
+    expect(winter.toString('Do MMMM, [day] DDD, DDDD')).toBe('3rd February, day 34, 034');
+    expect(winter.toString('GGGG-[W]WW Q')).toBe('2025-W06 1');
+
+    const summer = new DateTz(Date.UTC(2025, 6, 22, 10, 0), 'Europe/Rome');
+    expect(summer.toString('Z ZZZZ Q')).toBe('+02:00 CEST 3');
+    expect(new DateTz(Date.UTC(2025, 6, 22, 10, 0), 'UTC').toString('ZZZZZ')).toBe('Z');
+    expect(summer.toString('ZZZZZ')).toBe('+02:00');
+    expect(new DateTz(Date.UTC(2025, 0, 1), 'America/New_York').toString('ZZ')).toBe('-0500');
+
+    // ISO weeks belong to the year that holds their Thursday
+    expect(new DateTz(Date.UTC(2024, 11, 30), 'UTC').toString('GGGG-[W]W GG')).toBe('2025-W1 25');
+    expect(new DateTz(Date.UTC(2027, 0, 1), 'UTC').toString('GGGG-[W]WW DDD')).toBe('2026-W53 1');
+    expect(['1', '2', '11', '12', '13', '21', '22', '23'].map(day => new DateTz(Date.UTC(2025, 0, Number(day)), 'UTC').toString('Do')))
+      .toEqual(['1st', '2nd', '11th', '12th', '13th', '21st', '22nd', '23rd']);
+    // Suffixes follow the locale's language, and languages without one print the bare number
+    expect(new DateTz(Date.UTC(2025, 0, 1), 'UTC').toString('Do MMMM', 'fr')).toBe('1er janvier');
+    expect(new DateTz(Date.UTC(2025, 0, 21), 'UTC').toString('Do', 'fr')).toBe('21e');
+    expect(new DateTz(Date.UTC(2025, 0, 21), 'UTC').toString('Do', 'de')).toBe('21.');
+    expect(new DateTz(Date.UTC(2025, 0, 21), 'UTC').toString('Do', 'en-GB')).toBe('21st');
+    expect(new DateTz(Date.UTC(2025, 0, 21), 'UTC').toString('Do', 'it')).toBe('21');
+    expect(new DateTz(Date.UTC(2025, 0, 21), 'UTC').toString('Do', 'ar-EG-u-nu-arab')).toBe('٢١');
+  });
+
+  it('keeps text in square brackets as written', () => {
+    const dateTz = new DateTz(Date.UTC(2025, 5, 15, 9, 30), 'Europe/Rome');
+    expect(dateTz.toString('[Today is] YYYY-MM-DD')).toBe('Today is 2025-06-15');
+    expect(dateTz.toString('YYYY-MM-DD[ @ ]HH:mm')).toBe('2025-06-15 @ 11:30');
+    expect(dateTz.toString('[[]YYYY[]]')).toBe('[2025]');
+    expect(dateTz.toString('[]HH[h]mm [unclosed')).toBe('11h30 [unclosed');
+    // An unterminated bracket keeps the rest of the pattern as written, tokens included
+    expect(dateTz.toString('HH:mm [unterminated YYYY')).toBe('11:30 [unterminated YYYY');
+    expect(dateTz.toString('HH:mm [Uhr]')).toBe('11:30 Uhr');
+    expect(dateTz.toString('HH:mm Uhr', 'de')).toBe('11:30 U11r');
+    expect(dateTz.toString('L [at] LT', 'en-GB')).toBe('15/06/2025 at 11:30');
+    // Locales that contain token letters are still read as locales
+    expect(dateTz.toString('de-DE')).toBe('2025-06-15 11:30:00');
+    expect(dateTz.toString('LT')).toBe('11:30 AM');
+  });
+
   it('retains chaining behaviour for add', () => {
     const dateTz = new DateTz(BASE_TIMESTAMP, 'UTC');
     const result = dateTz.add(1, 'day');
@@ -92,6 +201,60 @@ describe('DateTz', () => {
     expect(dateTz.toString()).toBe('2023-02-15 09:45:00');
   });
 
+  it('sets and adds in the local wall-clock time of the timezone', () => {
+    const rome = new DateTz(BASE_TIMESTAMP, 'Europe/Rome');
+    rome.set(9, 'hour');
+    expect(rome.toString('YYYY-MM-DD HH:mm')).toBe('2021-01-01 09:00');
+    expect(rome.timestamp).toBe(Date.UTC(2021, 0, 1, 8, 0));
+
+    const beforeDst = DateTz.parse('2025-03-29 09:00:00', 'YYYY-MM-DD HH:mm:ss', 'Europe/Rome');
+    beforeDst.add(1, 'day');
+    expect(beforeDst.toString('YYYY-MM-DD HH:mm')).toBe('2025-03-30 09:00');
+    expect(beforeDst.timestamp - Date.UTC(2025, 2, 29, 8, 0)).toBe(23 * 60 * 60 * 1000);
+    beforeDst.add(1, 'hour');
+    expect(beforeDst.toString('HH:mm')).toBe('10:00');
+    beforeDst.subtract(1, 'week');
+    expect(beforeDst.toString('YYYY-MM-DD HH:mm')).toBe('2025-03-23 10:00');
+    beforeDst.add(1, 'month');
+    expect(beforeDst.toString('YYYY-MM-DD HH:mm')).toBe('2025-04-23 10:00');
+  });
+
+  it('sets several fields atomically with the object form', () => {
+    const date = DateTz.parse('2025-01-31 08:00:00', 'YYYY-MM-DD HH:mm:ss', 'America/New_York');
+    date.set({ month: 4, day: 30, hour: 17, minute: 45 });
+    expect(date.toString('YYYY-MM-DD HH:mm')).toBe('2025-04-30 17:45');
+    const copy = date.with({ year: 2026, month: 2, day: 28 });
+    expect(copy.toString('YYYY-MM-DD HH:mm')).toBe('2026-02-28 17:45');
+    expect(date.toString('YYYY-MM-DD')).toBe('2025-04-30');
+    expect(() => date.set({ week: 2 } as unknown as DateTzFields)).toThrow('Unsupported unit: week');
+    expect(() => date.set({ month: 3, day: 9, hour: 2, minute: 30 }, { disambiguation: 'reject' }))
+      .toThrow('Local time 2025-03-09 02:30:00 does not exist in America/New_York');
+  });
+
+  it('constrains month-end overflow by default in every calendar operation', () => {
+    const endOfJanuary = () => DateTz.parse('2025-01-31 10:00:00', 'YYYY-MM-DD HH:mm:ss', 'UTC');
+    expect(endOfJanuary().add(1, 'month').toString()).toBe('2025-02-28 10:00:00');
+    expect(endOfJanuary().plus({ months: 1 }).toString()).toBe('2025-02-28 10:00:00');
+    expect(endOfJanuary().minus({ months: -1 }).toString()).toBe('2025-02-28 10:00:00');
+    expect(endOfJanuary().subtract(-1, 'month').toString()).toBe('2025-02-28 10:00:00');
+    expect(endOfJanuary().set(2, 'month').toString()).toBe('2025-02-28 10:00:00');
+    expect(endOfJanuary().set(25, 'hour').toString()).toBe('2025-01-31 23:00:00');
+    expect(DateTz.parse('2024-02-29 10:00:00', 'YYYY-MM-DD HH:mm:ss', 'UTC').add(1, 'year').toString()).toBe('2025-02-28 10:00:00');
+  });
+
+  it('applies the overflow and reject policies', () => {
+    const endOfJanuary = () => DateTz.parse('2025-01-31 10:00:00', 'YYYY-MM-DD HH:mm:ss', 'UTC');
+    expect(endOfJanuary().add(1, 'month', { overflow: 'overflow' }).toString()).toBe('2025-03-03 10:00:00');
+    expect(endOfJanuary().plus({ months: 1 }, { overflow: 'overflow' }).toString()).toBe('2025-03-03 10:00:00');
+    expect(endOfJanuary().set({ month: 2, day: 30 }, { overflow: 'overflow' }).toString()).toBe('2025-03-02 10:00:00');
+    expect(endOfJanuary().set(25, 'hour', { overflow: 'overflow' }).toString()).toBe('2025-02-01 01:00:00');
+    expect(() => endOfJanuary().add(1, 'month', { overflow: 'reject' })).toThrow('Value 31 is out of range for day (1-28)');
+    expect(() => endOfJanuary().subtract(2, 'month', { overflow: 'reject' })).toThrow('Value 31 is out of range for day (1-30)');
+    expect(() => endOfJanuary().set(13, 'month', { overflow: 'reject' })).toThrow('Value 13 is out of range for month (1-12)');
+    expect(endOfJanuary().add(2, 'month', { overflow: 'reject' }).toString()).toBe('2025-03-31 10:00:00');
+    expect(() => endOfJanuary().add(1, 'month', { overflow: 'wrap' as unknown as DateTzOverflow })).toThrow('Invalid overflow: wrap');
+  });
+
   it('handles leap year arithmetic when adding days', () => {
     const leap = new DateTz(Date.UTC(2020, 1, 28, 0, 0), 'UTC');
     leap.add(1, 'day');
@@ -124,6 +287,49 @@ describe('DateTz', () => {
     expect(parsed.isDst).toBe(true);
   });
 
+  it('applies the requested disambiguation when parsing', () => {
+    const pattern = 'YYYY-MM-DD HH:mm:ss';
+    const gap = '2021-03-14 02:30:00';
+    const overlap = '2021-11-07 01:30:00';
+    const tz = 'America/New_York';
+    expect(DateTz.parse(gap, pattern, tz, { disambiguation: 'compatible' }).timestamp).toBe(Date.UTC(2021, 2, 14, 7, 30));
+    expect(DateTz.parse(gap, pattern, tz, { disambiguation: 'later' }).timestamp).toBe(Date.UTC(2021, 2, 14, 7, 30));
+    expect(DateTz.parse(gap, pattern, tz, { disambiguation: 'earlier' }).timestamp).toBe(Date.UTC(2021, 2, 14, 6, 30));
+    expect(DateTz.parse(overlap, pattern, tz, { disambiguation: 'earlier' }).timestamp).toBe(Date.UTC(2021, 10, 7, 5, 30));
+    expect(DateTz.parse(overlap, pattern, tz, { disambiguation: 'later' }).timestamp).toBe(Date.UTC(2021, 10, 7, 6, 30));
+    expect(() => DateTz.parse(gap, pattern, tz, { disambiguation: 'reject' }))
+      .toThrow('Local time 2021-03-14 02:30:00 does not exist in America/New_York');
+    expect(() => DateTz.parse(overlap, pattern, tz, { disambiguation: 'reject' }))
+      .toThrow('Local time 2021-11-07 01:30:00 is ambiguous in America/New_York');
+    expect(DateTz.parse('2021-11-07 03:30:00', pattern, tz, { disambiguation: 'reject' }).timestamp).toBe(Date.UTC(2021, 10, 7, 8, 30));
+    expect(() => DateTz.parse(gap, pattern, tz, { disambiguation: 'nearest' as unknown as DateTzDisambiguation })).toThrow('Invalid disambiguation: nearest');
+  });
+
+  it('detects skipped and repeated local times', () => {
+    expect(DateTz.isSkippedLocal('2025-03-30 02:30:00', 'YYYY-MM-DD HH:mm:ss', 'Europe/Rome')).toBe(true);
+    expect(DateTz.isAmbiguousLocal('2025-03-30 02:30:00', 'YYYY-MM-DD HH:mm:ss', 'Europe/Rome')).toBe(false);
+    expect(DateTz.isAmbiguousLocal('2025-10-26 02:30:00', 'YYYY-MM-DD HH:mm:ss', 'Europe/Rome')).toBe(true);
+    expect(DateTz.isSkippedLocal('2025-10-26 02:30:00', 'YYYY-MM-DD HH:mm:ss', 'Europe/Rome')).toBe(false);
+    expect(DateTz.isAmbiguousLocal('2025-10-26 03:30:00', 'YYYY-MM-DD HH:mm:ss', 'Europe/Rome')).toBe(false);
+    expect(DateTz.isAmbiguousLocal('2025-10-26 02:30:00', 'YYYY-MM-DD HH:mm:ss', 'UTC')).toBe(false);
+  });
+
+  it('disambiguates startOf and calendar arithmetic', () => {
+    // Santiago springs forward at midnight, so the day starts at 01:00
+    const santiago = new DateTz(Date.UTC(2025, 8, 7, 15, 0), 'America/Santiago');
+    expect(santiago.clone().startOf('day').toString('YYYY-MM-DD HH:mm')).toBe('2025-09-07 01:00');
+    expect(santiago.clone().startOf('day', { disambiguation: 'earlier' }).toString('YYYY-MM-DD HH:mm')).toBe('2025-09-06 23:00');
+    expect(() => santiago.clone().startOf('day', { disambiguation: 'reject' })).toThrow('does not exist in America/Santiago');
+
+    const beforeOverlap = DateTz.parse('2025-09-26 02:30:00', 'YYYY-MM-DD HH:mm:ss', 'Europe/Rome');
+    expect(beforeOverlap.clone().plus({ month: 1 }).timestamp).toBe(Date.UTC(2025, 9, 26, 0, 30));
+    expect(beforeOverlap.clone().plus({ month: 1 }, { disambiguation: 'later' }).timestamp).toBe(Date.UTC(2025, 9, 26, 1, 30));
+    expect(() => beforeOverlap.clone().minus({ month: -1 }, { disambiguation: 'reject' })).toThrow('is ambiguous in Europe/Rome');
+    const afterGap = DateTz.parse('2025-04-30 02:30:00', 'YYYY-MM-DD HH:mm:ss', 'Europe/Rome');
+    expect(afterGap.clone().subtract(1, 'month').toString('YYYY-MM-DD HH:mm')).toBe('2025-03-30 03:30');
+    expect(afterGap.clone().subtract(1, 'month', { disambiguation: 'earlier' }).toString('YYYY-MM-DD HH:mm')).toBe('2025-03-30 01:30');
+  });
+
   it('throws when parsing a 12-hour pattern without an AM/PM marker', () => {
     expect(() => DateTz.parse('2021-01-05 06:30', 'YYYY-MM-DD hh:mm', 'UTC'))
       .toThrow('AM/PM marker (aa or AA) is required when using 12-hour format (hh)');
@@ -134,6 +340,142 @@ describe('DateTz', () => {
       .toThrow('Invalid timezone: Mars/Phobos');
   });
 
+  it('handles timestamps before the Unix epoch', () => {
+    const birthday = new DateTz(Date.UTC(1965, 4, 3, 10, 0), 'Europe/Rome');
+    expect(birthday.toString()).toBe('1965-05-03 11:00:00');
+    expect(birthday.dayOfWeek).toBe(1);
+    const lastMinute = new DateTz(Date.UTC(1969, 11, 31, 23, 59), 'UTC');
+    expect(lastMinute.toString()).toBe('1969-12-31 23:59:00');
+    expect([lastMinute.year, lastMinute.month, lastMinute.day, lastMinute.hour, lastMinute.minute]).toEqual([1969, 11, 31, 23, 59]);
+    lastMinute.add(1, 'minute');
+    expect(lastMinute.timestamp).toBe(0);
+  });
+
+  it('parses years before 1970', () => {
+    const parsed = DateTz.parse('1965-05-03 11:00:00', 'YYYY-MM-DD HH:mm:ss', 'Europe/Rome');
+    expect(parsed.timestamp).toBe(Date.UTC(1965, 4, 3, 10, 0));
+    const leap = DateTz.parse('1900-03-01 00:00:00', 'YYYY-MM-DD HH:mm:ss', 'UTC');
+    expect(leap.timestamp).toBe(Date.UTC(1900, 2, 1));
+  });
+
+  it('formats and parses expanded years across the full date range', () => {
+    const earliest = new DateTz(-8.64e15, 'UTC');
+    expect(earliest.toString()).toBe('-271821-04-20 00:00:00');
+    const latest = new DateTz(8.64e15, 'UTC');
+    expect(latest.toString()).toBe('+275760-09-13 00:00:00');
+    const future = DateTz.parse('+012345-06-15 08:30:00', 'YYYY-MM-DD HH:mm:ss', 'UTC');
+    expect(future.year).toBe(12345);
+    expect(future.toString()).toBe('+012345-06-15 08:30:00');
+  });
+
+  it('uses astronomical numbering for year 0 and BC years', () => {
+    const idesOfMarch = DateTz.parse('-000044-03-15 12:00:00', 'YYYY-MM-DD HH:mm:ss', 'UTC');
+    expect(idesOfMarch.year).toBe(-44);
+    expect(idesOfMarch.timestamp).toBe(new Date('-000044-03-15T12:00:00Z').getTime());
+    const yearZero = new DateTz(BASE_TIMESTAMP, 'UTC').set(0, 'year');
+    expect(yearZero.toString('YYYY-MM-DD')).toBe('0000-01-01');
+    yearZero.subtract(1, 'day');
+    expect(yearZero.toString('YYYY-MM-DD')).toBe('-000001-12-31');
+  });
+
+  it('rejects timestamps outside the supported range', () => {
+    expect(() => new DateTz(8.64e15 + 60_000, 'UTC')).toThrow('Invalid timestamp: 8640000000060000');
+    expect(() => new DateTz(Number.NaN, 'UTC')).toThrow('Invalid timestamp: NaN');
+  });
+
+  it('parses ISO 8601 date-times with offsets and fractional seconds', () => {
+    const parsed = DateTz.fromISO('2025-03-10T14:30:15.250+01:00', 'Europe/Rome', { precision: 'millisecond' });
+    expect(parsed.timestamp).toBe(Date.UTC(2025, 2, 10, 13, 30, 15, 250));
+    expect(parsed.timezone).toBe('Europe/Rome');
+    expect(parsed.toString('HH:mm:ss.SSS')).toBe('14:30:15.250');
+    const utc = DateTz.fromISO('2025-03-10T13:30Z');
+    expect(utc.timestamp).toBe(Date.UTC(2025, 2, 10, 13, 30));
+    expect(utc.timezone).toBe('UTC');
+  });
+
+  it('derives the timezone from the ISO offset when none is given', () => {
+    expect(DateTz.fromISO('2025-03-10T14:30-05:00').timezone).toBe('Etc/GMT+5');
+    expect(DateTz.fromISO('2025-03-10T14:30+00:00').timezone).toBe('UTC');
+    // Offsets that are not whole hours keep the instant and fall back to UTC
+    const kolkata = DateTz.fromISO('2025-03-10T14:30+05:30');
+    expect(kolkata.timezone).toBe('UTC');
+    expect(kolkata.timestamp).toBe(Date.UTC(2025, 2, 10, 9, 0));
+    const newfoundland = DateTz.fromISO('2025-03-10T14:30:15.250-0330', undefined, { precision: 'millisecond' });
+    expect(newfoundland.timezone).toBe('UTC');
+    expect(newfoundland.timestamp).toBe(Date.UTC(2025, 2, 10, 18, 0, 15, 250));
+    expect(DateTz.fromISO('2025-03-10T14:30:15.250-05:30', undefined, { precision: 'millisecond' }).timestamp).toBe(Date.UTC(2025, 2, 10, 20, 0, 15, 250));
+    expect(DateTz.fromISO('2025-03-10T14:30+05:45').timestamp).toBe(Date.UTC(2025, 2, 10, 8, 45));
+    expect(() => DateTz.fromISO('2025-03-10T14:30+05:30[+05:30]')).toThrow('Invalid timezone: +05:30');
+    expect(DateTz.fromISO('2025-03-10T14:30+05:30', 'Asia/Kolkata').toString('HH:mm')).toBe('14:30');
+  });
+
+  it('parses basic, week, ordinal and reduced precision ISO forms', () => {
+    const expected = Date.UTC(2025, 2, 10);
+    expect(DateTz.fromISO('20250310T1430', 'Europe/Rome').toString('YYYY-MM-DD HH:mm')).toBe('2025-03-10 14:30');
+    expect(DateTz.fromISO('2025-W11-1').timestamp).toBe(expected);
+    expect(DateTz.fromISO('2025W111').timestamp).toBe(expected);
+    expect(DateTz.fromISO('2025-069').timestamp).toBe(expected);
+    expect(DateTz.fromISO('2025069').timestamp).toBe(expected);
+    expect(DateTz.fromISO('2025-03').timestamp).toBe(Date.UTC(2025, 2, 1));
+    expect(DateTz.fromISO('2025-03-10T14.5Z').timestamp).toBe(Date.UTC(2025, 2, 10, 14, 30));
+    expect(DateTz.fromISO('2025-03-10T24:00Z').timestamp).toBe(Date.UTC(2025, 2, 11));
+    expect(DateTz.fromISO('2020-W53-7').timestamp).toBe(Date.UTC(2021, 0, 3));
+    expect(DateTz.fromISO('-000044-03-15').year).toBe(-44);
+  });
+
+  it('resolves ISO strings without an offset in the requested timezone', () => {
+    const local = DateTz.fromISO('2025-06-15T09:30', 'Europe/Rome');
+    expect(local.timestamp).toBe(Date.UTC(2025, 5, 15, 7, 30));
+    const gap = DateTz.fromISO('2025-03-30T02:30', 'Europe/Rome');
+    expect(gap.toString('HH:mm')).toBe('03:30');
+  });
+
+  it('rejects invalid ISO 8601 strings', () => {
+    for (const input of ['2025-13-01', '2025-02-29', '2025-366', '2021-W53', '2025-03-10T25:00', '2025-03-10T24:30', '2025/03/10', '-000000-01-01']) {
+      expect(() => DateTz.fromISO(input)).toThrow(`Invalid ISO 8601 string: ${input}`);
+    }
+    expect(() => DateTz.fromISO('2025-03-10', 'Mars/Phobos')).toThrow('Invalid timezone: Mars/Phobos');
+  });
+
+  it('formats ISO strings with the local offset and bracketed zone', () => {
+    const rome = new DateTz(Date.UTC(2025, 2, 30, 1, 15), 'Europe/Rome');
+    expect(rome.toISO()).toBe('2025-03-30T01:15:00.000Z');
+    expect(rome.toISO({ offset: true, zone: true })).toBe('2025-03-30T03:15:00+02:00[Europe/Rome]');
+    expect(rome.toISO({ offset: true, precision: 'minute' })).toBe('2025-03-30T03:15+02:00');
+    expect(rome.toISO({ zone: true })).toBe('2025-03-30T01:15:00Z[Europe/Rome]');
+    const stJohns = new DateTz(Date.UTC(2025, 0, 15, 12, 0, 5, 7), 'America/St_Johns', 'millisecond');
+    expect(stJohns.toISO({ offset: true })).toBe('2025-01-15T08:30:05.007-03:30');
+  });
+
+  it('round-trips IXDTF strings through fromISO', () => {
+    const original = new DateTz(Date.UTC(2025, 9, 26, 0, 30), 'Europe/Rome');
+    const serialized = original.toISO({ offset: true, zone: true });
+    const restored = DateTz.fromISO(serialized);
+    expect(restored.timestamp).toBe(original.timestamp);
+    expect(restored.timezone).toBe('Europe/Rome');
+    expect(DateTz.fromISO('2025-03-30T01:15:00Z[Europe/Rome]').timezone).toBe('Europe/Rome');
+    expect(DateTz.fromISO('2025-03-30T03:15[Europe/Rome]').timestamp).toBe(Date.UTC(2025, 2, 30, 1, 15));
+  });
+
+  it('resolves conflicts between the offset and the bracketed zone', () => {
+    const input = '2025-03-30T03:15:00+01:00[Europe/Rome]';
+    expect(() => DateTz.fromISO(input)).toThrow('Offset +01:00 does not match timezone Europe/Rome (+02:00)');
+    const byOffset = DateTz.fromISO(input, undefined, { offsetConflict: 'offset' });
+    expect(byOffset.timestamp).toBe(Date.UTC(2025, 2, 30, 2, 15));
+    expect(byOffset.timezone).toBe('Europe/Rome');
+    const byZone = DateTz.fromISO(input, undefined, { offsetConflict: 'zone' });
+    expect(byZone.timestamp).toBe(Date.UTC(2025, 2, 30, 1, 15));
+    expect(() => DateTz.fromISO(input, undefined, { offsetConflict: 'bogus' as unknown as DateTzOffsetConflict }))
+      .toThrow('Invalid offset conflict: bogus');
+  });
+
+  it('validates RFC 9557 annotations', () => {
+    expect(DateTz.fromISO('2025-03-30T03:15+02:00[!Europe/Rome][u-ca=iso8601]').timezone).toBe('Europe/Rome');
+    expect(() => DateTz.fromISO('2025-03-30T03:15+02:00[Mars/Base]')).toThrow('Invalid timezone: Mars/Base');
+    expect(() => DateTz.fromISO('2025-03-30T03:15+02:00[!u-ca=hebrew]')).toThrow('Invalid ISO 8601 string');
+    expect(() => DateTz.fromISO('2025-03-30T03:15+02:00[u-ca=iso8601][Europe/Rome]')).toThrow('Invalid ISO 8601 string');
+  });
+
   it('clones to a different timezone without mutating the original', () => {
     const original = new DateTz(BASE_TIMESTAMP, 'UTC');
     const clone = original.cloneToTimezone('Europe/Rome');
@@ -190,6 +532,66 @@ describe('DateTz', () => {
     expect(accra.isDst).toBe(false);
   });
 
+  it('follows historical offset changes from the tz database', () => {
+    expect(new DateTz(Date.UTC(2010, 0, 15, 12, 0), 'Europe/Moscow').hour).toBe(15);
+    expect(new DateTz(Date.UTC(2012, 0, 15, 12, 0), 'Europe/Moscow').hour).toBe(16);
+    expect(new DateTz(Date.UTC(2012, 0, 15, 12, 0), 'Europe/Moscow').isDst).toBe(false);
+    expect(new DateTz(Date.UTC(2015, 0, 15, 12, 0), 'Europe/Moscow').hour).toBe(15);
+    expect(new DateTz(Date.UTC(1883, 10, 18, 16, 0), 'America/New_York').toString('HH:mm')).toBe('11:03');
+    expect(new DateTz(Date.UTC(1883, 10, 18, 18, 0), 'America/New_York').toString('HH:mm')).toBe('13:00');
+  });
+
+  it('applies Morocco\'s Ramadan offset changes', () => {
+    const beforeRamadan = new DateTz(Date.UTC(2025, 1, 20, 12, 0), 'Africa/Casablanca');
+    const duringRamadan = new DateTz(Date.UTC(2025, 2, 10, 12, 0), 'Africa/Casablanca');
+    const afterRamadan = new DateTz(Date.UTC(2025, 3, 10, 12, 0), 'Africa/Casablanca');
+    expect(beforeRamadan.hour).toBe(13);
+    expect(duringRamadan.hour).toBe(12);
+    expect(afterRamadan.hour).toBe(13);
+    expect(DateTz.parse('2025-03-10 12:00:00', 'YYYY-MM-DD HH:mm:ss', 'Africa/Casablanca').timestamp).toBe(Date.UTC(2025, 2, 10, 12, 0));
+  });
+
+  it('extends the tz database with its trailing rule for future years', () => {
+    expect(new DateTz(Date.UTC(2150, 6, 1, 12, 0), 'Europe/Rome').hour).toBe(14);
+    expect(new DateTz(Date.UTC(2150, 0, 1, 12, 0), 'Europe/Rome').hour).toBe(13);
+    expect(new DateTz(Date.UTC(2150, 0, 1, 12, 0), 'Australia/Sydney').isDst).toBe(true);
+  });
+
+  it('lists offset transitions within a range', () => {
+    const transitions = DateTz.transitions('Europe/Rome', Date.UTC(2025, 0, 1), Date.UTC(2026, 0, 1));
+    expect(transitions).toEqual([
+      { timestamp: Date.UTC(2025, 2, 30, 1, 0), offsetBefore: 3600, offsetAfter: 7200, isDst: true, direction: 'gap' },
+      { timestamp: Date.UTC(2025, 9, 26, 1, 0), offsetBefore: 7200, offsetAfter: 3600, isDst: false, direction: 'overlap' }
+    ]);
+    expect(DateTz.transitions('Asia/Tokyo', Date.UTC(2025, 0, 1), Date.UTC(2026, 0, 1))).toEqual([]);
+    expect(DateTz.transitionsInYear('America/New_York', 2100).map(t => t.direction)).toEqual(['gap', 'overlap']);
+    const moscow = DateTz.transitionsInYear('Europe/Moscow', 2014);
+    expect(moscow).toEqual([
+      { timestamp: Date.UTC(2014, 9, 25, 22, 0), offsetBefore: 14400, offsetAfter: 10800, isDst: false, direction: 'overlap' }
+    ]);
+  });
+
+  it('finds the next and previous transitions from an instant', () => {
+    const summer = new DateTz(Date.UTC(2025, 6, 1, 12, 0), 'America/New_York');
+    expect(summer.nextTransition()).toEqual({
+      timestamp: Date.UTC(2025, 10, 2, 6, 0), offsetBefore: -14400, offsetAfter: -18000, isDst: false, direction: 'overlap'
+    });
+    expect(summer.previousTransition()).toEqual({
+      timestamp: Date.UTC(2025, 2, 9, 7, 0), offsetBefore: -18000, offsetAfter: -14400, isDst: true, direction: 'gap'
+    });
+    const atTransition = new DateTz(Date.UTC(2025, 2, 9, 7, 0), 'America/New_York');
+    expect(atTransition.previousTransition()?.timestamp).toBe(Date.UTC(2025, 2, 9, 7, 0));
+    expect(atTransition.nextTransition()?.timestamp).toBe(Date.UTC(2025, 10, 2, 6, 0));
+    const tokyo = new DateTz(Date.UTC(2025, 0, 1), 'Asia/Tokyo');
+    expect(tokyo.nextTransition()).toBeNull();
+    expect(tokyo.previousTransition()?.timestamp).toBe(Date.UTC(1951, 8, 8, 15, 0));
+    expect(new DateTz(0, 'UTC').previousTransition()).toBeNull();
+  });
+
+  it('exposes the bundled tz database version', () => {
+    expect(tzdataVersion).toMatch(/^\d{4}[a-z]$/);
+  });
+
   it('instantiates via now with the requested timezone', () => {
     const current = DateTz.now('Europe/Rome');
     expect(current.timezone).toBe('Europe/Rome');
@@ -229,6 +631,44 @@ describe('DateTz', () => {
     expect(dateTz.toString()).toBe('2020-12-27 03:15:00');
   });
 
+  it('adds seconds and milliseconds according to the precision', () => {
+    const millis = new DateTz(BASE_TIMESTAMP, 'UTC', 'millisecond');
+    millis.add(1500, 'millisecond').plus({ seconds: 2, milliseconds: 250 });
+    expect(millis.toString('HH:mm:ss.SSS')).toBe('00:00:03.750');
+    millis.set(59, 'second').minus({ millisecond: 750 });
+    expect(millis.toString('HH:mm:ss.SSS')).toBe('00:00:59.000');
+    const minutes = new DateTz(BASE_TIMESTAMP, 'UTC');
+    minutes.add(90, 'second');
+    expect(minutes.toString()).toBe('2021-01-01 00:01:00');
+  });
+
+  it('computes differences at the instance precision', () => {
+    const start = new DateTz(BASE_TIMESTAMP, 'UTC', 'millisecond');
+    const end = new DateTz(BASE_TIMESTAMP + 61_250, 'UTC', 'millisecond');
+    expect(end.diff(start)).toBe(61_250);
+    expect(end.diff(start, 'second')).toBe(61);
+    const coarse = new DateTz(BASE_TIMESTAMP + 61_250, 'UTC', 'second');
+    expect(coarse.diff(start)).toBe(61_000);
+  });
+
+  it('moves to boundaries using the instance precision', () => {
+    const dateTz = new DateTz(Date.UTC(2021, 5, 16, 10, 45, 30, 125), 'UTC', 'millisecond');
+    dateTz.endOf('day');
+    expect(dateTz.toString('YYYY-MM-DD HH:mm:ss.SSS')).toBe('2021-06-16 23:59:59.999');
+    dateTz.startOf('minute');
+    expect(dateTz.toString('YYYY-MM-DD HH:mm:ss.SSS')).toBe('2021-06-16 23:59:00.000');
+    const seconds = new DateTz(Date.UTC(2021, 5, 16, 10, 45, 30), 'UTC', 'second');
+    expect(seconds.endOf('hour').toString()).toBe('2021-06-16 10:59:59');
+  });
+
+  it('parses seconds and milliseconds with the requested precision', () => {
+    const parsed = DateTz.parse('2021-01-05 18:30:15.250', 'YYYY-MM-DD HH:mm:ss.SSS', 'Europe/Rome', { precision: 'millisecond' });
+    expect(parsed.precision).toBe('millisecond');
+    expect(parsed.timestamp).toBe(Date.UTC(2021, 0, 5, 17, 30, 15, 250));
+    const truncated = DateTz.parse('2021-01-05 18:30:15', 'YYYY-MM-DD HH:mm:ss', 'UTC');
+    expect(truncated.timestamp).toBe(Date.UTC(2021, 0, 5, 18, 30));
+  });
+
   it('computes differences across granularities', () => {
     const start = new DateTz(BASE_TIMESTAMP, 'UTC');
     const end = new DateTz(Date.UTC(2021, 0, 3, 3, 0), 'UTC');
@@ -240,6 +680,28 @@ describe('DateTz', () => {
     expect(march.diff(start, 'year', true)).toBeCloseTo(0.1667, 4);
   });
 
+  it('breaks differences down into calendar and clock units', () => {
+    const hired = DateTz.fromISO('2022-01-31T09:00', 'Europe/Rome');
+    const today = DateTz.fromISO('2025-04-11T17:30', 'Europe/Rome');
+    expect(today.diffBreakdown(hired)).toEqual({ years: 3, months: 2, days: 11 });
+    expect(hired.diffBreakdown(today)).toEqual({ years: -3, months: -2, days: -11 });
+    expect(today.diffBreakdown(hired, ['hour', 'month'])).toEqual({ months: 38, hours: 272 });
+    expect(today.diffBreakdown(hired, ['year', 'week', 'day', 'hour', 'minute'])).toEqual({ years: 3, weeks: 10, days: 0, hours: 8, minutes: 30 });
+
+    // Month ends stay anchored to the earlier date instead of drifting with each month
+    const endOfJanuary = new DateTz(Date.UTC(2025, 0, 31), 'UTC');
+    expect(new DateTz(Date.UTC(2025, 1, 28), 'UTC').diffBreakdown(endOfJanuary)).toEqual({ years: 0, months: 1, days: 0 });
+    expect(new DateTz(Date.UTC(2025, 2, 28), 'UTC').diffBreakdown(endOfJanuary)).toEqual({ years: 0, months: 1, days: 28 });
+    expect(new DateTz(Date.UTC(2025, 2, 31), 'UTC').diffBreakdown(endOfJanuary)).toEqual({ years: 0, months: 2, days: 0 });
+    expect(new DateTz(Date.UTC(2025, 2, 31), 'UTC').diff(endOfJanuary, 'month')).toBe(2);
+
+    // Days are local calendar days, so the 23-hour spring-forward day still counts as one
+    const saturdayNoon = DateTz.fromISO('2025-03-29T12:00', 'Europe/Rome');
+    const sundayNoon = DateTz.fromISO('2025-03-30T12:00', 'Europe/Rome');
+    expect(sundayNoon.diffBreakdown(saturdayNoon, ['day', 'hour'])).toEqual({ days: 1, hours: 0 });
+    expect(() => today.diffBreakdown(hired, ['fortnight' as unknown as DateTzDiffUnit])).toThrow('Unsupported unit: fortnight');
+  });
+
   it('throws when diffing across timezones', () => {
     const utc = new DateTz(BASE_TIMESTAMP, 'UTC');
     const rome = new DateTz(BASE_TIMESTAMP, 'Europe/Rome');
@@ -293,6 +755,108 @@ describe('DateTz', () => {
     expect(start.isBetween(start, end, 'minute', '[]')).toBe(true);
   });
 
+  it('diffs days and weeks on the local calendar across DST', () => {
+    const saturday = DateTz.fromISO('2025-03-08T00:00', 'America/New_York');
+    const sunday = DateTz.fromISO('2025-03-09T00:00', 'America/New_York');
+    const monday = DateTz.fromISO('2025-03-10T00:00', 'America/New_York');
+    expect(monday.diff(sunday, 'day')).toBe(1);
+    expect(monday.diff(sunday, 'day', false, 'elapsed')).toBe(0);
+    expect(monday.diff(sunday, 'hour')).toBe(23);
+    expect(monday.diff(saturday, 'day', true)).toBe(2);
+    expect(monday.diff(saturday, 'day', true, 'elapsed')).toBeCloseTo(47 / 24, 6);
+    expect(sunday.diff(monday, 'day')).toBe(-1);
+
+    const nextSaturday = DateTz.fromISO('2025-03-15T00:00', 'America/New_York');
+    expect(nextSaturday.diff(saturday, 'week')).toBe(1);
+    expect(nextSaturday.diff(saturday, 'week', false, 'elapsed')).toBe(0);
+    expect(() => monday.diff(sunday, 'day', false, 'wall' as unknown as DateTzDiffMode)).toThrow('Invalid diff mode: wall');
+  });
+
+  it('compares days and hours on the local calendar across DST', () => {
+    const beforeFallBack = DateTz.fromISO('2025-11-02T00:30', 'America/New_York');
+    const lateEvening = DateTz.fromISO('2025-11-02T23:30', 'America/New_York');
+    expect(lateEvening.isSame(beforeFallBack, 'day')).toBe(true);
+    expect(lateEvening.diff(beforeFallBack, 'day')).toBe(0);
+
+    // Crossing midnight is a day, as it is for isSame, however little time has passed
+    const lateNight = DateTz.fromISO('2025-11-02T23:00', 'America/New_York');
+    const afterMidnight = DateTz.fromISO('2025-11-03T00:30', 'America/New_York');
+    expect(afterMidnight.isSame(lateNight, 'day')).toBe(false);
+    expect(afterMidnight.diff(lateNight, 'day')).toBe(1);
+    expect(lateNight.diff(afterMidnight, 'day')).toBe(-1);
+    expect(afterMidnight.diff(lateNight, 'day', true)).toBe(0.0625);
+    expect(afterMidnight.diff(lateNight, 'day', false, 'elapsed')).toBe(0);
+    expect(DateTz.fromISO('2025-11-09T00:30', 'America/New_York').diff(lateNight, 'week')).toBe(1);
+    expect(DateTz.fromISO('2025-11-08T23:30', 'America/New_York').diff(lateNight, 'week')).toBe(0);
+
+    // 01:30 occurs twice: same local hour, but different hours of elapsed time
+    const firstPass = new DateTz(Date.UTC(2025, 10, 2, 5, 30), 'America/New_York');
+    const secondPass = new DateTz(Date.UTC(2025, 10, 2, 6, 30), 'America/New_York');
+    expect(firstPass.hour).toBe(secondPass.hour);
+    expect(secondPass.isSame(firstPass, 'hour')).toBe(false);
+    expect(secondPass.isAfter(firstPass, 'hour')).toBe(true);
+    expect(secondPass.isSame(firstPass, 'day')).toBe(true);
+
+    const sunday = DateTz.fromISO('2025-03-09T00:00', 'America/New_York');
+    const mondayMorning = DateTz.fromISO('2025-03-10T00:30', 'America/New_York');
+    const sundayNight = DateTz.fromISO('2025-03-09T23:45', 'America/New_York');
+    expect(sundayNight.isBetween(sunday, mondayMorning, 'day', '[)')).toBe(true);
+    expect(mondayMorning.isBetween(sunday, mondayMorning, 'day', '[)')).toBe(false);
+    expect(mondayMorning.isSame(sundayNight, 'week')).toBe(true);
+  });
+
+  it('describes dates relative to another date', () => {
+    const base = new DateTz(Date.UTC(2025, 5, 15, 12, 0), 'Europe/Rome');
+    const at = (ms: number) => new DateTz(base.timestamp + ms, 'Europe/Rome');
+    expect(at(-30 * 1000 * 60).toRelative(base)).toBe('30 minutes ago');
+    expect(at(3 * 3600000).toRelative(base)).toBe('in 3 hours');
+    expect(at(50 * 60000).toRelative(base)).toBe('in 1 hour');
+    expect(at(-23 * 3600000).toRelative(base, { numeric: 'auto' })).toBe('yesterday');
+    expect(at(2 * 86400000).toRelative(base)).toBe('in 2 days');
+    expect(at(40 * 86400000).toRelative(base)).toBe('in 1 month');
+    expect(at(-400 * 86400000).toRelative(base, { numeric: 'auto' })).toBe('last year');
+    expect(at(0).toRelative(base, { numeric: 'auto' })).toBe('now');
+    expect(at(0).toRelative(base)).toBe('in 0 seconds');
+
+    expect(at(10 * 86400000).toRelative(base, { thresholds: { day: 7, week: 4 } })).toBe('in 1 week');
+    expect(at(3 * 3600000).toRelative(base, { unit: 'minute', style: 'short' })).toBe('in 180 min.');
+    expect(at(-2 * 86400000).toRelative(base, { locale: 'it' })).toBe('2 giorni fa');
+
+    // A 23-hour DST day still counts as one day
+    const beforeSpringForward = DateTz.fromISO('2025-03-29T12:00', 'Europe/Rome');
+    expect(new DateTz(DateTz.fromISO('2025-03-30T12:00', 'Europe/Rome')).toRelative(beforeSpringForward, { unit: 'day' })).toBe('in 1 day');
+  });
+
+  it('describes calendar days relative to another date in the local timezone', () => {
+    const base = new DateTz(DateTz.fromISO('2025-06-18T00:10', 'America/New_York'));
+    const local = (iso: string) => new DateTz(DateTz.fromISO(iso, 'America/New_York'));
+    expect(local('2025-06-17T23:50').toRelativeCalendar(base)).toBe('yesterday');
+    expect(local('2025-06-18T23:59').toRelativeCalendar(base)).toBe('today');
+    expect(local('2025-06-19T00:00').toRelativeCalendar(base)).toBe('tomorrow');
+    expect(local('2025-06-15T09:00').toRelativeCalendar(base)).toBe('last Sunday');
+    expect(local('2025-06-12T09:00').toRelativeCalendar(base)).toBe('last Thursday');
+    expect(local('2025-06-20T09:00').toRelativeCalendar(base)).toBe('on Friday');
+    expect(local('2025-06-24T09:00').toRelativeCalendar(base)).toBe('on Tuesday');
+    expect(local('2025-06-11T09:00').toRelativeCalendar(base)).toBe('last week');
+    expect(local('2025-06-20T09:00').toRelativeCalendar(base, { style: 'short' })).toBe('on Fri');
+    expect(local('2025-06-15T09:00').toRelativeCalendar(base, { unit: 'day' })).toBe('3 days ago');
+    expect(local('2025-06-15T09:00').toRelativeCalendar(base, { locale: 'fr' })).toBe('il y a 3 jours');
+    expect(local('2025-06-26T09:00').toRelativeCalendar(base)).toBe('next week');
+    expect(local('2025-07-30T09:00').toRelativeCalendar(base)).toBe('next month');
+    expect(local('2024-01-30T09:00').toRelativeCalendar(base)).toBe('last year');
+    expect(local('2025-06-19T09:00').toRelativeCalendar(base, { locale: 'fr' })).toBe('demain');
+    expect(local('2025-06-19T09:00').toRelativeCalendar(base, { unit: 'week' })).toBe('this week');
+
+    expect(local('2025-06-17T14:00').toRelativeCalendar(base, { time: true })).toBe('yesterday at 14:00');
+    expect(local('2025-06-20T09:30').toRelativeCalendar(base, { time: true })).toBe('on Friday at 09:30');
+    expect(local('2025-06-19T14:00').toRelativeCalendar(base, { locale: 'fr', time: true })).toBe('demain, 14:00');
+
+    // The base is read in the instance's timezone: 04:10 UTC is still June 18 in New York
+    const utcBase = new DateTz(Date.UTC(2025, 5, 18, 4, 10), 'UTC');
+    expect(local('2025-06-17T23:50').toRelativeCalendar(utcBase)).toBe('yesterday');
+    expect(() => base.toRelativeCalendar(base, { unit: 'hour' as unknown as DateTzRelativeCalendarUnit })).toThrow('Invalid relative calendar unit: hour');
+  });
+
   it('rejects conversion to plain offsets by id mismatch', () => {
     const dateTz = new DateTz(BASE_TIMESTAMP, 'UTC');
     expect(() => dateTz.convertToTimezone('GMT+1')).toThrow('Invalid timezone: GMT+1');
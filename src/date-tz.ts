@@ -1,5 +1,8 @@
-import { DateTzDiffUnit, DateTzDurationLike, DateTzGranularity, DateTzInclusivity, IDateTz } from "./idate-tz";
+import { civilFromDays, daysFromCivil } from "./calendar-days";
+import { DateTzArithmeticOptions, DateTzDiffBreakdown, DateTzDiffMode, DateTzDiffUnit, DateTzDisambiguation, DateTzDurationLike, DateTzFields, DateTzGranularity, DateTzInclusivity, DateTzISOOptions, DateTzLocalOptions, DateTzOffsetConflict, DateTzOverflow, DateTzParseOptions, DateTzPrecision, DateTzRelativeCalendarOptions, DateTzRelativeCalendarUnit, DateTzRelativeOptions, DateTzRelativeThresholds, DateTzTransition, IDateTz } from "./idate-tz";
 import { TimezoneOffset, timezones } from "./timezones";
+import { Duration } from "./duration";
+import { getNextZoneTransition, getPreviousZoneTransition, getZoneOffset, getZoneTransitions, ZoneOffset, ZoneTransition } from "./zone-rules";
 
 const MS_PER_SECOND = 1000;
 const MS_PER_MINUTE = 60000;
@@ -7,10 +10,12 @@ const MS_PER_HOUR = 3600000;
 const MS_PER_DAY = 86400000;
 const MS_PER_WEEK = MS_PER_DAY * 7;
 
-// Epoch time constants
-const epochYear = 1970;
+// Calendar constants
 const daysPerMonth = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
 
+// The ECMAScript time value range (±100,000,000 days around the epoch)
+const MAX_TIMESTAMP = 8.64e15;
+
 const UNIT_ALIASES: Record<string, DateTzDiffUnit> = {
   ms: 'millisecond',
   millisecond: 'millisecond',
@@ -44,7 +49,49 @@ const UNIT_ALIASES: Record<string, DateTzDiffUnit> = {
   years: 'year'
 };
 
-const GRANULARITY_UNITS: readonly DateTzGranularity[] = ['minute', 'hour', 'day', 'week', 'month', 'year'];
+const GRANULARITY_UNITS: readonly DateTzGranularity[] = ['second', 'minute', 'hour', 'day', 'week', 'month', 'year'];
+
+// Largest first, the order in which a difference is broken down
+const DIFF_UNITS: readonly DateTzDiffUnit[] = ['year', 'month', 'week', 'day', 'hour', 'minute', 'second', 'millisecond'];
+
+// The units toRelative can pick before falling back to years, smallest first
+const RELATIVE_UNITS: readonly Exclude<DateTzGranularity, 'year'>[] = ['second', 'minute', 'hour', 'day', 'week', 'month'];
+
+const DEFAULT_RELATIVE_THRESHOLDS: DateTzRelativeThresholds = { second: 45, minute: 45, hour: 22, day: 26, month: 11 };
+
+const RELATIVE_CALENDAR_UNITS: readonly DateTzRelativeCalendarUnit[] = ['day', 'week', 'month', 'year'];
+
+const DIFF_MODES: readonly DateTzDiffMode[] = ['calendar', 'elapsed'];
+
+const OVERFLOWS: readonly DateTzOverflow[] = ['constrain', 'overflow', 'reject'];
+
+const DISAMBIGUATIONS: readonly DateTzDisambiguation[] = ['compatible', 'earlier', 'later', 'reject'];
+
+const OFFSET_CONFLICTS: readonly DateTzOffsetConflict[] = ['reject', 'offset', 'zone'];
+
+const PRECISION_MS: Record<DateTzPrecision, number> = {
+  minute: MS_PER_MINUTE,
+  second: MS_PER_SECOND,
+  millisecond: 1
+};
+
+/**
+ * Floor modulo, so that negative timestamps map to a positive remainder.
+ */
+function mod(value: number, divisor: number): number {
+  return ((value % divisor) + divisor) % divisor;
+}
+
+/**
+ * Formats a year as four digits, or as an ISO 8601 expanded year (±YYYYYY)
+ * when it falls outside 0000–9999.
+ */
+function formatYear(year: number): string {
+  if (year >= 0 && year <= 9999) {
+    return String(year).padStart(4, '0');
+  }
+  return (year < 0 ? '-' : '+') + String(Math.abs(year)).padStart(6, '0');
+}
 
 type LocalParts = {
   year: number;
@@ -53,8 +100,406 @@ type LocalParts = {
   hour: number;
   minute: number;
   second: number;
+  millisecond: number;
 };
 
+/**
+ * Splits a wall-clock time value (ms since 1970-01-01 00:00 local) into its components.
+ */
+function partsFromMs(ms: number): LocalParts {
+  const days = Math.floor(ms / MS_PER_DAY);
+  const msOfDay = ms - days * MS_PER_DAY;
+  return {
+    ...civilFromDays(days),
+    hour: Math.floor(msOfDay / MS_PER_HOUR),
+    minute: Math.floor((msOfDay % MS_PER_HOUR) / MS_PER_MINUTE),
+    second: Math.floor((msOfDay % MS_PER_MINUTE) / MS_PER_SECOND),
+    millisecond: msOfDay % MS_PER_SECOND
+  };
+}
+
+/**
+ * Converts local components back into a wall-clock time value.
+ */
+function msFromParts(parts: LocalParts): number {
+  return daysFromCivil(parts.year, parts.month, parts.day) * MS_PER_DAY
+    + parts.hour * MS_PER_HOUR
+    + parts.minute * MS_PER_MINUTE
+    + parts.second * MS_PER_SECOND
+    + parts.millisecond;
+}
+
+// Longest tokens first, so that MMMM is not read as two MM
+const FORMAT_TOKENS = [
+  'YYYY', 'yyyy', 'YY', 'yy', 'GGGG', 'GG', 'Q', 'MMMMM', 'MMMM', 'MMM', 'MM', 'M', 'LLLL', 'LLL', 'LL', 'LTS', 'LT', 'LM', 'L',
+  'WW', 'W', 'EEEEE', 'EEEE', 'EEE', 'DDDD', 'DDD', 'DD', 'Do', 'D', 'HH', 'H', 'hh', 'h', 'mm', 'm', 'ss', 'SSS', 'SS', 'S',
+  'aaa', 'aa', 'AA', 'BBBB', 'tz', 'ZZZZZ', 'ZZZZ', 'ZZ', 'Z'
+];
+
+// Bracketed text, then an unterminated bracket that runs to the end of the pattern, then the tokens
+const FORMAT_TOKEN_REGEX = new RegExp(`\\[([^\\]]*)\\]|(\\[[^\\]]*$)|${FORMAT_TOKENS.join('|')}`, 'y');
+
+// Ordinal suffixes by language and ordinal plural category; other languages print the bare number
+const ORDINAL_SUFFIXES: Record<string, Record<string, string>> = {
+  en: { one: 'st', two: 'nd', few: 'rd', other: 'th' },
+  fr: { one: 'er', other: 'e' },
+  de: { other: '.' }
+};
+
+type FormatPart = { token: boolean; value: string; };
+
+/**
+ * Splits a format pattern into tokens and literal text; text in square brackets is always literal,
+ * and so is the rest of the pattern after a bracket that is never closed, bracket included.
+ */
+function tokenizePattern(pattern: string): FormatPart[] {
+  const parts: FormatPart[] = [];
+  let literal = '';
+  for (let index = 0; index < pattern.length;) {
+    FORMAT_TOKEN_REGEX.lastIndex = index;
+    const match = FORMAT_TOKEN_REGEX.exec(pattern);
+    if (!match) {
+      literal += pattern[index++];
+      continue;
+    }
+    if (match[1] !== undefined) {
+      literal += match[1];
+    } else if (match[2] !== undefined) {
+      literal += match[2];
+    } else {
+      if (literal) {
+        parts.push({ token: false, value: literal });
+        literal = '';
+      }
+      parts.push({ token: true, value: match[0] });
+    }
+    index += match[0].length;
+  }
+  if (literal) {
+    parts.push({ token: false, value: literal });
+  }
+  return parts;
+}
+
+// Locale presets, resolved to the locale's own pattern by Intl.DateTimeFormat
+const LOCALE_PRESETS: Record<string, Intl.DateTimeFormatOptions> = {
+  LT: { hour: 'numeric', minute: '2-digit' },
+  LTS: { hour: 'numeric', minute: '2-digit', second: '2-digit' },
+  L: { year: 'numeric', month: '2-digit', day: '2-digit' },
+  LL: { year: 'numeric', month: 'long', day: 'numeric' },
+  LLL: { year: 'numeric', month: 'long', day: 'numeric', hour: 'numeric', minute: '2-digit' },
+  LLLL: { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric', hour: 'numeric', minute: '2-digit' }
+};
+
+const dateFormats = new Map<string, Intl.DateTimeFormat>();
+
+const localeDigits = new Map<string, string[] | null>();
+
+const ordinalRules = new Map<string, Intl.PluralRules>();
+
+/**
+ * Returns a cached Intl.DateTimeFormat that reads dates in UTC, for wall-clock time values.
+ */
+function dateFormat(locale: string, options: Intl.DateTimeFormatOptions): Intl.DateTimeFormat {
+  const key = `${locale}|${JSON.stringify(options)}`;
+  let format = dateFormats.get(key);
+  if (!format) {
+    format = new Intl.DateTimeFormat(locale, { ...options, timeZone: 'UTC' });
+    dateFormats.set(key, format);
+  }
+  return format;
+}
+
+/**
+ * Returns the value of one part of a formatted date, such as the day period.
+ */
+function datePart(locale: string, options: Intl.DateTimeFormatOptions, date: Date, type: Intl.DateTimeFormatPartTypes): string | undefined {
+  const part = dateFormat(locale, options).formatToParts(date).find(candidate => candidate.type === type);
+  return part && part.value;
+}
+
+/**
+ * Writes digits in the numbering system a locale asks for with its -u-nu- extension (e.g. ar-EG-u-nu-arab).
+ */
+function localizeDigits(text: string, locale: string): string {
+  if (!localeDigits.has(locale)) {
+    const numberingSystem = new Intl.Locale(locale).numberingSystem;
+    const format = numberingSystem && numberingSystem !== 'latn' ? new Intl.NumberFormat(locale, { useGrouping: false }) : null;
+    localeDigits.set(locale, format && Array.from({ length: 10 }, (_, digit) => format.format(digit)));
+  }
+  const digits = localeDigits.get(locale);
+  return digits ? text.replace(/[0-9]/g, digit => digits[Number(digit)]) : text;
+}
+
+/**
+ * Returns the ordinal suffix of a number in a locale's language, or an empty string when it has none listed.
+ */
+function ordinalSuffix(value: number, locale: string): string {
+  const language = new Intl.Locale(locale).language;
+  const suffixes = ORDINAL_SUFFIXES[language];
+  if (!suffixes) {
+    return '';
+  }
+  let rules = ordinalRules.get(language);
+  if (!rules) {
+    rules = new Intl.PluralRules(language, { type: 'ordinal' });
+    ordinalRules.set(language, rules);
+  }
+  return suffixes[rules.select(value)] || suffixes.other;
+}
+
+function daysInMonth(year: number, month: number): number {
+  const leap = (year % 4 === 0 && year % 100 !== 0) || (year % 400 === 0);
+  return month === 1 && leap ? 29 : daysPerMonth[month];
+}
+
+/**
+ * Validates an overflow policy, defaulting to 'constrain'.
+ */
+function resolveOverflow(overflow: DateTzOverflow = 'constrain'): DateTzOverflow {
+  if (!OVERFLOWS.includes(overflow)) {
+    throw new Error(`Invalid overflow: ${overflow}`);
+  }
+  return overflow;
+}
+
+/**
+ * Applies an overflow policy to a field: 'constrain' clamps it into [min, max],
+ * 'reject' throws when it is outside, 'overflow' leaves it for later normalization.
+ */
+function constrainField(unit: string, value: number, min: number, max: number, overflow: DateTzOverflow): number {
+  if (value >= min && value <= max || overflow === 'overflow') {
+    return value;
+  }
+  if (overflow === 'reject') {
+    throw new Error(`Value ${value} is out of range for ${unit} (${min}-${max})`);
+  }
+  return Math.min(Math.max(value, min), max);
+}
+
+/**
+ * Formats local components as YYYY-MM-DD HH:mm:ss for messages.
+ */
+function formatLocalParts(parts: LocalParts): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${formatYear(parts.year)}-${pad(parts.month + 1)}-${pad(parts.day)} ${pad(parts.hour)}:${pad(parts.minute)}:${pad(parts.second)}`;
+}
+
+/**
+ * Formats an offset in seconds as ±HH:MM (or ±HHMM without separator).
+ * Sub-minute offsets (local mean time) get an extra seconds field.
+ */
+function formatOffset(offsetSeconds: number, separator = ':'): string {
+  const sign = offsetSeconds < 0 ? '-' : '+';
+  const absolute = Math.abs(offsetSeconds);
+  const hours = String(Math.floor(absolute / 3600)).padStart(2, '0');
+  const minutes = String(Math.floor((absolute % 3600) / 60)).padStart(2, '0');
+  const seconds = absolute % 60;
+  const formatted = `${sign}${hours}${separator}${minutes}`;
+  return seconds ? `${formatted}${separator}${String(seconds).padStart(2, '0')}` : formatted;
+}
+
+/**
+ * Parses a ±HH[:MM[:SS]] offset into seconds.
+ * @returns The offset in seconds, or null when invalid.
+ */
+function parseOffset(text: string): number | null {
+  const match = ISO_OFFSET_VALUE.exec(text);
+  if (!match) {
+    return null;
+  }
+  const hours = Number(match[2]);
+  const minutes = match[3] ? Number(match[3]) : 0;
+  const seconds = match[4] ? Number(match[4]) : 0;
+  if (hours > 23 || minutes > 59 || seconds > 59) {
+    return null;
+  }
+  return (match[1] === '-' ? -1 : 1) * (hours * 3600 + minutes * 60 + seconds);
+}
+
+/**
+ * Converts a resolved zone transition to its public shape; offsets are in seconds.
+ */
+function toDateTzTransition(transition: ZoneTransition): DateTzTransition {
+  const { before, after } = transition;
+  return {
+    timestamp: transition.timestamp,
+    offsetBefore: before.offsetSeconds,
+    offsetAfter: after.offsetSeconds,
+    isDst: after.isDst,
+    direction: after.offsetSeconds > before.offsetSeconds ? 'gap' : 'overlap'
+  };
+}
+
+type IsoParts = {
+  /** Wall-clock time value of the date and time components. */
+  localMs: number;
+  /** Embedded UTC offset in seconds, when the string carries one. */
+  offsetSeconds?: number;
+  /** Whether the offset was the Z designator (local offset unknown, per RFC 9557). */
+  utc?: boolean;
+  /** Timezone from an RFC 9557 bracketed annotation, e.g. [Europe/Rome]. */
+  zone?: string;
+};
+
+const ISO_CALENDAR_EXTENDED = /^([+-]\d{6}|\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/;
+const ISO_CALENDAR_BASIC = /^([+-]\d{6}|\d{4})(\d{2})(\d{2})$/;
+const ISO_WEEK_EXTENDED = /^([+-]\d{6}|\d{4})-W(\d{2})(?:-(\d))?$/;
+const ISO_WEEK_BASIC = /^([+-]\d{6}|\d{4})W(\d{2})(\d)?$/;
+const ISO_ORDINAL = /^([+-]\d{6}|\d{4})-?(\d{3})$/;
+const ISO_TIME_EXTENDED = /^(\d{2})(?::(\d{2})(?::(\d{2}))?)?(?:[.,](\d+))?$/;
+const ISO_TIME_BASIC = /^(\d{2})(\d{2})?(\d{2})?(?:[.,](\d+))?$/;
+const ISO_OFFSET = /(?:[Zz]|[+-]\d{2}(?::?\d{2}(?::?\d{2})?)?)$/;
+const ISO_OFFSET_VALUE = /^([+-])(\d{2})(?::?(\d{2})(?::?(\d{2}))?)?$/;
+const ISO_ANNOTATION = /\[(!?)([^\]=]+?)(?:=([^\]]*))?\]$/;
+
+function parseIsoYear(text: string): number | null {
+  // ISO 8601 / RFC 3339 forbid negative zero as an expanded year
+  return text === '-000000' ? null : Number(text);
+}
+
+/**
+ * Days since 1970-01-01 of the Monday starting ISO week 1 (the week containing January 4th).
+ */
+function isoWeekOneMonday(year: number): number {
+  const jan4 = daysFromCivil(year, 0, 4);
+  // 1970-01-01 was a Thursday, so (days + 3) mod 7 counts days since Monday
+  return jan4 - mod(jan4 + 3, 7);
+}
+
+/**
+ * Parses the date portion of an ISO 8601 string (calendar, week or ordinal form).
+ * @returns Days since 1970-01-01, or null when the text is not a valid date.
+ */
+function parseIsoDate(text: string): number | null {
+  let match = ISO_CALENDAR_EXTENDED.exec(text) || ISO_CALENDAR_BASIC.exec(text);
+  if (match) {
+    const year = parseIsoYear(match[1]);
+    const month = match[2] ? Number(match[2]) - 1 : 0;
+    const day = match[3] ? Number(match[3]) : 1;
+    if (year === null || month > 11 || month < 0 || day < 1 || day > daysInMonth(year, month)) {
+      return null;
+    }
+    return daysFromCivil(year, month, day);
+  }
+
+  match = ISO_WEEK_EXTENDED.exec(text) || ISO_WEEK_BASIC.exec(text);
+  if (match) {
+    const year = parseIsoYear(match[1]);
+    const week = Number(match[2]);
+    const weekday = match[3] ? Number(match[3]) : 1;
+    if (year === null || week < 1 || weekday < 1 || weekday > 7) {
+      return null;
+    }
+    const week1Monday = isoWeekOneMonday(year);
+    if (week > (isoWeekOneMonday(year + 1) - week1Monday) / 7) {
+      return null;
+    }
+    return week1Monday + (week - 1) * 7 + weekday - 1;
+  }
+
+  match = ISO_ORDINAL.exec(text);
+  if (match) {
+    const year = parseIsoYear(match[1]);
+    const dayOfYear = Number(match[2]);
+    if (year === null || dayOfYear < 1 || dayOfYear > daysFromCivil(year + 1, 0, 1) - daysFromCivil(year, 0, 1)) {
+      return null;
+    }
+    return daysFromCivil(year, 0, 1) + dayOfYear - 1;
+  }
+  return null;
+}
+
+/**
+ * Parses the time portion of an ISO 8601 string, with reduced precision and a
+ * decimal fraction on its lowest-order component.
+ * @returns Milliseconds since midnight (up to 24:00), or null when invalid.
+ */
+function parseIsoTime(text: string): number | null {
+  const match = ISO_TIME_EXTENDED.exec(text) || ISO_TIME_BASIC.exec(text);
+  if (!match) {
+    return null;
+  }
+  const hour = Number(match[1]);
+  const minute = match[2] ? Number(match[2]) : 0;
+  const second = match[3] ? Number(match[3]) : 0;
+  const fraction = match[4] ? Number(`0.${match[4]}`) : 0;
+  if (hour > 24 || minute > 59 || second > 59) {
+    return null;
+  }
+  const fractionUnit = match[3] ? MS_PER_SECOND : match[2] ? MS_PER_MINUTE : MS_PER_HOUR;
+  const ms = hour * MS_PER_HOUR + minute * MS_PER_MINUTE + second * MS_PER_SECOND + Math.round(fraction * fractionUnit);
+  if (hour === 24 && ms !== MS_PER_DAY) {
+    return null;
+  }
+  return ms;
+}
+
+/**
+ * Parses an ISO 8601 date, date-time or week/ordinal date with optional offset,
+ * followed by optional RFC 9557 annotations ([Europe/Rome], [u-ca=iso8601]).
+ */
+function parseIsoString(input: string): IsoParts | null {
+  let text = input.trim();
+  let zone: string | undefined;
+  let annotation: RegExpExecArray | null;
+  while ((annotation = ISO_ANNOTATION.exec(text)) !== null) {
+    const [, critical, key, value] = annotation;
+    text = text.slice(0, annotation.index);
+    if (value === undefined) {
+      // Only one time zone annotation is allowed, and it comes first
+      if (zone !== undefined || ISO_ANNOTATION.test(text)) {
+        return null;
+      }
+      zone = key;
+    } else if (key === 'u-ca') {
+      if (critical && value !== 'iso8601' && value !== 'gregory') {
+        return null;
+      }
+    } else if (critical) {
+      return null;
+    }
+  }
+
+  const iso = parseIsoDateTime(text);
+  if (iso && zone !== undefined) {
+    iso.zone = zone;
+  }
+  return iso;
+}
+
+function parseIsoDateTime(input: string): IsoParts | null {
+  const [datePart, timePart, ...rest] = input.split(/[Tt ]/);
+  if (rest.length > 0) {
+    return null;
+  }
+  const days = parseIsoDate(datePart);
+  if (days === null) {
+    return null;
+  }
+  if (timePart === undefined) {
+    return { localMs: days * MS_PER_DAY };
+  }
+
+  let time = timePart;
+  let offsetSeconds: number | undefined;
+  let utc = false;
+  const offsetMatch = ISO_OFFSET.exec(time);
+  if (offsetMatch) {
+    time = time.slice(0, offsetMatch.index);
+    utc = /^[Zz]$/.test(offsetMatch[0]);
+    offsetSeconds = utc ? 0 : parseOffset(offsetMatch[0]);
+    if (offsetSeconds === null) {
+      return null;
+    }
+  }
+  const timeMs = parseIsoTime(time);
+  if (timeMs === null) {
+    return null;
+  }
+  return { localMs: days * MS_PER_DAY + timeMs, offsetSeconds, utc };
+}
+
 /**
  * Represents a date and time with a specific timezone.
  */
@@ -70,35 +515,56 @@ export class DateTz implements IDateTz {
    */
   timezone: string;
 
+  /**
+   * The precision the timestamp is truncated to.
+   */
+  precision: DateTzPrecision;
+
   /**
    * Cache for the most recently resolved timezone offset.
    */
-  private offsetCache?: { timestamp: number; info: { offsetSeconds: number; isDst: boolean; }; };
+  private offsetCache?: { timestamp: number; info: ZoneOffset; };
 
   /**
    * The default date format used when converting to string.
    */
   public static defaultFormat = 'YYYY-MM-DD HH:mm:ss';
 
+  /**
+   * The default precision applied to new instances ('minute', 'second' or 'millisecond').
+   */
+  public static defaultPrecision: DateTzPrecision = 'minute';
+
   /**
  * Creates an instance of DateTz.
  * @param value - The timestamp or an object implementing IDateTz.
  * @param tz - The timezone identifier (optional).
+ * @param precision - The precision to truncate the timestamp to (optional, defaults to DateTz.defaultPrecision).
  */
   constructor(value: IDateTz);
-  constructor(value: number, tz?: string);
-  constructor(value: number | IDateTz, tz?: string) {
+  constructor(value: number, tz?: string, precision?: DateTzPrecision);
+  constructor(value: number | IDateTz, tz?: string, precision?: DateTzPrecision) {
     if (typeof value === 'object') {
+      this.assertTimestamp(value.timestamp);
       this.timestamp = value.timestamp;
       this.timezone = value.timezone || 'UTC';
+      this.precision = value.precision || DateTz.defaultPrecision;
       if (!timezones[this.timezone]) {
         throw new Error(`Invalid timezone: ${value.timezone}`);
       }
+      if (!PRECISION_MS[this.precision]) {
+        throw new Error(`Invalid precision: ${value.precision}`);
+      }
     } else {
       this.timezone = tz || 'UTC';
+      this.precision = precision || DateTz.defaultPrecision;
       if (!timezones[this.timezone]) {
         throw new Error(`Invalid timezone: ${tz}`);
       }
+      if (!PRECISION_MS[this.precision]) {
+        throw new Error(`Invalid precision: ${precision}`);
+      }
+      this.assertTimestamp(value);
       this.timestamp = this.stripSMs(value);
     }
     this.invalidateOffsetCache();
@@ -142,7 +608,6 @@ export class DateTz implements IDateTz {
   toString(locale: string): string;
   toString(pattern: string, locale?: string): string;
   toString(patternOrLocale?: string, maybeLocale?: string): string {
-    const tokenRegex = /(YYYY|yyyy|YY|yy|MM|LM|DD|HH|hh|mm|ss|aa|AA|tz)/;
     let pattern = DateTz.defaultFormat;
     let locale = 'en';
     const hasLocaleArgument = typeof maybeLocale === 'string' && maybeLocale.length > 0;
@@ -152,7 +617,10 @@ export class DateTz implements IDateTz {
     }
 
     if (typeof patternOrLocale === 'string' && patternOrLocale.length > 0) {
-      if (hasLocaleArgument || tokenRegex.test(patternOrLocale)) {
+      // Only tokens and punctuation, so that LT is a pattern but fr-LU is a locale
+      const segments = tokenizePattern(patternOrLocale);
+      const readsAsPattern = segments.some(part => part.token) && segments.every(part => part.token || !/[a-z]/i.test(part.value));
+      if (hasLocaleArgument || readsAsPattern) {
         pattern = patternOrLocale;
       } else if (this.isLikelyLocale(patternOrLocale)) {
         locale = patternOrLocale;
@@ -164,244 +632,209 @@ export class DateTz implements IDateTz {
     }
 
     // Calculate year, month, day, hours, minutes, seconds
-    const offsetInfo = this.getOffsetInfo();
-    const offset = offsetInfo.offsetSeconds * 1000;
-    let remainingMs = this.timestamp + offset;
-    let year = epochYear;
-
-    // Calculate year
-    while (true) {
-      const daysInYear = this.isLeapYear(year) ? 366 : 365;
-      const msInYear = daysInYear * MS_PER_DAY;
-
-      if (remainingMs >= msInYear) {
-        remainingMs -= msInYear;
-        year++;
-      } else {
-        break;
-      }
-    }
-
-    // Calculate month
-    let month = 0;
-    while (month < 12) {
-      const daysInMonth = month === 1 && this.isLeapYear(year) ? 29 : daysPerMonth[month];
-      const msInMonth = daysInMonth * MS_PER_DAY;
-
-      if (remainingMs >= msInMonth) {
-        remainingMs -= msInMonth;
-        month++;
-      } else {
-        break;
-      }
-    }
-
-    // Calculate day
-    const day = Math.floor(remainingMs / MS_PER_DAY) + 1;
-    remainingMs %= MS_PER_DAY;
-
-    // Calculate hour
-    const hour = Math.floor(remainingMs / MS_PER_HOUR);
-    remainingMs %= MS_PER_HOUR;
-
-    // Calculate minute
-    const minute = Math.floor(remainingMs / MS_PER_MINUTE);
-    remainingMs %= MS_PER_MINUTE;
-
-    // Calculate second
-    const second = Math.floor(remainingMs / 1000);
+    const parts = this.getLocalParts(true);
+    const { year, month, day, hour, minute, second, millisecond } = parts;
 
     const pm = hour >= 12 ? 'PM' : 'AM';
     const hour12 = hour % 12 || 12; // Convert to 12-hour format
 
-    let monthStr = new Date(year, month, 3).toLocaleString(locale, { month: 'long' });
-    monthStr = monthStr.charAt(0).toUpperCase() + monthStr.slice(1);
-
-    // Map components to pattern tokens
-    const tokens: Record<string, any> = {
-      YYYY: year,
-      YY: String(year).slice(-2),
-      yyyy: year.toString(),
-      yy: String(year).slice(-2),
-      MM: String(month + 1).padStart(2, '0'),
-      LM: monthStr,
-      DD: String(day).padStart(2, '0'),
-      HH: String(hour).padStart(2, '0'),
-      mm: String(minute).padStart(2, '0'),
-      ss: String(second).padStart(2, '0'),
-      aa: pm.toLowerCase(),
-      AA: pm,
-      hh: hour12.toString().padStart(2, '0'),
-      tz: this.timezone,
+    // Names and presets come from Intl, which reads the wall-clock time as UTC
+    const wallClock = new Date(msFromParts(parts));
+    const digits = (value: string) => localizeDigits(value, locale);
+    const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+    const offsetSeconds = this.getOffsetSeconds(true);
+
+    // ISO weeks start on Monday and belong to the year that holds their Thursday
+    const localDay = daysFromCivil(year, month, day);
+    const weekYear = localDay >= isoWeekOneMonday(year + 1) ? year + 1 : localDay < isoWeekOneMonday(year) ? year - 1 : year;
+    const isoWeek = Math.floor((localDay - isoWeekOneMonday(weekYear)) / 7) + 1;
+    const dayOfYear = localDay - daysFromCivil(year, 0, 1) + 1;
+
+    const format = (token: string): string => {
+      switch (token) {
+        case 'YYYY':
+        case 'yyyy':
+          return digits(formatYear(year));
+        case 'YY':
+        case 'yy':
+          return digits(String(Math.abs(year)).padStart(2, '0').slice(-2));
+        case 'GGGG':
+          return digits(formatYear(weekYear));
+        case 'GG':
+          return digits(String(Math.abs(weekYear)).padStart(2, '0').slice(-2));
+        case 'Q':
+          return digits(String(Math.floor(month / 3) + 1));
+        case 'MM':
+          return digits(String(month + 1).padStart(2, '0'));
+        case 'M':
+          return digits(String(month + 1));
+        case 'LM':
+          return capitalize(dateFormat(locale, { month: 'long' }).format(wallClock));
+        case 'MMMM':
+          return dateFormat(locale, { month: 'long' }).format(wallClock);
+        case 'MMM':
+          return dateFormat(locale, { month: 'short' }).format(wallClock);
+        case 'MMMMM':
+          return dateFormat(locale, { month: 'narrow' }).format(wallClock);
+        case 'EEEE':
+          return dateFormat(locale, { weekday: 'long' }).format(wallClock);
+        case 'EEE':
+          return dateFormat(locale, { weekday: 'short' }).format(wallClock);
+        case 'EEEEE':
+          return dateFormat(locale, { weekday: 'narrow' }).format(wallClock);
+        case 'WW':
+          return digits(String(isoWeek).padStart(2, '0'));
+        case 'W':
+          return digits(String(isoWeek));
+        case 'DDDD':
+          return digits(String(dayOfYear).padStart(3, '0'));
+        case 'DDD':
+          return digits(String(dayOfYear));
+        case 'DD':
+          return digits(String(day).padStart(2, '0'));
+        case 'Do':
+          return digits(String(day)) + ordinalSuffix(day, locale);
+        case 'D':
+          return digits(String(day));
+        case 'HH':
+          return digits(String(hour).padStart(2, '0'));
+        case 'H':
+          return digits(String(hour));
+        case 'hh':
+          return digits(hour12.toString().padStart(2, '0'));
+        case 'h':
+          return digits(hour12.toString());
+        case 'mm':
+          return digits(String(minute).padStart(2, '0'));
+        case 'm':
+          return digits(String(minute));
+        case 'ss':
+          return digits(String(second).padStart(2, '0'));
+        case 'SSS':
+        case 'SS':
+        case 'S':
+          return digits(String(millisecond).padStart(3, '0').slice(0, token.length));
+        case 'aa':
+          return pm.toLowerCase();
+        case 'AA':
+          return pm;
+        case 'aaa':
+          return datePart(locale, { hour: 'numeric', hourCycle: 'h12' }, wallClock, 'dayPeriod') || pm;
+        case 'BBBB':
+          return datePart(locale, { hour: 'numeric', minute: 'numeric', dayPeriod: 'long' }, wallClock, 'dayPeriod') || '';
+        case 'tz':
+          return this.timezone;
+        case 'Z':
+          return digits(formatOffset(offsetSeconds));
+        case 'ZZ':
+          return digits(formatOffset(offsetSeconds, ''));
+        case 'ZZZZ':
+          return this.getOffsetInfo().abbreviation;
+        case 'ZZZZZ':
+          return offsetSeconds === 0 ? 'Z' : digits(formatOffset(offsetSeconds));
+        default:
+          return dateFormat(locale, LOCALE_PRESETS[token]).format(wallClock);
+      }
     };
 
-    // Replace pattern tokens with actual values
-    return pattern.replace(/YYYY|yyyy|YY|yy|MM|LM|DD|HH|hh|mm|ss|aa|AA|tz/g, (match) => tokens[match]);
+    // Replace pattern tokens with actual values, keeping literal text as written
+    return tokenizePattern(pattern).map(part => part.token ? format(part.value) : part.value).join('');
   }
 
   /**
  * Adds a specified amount of time to the DateTz instance.
+ * Milliseconds, seconds, minutes and hours are exact elapsed time; days, months and years
+ * move the local wall-clock date in the instance's timezone and keep its time of day.
+ * The result is truncated to the instance precision.
  * @param value - The amount of time to add.
- * @param unit - The unit of time ('minute', 'hour', 'day', 'month', 'year').
+ * @param unit - The unit of time ('millisecond', 'second', 'minute', 'hour', 'day', 'month', 'year').
+ * @param options - How to handle a day past the end of the month (overflow, 'constrain' by default)
+ * and a skipped or repeated local time (disambiguation) (optional).
  * @returns The updated DateTz instance.
- * @throws Error if the unit is unsupported.
+ * @throws Error if the unit is unsupported, or the result is invalid and the policy is 'reject'.
  */
-  add(value: number, unit: 'minute' | 'hour' | 'day' | 'month' | 'year') {
-    let remainingMs = this.timestamp;
-
-    // Extract current date components
-    let year = 1970;
-    let days = Math.floor(remainingMs / MS_PER_DAY);
-    remainingMs %= MS_PER_DAY;
-    let hour = Math.floor(remainingMs / MS_PER_HOUR);
-    remainingMs %= MS_PER_HOUR;
-    let minute = Math.floor(remainingMs / MS_PER_MINUTE);
-    let second = Math.floor((remainingMs % MS_PER_MINUTE) / 1000);
-
-    // Calculate current year
-    while (days >= this.daysInYear(year)) {
-      days -= this.daysInYear(year);
-      year++;
-    }
-
-    // Calculate current month
-    let month = 0;
-    while (days >= (month === 1 && this.isLeapYear(year) ? 29 : daysPerMonth[month])) {
-      days -= month === 1 && this.isLeapYear(year) ? 29 : daysPerMonth[month];
-      month++;
-    }
-
-    let day = days + 1;
-
-    // Add time based on the unit
-    switch (unit) {
-      case 'minute':
-        minute += value;
-        break;
-      case 'hour':
-        hour += value;
-        break;
-      case 'day':
-        day += value;
-        break;
-      case 'month':
-        month += value;
-        break;
-      case 'year':
-        year += value;
-        break;
-      default:
-        throw new Error(`Unsupported unit: ${unit}`);
-    }
-
-    // Normalize overflow for minutes, hours, and days
-    while (minute >= 60) {
-      minute -= 60;
-      hour++;
-    }
-    while (hour >= 24) {
-      hour -= 24;
-      day++;
-    }
-
-    // Normalize overflow for months and years
-    while (month >= 12) {
-      month -= 12;
-      year++;
-    }
-
-    // Normalize day overflow
-    while (day > (month === 1 && this.isLeapYear(year) ? 29 : daysPerMonth[month])) {
-      day -= month === 1 && this.isLeapYear(year) ? 29 : daysPerMonth[month];
-      month++;
-      if (month >= 12) {
-        month = 0;
-        year++;
-      }
+  add(value: number, unit: 'millisecond' | 'second' | 'minute' | 'hour' | 'day' | 'month' | 'year', options: DateTzArithmeticOptions = {}) {
+    if (unit as string === 'week') {
+      throw new Error(`Unsupported unit: ${unit}`);
     }
-
-    // Convert back to timestamp
-    const newTimestamp = (() => {
-      let totalMs = 0;
-
-      // Add years
-      for (let y = 1970; y < year; y++) {
-        totalMs += this.daysInYear(y) * MS_PER_DAY;
-      }
-
-      // Add months
-      for (let m = 0; m < month; m++) {
-        totalMs += (m === 1 && this.isLeapYear(year) ? 29 : daysPerMonth[m]) * MS_PER_DAY;
-      }
-
-      // Add days, hours, minutes, and seconds
-      totalMs += (day - 1) * MS_PER_DAY;
-      totalMs += hour * MS_PER_HOUR;
-      totalMs += minute * MS_PER_MINUTE;
-      totalMs += second * 1000;
-
-      return totalMs;
-    })();
-
-    this.timestamp = newTimestamp;
-    this.invalidateOffsetCache();
-    return this;
+    return this.shift(unit, value, options);
   }
 
   /**
    * Subtracts a specified amount of time from the DateTz instance.
    * @param value - The amount of time to subtract.
    * @param unit - The unit of time.
+   * @param options - Overflow and disambiguation policies, as for add (optional).
    */
-  subtract(value: number, unit: 'minute' | 'hour' | 'day' | 'week' | 'month' | 'year') {
-    this.shift(unit, -value);
+  subtract(value: number, unit: 'millisecond' | 'second' | 'minute' | 'hour' | 'day' | 'week' | 'month' | 'year', options: DateTzArithmeticOptions = {}) {
+    this.shift(unit, -value, options);
     return this;
   }
 
   /**
-   * Adds a duration object to the DateTz instance (Luxon-style).
-   * @param duration - Object containing duration components.
+   * Adds a duration to the DateTz instance (Luxon-style), largest unit first for Duration values.
+   * @param duration - Object containing duration components, a Duration or an ISO 8601 duration string.
+   * @param options - Overflow and disambiguation policies, as for add (optional).
    */
-  plus(duration: DateTzDurationLike = {}) {
-    for (const [rawUnit, rawValue] of Object.entries(duration)) {
+  plus(duration: DateTzDurationLike | Duration | string = {}, options: DateTzArithmeticOptions = {}) {
+    const components = typeof duration === 'string' || duration instanceof Duration ? Duration.from(duration).toObject() : duration;
+    for (const [rawUnit, rawValue] of Object.entries(components)) {
       if (rawValue === undefined || rawValue === 0) {
         continue;
       }
       const normalized = this.normalizeDiffUnit(rawUnit);
-      const value = rawValue as number;
-      if (normalized === 'millisecond' || normalized === 'second') {
-        throw new Error(`Unsupported duration unit: ${rawUnit}`);
-      }
-      this.shift(normalized, value);
+      this.shift(normalized, rawValue as number, options);
     }
     return this;
   }
 
   /**
-   * Subtracts a duration object from the DateTz instance (Luxon-style).
-   * @param duration - Object containing duration components.
+   * Subtracts a duration from the DateTz instance (Luxon-style).
+   * @param duration - Object containing duration components, a Duration or an ISO 8601 duration string.
+   * @param options - Overflow and disambiguation policies, as for add (optional).
    */
-  minus(duration: DateTzDurationLike = {}) {
+  minus(duration: DateTzDurationLike | Duration | string = {}, options: DateTzArithmeticOptions = {}) {
+    const components = typeof duration === 'string' || duration instanceof Duration ? Duration.from(duration).toObject() : duration;
     const inverted: DateTzDurationLike = {};
-    for (const [unit, rawValue] of Object.entries(duration)) {
+    for (const [unit, rawValue] of Object.entries(components)) {
       if (rawValue === undefined || rawValue === 0) {
         continue;
       }
       inverted[unit as keyof DateTzDurationLike] = -(rawValue as number);
     }
-    return this.plus(inverted);
+    return this.plus(inverted, options);
   }
 
   /**
    * Computes the difference between this instance and another.
+   * Both timestamps are truncated to this instance's precision first.
+   * Days and weeks are counted on the local calendar by default, as isSame and isBetween do:
+   * whole results count the local dates crossed (23:00 to 00:30 the next day is one day, and
+   * midnight to midnight across a 23- or 25-hour DST day is one day too), weeks being every
+   * seven of them, while fractional results measure the wall-clock time between the two.
+   * Pass 'elapsed' to count 24-hour periods instead.
+   * Passing 'duration' as the unit returns a Duration in years, months, days, hours,
+   * minutes, seconds and milliseconds (negative when this instance is earlier).
    * @param other - The date to compare with.
-   * @param unit - The unit of the resulting difference.
+   * @param unit - The unit of the resulting difference, or 'duration'.
    * @param asFloat - Whether to return a floating point result.
+   * @param mode - 'calendar' (default) or 'elapsed', for days and weeks.
    */
-  diff(other: IDateTz, unit: DateTzDiffUnit = 'millisecond', asFloat = false): number {
-    const normalized = this.normalizeDiffUnit(unit);
+  diff(other: IDateTz, unit: 'duration'): Duration;
+  diff(other: IDateTz, unit?: DateTzDiffUnit, asFloat?: boolean, mode?: DateTzDiffMode): number;
+  diff(other: IDateTz, unit: DateTzDiffUnit | 'duration' = 'millisecond', asFloat = false, mode: DateTzDiffMode = 'calendar'): number | Duration {
     const comparable = this.ensureComparable(other);
-    const delta = this.timestamp - comparable.timestamp;
+    if (unit === 'duration') {
+      return Duration.between(new DateTz(comparable.timestamp, this.timezone, this.precision), new DateTz(this));
+    }
+    if (!DIFF_MODES.includes(mode)) {
+      throw new Error(`Invalid diff mode: ${mode}`);
+    }
+    const normalized = this.normalizeDiffUnit(unit);
+    const delta = this.stripSMs(this.timestamp) - this.stripSMs(comparable.timestamp);
+    // The same delta measured on local wall-clock times
+    const localDelta = delta + (this.getOffsetSeconds(true) - comparable.getOffsetSeconds(true)) * 1000;
+    const dayDelta = mode === 'calendar' ? localDelta : delta;
 
     switch (normalized) {
       case 'millisecond':
@@ -413,9 +846,15 @@ export class DateTz implements IDateTz {
       case 'hour':
         return this.roundDiff(delta / MS_PER_HOUR, asFloat);
       case 'day':
-        return this.roundDiff(delta / MS_PER_DAY, asFloat);
+        if (mode === 'calendar' && !asFloat) {
+          return this.calendarKey('day') - comparable.calendarKey('day');
+        }
+        return this.roundDiff(dayDelta / MS_PER_DAY, asFloat);
       case 'week':
-        return this.roundDiff(delta / MS_PER_WEEK, asFloat);
+        if (mode === 'calendar' && !asFloat) {
+          return this.roundDiff((this.calendarKey('day') - comparable.calendarKey('day')) / 7, false);
+        }
+        return this.roundDiff(dayDelta / MS_PER_WEEK, asFloat);
       case 'month': {
         const months = this.diffInMonths(comparable, true);
         return this.roundDiff(months, asFloat);
@@ -429,36 +868,65 @@ export class DateTz implements IDateTz {
     }
   }
 
+  /**
+   * Breaks the difference between this instance and another down into several units,
+   * e.g. { years: 3, months: 2, days: 11 } for an age or a tenure.
+   * Years, months, weeks and days are counted on local calendar fields in this instance's
+   * timezone, anchored on the earlier date: Jan 31 to Feb 28 is one month, Jan 31 to Mar 31
+   * two. Smaller units are exact elapsed time, and any remainder below the smallest unit is dropped.
+   * @param other - The date to compare with.
+   * @param units - The units to break the difference into, in any order (defaults to year, month, day).
+   * @returns Every requested unit under its plural key, negative when this instance is earlier.
+   */
+  diffBreakdown(other: IDateTz, units: readonly DateTzDiffUnit[] = ['year', 'month', 'day']): DateTzDiffBreakdown {
+    const comparable = this.ensureComparable(other);
+    const normalized = units.map(unit => this.normalizeDiffUnit(unit));
+    const duration = Duration.between(new DateTz(comparable.timestamp, this.timezone, this.precision), new DateTz(this), normalized);
+    const breakdown: DateTzDiffBreakdown = {};
+    for (const unit of DIFF_UNITS) {
+      if (normalized.includes(unit)) {
+        const field = `${unit}s` as keyof DateTzDiffBreakdown;
+        breakdown[field] = duration[field];
+      }
+    }
+    return breakdown;
+  }
+
   /**
    * Moves the instance to the start of the provided unit (Moment-style).
    * @param unit - The time unit to reset to its lower bound.
+   * @param options - How to resolve a boundary that is skipped or repeated locally (optional).
    */
-  startOf(unit: DateTzGranularity) {
+  startOf(unit: DateTzGranularity, options: DateTzLocalOptions = {}) {
     const granularity = this.normalizeGranularity(unit);
+    const { disambiguation } = options;
     switch (granularity) {
+      case 'second':
+        this.setLocalComponents({ millisecond: 0 }, disambiguation);
+        break;
       case 'minute':
-        this.setLocalComponents({ second: 0 });
+        this.setLocalComponents({ second: 0, millisecond: 0 }, disambiguation);
         break;
       case 'hour':
-        this.setLocalComponents({ minute: 0, second: 0 });
+        this.setLocalComponents({ minute: 0, second: 0, millisecond: 0 }, disambiguation);
         break;
       case 'day':
-        this.setLocalComponents({ hour: 0, minute: 0, second: 0 });
+        this.setLocalComponents({ hour: 0, minute: 0, second: 0, millisecond: 0 }, disambiguation);
         break;
       case 'week': {
-        this.startOf('day');
+        this.startOf('day', options);
         const dayOfWeek = this.dayOfWeek;
         if (dayOfWeek !== 0) {
           this.shift('day', -dayOfWeek);
-          this.startOf('day');
+          this.startOf('day', options);
         }
         break;
       }
       case 'month':
-        this.setLocalComponents({ day: 1, hour: 0, minute: 0, second: 0 });
+        this.setLocalComponents({ day: 1, hour: 0, minute: 0, second: 0, millisecond: 0 }, disambiguation);
         break;
       case 'year':
-        this.setLocalComponents({ month: 0, day: 1, hour: 0, minute: 0, second: 0 });
+        this.setLocalComponents({ month: 0, day: 1, hour: 0, minute: 0, second: 0, millisecond: 0 }, disambiguation);
         break;
     }
     return this;
@@ -466,39 +934,19 @@ export class DateTz implements IDateTz {
 
   /**
    * Moves the instance to the end of the provided unit (Moment-style).
+   * The end is the last instant representable at the instance precision.
    * @param unit - The time unit to advance to its upper bound.
+   * @param options - How to resolve a boundary that is skipped or repeated locally (optional).
    */
-  endOf(unit: DateTzGranularity) {
+  endOf(unit: DateTzGranularity, options: DateTzLocalOptions = {}) {
     const granularity = this.normalizeGranularity(unit);
-    switch (granularity) {
-      case 'minute':
-        return this;
-      case 'hour':
-        this.startOf('hour');
-        this.shift('hour', 1);
-        this.shift('minute', -1);
-        break;
-      case 'day':
-        this.startOf('day');
-        this.shift('day', 1);
-        this.shift('minute', -1);
-        break;
-      case 'week':
-        this.startOf('week');
-        this.shift('week', 1);
-        this.shift('minute', -1);
-        break;
-      case 'month':
-        this.startOf('month');
-        this.shift('month', 1);
-        this.shift('minute', -1);
-        break;
-      case 'year':
-        this.startOf('year');
-        this.shift('year', 1);
-        this.shift('minute', -1);
-        break;
+    const step = PRECISION_MS[this.precision];
+    if (step >= this.unitToMs(granularity)) {
+      return this.startOf(granularity, options);
     }
+    this.startOf(granularity, options);
+    this.shift(granularity, 1, options);
+    this.shift('millisecond', -step);
     return this;
   }
 
@@ -517,17 +965,103 @@ export class DateTz implements IDateTz {
   }
 
   /**
-   * Returns an ISO 8601 string (UTC, minute precision).
+   * Returns an ISO 8601 string (UTC).
    */
   toISOString(): string {
     return this.toJSDate().toISOString();
   }
 
   /**
-   * Synonym for toISOString (Luxon compatibility).
+   * Returns an ISO 8601 string. Without options this is a synonym for toISOString
+   * (Luxon compatibility).
+   * @param options - offset: print the local time with its UTC offset instead of UTC;
+   * zone: append the RFC 9557 timezone annotation (e.g. [Europe/Rome]);
+   * precision: the smallest time unit to print (defaults to seconds, or milliseconds
+   * for millisecond-precision instances).
+   */
+  toISO(options?: DateTzISOOptions): string {
+    if (!options) {
+      return this.toISOString();
+    }
+    const precision = options.precision || (this.precision === 'millisecond' ? 'millisecond' : 'second');
+    const offsetSeconds = options.offset ? this.getOffsetInfo().offsetSeconds : 0;
+    const parts = partsFromMs(this.timestamp + offsetSeconds * 1000);
+    let result = `${formatYear(parts.year)}-${String(parts.month + 1).padStart(2, '0')}-${String(parts.day).padStart(2, '0')}`
+      + `T${String(parts.hour).padStart(2, '0')}:${String(parts.minute).padStart(2, '0')}`;
+    if (precision !== 'minute') {
+      result += `:${String(parts.second).padStart(2, '0')}`;
+    }
+    if (precision === 'millisecond') {
+      result += `.${String(parts.millisecond).padStart(3, '0')}`;
+    }
+    result += options.offset ? formatOffset(offsetSeconds) : 'Z';
+    if (options.zone) {
+      result += `[${this.timezone}]`;
+    }
+    return result;
+  }
+
+  /**
+   * Describes the instance relative to another date with Intl.RelativeTimeFormat, e.g. "3 hours ago"
+   * or "in 2 days". The unit is the first one whose rounded amount stays below its threshold
+   * (by default 45 seconds, 45 minutes, 22 hours, 26 days and 11 months, then years).
+   * Days and weeks are counted on local wall-clock time in this instance's timezone, and months
+   * and years on its calendar, as in diff().
+   * @param base - The date to compare with, in any timezone (defaults to now).
+   * @param options - The locale (defaults to 'en'), style, numeric, a fixed unit and thresholds by unit.
+   */
+  toRelative(base?: IDateTz, options: DateTzRelativeOptions = {}): string {
+    const reference = new DateTz(base ? base.timestamp : Date.now(), this.timezone, 'millisecond');
+    let unit: DateTzGranularity = 'year';
+    if (options.unit) {
+      unit = this.normalizeGranularity(options.unit);
+    } else {
+      const thresholds = { ...DEFAULT_RELATIVE_THRESHOLDS, ...options.thresholds };
+      unit = RELATIVE_UNITS.find(candidate => thresholds[candidate] !== undefined
+        && Math.abs(this.relativeAmount(reference, candidate)) < thresholds[candidate]) || 'year';
+    }
+    const formatter = new Intl.RelativeTimeFormat(options.locale || 'en', { style: options.style || 'long', numeric: options.numeric || 'always' });
+    return formatter.format(this.relativeAmount(reference, unit), unit);
+  }
+
+  /**
+   * Describes the local calendar day of the instance relative to another date, e.g. "today",
+   * "tomorrow", "last Monday", "next week" or "last month". Days are compared on local dates in
+   * this instance's timezone, not as 24-hour blocks, so 23:50 yesterday is "yesterday" even ten
+   * minutes later. Days are used within a week, then weeks (starting on Sunday) up to four,
+   * then months within a year, then years. Other days of the past or next week are named by
+   * their weekday ("last Monday", "on Friday") in English, and counted ("3 days ago") in other
+   * locales, which Intl has no phrases for.
+   * @param base - The date to compare with, in any timezone (defaults to now).
+   * @param options - The locale (defaults to 'en'), style, a fixed unit and whether to append the time.
+   * @throws Error if the unit is not 'day', 'week', 'month' or 'year'.
    */
-  toISO(): string {
-    return this.toISOString();
+  toRelativeCalendar(base?: IDateTz, options: DateTzRelativeCalendarOptions = {}): string {
+    const reference = new DateTz(base ? base.timestamp : Date.now(), this.timezone, 'millisecond');
+    // Week keys are the day number of the week's Sunday
+    const amount = (unit: DateTzRelativeCalendarUnit) => (this.calendarKey(unit) - reference.calendarKey(unit)) / (unit === 'week' ? 7 : 1);
+    let unit = options.unit;
+    if (unit !== undefined && !RELATIVE_CALENDAR_UNITS.includes(unit)) {
+      throw new Error(`Invalid relative calendar unit: ${unit}`);
+    }
+    const locale = options.locale || 'en';
+    const english = new Intl.Locale(locale).language === 'en';
+    let result: string;
+    if (unit === undefined && english && Math.abs(amount('day')) >= 2 && Math.abs(amount('day')) < 7) {
+      const weekday = this.toString(options.style === 'short' || options.style === 'narrow' ? 'EEE' : 'EEEE', locale);
+      result = `${amount('day') < 0 ? 'last' : 'on'} ${weekday}`;
+    } else {
+      if (unit === undefined) {
+        const days = Math.abs(amount('day'));
+        unit = days < 7 ? 'day' : Math.abs(amount('week')) < 5 ? 'week' : Math.abs(amount('month')) < 12 ? 'month' : 'year';
+      }
+      const formatter = new Intl.RelativeTimeFormat(locale, { style: options.style || 'long', numeric: 'auto' });
+      result = formatter.format(amount(unit), unit);
+    }
+    if (options.time) {
+      result += `${english ? ' at ' : ', '}${this.toString('HH:mm', locale)}`;
+    }
+    return result;
   }
 
   /**
@@ -611,80 +1145,37 @@ export class DateTz implements IDateTz {
 
 
   private _year(considerDst = false) {
-    const offset = this.getOffsetSeconds(considerDst) * 1000;
-    let remainingMs = this.timestamp + offset;
-    let year = 1970;
-    let days = Math.floor(remainingMs / MS_PER_DAY);
-
-    while (days >= this.daysInYear(year)) {
-      days -= this.daysInYear(year);
-      year++;
-    }
-
-    return year;
+    return this.getLocalParts(considerDst).year;
   }
 
   private _month(considerDst = false) {
-    const offset = this.getOffsetSeconds(considerDst) * 1000;
-    let remainingMs = this.timestamp + offset;
-    let year = 1970;
-    let days = Math.floor(remainingMs / MS_PER_DAY);
-
-    while (days >= this.daysInYear(year)) {
-      days -= this.daysInYear(year);
-      year++;
-    }
-
-    let month = 0;
-    while (days >= (month === 1 && this.isLeapYear(year) ? 29 : daysPerMonth[month])) {
-      days -= month === 1 && this.isLeapYear(year) ? 29 : daysPerMonth[month];
-      month++;
-    }
-
-    return month;
+    return this.getLocalParts(considerDst).month;
   }
 
   private _day(considerDst = false) {
-    const offset = this.getOffsetSeconds(considerDst) * 1000;
-    let remainingMs = this.timestamp + offset;
-    let year = 1970;
-    let days = Math.floor(remainingMs / MS_PER_DAY);
-
-    while (days >= this.daysInYear(year)) {
-      days -= this.daysInYear(year);
-      year++;
-    }
-
-    let month = 0;
-    while (days >= (month === 1 && this.isLeapYear(year) ? 29 : daysPerMonth[month])) {
-      days -= month === 1 && this.isLeapYear(year) ? 29 : daysPerMonth[month];
-      month++;
-    }
-
-    return days + 1;
+    return this.getLocalParts(considerDst).day;
   }
 
   private _hour(considerDst = false) {
     const offset = this.getOffsetSeconds(considerDst) * 1000;
-    let remainingMs = this.timestamp + offset;
-    remainingMs %= MS_PER_DAY;
-    let hour = Math.floor(remainingMs / MS_PER_HOUR);
-    return hour;
+    return Math.floor(mod(this.timestamp + offset, MS_PER_DAY) / MS_PER_HOUR);
   }
 
   private _minute(considerDst = false) {
     const offset = this.getOffsetSeconds(considerDst) * 1000;
-    let remainingMs = this.timestamp + offset;
-    remainingMs %= MS_PER_HOUR;
-    let minute = Math.floor(remainingMs / MS_PER_MINUTE);
-    return minute;
+    return Math.floor(mod(this.timestamp + offset, MS_PER_HOUR) / MS_PER_MINUTE);
+  }
+
+  private _second(considerDst = false) {
+    const offset = this.getOffsetSeconds(considerDst) * 1000;
+    return Math.floor(mod(this.timestamp + offset, MS_PER_MINUTE) / MS_PER_SECOND);
   }
 
   private _dayOfWeek(considerDst = false) {
     const offset = this.getOffsetSeconds(considerDst) * 1000;
-    let remainingMs = this.timestamp + offset;
-    const date = new Date(remainingMs);
-    return date.getDay();
+    const days = Math.floor((this.timestamp + offset) / MS_PER_DAY);
+    // 1970-01-01 was a Thursday
+    return mod(days + 4, 7);
   }
 
   /**
@@ -719,22 +1210,18 @@ export class DateTz implements IDateTz {
   }
 
   /**
-   * Strips seconds and milliseconds from the timestamp.
+   * Strips the parts of the timestamp finer than the instance precision.
    * @param timestamp - The original timestamp.
-   * @returns The timestamp without seconds and milliseconds.
+   * @returns The timestamp truncated to the instance precision.
    */
   private stripSMs(timestamp: number): number {
-    // Calculate the time components
-    const days = Math.floor(timestamp / MS_PER_DAY);
-    const remainingAfterDays = timestamp % MS_PER_DAY;
-
-    const hours = Math.floor(remainingAfterDays / MS_PER_HOUR);
-    const remainingAfterHours = remainingAfterDays % MS_PER_HOUR;
-
-    const minutes = Math.floor(remainingAfterHours / MS_PER_MINUTE);
+    return timestamp - mod(timestamp, PRECISION_MS[this.precision]);
+  }
 
-    // Reconstruct the timestamp without seconds and milliseconds
-    return days * MS_PER_DAY + hours * MS_PER_HOUR + minutes * MS_PER_MINUTE;
+  private assertTimestamp(timestamp: number) {
+    if (typeof timestamp !== 'number' || !Number.isFinite(timestamp) || Math.abs(timestamp) > MAX_TIMESTAMP) {
+      throw new Error(`Invalid timestamp: ${timestamp}`);
+    }
   }
 
   private isLikelyLocale(candidate: string): boolean {
@@ -760,7 +1247,7 @@ export class DateTz implements IDateTz {
     return this.getOffsetInfo().offsetSeconds;
   }
 
-  private getOffsetInfo(): { offsetSeconds: number; isDst: boolean; } {
+  private getOffsetInfo(): ZoneOffset {
     if (this.offsetCache && this.offsetCache.timestamp === this.timestamp) {
       return this.offsetCache.info;
     }
@@ -769,87 +1256,25 @@ export class DateTz implements IDateTz {
     return info;
   }
 
-  private computeOffsetInfo(): { offsetSeconds: number; isDst: boolean; } {
-    const tzInfo = timezones[this.timezone];
-    if (!tzInfo) {
-      throw new Error(`Invalid timezone: ${this.timezone}`);
-    }
-    if (tzInfo.dst === tzInfo.sdt) {
-      return { offsetSeconds: tzInfo.sdt, isDst: false };
-    }
-    const actual = this.getIntlOffsetSeconds(this.timestamp);
-    if (actual !== null) {
-      if (actual !== tzInfo.sdt && actual !== tzInfo.dst) {
-        return { offsetSeconds: actual, isDst: actual > tzInfo.sdt };
-      }
-      return { offsetSeconds: actual, isDst: actual === tzInfo.dst };
-    }
-    return { offsetSeconds: tzInfo.sdt, isDst: false };
+  private computeOffsetInfo(): ZoneOffset {
+    return getZoneOffset(this.timezone, this.timestamp);
   }
 
-  private getIntlOffsetSeconds(timestamp: number): number | null {
-    try {
-      const formatter = new Intl.DateTimeFormat('en-US', {
-        timeZone: this.timezone,
-        hour12: false,
-        year: 'numeric',
-        month: '2-digit',
-        day: '2-digit',
-        hour: '2-digit',
-        minute: '2-digit',
-        second: '2-digit'
-      });
-      const parts = formatter.formatToParts(new Date(timestamp));
-      const lookup = (type: string) => {
-        const part = parts.find(p => p.type === type);
-        if (!part) {
-          throw new Error(`Missing part ${type}`);
-        }
-        return Number(part.value);
-      };
-      const adjusted = Date.UTC(
-        lookup('year'),
-        lookup('month') - 1,
-        lookup('day'),
-        lookup('hour'),
-        lookup('minute'),
-        lookup('second')
-      );
-      return Math.round((adjusted - timestamp) / 1000);
-    } catch {
-      return null;
-    }
+  private getLocalParts(considerDst = true): LocalParts {
+    const offset = this.getOffsetSeconds(considerDst) * 1000;
+    return partsFromMs(this.timestamp + offset);
   }
 
-  private getLocalParts(considerDst = true): LocalParts {
-    return {
-      year: this._year(considerDst),
-      month: this._month(considerDst),
-      day: this._day(considerDst),
-      hour: this._hour(considerDst),
-      minute: this._minute(considerDst),
-      second: 0
-    };
+  private getUtcParts(): LocalParts {
+    return partsFromMs(this.timestamp);
   }
 
-  private setLocalComponents(update: Partial<LocalParts>) {
-    const current = this.getLocalParts(true);
+  private setLocalComponents(update: Partial<LocalParts>, disambiguation?: DateTzDisambiguation) {
     const next: LocalParts = {
-      ...current,
+      ...this.getLocalParts(true),
       ...update
     };
-    const pattern = 'YYYY-MM-DD HH:mm:ss';
-    const dateString = [
-      String(next.year).padStart(4, '0'),
-      String(next.month + 1).padStart(2, '0'),
-      String(next.day).padStart(2, '0')
-    ].join('-') + ' ' + [
-      String(next.hour).padStart(2, '0'),
-      String(next.minute).padStart(2, '0'),
-      String(next.second).padStart(2, '0')
-    ].join(':');
-    const parsed = DateTz.parse(dateString, pattern, this.timezone);
-    this.timestamp = parsed.timestamp;
+    this.timestamp = DateTz.fromLocalParts(next, this.timezone, this.precision, disambiguation).timestamp;
     this.invalidateOffsetCache();
   }
 
@@ -858,7 +1283,7 @@ export class DateTz implements IDateTz {
       return other;
     }
     const tz = other.timezone ?? this.timezone;
-    return new DateTz(other.timestamp, tz);
+    return new DateTz(other.timestamp, tz, other.precision ?? this.precision);
   }
 
   private ensureComparable(other: IDateTz): DateTz {
@@ -882,7 +1307,7 @@ export class DateTz implements IDateTz {
 
   private normalizeGranularity(unit: string): DateTzGranularity {
     const normalized = this.normalizeDiffUnit(unit);
-    if (normalized === 'millisecond' || normalized === 'second') {
+    if (normalized === 'millisecond') {
       throw new Error(`Unsupported granularity: ${unit}`);
     }
     return normalized as DateTzGranularity;
@@ -891,14 +1316,15 @@ export class DateTz implements IDateTz {
   private diffInMonths(other: DateTz, asFloat: boolean): number {
     const earlier = this.timestamp < other.timestamp ? new DateTz(this) : new DateTz(other);
     const later = this.timestamp < other.timestamp ? new DateTz(other) : new DateTz(this);
-    let anchor = new DateTz(earlier);
-    let months = 0;
-    let next = new DateTz(anchor).add(1, 'month');
-    while (next.timestamp <= later.timestamp) {
-      anchor = next;
-      months++;
-      next = new DateTz(anchor).add(1, 'month');
+    // The local month fields give an upper bound; always add to the earlier date so
+    // that month-end clamping does not accumulate (Jan 31 + 2 months is Mar 31)
+    let months = (later.year - earlier.year) * 12 + later.month - earlier.month;
+    let anchor = new DateTz(earlier).add(months, 'month');
+    while (months > 0 && anchor.timestamp > later.timestamp) {
+      months--;
+      anchor = new DateTz(earlier).add(months, 'month');
     }
+    const next = new DateTz(earlier).add(months + 1, 'month');
 
     if (!asFloat) {
       return this.timestamp < other.timestamp ? -months : months;
@@ -920,15 +1346,43 @@ export class DateTz implements IDateTz {
     return value < 0 ? Math.ceil(value) : Math.floor(value);
   }
 
+  // The difference from another date in a unit, rounded half away from zero
+  private relativeAmount(other: DateTz, unit: DateTzGranularity): number {
+    const value = this.diff(other, unit, true);
+    return Math.sign(value) * Math.round(Math.abs(value)) || 0;
+  }
+
   private compareWithUnitDate(other: DateTz, unit: DateTzDiffUnit): number {
     const normalized = this.normalizeDiffUnit(unit);
-    if (normalized === 'millisecond' || normalized === 'second') {
+    if (normalized === 'millisecond') {
       return this.timestamp - other.timestamp;
     }
-    const granularity = normalized as DateTzGranularity;
-    const left = this.clone().startOf(granularity);
-    const right = other.clone().startOf(granularity);
-    return left.timestamp - right.timestamp;
+    if (normalized === 'second' || normalized === 'minute' || normalized === 'hour') {
+      const step = this.unitToMs(normalized);
+      const left = Math.floor((this.timestamp + this.getOffsetSeconds(true) * 1000) / step);
+      const right = Math.floor((other.timestamp + other.getOffsetSeconds(true) * 1000) / step);
+      // The same local hour occurs twice when clocks fall back; the instants tell them apart
+      if (left === right && this.getOffsetSeconds(true) !== other.getOffsetSeconds(true)) {
+        return this.timestamp - other.timestamp;
+      }
+      return left - right;
+    }
+    // Days and longer compare local calendar dates, whatever the length of each day
+    return this.calendarKey(normalized) - other.calendarKey(normalized);
+  }
+
+  private calendarKey(unit: 'day' | 'week' | 'month' | 'year'): number {
+    const { year, month, day } = this.getLocalParts(true);
+    switch (unit) {
+      case 'day':
+        return daysFromCivil(year, month, day);
+      case 'week':
+        return daysFromCivil(year, month, day) - this.dayOfWeek;
+      case 'month':
+        return year * 12 + month;
+      case 'year':
+        return year;
+    }
   }
 
   private compareWithUnit(other: IDateTz, unit: DateTzDiffUnit): number {
@@ -936,11 +1390,17 @@ export class DateTz implements IDateTz {
     return this.compareWithUnitDate(instance, unit);
   }
 
-  private shift(unit: DateTzDiffUnit, value: number) {
+  private shift(unit: DateTzDiffUnit, value: number, options: DateTzArithmeticOptions = {}) {
     if (value === 0) {
       return this;
     }
     switch (unit) {
+      case 'millisecond':
+        this.timestamp += value;
+        break;
+      case 'second':
+        this.timestamp += value * MS_PER_SECOND;
+        break;
       case 'minute':
         this.timestamp += value * MS_PER_MINUTE;
         break;
@@ -948,168 +1408,140 @@ export class DateTz implements IDateTz {
         this.timestamp += value * MS_PER_HOUR;
         break;
       case 'day':
-        this.timestamp += value * MS_PER_DAY;
-        break;
-      case 'week':
-        this.timestamp += value * MS_PER_WEEK;
-        break;
+      case 'week': {
+        // Calendar days keep the local time of day across offset changes
+        const days = unit === 'week' ? value * 7 : value;
+        this.setLocalComponents({ day: this.getLocalParts(true).day + days }, options.disambiguation);
+        return this;
+      }
       case 'month':
-        this.shiftCalendar('month', value);
+        this.shiftCalendar('month', value, options);
         return this;
       case 'year':
-        this.shiftCalendar('year', value);
+        this.shiftCalendar('year', value, options);
         return this;
       default:
         throw new Error(`Unsupported unit: ${unit}`);
     }
+    this.timestamp = this.stripSMs(this.timestamp);
     this.invalidateOffsetCache();
     return this;
   }
 
-  private shiftCalendar(unit: 'month' | 'year', value: number) {
+  private unitToMs(unit: DateTzDiffUnit): number {
+    switch (unit) {
+      case 'millisecond':
+        return 1;
+      case 'second':
+        return MS_PER_SECOND;
+      case 'minute':
+        return MS_PER_MINUTE;
+      case 'hour':
+        return MS_PER_HOUR;
+      case 'day':
+        return MS_PER_DAY;
+      case 'week':
+        return MS_PER_WEEK;
+      default:
+        return Infinity;
+    }
+  }
+
+  private shiftCalendar(unit: 'month' | 'year', value: number, options: DateTzArithmeticOptions = {}) {
+    const overflow = resolveOverflow(options.overflow);
     if (value === 0) {
       return;
     }
     const current = this.getLocalParts(true);
-    let year = current.year;
-    let month = current.month;
-    let day = current.day;
-
-    if (unit === 'year') {
-      year += value;
-    } else {
-      let totalMonths = year * 12 + month + value;
-      year = Math.floor(totalMonths / 12);
-      month = totalMonths % 12;
-      if (month < 0) {
-        month += 12;
-        year -= 1;
-      }
-    }
-
-    const maxDay = month === 1 && this.isLeapYear(year) ? 29 : daysPerMonth[month];
-    if (day > maxDay) {
-      day = maxDay;
-    }
+    const totalMonths = current.year * 12 + current.month + (unit === 'year' ? value * 12 : value);
+    const year = Math.floor(totalMonths / 12);
+    const month = mod(totalMonths, 12);
+    const day = constrainField('day', current.day, 1, daysInMonth(year, month), overflow);
 
-    this.setLocalComponents({ year, month, day });
+    this.setLocalComponents({ year, month, day }, options.disambiguation);
   }
 
   /**
- * Sets a specific component of the date or time.
- * @param value - The value to set.
- * @param unit - The unit to set ('year', 'month', 'day', 'hour', 'minute').
+ * Sets one or more local date/time components in the instance's timezone.
+ * The object form applies every field at once, so intermediate states never overflow
+ * (e.g. moving from January 31 to April 30). Months are 1-based.
+ * Out-of-range values follow options.overflow: 'constrain' (default) clamps them to the
+ * nearest valid value, 'overflow' rolls them into the next unit, 'reject' throws.
+ * The result is truncated to the instance precision.
+ * @param value - The value to set, or an object of fields ({ year, month, day, hour, minute, second, millisecond }).
+ * @param unit - The unit to set ('year', 'month', 'day', 'hour', 'minute', 'second', 'millisecond').
+ * @param options - Overflow and disambiguation policies (optional).
  * @returns The updated DateTz instance.
- * @throws Error if the unit is unsupported.
+ * @throws Error if the unit is unsupported, or a value is invalid and the policy is 'reject'.
  */
-  set(value: number, unit: 'year' | 'month' | 'day' | 'hour' | 'minute') {
-    let remainingMs = this.timestamp;
-
-    // Extract current date components
-    let year = 1970;
-    let days = Math.floor(remainingMs / MS_PER_DAY);
-    remainingMs %= MS_PER_DAY;
-    let hour = Math.floor(remainingMs / MS_PER_HOUR);
-    remainingMs %= MS_PER_HOUR;
-    let minute = Math.floor(remainingMs / MS_PER_MINUTE);
-    let second = Math.floor((remainingMs % MS_PER_MINUTE) / 1000);
-
-    // Calculate current year
-    while (days >= this.daysInYear(year)) {
-      days -= this.daysInYear(year);
-      year++;
-    }
-
-    // Calculate current month
-    let month = 0;
-    while (days >= (month === 1 && this.isLeapYear(year) ? 29 : daysPerMonth[month])) {
-      days -= month === 1 && this.isLeapYear(year) ? 29 : daysPerMonth[month];
-      month++;
-    }
-
-    let day = days + 1;
-
-    // Set the value based on the unit
-    switch (unit) {
-      case 'year':
-        year = value;
-        break;
-      case 'month':
-        month = value - 1;
-        break;
-      case 'day':
-        day = value;
-        break;
-      case 'hour':
-        hour = value;
-        break;
-      case 'minute':
-        minute = value;
-        break;
-      default:
-        throw new Error(`Unsupported unit: ${unit}`);
-    }
-
-    // Normalize overflow for months and years
-    while (month >= 12) {
-      month -= 12;
-      year++;
-    }
-
-    // Normalize day overflow
-    while (day > (month === 1 && this.isLeapYear(year) ? 29 : daysPerMonth[month])) {
-      day -= month === 1 && this.isLeapYear(year) ? 29 : daysPerMonth[month];
-      month++;
-      if (month >= 12) {
-        month = 0;
-        year++;
-      }
-    }
-
-    // Convert back to timestamp
-    const newTimestamp = (() => {
-      let totalMs = 0;
-
-      // Add years
-      for (let y = 1970; y < year; y++) {
-        totalMs += this.daysInYear(y) * MS_PER_DAY;
+  set(fields: DateTzFields, options?: DateTzArithmeticOptions): this;
+  set(value: number, unit: 'year' | 'month' | 'day' | 'hour' | 'minute' | 'second' | 'millisecond', options?: DateTzArithmeticOptions): this;
+  set(valueOrFields: number | DateTzFields, unitOrOptions?: string | DateTzArithmeticOptions, maybeOptions: DateTzArithmeticOptions = {}): this {
+    const fields: DateTzFields = typeof valueOrFields === 'number'
+      ? { [unitOrOptions as string]: valueOrFields }
+      : valueOrFields;
+    const options = (typeof valueOrFields === 'number' ? maybeOptions : unitOrOptions as DateTzArithmeticOptions) || {};
+    const overflow = resolveOverflow(options.overflow);
+
+    // Extract current local date components
+    const parts = this.getLocalParts(true);
+
+    for (const [unit, value] of Object.entries(fields)) {
+      if (value === undefined) {
+        continue;
       }
-
-      // Add months
-      for (let m = 0; m < month; m++) {
-        totalMs += (m === 1 && this.isLeapYear(year) ? 29 : daysPerMonth[m]) * MS_PER_DAY;
+      switch (unit) {
+        case 'year':
+          parts.year = value;
+          break;
+        case 'month':
+          parts.month = value - 1;
+          break;
+        case 'day':
+          parts.day = value;
+          break;
+        case 'hour':
+          parts.hour = value;
+          break;
+        case 'minute':
+          parts.minute = value;
+          break;
+        case 'second':
+          parts.second = value;
+          break;
+        case 'millisecond':
+          parts.millisecond = value;
+          break;
+        default:
+          throw new Error(`Unsupported unit: ${unit}`);
       }
+    }
 
-      // Add days, hours, minutes, and seconds
-      totalMs += (day - 1) * MS_PER_DAY;
-      totalMs += hour * MS_PER_HOUR;
-      totalMs += minute * MS_PER_MINUTE;
-      totalMs += second * 1000;
+    if (overflow !== 'overflow') {
+      parts.month = constrainField('month', parts.month + 1, 1, 12, overflow) - 1;
+      parts.day = constrainField('day', parts.day, 1, daysInMonth(parts.year, parts.month), overflow);
+      parts.hour = constrainField('hour', parts.hour, 0, 23, overflow);
+      parts.minute = constrainField('minute', parts.minute, 0, 59, overflow);
+      parts.second = constrainField('second', parts.second, 0, 59, overflow);
+      parts.millisecond = constrainField('millisecond', parts.millisecond, 0, 999, overflow);
+    }
 
-      return totalMs;
-    })();
+    // Roll month overflow into years; other fields roll over when the timestamp is rebuilt
+    parts.year += Math.floor(parts.month / 12);
+    parts.month = mod(parts.month, 12);
 
-    this.timestamp = newTimestamp;
-    this.invalidateOffsetCache();
+    this.setLocalComponents(parts, options.disambiguation);
     return this;
   }
 
   /**
- * Checks if a given year is a leap year.
- * @param year - The year to check.
- * @returns True if the year is a leap year, otherwise false.
- */
-  private isLeapYear(year: number) {
-    return (year % 4 === 0 && year % 100 !== 0) || (year % 400 === 0);
-  }
-
-  /**
-   * Gets the number of days in a given year.
-   * @param year - The year to check.
-   * @returns The number of days in the year.
+   * Creates a copy with one or more local date/time components replaced (immutable `set`).
+   * @param fields - The fields to replace ({ year, month, day, hour, minute, second, millisecond }); months are 1-based.
+   * @param options - Overflow and disambiguation policies, as for set (optional).
+   * @returns A new DateTz instance.
    */
-  private daysInYear(year: number) {
-    return this.isLeapYear(year) ? 366 : 365;
+  with(fields: DateTzFields, options: DateTzArithmeticOptions = {}): DateTz {
+    return new DateTz(this).set(fields, options);
   }
 
   /**
@@ -1117,9 +1549,21 @@ export class DateTz implements IDateTz {
  * @param dateString - The date string to parse.
  * @param pattern - The format pattern (optional).
  * @param tz - The timezone identifier (optional).
+ * @param options - Parsing options such as the precision of the result and the disambiguation
+ * of skipped or repeated local times (optional, defaults to 'compatible').
  * @returns A new DateTz instance.
+ * @throws Error if the local time is skipped or repeated and options.disambiguation is 'reject'.
  */
-  static parse(dateString: string, pattern?: string, tz?: string): IDateTz {
+  static parse(dateString: string, pattern?: string, tz?: string, options: DateTzParseOptions = {}): IDateTz {
+    const parts = DateTz.parseLocalParts(dateString, pattern, tz);
+    const precision = options.precision || DateTz.defaultPrecision;
+    return DateTz.fromLocalParts(parts, tz || 'UTC', precision, options.disambiguation);
+  }
+
+  /**
+   * Extracts local wall-clock components from a formatted date string.
+   */
+  private static parseLocalParts(dateString: string, pattern?: string, tz?: string): LocalParts {
     if (!pattern) pattern = DateTz.defaultFormat;
     if (!tz) tz = 'UTC';
     if (!timezones[tz]) {
@@ -1129,7 +1573,7 @@ export class DateTz implements IDateTz {
       throw new Error('AM/PM marker (aa or AA) is required when using 12-hour format (hh)');
     }
 
-    const regex = /YYYY|yyyy|MM|DD|HH|hh|mm|ss|aa|AA/g;
+    const regex = /YYYY|yyyy|MM|DD|HH|hh|mm|ss|SSS|aa|AA/g;
     const dateComponents: { [key: string]: number | string; } = {
       YYYY: 1970,
       yyyy: 1970,
@@ -1141,18 +1585,25 @@ export class DateTz implements IDateTz {
       AA: "AM",
       mm: 0,
       ss: 0,
+      SSS: 0,
     };
 
     let match: RegExpExecArray | null;
-    let index = 0;
+    // Expanded years (±YYYYYY) are three characters longer than their token
+    let shift = 0;
     while ((match = regex.exec(pattern)) !== null) {
       const token = match[0];
-      const value = parseInt(dateString.substring(match.index, match.index + token.length), 10);
+      const start = match.index + shift;
+      let length = token.length;
+      if ((token === 'YYYY' || token === 'yyyy') && (dateString[start] === '+' || dateString[start] === '-')) {
+        length = 7;
+        shift += 3;
+      }
+      const value = parseInt(dateString.substring(start, start + length), 10);
       dateComponents[token] = value;
-      index += token.length + 1;
     }
 
-    const year = (dateComponents.YYYY as number) || (dateComponents.yyyy as number);
+    const year = pattern.includes('YYYY') ? dateComponents.YYYY as number : dateComponents.yyyy as number;
     const month = (dateComponents.MM as number) - 1; // Months are zero-based
     const day = dateComponents.DD as number;
     let hour = 0;
@@ -1164,72 +1615,186 @@ export class DateTz implements IDateTz {
     }
     const minute = dateComponents.mm as number;
     const second = dateComponents.ss as number;
+    const millisecond = dateComponents.SSS as number;
 
-    const daysInYear = (yr: number) => (yr % 4 === 0 && yr % 100 !== 0) || (yr % 400 === 0) ? 366 : 365;
-    const daysInMonth = (yr: number, mon: number) => mon === 1 && daysInYear(yr) === 366 ? 29 : daysPerMonth[mon];
-
-    let timestamp = 0;
+    return { year, month, day, hour, minute, second, millisecond };
+  }
 
-    for (let y = 1970; y < year; y++) {
-      timestamp += daysInYear(y) * MS_PER_DAY;
+  /**
+   * Parses an ISO 8601 string into a DateTz instance.
+   * Accepts calendar (2025-03-10, 20250310), week (2025-W11-1) and ordinal (2025-069) dates,
+   * expanded years, reduced precision times, decimal fractions, Z or ±HH:MM offsets and
+   * RFC 9557 annotations such as 2025-03-30T03:15:00+02:00[Europe/Rome].
+   * When the string carries an offset the instant is taken from it; otherwise the
+   * wall-clock time is resolved in the bracketed zone or the target timezone.
+   * A bracketed zone that disagrees with the offset is handled by options.offsetConflict
+   * ('reject' by default, 'offset' to keep the instant, 'zone' to keep the wall-clock time).
+   * @param input - The ISO 8601 string.
+   * @param tz - The timezone to attach (optional). Defaults to the bracketed zone, then to the
+   * zone derived from the embedded offset (UTC or Etc/GMT±N), then to UTC for offsets that
+   * are not whole hours (the instant is kept either way).
+   * @param options - Parsing options such as the precision of the result (optional).
+   * @returns A new DateTz instance.
+   * @throws Error if the string is not valid ISO 8601, its zone is unknown or conflicts with
+   * the offset, or an option is not recognised.
+   */
+  static fromISO(input: string, tz?: string, options: DateTzParseOptions = {}): IDateTz {
+    const precision = options.precision || DateTz.defaultPrecision;
+    const offsetConflict = options.offsetConflict || 'reject';
+    if (!OFFSET_CONFLICTS.includes(offsetConflict)) {
+      throw new Error(`Invalid offset conflict: ${offsetConflict}`);
     }
-
-    for (let m = 0; m < month; m++) {
-      timestamp += daysInMonth(year, m) * MS_PER_DAY;
+    if (tz && !timezones[tz]) {
+      throw new Error(`Invalid timezone: ${tz}`);
+    }
+    const iso = typeof input === 'string' ? parseIsoString(input) : null;
+    if (!iso) {
+      throw new Error(`Invalid ISO 8601 string: ${input}`);
     }
 
-    timestamp += (day - 1) * MS_PER_DAY;
-    timestamp += hour * MS_PER_HOUR;
-    timestamp += minute * MS_PER_MINUTE;
-    timestamp += second * 1000;
-
-    const tzInfo = timezones[tz];
-    const offsets = Array.from(new Set([tzInfo.sdt, tzInfo.dst]));
-    const targetUtc = Date.UTC(year, month, day, hour, minute, 0);
-
-    type CandidateRecord = { date: DateTz; delta: number; isDst: boolean; };
-    const exactMatches: CandidateRecord[] = [];
-    let nextCandidate: CandidateRecord | undefined;
-    let previousCandidate: CandidateRecord | undefined;
+    let zone: string | undefined;
+    if (iso.zone !== undefined) {
+      const zoneOffset = parseOffset(iso.zone);
+      zone = zoneOffset !== null ? DateTz.timezoneForOffset(zoneOffset) : iso.zone;
+      if (!zone || !timezones[zone]) {
+        throw new Error(`Invalid timezone: ${iso.zone}`);
+      }
+    }
 
-    for (const offsetSeconds of offsets) {
-      const candidateTs = timestamp - offsetSeconds * 1000;
-      const candidate = new DateTz(candidateTs, tz);
-      const candidateUtc = Date.UTC(candidate.year, candidate.month, candidate.day, candidate.hour, candidate.minute, 0);
-      const delta = candidateUtc - targetUtc;
-      const record: CandidateRecord = { date: candidate, delta, isDst: candidate.isDst };
+    if (iso.offsetSeconds === undefined) {
+      const local = DateTz.fromLocalParts(partsFromMs(iso.localMs), zone || tz || 'UTC', precision, options.disambiguation);
+      return tz ? local.convertToTimezone(tz) : local;
+    }
 
-      if (delta === 0) {
-        exactMatches.push(record);
-        continue;
-      }
-      if (delta > 0) {
-        if (!nextCandidate || delta < nextCandidate.delta || (delta === nextCandidate.delta && record.isDst && !nextCandidate.isDst)) {
-          nextCandidate = record;
+    const instant = iso.localMs - iso.offsetSeconds * 1000;
+    if (zone && !iso.utc) {
+      const zoned = new DateTz(instant, zone, 'millisecond');
+      const actual = zoned.getOffsetInfo().offsetSeconds;
+      if (actual !== iso.offsetSeconds) {
+        if (offsetConflict === 'reject') {
+          throw new Error(`Offset ${formatOffset(iso.offsetSeconds)} does not match timezone ${zone} (${formatOffset(actual)})`);
+        }
+        if (offsetConflict === 'zone') {
+          const local = DateTz.fromLocalParts(partsFromMs(iso.localMs), zone, precision, options.disambiguation);
+          return tz ? local.convertToTimezone(tz) : local;
         }
-        continue;
       }
-      if (!previousCandidate || delta > previousCandidate.delta || (delta === previousCandidate.delta && record.isDst && !previousCandidate.isDst)) {
-        previousCandidate = record;
+    }
+    return new DateTz(instant, tz || zone || DateTz.timezoneForOffset(iso.offsetSeconds) || 'UTC', precision);
+  }
+
+  /**
+   * Maps a fixed UTC offset onto an equivalent IANA identifier (UTC or Etc/GMT±N).
+   * @returns The identifier, or undefined when the offset is not a whole number of hours in range.
+   */
+  private static timezoneForOffset(offsetSeconds: number): string | undefined {
+    if (offsetSeconds === 0) {
+      return 'UTC';
+    }
+    if (offsetSeconds % 3600 === 0) {
+      // Etc/GMT identifiers use inverted (POSIX) signs
+      const hours = offsetSeconds / 3600;
+      const id = `Etc/GMT${hours > 0 ? '-' : '+'}${Math.abs(hours)}`;
+      if (timezones[id]) {
+        return id;
       }
     }
+    return undefined;
+  }
 
-    let result: DateTz | undefined;
-    if (exactMatches.length > 0) {
-      exactMatches.sort((a, b) => Number(b.isDst) - Number(a.isDst));
-      result = exactMatches[0].date;
-    } else if (nextCandidate) {
-      result = nextCandidate.date;
-    } else if (previousCandidate) {
-      result = previousCandidate.date;
+  /**
+   * Resolves local wall-clock components in a timezone to a DateTz instance.
+   * Skipped (gap) and repeated (overlap) times follow the disambiguation policy:
+   * 'compatible' moves skipped times forward by the length of the gap and picks the
+   * earlier of repeated times, 'earlier' and 'later' pick that instant, 'reject' throws.
+   */
+  private static fromLocalParts(parts: LocalParts, tz: string, precision: DateTzPrecision, disambiguation: DateTzDisambiguation = 'compatible'): DateTz {
+    if (!DISAMBIGUATIONS.includes(disambiguation)) {
+      throw new Error(`Invalid disambiguation: ${disambiguation}`);
+    }
+    const { instants, skipped } = DateTz.resolveLocalParts(parts, tz);
+    if (instants.length > 1 && disambiguation === 'reject') {
+      throw new Error(`Local time ${formatLocalParts(partsFromMs(msFromParts(parts)))} ${skipped ? 'does not exist' : 'is ambiguous'} in ${tz}`);
     }
+    const useLater = disambiguation === 'later' || (disambiguation === 'compatible' && skipped);
+    return new DateTz(useLater ? instants[instants.length - 1] : instants[0], tz, precision);
+  }
+
+  /**
+   * Lists the instants at which local wall-clock components occur in a timezone.
+   * A repeated time yields every occurrence; a skipped time yields the instants obtained
+   * with the offsets after and before the gap (earliest first).
+   */
+  private static resolveLocalParts(parts: LocalParts, tz: string): { instants: number[]; skipped: boolean; } {
+    const local = msFromParts(parts);
+    // Any transition near the wall-clock time shows up between the offsets a day before and after it
+    const before = getZoneOffset(tz, local - MS_PER_DAY).offsetSeconds;
+    const after = getZoneOffset(tz, local + MS_PER_DAY).offsetSeconds;
+    const offsets = new Set([before, getZoneOffset(tz, local).offsetSeconds, after]);
+    const instants = Array.from(offsets)
+      .map(offsetSeconds => local - offsetSeconds * 1000)
+      .filter(instant => getZoneOffset(tz, instant).offsetSeconds * 1000 === local - instant)
+      .sort((x, y) => x - y);
+    if (instants.length > 0) {
+      return { instants, skipped: false };
+    }
+    return { instants: [local - after * 1000, local - before * 1000].sort((x, y) => x - y), skipped: true };
+  }
+
+  /**
+   * Checks whether a local date-time occurs twice in a timezone (e.g. during a DST fall-back).
+   * @param dateString - The local date-time string.
+   * @param pattern - The format pattern (optional, defaults to DateTz.defaultFormat).
+   * @param tz - The timezone identifier (optional). Defaults to 'UTC'.
+   * @returns True if the wall-clock time is repeated.
+   */
+  static isAmbiguousLocal(dateString: string, pattern?: string, tz?: string): boolean {
+    const { instants, skipped } = DateTz.resolveLocalParts(DateTz.parseLocalParts(dateString, pattern, tz), tz || 'UTC');
+    return !skipped && instants.length > 1;
+  }
+
+  /**
+   * Checks whether a local date-time never occurs in a timezone (e.g. during a DST spring-forward).
+   * @param dateString - The local date-time string.
+   * @param pattern - The format pattern (optional, defaults to DateTz.defaultFormat).
+   * @param tz - The timezone identifier (optional). Defaults to 'UTC'.
+   * @returns True if the wall-clock time is skipped.
+   */
+  static isSkippedLocal(dateString: string, pattern?: string, tz?: string): boolean {
+    return DateTz.resolveLocalParts(DateTz.parseLocalParts(dateString, pattern, tz), tz || 'UTC').skipped;
+  }
 
-    if (!result) {
-      result = new DateTz(timestamp, tz);
+  /**
+   * Lists the changes of UTC offset in a timezone within a range.
+   * @param tz - The timezone identifier.
+   * @param from - The start of the range (inclusive), as a timestamp or date.
+   * @param to - The end of the range (exclusive), as a timestamp or date.
+   * @returns The transitions in chronological order.
+   */
+  static transitions(tz: string, from: number | IDateTz, to: number | IDateTz): DateTzTransition[] {
+    if (!timezones[tz]) {
+      throw new Error(`Invalid timezone: ${tz}`);
     }
+    const start = typeof from === 'number' ? from : from.timestamp;
+    const end = typeof to === 'number' ? to : to.timestamp;
+    return getZoneTransitions(tz, start, end).map(toDateTzTransition);
+  }
 
-    result.invalidateOffsetCache();
-    return result;
+  /**
+   * Lists the changes of UTC offset in a timezone during a local calendar year.
+   * @param tz - The timezone identifier.
+   * @param year - The year, in the timezone's local time.
+   * @returns The transitions in chronological order.
+   */
+  static transitionsInYear(tz: string, year: number): DateTzTransition[] {
+    if (!timezones[tz]) {
+      throw new Error(`Invalid timezone: ${tz}`);
+    }
+    const localStart = daysFromCivil(year, 0, 1) * MS_PER_DAY;
+    const localEnd = daysFromCivil(year + 1, 0, 1) * MS_PER_DAY;
+    const start = localStart - getZoneOffset(tz, localStart).offsetSeconds * 1000;
+    const end = localEnd - getZoneOffset(tz, localEnd).offsetSeconds * 1000;
+    return getZoneTransitions(tz, start, end).map(toDateTzTransition);
   }
 
   /**
@@ -1251,6 +1816,24 @@ export class DateTz implements IDateTz {
     return this.getOffsetInfo().isDst;
   }
 
+  /**
+   * Gets the next change of UTC offset in this timezone after this instant.
+   * @returns The transition, or null if the timezone's offset never changes again.
+   */
+  nextTransition(): DateTzTransition | null {
+    const transition = getNextZoneTransition(this.timezone, this.timestamp);
+    return transition ? toDateTzTransition(transition) : null;
+  }
+
+  /**
+   * Gets the most recent change of UTC offset in this timezone at or before this instant.
+   * @returns The transition, or null if the timezone's offset never changed.
+   */
+  previousTransition(): DateTzTransition | null {
+    const transition = getPreviousZoneTransition(this.timezone, this.timestamp);
+    return transition ? toDateTzTransition(transition) : null;
+  }
+
 
 
 
@@ -1289,6 +1872,20 @@ export class DateTz implements IDateTz {
     return this._minute(true);
   }
 
+  /**
+   * Gets the second component of the time.
+   */
+  get second() {
+    return this._second(true);
+  }
+
+  /**
+   * Gets the millisecond component of the time.
+   */
+  get millisecond() {
+    return mod(this.timestamp, MS_PER_SECOND);
+  }
+
   /**
    * Gets the day of the week.
    */
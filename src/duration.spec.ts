@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { DateTz } from './date-tz';
+import { Duration } from './duration';
+import { DateTzDurationLike, DurationRoundingMode, IDateTz } from './idate-tz';
+
+describe('Duration', () => {
+  it('parses and prints ISO 8601 durations', () => {
+    const duration = Duration.fromISO('P1Y2M3DT4H5M6.5S');
+    expect(duration.toObject()).toEqual({ years: 1, months: 2, days: 3, hours: 4, minutes: 5, seconds: 6, milliseconds: 500 });
+    expect(duration.toISO()).toBe('P1Y2M3DT4H5M6.5S');
+    expect(Duration.fromISO('P2W').toISO()).toBe('P2W');
+    expect(Duration.fromISO('-PT36H').toObject()).toEqual({ hours: -36 });
+    expect(Duration.fromISO('-PT36H').toISO()).toBe('-PT36H');
+    expect(Duration.fromISO('PT1.5H').toObject()).toEqual({ hours: 1, minutes: 30 });
+    expect(Duration.fromISO('PT0,25S').milliseconds).toBe(250);
+    expect(new Duration().toISO()).toBe('PT0S');
+    expect(new Duration({ hours: 1, minutes: -30 }).toISO()).toBe('PT1H-30M');
+    expect(JSON.stringify({ sla: Duration.fromISO('PT4H') })).toBe('{"sla":"PT4H"}');
+  });
+
+  it('rejects invalid ISO 8601 durations and units', () => {
+    for (const input of ['P', 'PT', '1D', 'P1.5D', 'PT1.5H30M', 'P1DT', 'PT1S2M']) {
+      expect(() => Duration.fromISO(input)).toThrow(`Invalid ISO 8601 duration: ${input}`);
+    }
+    expect(() => new Duration({ fortnights: 1 } as unknown as DateTzDurationLike)).toThrow('Invalid duration unit: fortnights');
+  });
+
+  it('adds, subtracts, negates and compares', () => {
+    const sla = Duration.fromISO('PT4H');
+    expect(sla.add({ minutes: 30 }).toISO()).toBe('PT4H30M');
+    expect(sla.subtract('PT1H').toISO()).toBe('PT3H');
+    expect(sla.negate().toISO()).toBe('-PT4H');
+    expect(sla.negate().sign).toBe(-1);
+    expect(sla.compare('PT240M')).toBe(0);
+    expect(sla.compare('P1D')).toBe(-1);
+    expect(() => sla.compare('P1M')).toThrow('A reference date is required for durations with years or months');
+    const february = new DateTz(Date.UTC(2025, 1, 1), 'UTC');
+    expect(Duration.fromISO('P1M').compare('P30D', february)).toBe(-1);
+    expect(Duration.fromISO('P1M').compare('P28D', february)).toBe(0);
+  });
+
+  it('shifts between fixed units without a reference date', () => {
+    expect(Duration.fromISO('PT90M').shiftTo(['hour']).hours).toBe(1.5);
+    expect(Duration.fromISO('P1DT2H').shiftTo(['hour', 'minute']).toObject()).toEqual({ hours: 26 });
+    expect(Duration.fromISO('PT3725S').shiftTo(['hour', 'minute', 'second']).toISO()).toBe('PT1H2M5S');
+    expect(() => Duration.fromISO('P400D').shiftTo(['month'])).toThrow('A reference date is required to shift to years or months');
+  });
+
+  it('shifts and normalizes calendar units relative to a date', () => {
+    const endOfJanuary = new DateTz(Date.UTC(2025, 0, 31, 12, 0), 'Europe/Rome');
+    expect(Duration.fromISO('P1M').shiftTo(['day'], endOfJanuary).toISO()).toBe('P28D');
+    expect(Duration.fromISO('P45D').normalize(endOfJanuary).toISO()).toBe('P1M17D');
+    // The DST change makes the 24 hours from March 29 end on March 30 at 13:00 local time
+    const beforeDst = new DateTz(Date.UTC(2025, 2, 29, 11, 0), 'Europe/Rome');
+    expect(Duration.fromISO('PT24H').shiftTo(['day', 'hour'], beforeDst).toISO()).toBe('P1DT1H');
+    expect(Duration.fromISO('PT90M').normalize().toISO()).toBe('PT1H30M');
+    expect(Duration.fromISO('P14M').normalize().toISO()).toBe('P1Y2M');
+  });
+
+  it('integrates with DateTz plus, minus and diff', () => {
+    const opened = new DateTz(Date.UTC(2025, 2, 10, 9, 0), 'Europe/Rome');
+    expect(opened.clone().plus(Duration.fromISO('P1DT4H')).toString('YYYY-MM-DD HH:mm')).toBe('2025-03-11 14:00');
+    expect(opened.clone().plus('PT4H').toString('HH:mm')).toBe('14:00');
+    expect(opened.clone().minus('P1M').toString('YYYY-MM-DD')).toBe('2025-02-10');
+
+    const resolved = new DateTz(Date.UTC(2026, 4, 12, 11, 45), 'Europe/Rome');
+    const elapsed = resolved.diff(opened, 'duration');
+    expect(elapsed).toBeInstanceOf(Duration);
+    expect(elapsed.toISO()).toBe('P1Y2M2DT3H45M');
+    expect(opened.diff(resolved, 'duration').toISO()).toBe('-P1Y2M2DT3H45M');
+    const typed: IDateTz = resolved;
+    expect(typed.diff(opened, 'duration').toISO()).toBe('P1Y2M2DT3H45M');
+    expect(opened.clone().plus(elapsed).timestamp).toBe(resolved.timestamp);
+  });
+
+  it('prints durations for people', () => {
+    const duration = Duration.from({ hours: 1, minutes: 20 });
+    expect(duration.toHuman()).toBe('1 hour, 20 minutes');
+    expect(duration.toHuman({ style: 'short' })).toBe('1 hr, 20 min');
+    expect(duration.toHuman({ style: 'narrow' })).toBe('1h 20m');
+    expect(duration.toHuman({ listStyle: 'conjunction' })).toBe('1 hour and 20 minutes');
+    expect(duration.toHuman({ locale: 'it', listStyle: 'conjunction' })).toBe('1 ora e 20 minuti');
+
+    expect(Duration.fromISO('PT90M').toHuman()).toBe('1 hour, 30 minutes');
+    expect(Duration.fromISO('PT26H5M9S').toHuman()).toBe('1 day, 2 hours, 5 minutes, 9 seconds');
+    expect(Duration.fromISO('PT26H5M9S').toHuman({ largestUnit: 'hour', smallestUnit: 'minute' })).toBe('26 hours, 5 minutes');
+    expect(Duration.fromISO('PT1H59M40S').toHuman({ maxParts: 2 })).toBe('1 hour, 59 minutes');
+    expect(Duration.fromISO('PT1H59M40S').toHuman({ maxParts: 2, roundingMode: 'round' })).toBe('2 hours');
+    expect(Duration.fromISO('P1Y2M10D').toHuman({ smallestUnit: 'month', roundingMode: 'round' })).toBe('1 year, 2 months');
+    expect(Duration.fromISO('P1Y10D').toHuman()).toBe('1 year, 10 days');
+    expect(Duration.fromISO('P10D').toHuman()).toBe('10 days');
+    expect(Duration.fromISO('P1W3D').toHuman()).toBe('1 week, 3 days');
+    expect(Duration.fromISO('P10D').toHuman({ largestUnit: 'week' })).toBe('1 week, 3 days');
+    expect(Duration.fromISO('P1Y10D').toHuman({ smallestUnit: 'week' })).toBe('1 year, 1 week');
+    expect(Duration.fromISO('-PT15M').toHuman()).toBe('-15 minutes');
+    expect(Duration.fromISO('-PT1H15M').toHuman()).toBe('-1 hour, 15 minutes');
+    expect(new Duration().toHuman()).toBe('0 seconds');
+    expect(Duration.from(1500).toHuman({ smallestUnit: 'millisecond' })).toBe('1 second, 500 milliseconds');
+
+    expect(() => Duration.fromISO('P1M').toHuman({ largestUnit: 'day' })).toThrow('A reference date is required to express years or months in smaller units');
+    expect(() => duration.toHuman({ maxParts: 0 })).toThrow('Invalid maximum number of parts: 0');
+    expect(() => duration.toHuman({ roundingMode: 'up' as unknown as DurationRoundingMode })).toThrow('Invalid rounding mode: up');
+    expect(() => duration.toHuman({ largestUnit: 'minute', smallestUnit: 'hour' })).toThrow('Invalid duration units: hour is larger than minute');
+  });
+
+  it('prints durations as clocks without wrapping at 24 hours', () => {
+    expect(Duration.fromISO('PT26H5M9S').toClock()).toBe('26:05:09');
+    expect(Duration.fromISO('P1DT2H5M9S').toClock()).toBe('26:05:09');
+    expect(Duration.fromISO('-PT15M').toClock({ smallestUnit: 'minute' })).toBe('-00:15');
+    expect(Duration.fromISO('PT1M5.25S').toClock({ smallestUnit: 'millisecond' })).toBe('00:01:05.250');
+    expect(Duration.fromISO('PT26H5M9S').toClock({ largestUnit: 'minute' })).toBe('1565:09');
+    expect(Duration.fromISO('PT59M59.6S').toClock({ roundingMode: 'round' })).toBe('01:00:00');
+    expect(new Duration().toClock()).toBe('00:00:00');
+
+    const start = new DateTz(Date.UTC(2025, 0, 1, 8, 0), 'UTC');
+    const end = new DateTz(Date.UTC(2025, 0, 2, 10, 5), 'UTC');
+    expect(Duration.from(end.diff(start)).toClock({ smallestUnit: 'minute' })).toBe('26:05');
+    expect(start.diff(end, 'duration').toClock()).toBe('-26:05:00');
+    expect(() => Duration.fromISO('P1M').toClock()).toThrow('A reference date is required');
+    expect(() => Duration.fromISO('PT1H').toClock({ largestUnit: 'second', smallestUnit: 'minute' })).toThrow('Invalid clock units: second to minute');
+  });
+});
@@ -0,0 +1,515 @@
+import { DateTz } from "./date-tz";
+import { DateTzDiffUnit, DateTzDurationLike, DurationClockOptions, DurationClockUnit, DurationHumanOptions, DurationRoundingMode, IDateTz } from "./idate-tz";
+
+const MS_PER_SECOND = 1000;
+const MS_PER_MINUTE = 60000;
+const MS_PER_HOUR = 3600000;
+const MS_PER_DAY = 86400000;
+const MS_PER_WEEK = MS_PER_DAY * 7;
+
+type DurationField = 'years' | 'months' | 'weeks' | 'days' | 'hours' | 'minutes' | 'seconds' | 'milliseconds';
+
+// Largest unit first, the order in which durations are applied and printed
+const FIELDS: readonly DurationField[] = ['years', 'months', 'weeks', 'days', 'hours', 'minutes', 'seconds', 'milliseconds'];
+
+const FIELD_BY_UNIT: Record<DateTzDiffUnit, DurationField> = {
+  year: 'years',
+  month: 'months',
+  week: 'weeks',
+  day: 'days',
+  hour: 'hours',
+  minute: 'minutes',
+  second: 'seconds',
+  millisecond: 'milliseconds'
+};
+
+const UNIT_BY_FIELD = Object.fromEntries(
+  Object.entries(FIELD_BY_UNIT).map(([unit, field]) => [field, unit])
+) as Record<DurationField, DateTzDiffUnit>;
+
+// Units with a fixed length; a day counts as 24 hours when no reference date is given
+const FIXED_MS: Partial<Record<DurationField, number>> = {
+  weeks: MS_PER_WEEK,
+  days: MS_PER_DAY,
+  hours: MS_PER_HOUR,
+  minutes: MS_PER_MINUTE,
+  seconds: MS_PER_SECOND,
+  milliseconds: 1
+};
+
+const ISO_DURATION = /^([+-])?P(?!$)(?:(\d+)Y)?(?:(\d+)M)?(?:(\d+)W)?(?:(\d+)D)?(?:T(?!$)(?:(\d+(?:[.,]\d+)?)H)?(?:(\d+(?:[.,]\d+)?)M)?(?:(\d+(?:[.,]\d+)?)S)?)?$/;
+
+// The average Gregorian month, used to round days and smaller units into months
+const AVERAGE_MONTH_MS = 30.436875 * MS_PER_DAY;
+
+const ROUNDING_MODES: readonly DurationRoundingMode[] = ['trunc', 'floor', 'ceil', 'round'];
+
+const CLOCK_UNITS: readonly DurationClockUnit[] = ['hour', 'minute', 'second', 'millisecond'];
+
+function roundValue(value: number, mode: DurationRoundingMode): number {
+  switch (mode) {
+    case 'floor':
+      return Math.floor(value) || 0;
+    case 'ceil':
+      return Math.ceil(value) || 0;
+    case 'round':
+      return Math.sign(value) * Math.round(Math.abs(value)) || 0;
+    default:
+      return Math.trunc(value) || 0;
+  }
+}
+
+function fieldOf(unit: DateTzDiffUnit): DurationField {
+  const field = FIELD_BY_UNIT[unit];
+  if (!field) {
+    throw new Error(`Invalid duration unit: ${unit}`);
+  }
+  return field;
+}
+
+// Spreads a duration over the units from largest to smallest, rounding what is left below the smallest.
+// Years and months stay calendar units; the other units only carry into them when the smallest unit is
+// a month or a year, by the average month length.
+function balance(duration: Duration, largest: DurationField, smallest: DurationField, mode: DurationRoundingMode, weeks = true): [DurationField, number][] {
+  if (!ROUNDING_MODES.includes(mode)) {
+    throw new Error(`Invalid rounding mode: ${mode}`);
+  }
+  if (FIELDS.indexOf(largest) > FIELDS.indexOf(smallest)) {
+    throw new Error(`Invalid duration units: ${UNIT_BY_FIELD[smallest]} is larger than ${UNIT_BY_FIELD[largest]}`);
+  }
+  const fields = FIELDS.slice(FIELDS.indexOf(largest), FIELDS.indexOf(smallest) + 1)
+    .filter(field => weeks || field !== 'weeks' || field === largest || field === smallest);
+  let months = duration.years * 12 + duration.months;
+  let ms = FIELDS.reduce((total, field) => total + duration[field] * (FIXED_MS[field] || 0), 0);
+  if (months !== 0 && !fields.includes('months') && !fields.includes('years')) {
+    throw new Error('A reference date is required to express years or months in smaller units');
+  }
+  if (smallest === 'years' || smallest === 'months') {
+    months = roundValue((months + ms / AVERAGE_MONTH_MS) / (smallest === 'years' ? 12 : 1), mode) * (smallest === 'years' ? 12 : 1);
+    ms = 0;
+  } else {
+    ms = roundValue(ms / FIXED_MS[smallest], mode) * FIXED_MS[smallest];
+  }
+  return fields.map(field => {
+    let value: number;
+    if (field === 'years') {
+      value = fields.includes('months') ? Math.trunc(months / 12) : months / 12;
+      months -= value * 12;
+    } else if (field === 'months') {
+      value = months;
+    } else {
+      value = field === smallest ? ms / FIXED_MS[field] : Math.trunc(ms / FIXED_MS[field]);
+      ms -= value * FIXED_MS[field];
+    }
+    return [field, value || 0];
+  });
+}
+
+const DEFAULT_UNITS: readonly DateTzDiffUnit[] = ['year', 'month', 'day', 'hour', 'minute', 'second', 'millisecond'];
+
+/**
+ * An amount of time expressed in calendar (years, months, weeks, days) and clock
+ * (hours, minutes, seconds, milliseconds) units. Instances are immutable.
+ */
+export class Duration {
+
+  readonly years: number;
+  readonly months: number;
+  readonly weeks: number;
+  readonly days: number;
+  readonly hours: number;
+  readonly minutes: number;
+  readonly seconds: number;
+  readonly milliseconds: number;
+
+  /**
+   * Creates a Duration from an object of units (singular or plural keys).
+   * @param values - The duration components, e.g. { hours: 4, minutes: 30 }.
+   * @throws Error if a key is not a duration unit or a value is not a finite number.
+   */
+  constructor(values: DateTzDurationLike = {}) {
+    const fields: Record<DurationField, number> = {
+      years: 0, months: 0, weeks: 0, days: 0, hours: 0, minutes: 0, seconds: 0, milliseconds: 0
+    };
+    for (const [key, value] of Object.entries(values)) {
+      if (value === undefined) {
+        continue;
+      }
+      const field = (FIELDS as readonly string[]).includes(key) ? key as DurationField : FIELD_BY_UNIT[key as DateTzDiffUnit];
+      if (!field) {
+        throw new Error(`Invalid duration unit: ${key}`);
+      }
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw new Error(`Invalid duration value for ${key}: ${value}`);
+      }
+      fields[field] += value;
+    }
+    // Avoid -0 so that printing and equality stay predictable
+    this.years = fields.years || 0;
+    this.months = fields.months || 0;
+    this.weeks = fields.weeks || 0;
+    this.days = fields.days || 0;
+    this.hours = fields.hours || 0;
+    this.minutes = fields.minutes || 0;
+    this.seconds = fields.seconds || 0;
+    this.milliseconds = fields.milliseconds || 0;
+  }
+
+  /**
+   * Converts a Duration, an object of units, an ISO 8601 duration string or a number of
+   * milliseconds (as returned by diff) to a Duration.
+   */
+  static from(value: Duration | DateTzDurationLike | string | number): Duration {
+    if (value instanceof Duration) {
+      return value;
+    }
+    if (typeof value === 'string') {
+      return Duration.fromISO(value);
+    }
+    if (typeof value === 'number') {
+      return new Duration({ milliseconds: value });
+    }
+    return new Duration(value);
+  }
+
+  /**
+   * Parses an ISO 8601 duration such as P1Y2M3DT4H5M6.5S, PT36H or -P2W.
+   * Decimal fractions are accepted on the last time component only.
+   * @param input - The ISO 8601 duration string.
+   * @returns A new Duration.
+   * @throws Error if the string is not a valid ISO 8601 duration.
+   */
+  static fromISO(input: string): Duration {
+    const match = typeof input === 'string' ? ISO_DURATION.exec(input) : null;
+    if (!match) {
+      throw new Error(`Invalid ISO 8601 duration: ${input}`);
+    }
+    const [, sign, years, months, weeks, days, hours, minutes, seconds] = match;
+    const timeParts = [hours, minutes, seconds];
+    const lastTime = timeParts.map(part => part !== undefined).lastIndexOf(true);
+    if (timeParts.some((part, index) => part !== undefined && /[.,]/.test(part) && index !== lastTime)) {
+      throw new Error(`Invalid ISO 8601 duration: ${input}`);
+    }
+    const number = (part?: string) => part === undefined ? 0 : Number(part.replace(',', '.'));
+    const direction = sign === '-' ? -1 : 1;
+
+    // A fractional hour or minute carries into the smaller clock units
+    let remainder = number(hours) * MS_PER_HOUR + number(minutes) * MS_PER_MINUTE + number(seconds) * MS_PER_SECOND;
+    remainder = Math.round(remainder);
+    const clock: Partial<Record<DurationField, number>> = {};
+    if (hours !== undefined) {
+      clock.hours = Math.floor(remainder / MS_PER_HOUR);
+      remainder -= clock.hours * MS_PER_HOUR;
+    }
+    if (hours !== undefined || minutes !== undefined) {
+      clock.minutes = Math.floor(remainder / MS_PER_MINUTE);
+      remainder -= clock.minutes * MS_PER_MINUTE;
+    }
+    clock.seconds = Math.floor(remainder / MS_PER_SECOND);
+    clock.milliseconds = remainder - clock.seconds * MS_PER_SECOND;
+
+    return new Duration({
+      years: direction * number(years),
+      months: direction * number(months),
+      weeks: direction * number(weeks),
+      days: direction * number(days),
+      hours: direction * (clock.hours || 0),
+      minutes: direction * (clock.minutes || 0),
+      seconds: direction * clock.seconds,
+      milliseconds: direction * clock.milliseconds
+    });
+  }
+
+  /**
+   * Computes the duration between two dates in the requested units (largest first).
+   * Years, months, weeks and days follow the calendar of the start date's timezone;
+   * smaller units are exact elapsed time. Any remainder below the smallest unit is dropped.
+   * @param start - The start date.
+   * @param end - The end date (a negative duration results when it precedes start).
+   * @param units - The units to use (default: year, month, day, hour, minute, second, millisecond).
+   */
+  static between(start: IDateTz, end: IDateTz, units: readonly DateTzDiffUnit[] = DEFAULT_UNITS): Duration {
+    if (end.timestamp < start.timestamp) {
+      return Duration.between(new DateTz(end.timestamp, start.timezone, 'millisecond'), start, units).negate();
+    }
+    const requested = new Set(units.map(unit => {
+      const field = FIELD_BY_UNIT[unit];
+      if (!field) {
+        throw new Error(`Invalid duration unit: ${unit}`);
+      }
+      return field;
+    }));
+    const cursor = new DateTz(start.timestamp, start.timezone || 'UTC', 'millisecond');
+    const target = end.timestamp;
+    const targetLocal = new DateTz(target, cursor.timezone, 'millisecond');
+    const values: DateTzDurationLike = {};
+
+    for (const field of FIELDS) {
+      if (!requested.has(field)) {
+        continue;
+      }
+      let count: number;
+      if (field === 'years' || field === 'months') {
+        const step = field === 'years' ? 12 : 1;
+        // One step past the local month of the target always overshoots it
+        const monthsApart = (targetLocal.year - cursor.year) * 12 + targetLocal.month - cursor.month;
+        count = Math.floor(monthsApart / step) + 1;
+        while (count > 0 && cursor.clone().add(count * step, 'month').timestamp > target) {
+          count--;
+        }
+        cursor.add(count * step, 'month');
+      } else if (field === 'weeks' || field === 'days') {
+        const step = field === 'weeks' ? 7 : 1;
+        count = Math.floor((target - cursor.timestamp) / (MS_PER_DAY * step)) + 1;
+        while (count > 0 && cursor.clone().add(count * step, 'day').timestamp > target) {
+          count--;
+        }
+        cursor.add(count * step, 'day');
+      } else {
+        count = Math.floor((target - cursor.timestamp) / FIXED_MS[field]);
+        cursor.add(count * FIXED_MS[field], 'millisecond');
+      }
+      values[field] = count;
+    }
+    return new Duration(values);
+  }
+
+  /**
+   * Prints the duration in ISO 8601 format (e.g. P1Y2M3DT4H5M6.5S, PT0S for an empty duration).
+   * Uniformly negative durations get a leading minus; mixed signs are printed per component.
+   */
+  toISO(): string {
+    const sign = this.sign;
+    const source: Duration = sign < 0 ? this.negate() : this;
+    const seconds = source.seconds + source.milliseconds / 1000;
+    const format = (value: number) => String(Number(value.toFixed(3)));
+    const date = [
+      source.years ? `${source.years}Y` : '',
+      source.months ? `${source.months}M` : '',
+      source.weeks ? `${source.weeks}W` : '',
+      source.days ? `${source.days}D` : ''
+    ].join('');
+    const time = [
+      source.hours ? `${source.hours}H` : '',
+      source.minutes ? `${source.minutes}M` : '',
+      seconds ? `${format(seconds)}S` : ''
+    ].join('');
+    if (!date && !time) {
+      return 'PT0S';
+    }
+    return `${sign < 0 ? '-' : ''}P${date}${time ? `T${time}` : ''}`;
+  }
+
+  /**
+   * Returns the ISO 8601 representation, so durations serialize as strings.
+   */
+  toJSON(): string {
+    return this.toISO();
+  }
+
+  toString(): string {
+    return this.toISO();
+  }
+
+  /**
+   * Prints the duration for people, e.g. "1 hour, 20 minutes", "1 hr, 20 min" or "1 hour and 20 minutes",
+   * with Intl.NumberFormat units joined by Intl.ListFormat, so the text is the same on every runtime.
+   * The duration is spread over the units from the largest to the smallest: PT90M prints as
+   * "1 hour, 30 minutes" and PT26H as "1 day, 2 hours"; zero parts are left out. Days count as
+   * 24 hours, years and months are never turned into smaller units, and days only gather into
+   * weeks when the duration has weeks or one of the units is a week.
+   * @param options - The locale, style, list style, largest and smallest unit, rounding mode and maximum number of parts.
+   * @throws Error if a unit, the rounding mode or the maximum number of parts is invalid, or the duration has
+   * years or months and the largest unit is smaller than a month.
+   */
+  toHuman(options: DurationHumanOptions = {}): string {
+    const { locale = 'en', style = 'long', listStyle = 'unit', roundingMode = 'trunc', maxParts } = options;
+    if (maxParts !== undefined && !(Number.isInteger(maxParts) && maxParts > 0)) {
+      throw new Error(`Invalid maximum number of parts: ${maxParts}`);
+    }
+    const smallest = fieldOf(options.smallestUnit || 'second');
+    const inUse = FIELDS.findIndex(field => this[field] !== 0);
+    const largest = options.largestUnit
+      ? fieldOf(options.largestUnit)
+      : FIELDS[Math.min(inUse < 0 ? FIELDS.indexOf('days') : inUse, FIELDS.indexOf('days'), FIELDS.indexOf(smallest))];
+    const weeks = this.weeks !== 0;
+    let parts = balance(this, largest, smallest, roundingMode, weeks).filter(([, value]) => value !== 0);
+    if (maxParts !== undefined && parts.length > maxParts) {
+      // Round the remainder into the last part shown; a carry may leave fewer parts
+      parts = balance(this, largest, parts[maxParts - 1][0], roundingMode, weeks).filter(([, value]) => value !== 0).slice(0, maxParts);
+    }
+    if (parts.length === 0) {
+      parts = [[smallest, 0]];
+    }
+
+    const uniform = parts.every(([, value]) => value >= 0) || parts.every(([, value]) => value <= 0);
+    // Like Intl.DurationFormat, a uniform sign is only written on the first part
+    const texts = parts.map(([field, value], index) => new Intl.NumberFormat(locale, { style: 'unit', unit: UNIT_BY_FIELD[field], unitDisplay: style })
+      .format(uniform && index > 0 ? Math.abs(value) : value));
+    return new Intl.ListFormat(locale, { type: listStyle === 'conjunction' ? 'conjunction' : 'unit', style }).format(texts);
+  }
+
+  /**
+   * Prints the duration as a clock, e.g. 26:05:09 or -00:15. Hours do not wrap at 24 and days
+   * count as 24 hours.
+   * @param options - The largest unit (hour, minute or second), the smallest unit (down to millisecond)
+   * and the rounding mode.
+   * @throws Error if the units or the rounding mode are invalid, or the duration has years or months.
+   */
+  toClock(options: DurationClockOptions = {}): string {
+    const { largestUnit = 'hour', smallestUnit = 'second', roundingMode = 'trunc' } = options;
+    if (!CLOCK_UNITS.includes(largestUnit) || !CLOCK_UNITS.includes(smallestUnit) || CLOCK_UNITS.indexOf(largestUnit) > CLOCK_UNITS.indexOf(smallestUnit)) {
+      throw new Error(`Invalid clock units: ${largestUnit} to ${smallestUnit}`);
+    }
+    const parts = balance(new Duration({ milliseconds: this.toMilliseconds() }), fieldOf(largestUnit), fieldOf(smallestUnit), roundingMode);
+    const negative = parts.some(([, value]) => value < 0);
+    return (negative ? '-' : '') + parts
+      .map(([field, value]) => field === 'milliseconds' ? `.${String(Math.abs(value)).padStart(3, '0')}` : `:${String(Math.abs(value)).padStart(2, '0')}`)
+      .join('')
+      .slice(1);
+  }
+
+  /**
+   * Returns the non-zero components as an object with plural keys, largest unit first.
+   */
+  toObject(): DateTzDurationLike {
+    const result: DateTzDurationLike = {};
+    for (const field of FIELDS) {
+      if (this[field] !== 0) {
+        result[field] = this[field];
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Gets -1, 0 or 1: the sign shared by all non-zero components, or 0 when they are mixed or all zero.
+   */
+  get sign(): number {
+    const signs = new Set(FIELDS.map(field => Math.sign(this[field])).filter(value => value !== 0));
+    return signs.size === 1 ? signs.values().next().value : 0;
+  }
+
+  /**
+   * Checks whether every component is zero.
+   */
+  get isZero(): boolean {
+    return FIELDS.every(field => this[field] === 0);
+  }
+
+  /**
+   * Returns a new Duration with every component negated.
+   */
+  negate(): Duration {
+    const values: DateTzDurationLike = {};
+    for (const field of FIELDS) {
+      values[field] = -this[field];
+    }
+    return new Duration(values);
+  }
+
+  /**
+   * Returns a new Duration adding another one component by component.
+   * @param other - A Duration, an object of units or an ISO 8601 duration string.
+   */
+  add(other: Duration | DateTzDurationLike | string): Duration {
+    const addend = Duration.from(other);
+    const values: DateTzDurationLike = {};
+    for (const field of FIELDS) {
+      values[field] = this[field] + addend[field];
+    }
+    return new Duration(values);
+  }
+
+  /**
+   * Returns a new Duration subtracting another one component by component.
+   * @param other - A Duration, an object of units or an ISO 8601 duration string.
+   */
+  subtract(other: Duration | DateTzDurationLike | string): Duration {
+    return this.add(Duration.from(other).negate());
+  }
+
+  /**
+   * Gets the total length in milliseconds.
+   * Without a reference date days are 24 hours and weeks 7 days; years and months need one.
+   * @param relativeTo - The date the duration starts from (optional).
+   * @throws Error if the duration has years or months and no reference date is given.
+   */
+  toMilliseconds(relativeTo?: IDateTz): number {
+    if (relativeTo) {
+      const start = new DateTz(relativeTo.timestamp, relativeTo.timezone || 'UTC', 'millisecond');
+      return start.clone().plus(this).timestamp - start.timestamp;
+    }
+    if (this.years !== 0 || this.months !== 0) {
+      throw new Error('A reference date is required for durations with years or months');
+    }
+    return FIELDS.reduce((total, field) => total + this[field] * (FIXED_MS[field] || 0), 0);
+  }
+
+  /**
+   * Compares the length of two durations.
+   * @param other - The duration to compare with.
+   * @param relativeTo - The reference date, required when either duration has years or months.
+   * @returns A negative number, zero or a positive number.
+   */
+  compare(other: Duration | DateTzDurationLike | string, relativeTo?: IDateTz): number {
+    return Math.sign(this.toMilliseconds(relativeTo) - Duration.from(other).toMilliseconds(relativeTo));
+  }
+
+  /**
+   * Expresses the duration in the given units only.
+   * With a reference date, calendar units follow its calendar and timezone (P1M from
+   * January 31 is 28 days); without one, days are 24 hours and the remainder below the
+   * smallest unit becomes a fraction of it.
+   * @param units - The target units, e.g. ['hour', 'minute'].
+   * @param relativeTo - The reference date (required for years and months).
+   */
+  shiftTo(units: readonly DateTzDiffUnit[], relativeTo?: IDateTz): Duration {
+    if (relativeTo) {
+      const start = new DateTz(relativeTo.timestamp, relativeTo.timezone || 'UTC', 'millisecond');
+      return Duration.between(start, start.clone().plus(this), units);
+    }
+    const fields = FIELDS.filter(field => units.some(unit => FIELD_BY_UNIT[unit] === field));
+    if (fields.length !== units.length) {
+      throw new Error(`Invalid duration units: ${units.join(', ')}`);
+    }
+    if (fields.includes('years') || fields.includes('months')) {
+      throw new Error('A reference date is required to shift to years or months');
+    }
+    let remainder = this.toMilliseconds();
+    const values: DateTzDurationLike = {};
+    fields.forEach((field, index) => {
+      const size = FIXED_MS[field];
+      const value = index === fields.length - 1 ? remainder / size : Math.trunc(remainder / size);
+      values[field] = value;
+      remainder -= value * size;
+    });
+    return new Duration(values);
+  }
+
+  /**
+   * Balances the duration: 1000 ms become a second, 60 seconds a minute, 60 minutes an
+   * hour and 12 months a year. With a reference date, hours also carry into days and days
+   * into months following its calendar.
+   * @param relativeTo - The reference date (optional).
+   */
+  normalize(relativeTo?: IDateTz): Duration {
+    if (relativeTo) {
+      const units = FIELDS.filter(field => field !== 'weeks' || this.weeks !== 0).map(field => UNIT_BY_FIELD[field]);
+      return this.shiftTo(units, relativeTo);
+    }
+    const totalMonths = this.years * 12 + this.months;
+    const clockMs = this.hours * MS_PER_HOUR + this.minutes * MS_PER_MINUTE + this.seconds * MS_PER_SECOND + this.milliseconds;
+    const clock = new Duration({ milliseconds: clockMs }).shiftTo(['hour', 'minute', 'second', 'millisecond']);
+    return new Duration({
+      years: Math.trunc(totalMonths / 12),
+      months: totalMonths % 12,
+      weeks: this.weeks,
+      days: this.days,
+      hours: clock.hours,
+      minutes: clock.minutes,
+      seconds: clock.seconds,
+      milliseconds: clock.milliseconds
+    });
+  }
+}
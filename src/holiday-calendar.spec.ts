@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { DateTz } from './date-tz';
+import { HolidayCalendar } from './holiday-calendar';
+
+const at = (iso: string, tz: string) => new DateTz(DateTz.fromISO(iso, tz));
+const days = (calendar: HolidayCalendar, year: number) =>
+  calendar.forYear(year).map(holiday => `${holiday.date.toString('MM-DD')} ${holiday.name}`);
+
+describe('HolidayCalendar', () => {
+  it('computes Easter in the Gregorian and Orthodox calendars', () => {
+    const calendar = new HolidayCalendar([
+      { name: 'Easter', kind: 'easter' },
+      { name: 'Orthodox Easter', kind: 'easter', calendar: 'orthodox' },
+      { name: 'Good Friday', kind: 'easter', offset: -2 },
+      { name: 'Pentecost', kind: 'easter', offset: 49 }
+    ]);
+    expect(days(calendar, 2024)).toEqual(['03-29 Good Friday', '03-31 Easter', '05-05 Orthodox Easter', '05-19 Pentecost']);
+    expect(days(calendar, 2025)).toEqual(['04-18 Good Friday', '04-20 Easter', '04-20 Orthodox Easter', '06-08 Pentecost']);
+    const easters = [1818, 1943, 2000, 2038, 2285].map(year => calendar.forYear(year)[1].date.toString('YYYY-MM-DD'));
+    expect(easters).toEqual(['1818-03-22', '1943-04-25', '2000-04-23', '2038-04-25', '2285-03-22']);
+    expect(calendar.forYear(2023).find(holiday => holiday.name === 'Orthodox Easter').date.toString('YYYY-MM-DD')).toBe('2023-04-16');
+  });
+
+  it('generates the Italian and US federal holidays', () => {
+    expect(HolidayCalendar.codes()).toEqual(expect.arrayContaining(['IT', 'US']));
+    const italy = HolidayCalendar.get('it');
+    expect(days(italy, 2025)).toEqual([
+      "01-01 New Year's Day", '01-06 Epiphany', '04-20 Easter Sunday', '04-21 Easter Monday',
+      '04-25 Liberation Day', '05-01 Labour Day', '06-02 Republic Day', '08-15 Assumption Day',
+      "11-01 All Saints' Day", '12-08 Immaculate Conception', '12-25 Christmas Day', "12-26 St. Stephen's Day"
+    ]);
+
+    const us = HolidayCalendar.get('US');
+    const observed = us.forYear(2026).map(holiday => `${holiday.observed.toString('MM-DD')} ${holiday.name}`);
+    expect(observed).toEqual([
+      "01-01 New Year's Day", '01-19 Martin Luther King Jr. Day', "02-16 Washington's Birthday",
+      '05-25 Memorial Day', '06-19 Juneteenth National Independence Day', '07-03 Independence Day',
+      '09-07 Labor Day', '10-12 Columbus Day', '11-11 Veterans Day', '11-26 Thanksgiving Day', '12-25 Christmas Day'
+    ]);
+    expect(us.forYear(2020).some(holiday => holiday.name.startsWith('Juneteenth'))).toBe(false);
+  });
+
+  it('moves weekend holidays to their observed day', () => {
+    const us = HolidayCalendar.get('US');
+    const [newYear] = us.forYear(2022);
+    expect(newYear.date.toString('YYYY-MM-DD')).toBe('2022-01-01');
+    expect(newYear.observed.toString('YYYY-MM-DD')).toBe('2021-12-31');
+    expect(us.isHoliday(at('2021-12-31T12:00', 'America/New_York'))).toBe(true);
+    expect(us.on(at('2021-12-31T12:00', 'America/New_York'))[0].name).toBe("New Year's Day");
+
+    const uk = new HolidayCalendar([
+      { name: 'Christmas Day', kind: 'fixed', month: 12, day: 25, observance: 'next-monday' },
+      { name: 'Summer Bank Holiday', kind: 'nth-weekday', month: 8, weekday: 1, nth: -1 },
+      { name: 'Day after Thanksgiving', kind: 'nth-weekday', month: 11, weekday: 4, nth: 4, offset: 1 }
+    ]);
+    const [summer, dayAfter, christmas] = uk.forYear(2022);
+    expect(summer.date.toString('YYYY-MM-DD')).toBe('2022-08-29');
+    expect(dayAfter.date.toString('YYYY-MM-DD')).toBe('2022-11-25');
+    expect(christmas.observed.toString('YYYY-MM-DD')).toBe('2022-12-26');
+  });
+
+  it('returns local midnights in the requested zone', () => {
+    const [newYear] = HolidayCalendar.get('IT').forYear(2026, 'Europe/Rome');
+    expect(newYear.date.toISO({ offset: true })).toBe('2026-01-01T00:00:00+01:00');
+    const holidays = HolidayCalendar.get('IT').between(at('2025-12-20T00:00', 'Europe/Rome'), at('2026-01-06T00:00', 'Europe/Rome'));
+    expect(holidays.map(holiday => holiday.date.toString('MM-DD'))).toEqual(['12-25', '12-26', '01-01', '01-06']);
+    expect(holidays.every(holiday => holiday.date.timezone === 'Europe/Rome')).toBe(true);
+  });
+
+  it('registers custom calendars and validates rules', () => {
+    const rome = HolidayCalendar.get('IT').extend([{ name: 'Saints Peter and Paul', kind: 'fixed', month: 6, day: 29 }]);
+    HolidayCalendar.register('it-rm', rome);
+    expect(HolidayCalendar.get('IT-RM').isHoliday(at('2025-06-29T10:00', 'Europe/Rome'))).toBe(true);
+    expect(HolidayCalendar.get('IT').isHoliday(at('2025-06-29T10:00', 'Europe/Rome'))).toBe(false);
+
+    const leap = new HolidayCalendar([{ name: 'Leap Day', kind: 'fixed', month: 2, day: 29 }]);
+    expect(leap.forYear(2025)).toEqual([]);
+    expect(leap.forYear(2028)).toHaveLength(1);
+
+    expect(() => HolidayCalendar.get('XX')).toThrow('Unknown holiday calendar: XX');
+    expect(() => new HolidayCalendar([{ name: 'Bad', kind: 'fixed', month: 13, day: 1 }])).toThrow('Invalid holiday rule "Bad": month 13, day 1');
+    expect(() => new HolidayCalendar([{ name: 'Bad', kind: 'nth-weekday', month: 1, weekday: 1, nth: 0 }])).toThrow('Invalid holiday rule "Bad": month 1, weekday 1, nth 0');
+    expect(() => new HolidayCalendar([{ name: '', kind: 'easter' }])).toThrow('Invalid holiday rule: a name is required');
+  });
+});
@@ -0,0 +1,278 @@
+import { civilFromDays, daysFromCivil, localDay, weekdayOf } from "./calendar-days";
+import { DateTz } from "./date-tz";
+import { Holiday, HolidayObservance, HolidayRule, IDateTz } from "./idate-tz";
+
+const OBSERVANCES: readonly HolidayObservance[] = ['none', 'nearest-weekday', 'next-monday', 'sunday-to-monday'];
+
+// Days to move a holiday by, indexed by its weekday (0 = Sunday)
+const OBSERVANCE_SHIFTS: Record<HolidayObservance, readonly number[]> = {
+  'none': [0, 0, 0, 0, 0, 0, 0],
+  'nearest-weekday': [1, 0, 0, 0, 0, 0, -1],
+  'next-monday': [1, 0, 0, 0, 0, 0, 2],
+  'sunday-to-monday': [1, 0, 0, 0, 0, 0, 0]
+};
+
+type HolidayDay = { name: string; day: number; observed: number; };
+
+// Local midnight of a calendar day in a timezone
+function startOfDay(day: number, tz: string): DateTz {
+  const { year, month, day: date } = civilFromDays(day);
+  const iso = `${String(year).padStart(4, '0')}-${String(month + 1).padStart(2, '0')}-${String(date).padStart(2, '0')}`;
+  return new DateTz(DateTz.fromISO(iso, tz));
+}
+
+/**
+ * Computes Easter Sunday as a day number. The Gregorian computus is the Meeus/Jones/Butcher
+ * algorithm; the Orthodox date is the Julian computus converted to the Gregorian calendar.
+ */
+function easter(year: number, calendar: 'gregorian' | 'orthodox'): number {
+  if (calendar === 'orthodox') {
+    const d = (19 * (year % 19) + 15) % 30;
+    const e = (2 * (year % 4) + 4 * (year % 7) - d + 34) % 7;
+    const month = Math.floor((d + e + 114) / 31);
+    const day = (d + e + 114) % 31 + 1;
+    // Days the Julian calendar lags behind the Gregorian one in March and April
+    const lag = Math.floor(year / 100) - Math.floor(year / 400) - 2;
+    return daysFromCivil(year, month - 1, day) + lag;
+  }
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const h = (19 * a + b - Math.floor(b / 4) - Math.floor((b - Math.floor((b + 8) / 25) + 1) / 3) + 15) % 30;
+  const l = (32 + 2 * (b % 4) + 2 * Math.floor(c / 4) - h - c % 4) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = (h + l - 7 * m + 114) % 31 + 1;
+  return daysFromCivil(year, month - 1, day);
+}
+
+// The day a rule falls on in a year, or null when it does not exist that year (e.g. a fifth Monday)
+function ruleDay(rule: HolidayRule, year: number): number | null {
+  switch (rule.kind) {
+    case 'fixed': {
+      const day = daysFromCivil(year, rule.month - 1, rule.day);
+      return civilFromDays(day).month === rule.month - 1 ? day : null;
+    }
+    case 'nth-weekday': {
+      const first = daysFromCivil(year, rule.month - 1, 1);
+      const last = daysFromCivil(year, rule.month, 0);
+      const day = rule.nth > 0
+        ? first + (rule.weekday - weekdayOf(first) + 7) % 7 + (rule.nth - 1) * 7
+        : last - (weekdayOf(last) - rule.weekday + 7) % 7 + (rule.nth + 1) * 7;
+      return day >= first && day <= last ? day + (rule.offset || 0) : null;
+    }
+    case 'easter':
+      return easter(year, rule.calendar || 'gregorian') + (rule.offset || 0);
+  }
+}
+
+function invalid(rule: HolidayRule, reason: string): Error {
+  const name = rule && rule.name ? ` "${rule.name}"` : '';
+  return new Error(`Invalid holiday rule${name}: ${reason}`);
+}
+
+function validateRule(rule: HolidayRule): HolidayRule {
+  if (!rule || typeof rule.name !== 'string' || rule.name === '') {
+    throw invalid(rule, 'a name is required');
+  }
+  const isInteger = (value: unknown, min: number, max: number) => Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+  if (rule.observance !== undefined && !OBSERVANCES.includes(rule.observance)) {
+    throw invalid(rule, `observance ${rule.observance}`);
+  }
+  for (const key of ['from', 'to'] as const) {
+    if (rule[key] !== undefined && !Number.isInteger(rule[key])) {
+      throw invalid(rule, `${key} ${rule[key]}`);
+    }
+  }
+  switch (rule.kind) {
+    case 'fixed':
+      if (!isInteger(rule.month, 1, 12) || !isInteger(rule.day, 1, 31)) {
+        throw invalid(rule, `month ${rule.month}, day ${rule.day}`);
+      }
+      break;
+    case 'nth-weekday':
+      if (!isInteger(rule.month, 1, 12) || !isInteger(rule.weekday, 0, 6) || !isInteger(Math.abs(rule.nth), 1, 5)) {
+        throw invalid(rule, `month ${rule.month}, weekday ${rule.weekday}, nth ${rule.nth}`);
+      }
+      if (rule.offset !== undefined && !Number.isInteger(rule.offset)) {
+        throw invalid(rule, `offset ${rule.offset}`);
+      }
+      break;
+    case 'easter':
+      if (rule.calendar !== undefined && rule.calendar !== 'gregorian' && rule.calendar !== 'orthodox') {
+        throw invalid(rule, `calendar ${rule.calendar}`);
+      }
+      if (rule.offset !== undefined && !Number.isInteger(rule.offset)) {
+        throw invalid(rule, `offset ${rule.offset}`);
+      }
+      break;
+    default:
+      throw invalid(rule, `kind ${(rule as { kind: string; }).kind}`);
+  }
+  return { ...rule };
+}
+
+/**
+ * A set of holiday rules that generates the holidays of any year: fixed dates, nth or
+ * last weekdays of a month, days relative to Easter (Gregorian or Orthodox), and weekend
+ * substitutions. Calendars can be registered under a code; 'IT' (Italy) and 'US' (US
+ * federal holidays) are built in. Instances are immutable.
+ */
+export class HolidayCalendar {
+
+  private static readonly registry = new Map<string, HolidayCalendar>();
+
+  readonly rules: readonly HolidayRule[];
+
+  private readonly years = new Map<number, HolidayDay[]>();
+
+  /**
+   * Creates a holiday calendar.
+   * @param rules - The holiday rules.
+   * @throws Error if a rule is malformed.
+   */
+  constructor(rules: HolidayRule[]) {
+    this.rules = (rules || []).map(validateRule);
+  }
+
+  /**
+   * Registers a calendar under a code, replacing any calendar registered with it.
+   * @param code - The code, matched case-insensitively (e.g. 'FR', 'US-NY').
+   * @param calendar - The calendar or its rules.
+   * @returns The registered calendar.
+   */
+  static register(code: string, calendar: HolidayCalendar | HolidayRule[]): HolidayCalendar {
+    const instance = calendar instanceof HolidayCalendar ? calendar : new HolidayCalendar(calendar);
+    HolidayCalendar.registry.set(String(code).toUpperCase(), instance);
+    return instance;
+  }
+
+  /**
+   * Looks up a registered calendar.
+   * @param code - The code, e.g. 'IT' or 'US'.
+   * @throws Error if no calendar is registered under the code.
+   */
+  static get(code: string): HolidayCalendar {
+    const calendar = HolidayCalendar.registry.get(String(code).toUpperCase());
+    if (!calendar) {
+      throw new Error(`Unknown holiday calendar: ${code}`);
+    }
+    return calendar;
+  }
+
+  /**
+   * Lists the registered calendar codes.
+   */
+  static codes(): string[] {
+    return Array.from(HolidayCalendar.registry.keys()).sort();
+  }
+
+  /**
+   * Returns a new calendar with extra rules, e.g. a city's patron saint on top of a national calendar.
+   */
+  extend(rules: HolidayRule[]): HolidayCalendar {
+    return new HolidayCalendar([...this.rules, ...rules]);
+  }
+
+  /**
+   * Lists the holidays falling in a year, ordered by date. A holiday observed in another year
+   * (e.g. a Saturday January 1 observed on December 31) is listed in the year it falls in.
+   * @param year - The year.
+   * @param tz - The timezone of the returned dates (defaults to UTC).
+   */
+  forYear(year: number, tz = 'UTC'): Holiday[] {
+    return this.daysOf(year).map(holiday => this.toHoliday(holiday, tz));
+  }
+
+  /**
+   * Lists the holidays that fall or are observed between two dates, both inclusive,
+   * compared on local dates in the timezone of the start.
+   * @param start - The first day.
+   * @param end - The last day, in the same timezone.
+   * @throws Error if the dates are in different timezones.
+   */
+  between(start: IDateTz, end: IDateTz): Holiday[] {
+    const from = new DateTz(start);
+    const to = new DateTz(end);
+    if (!from.isComparable(to)) {
+      throw new Error('Cannot compare dates with different timezones');
+    }
+    const first = localDay(from);
+    const last = localDay(to);
+    const result: HolidayDay[] = [];
+    for (let year = from.year - 1; year <= to.year + 1; year++) {
+      result.push(...this.daysOf(year).filter(holiday =>
+        (holiday.day >= first && holiday.day <= last) || (holiday.observed >= first && holiday.observed <= last)));
+    }
+    return result.map(holiday => this.toHoliday(holiday, from.timezone));
+  }
+
+  /**
+   * Lists the holidays that fall or are observed on the local date of a date.
+   */
+  on(date: IDateTz): Holiday[] {
+    return this.between(date, date);
+  }
+
+  /**
+   * Checks whether a holiday falls or is observed on the local date of a date.
+   */
+  isHoliday(date: IDateTz): boolean {
+    return this.on(date).length > 0;
+  }
+
+  private daysOf(year: number): HolidayDay[] {
+    if (!Number.isInteger(year)) {
+      throw new Error(`Invalid year: ${year}`);
+    }
+    let days = this.years.get(year);
+    if (!days) {
+      days = [];
+      for (const rule of this.rules) {
+        if ((rule.from !== undefined && year < rule.from) || (rule.to !== undefined && year > rule.to)) {
+          continue;
+        }
+        const day = ruleDay(rule, year);
+        if (day !== null) {
+          days.push({ name: rule.name, day, observed: day + OBSERVANCE_SHIFTS[rule.observance || 'none'][weekdayOf(day)] });
+        }
+      }
+      days.sort((a, b) => a.day - b.day);
+      this.years.set(year, days);
+    }
+    return days;
+  }
+
+  private toHoliday(holiday: HolidayDay, tz: string): Holiday {
+    return { name: holiday.name, date: startOfDay(holiday.day, tz), observed: startOfDay(holiday.observed, tz) };
+  }
+}
+
+HolidayCalendar.register('IT', [
+  { name: "New Year's Day", kind: 'fixed', month: 1, day: 1 },
+  { name: 'Epiphany', kind: 'fixed', month: 1, day: 6 },
+  { name: 'Easter Sunday', kind: 'easter' },
+  { name: 'Easter Monday', kind: 'easter', offset: 1 },
+  { name: 'Liberation Day', kind: 'fixed', month: 4, day: 25 },
+  { name: 'Labour Day', kind: 'fixed', month: 5, day: 1 },
+  { name: 'Republic Day', kind: 'fixed', month: 6, day: 2 },
+  { name: 'Assumption Day', kind: 'fixed', month: 8, day: 15 },
+  { name: "All Saints' Day", kind: 'fixed', month: 11, day: 1 },
+  { name: 'Immaculate Conception', kind: 'fixed', month: 12, day: 8 },
+  { name: 'Christmas Day', kind: 'fixed', month: 12, day: 25 },
+  { name: "St. Stephen's Day", kind: 'fixed', month: 12, day: 26 }
+]);
+
+HolidayCalendar.register('US', [
+  { name: "New Year's Day", kind: 'fixed', month: 1, day: 1, observance: 'nearest-weekday' },
+  { name: 'Martin Luther King Jr. Day', kind: 'nth-weekday', month: 1, weekday: 1, nth: 3, from: 1986 },
+  { name: "Washington's Birthday", kind: 'nth-weekday', month: 2, weekday: 1, nth: 3 },
+  { name: 'Memorial Day', kind: 'nth-weekday', month: 5, weekday: 1, nth: -1 },
+  { name: 'Juneteenth National Independence Day', kind: 'fixed', month: 6, day: 19, observance: 'nearest-weekday', from: 2021 },
+  { name: 'Independence Day', kind: 'fixed', month: 7, day: 4, observance: 'nearest-weekday' },
+  { name: 'Labor Day', kind: 'nth-weekday', month: 9, weekday: 1, nth: 1 },
+  { name: 'Columbus Day', kind: 'nth-weekday', month: 10, weekday: 1, nth: 2 },
+  { name: 'Veterans Day', kind: 'fixed', month: 11, day: 11, observance: 'nearest-weekday' },
+  { name: 'Thanksgiving Day', kind: 'nth-weekday', month: 11, weekday: 4, nth: 4 },
+  { name: 'Christmas Day', kind: 'fixed', month: 12, day: 25, observance: 'nearest-weekday' }
+]);
@@ -0,0 +1,155 @@
+import { DateTz } from "./date-tz";
+import { DateTzPrecision } from "./idate-tz";
+
+const DATE_VALUE = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/;
+
+// RFC 5545 lines should not be longer than 75 octets, excluding the line break
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * A content line split into its name, parameters and value (RFC 5545, section 3.1).
+ */
+export type ContentLine = {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+};
+
+export function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+/**
+ * Prints the local date (YYYYMMDD) or date-time (YYYYMMDDTHHMMSS) of a DateTz.
+ * @throws Error if the year does not fit the four digits iCalendar allows.
+ */
+export function formatDateValue(date: DateTz, allDay: boolean): string {
+  if (date.year < 0 || date.year > 9999) {
+    throw new Error(`Invalid iCalendar date: year ${date.year} is out of range (0000-9999)`);
+  }
+  const text = `${pad(date.year, 4)}${pad(date.month + 1)}${pad(date.day)}`;
+  return allDay ? text : `${text}T${pad(date.hour)}${pad(date.minute)}${pad(date.second)}`;
+}
+
+/**
+ * Prints the UTC date-time of a DateTz, e.g. 20250110T080000Z.
+ */
+export function formatUtcDateValue(date: DateTz): string {
+  return `${formatDateValue(new DateTz(date.timestamp, 'UTC', 'second'), false)}Z`;
+}
+
+/**
+ * Prints the parameters and value of a date property such as DTSTART or EXDATE:
+ * `;VALUE=DATE:` for dates, a UTC value for UTC dates, `;TZID=` otherwise.
+ * All the dates are expected to share the timezone of the first one.
+ */
+export function formatDateProperty(dates: DateTz[], allDay: boolean): string {
+  if (allDay) {
+    return `;VALUE=DATE:${dates.map(date => formatDateValue(date, true)).join(',')}`;
+  }
+  const { timezone } = dates[0];
+  if (timezone === 'UTC') {
+    return `:${dates.map(formatUtcDateValue).join(',')}`;
+  }
+  return `;TZID=${timezone}:${dates.map(date => formatDateValue(date, false)).join(',')}`;
+}
+
+/**
+ * Parses a DATE or DATE-TIME value. A trailing Z makes the value a UTC instant;
+ * otherwise it is a wall-clock time in the given zone.
+ * The label names the value in the error thrown when it is malformed.
+ */
+export function parseDateValue(value: string, tz: string, precision?: DateTzPrecision, label = 'iCalendar date'): { date: DateTz; isDate: boolean; } {
+  const match = DATE_VALUE.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid ${label}: ${value}`);
+  }
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const iso = hour === undefined
+    ? `${year}-${month}-${day}T00:00:00`
+    : `${year}-${month}-${day}T${hour}:${minute}:${second}${utc ? 'Z' : ''}`;
+  return { date: new DateTz(DateTz.fromISO(iso, tz, { precision })), isDate: hour === undefined };
+}
+
+/**
+ * Prints a UTC offset in seconds as ±HHMM, or ±HHMMSS when it has seconds.
+ */
+export function formatUtcOffset(offsetSeconds: number): string {
+  const sign = offsetSeconds < 0 ? '-' : '+';
+  const absolute = Math.abs(offsetSeconds);
+  const text = `${sign}${pad(Math.floor(absolute / 3600))}${pad(Math.floor(absolute / 60) % 60)}`;
+  return absolute % 60 === 0 ? text : `${text}${pad(absolute % 60)}`;
+}
+
+export function escapeText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+export function unescapeText(text: string): string {
+  return text.replace(/\\([\\;,nN])/g, (_, character: string) => character.toLowerCase() === 'n' ? '\n' : character);
+}
+
+/**
+ * Splits a line longer than 75 octets into a first line and continuation lines
+ * starting with a space, without breaking UTF-8 characters.
+ */
+export function foldLine(line: string): string {
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const character of line) {
+    const codePoint = character.codePointAt(0);
+    const size = codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4;
+    if (octets + size > MAX_LINE_OCTETS) {
+      lines.push(current);
+      current = ' ';
+      octets = 1;
+    }
+    current += character;
+    octets += size;
+  }
+  lines.push(current);
+  return lines.join('\r\n');
+}
+
+/**
+ * Joins folded lines and splits the text into content lines, skipping blank ones.
+ */
+export function unfoldLines(text: string): string[] {
+  return text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/).filter(line => line.trim() !== '');
+}
+
+/**
+ * Parses a content line such as `DTSTART;TZID=Europe/Rome:20250110T090000`.
+ * Parameter values may be quoted to contain colons, semicolons and commas.
+ */
+export function parseContentLine(line: string): ContentLine {
+  const params: Record<string, string> = {};
+  let index = 0;
+  const readUntil = (stops: string) => {
+    let text = '';
+    let quoted = false;
+    while (index < line.length && (quoted || !stops.includes(line[index]))) {
+      if (line[index] === '"') {
+        quoted = !quoted;
+      } else {
+        text += line[index];
+      }
+      index++;
+    }
+    return text;
+  };
+  const name = readUntil(';:').toUpperCase();
+  while (line[index] === ';') {
+    index++;
+    const key = readUntil('=;:').toUpperCase();
+    if (line[index] === '=') {
+      index++;
+    }
+    params[key] = readUntil(';:');
+  }
+  if (line[index] !== ':' || !name) {
+    throw new Error(`Invalid iCalendar line: ${line}`);
+  }
+  return { name, params, value: line.slice(index + 1) };
+}
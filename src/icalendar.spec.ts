@@ -0,0 +1,186 @@
+import { describe, expect, it } from 'vitest';
+import { DateTz } from './date-tz';
+import { ICalendar } from './icalendar';
+import { RecurrenceRule } from './recurrence-rule';
+
+const component = (text: string, name: string) => {
+  const start = text.indexOf(`BEGIN:${name}`);
+  return text.slice(start, text.indexOf(`END:${name}`, start)).split('\r\n');
+};
+
+describe('ICalendar', () => {
+  const stamp = new DateTz(Date.UTC(2025, 0, 1, 12), 'UTC');
+
+  it('writes events with generated VTIMEZONE components', () => {
+    const start = DateTz.fromISO('2025-01-10T09:00', 'Europe/Rome');
+    const calendar = new ICalendar({
+      name: 'Team',
+      events: [{
+        uid: 'standup@example.com',
+        start: new DateTz(start),
+        end: new DateTz(start).plus({ minutes: 15 }) as DateTz,
+        stamp,
+        summary: 'Standup; daily, short',
+        recurrence: new RecurrenceRule({ frequency: 'weekly', byDay: ['MO', 'WE', 'FR'], start })
+      }]
+    });
+    const text = calendar.toString();
+    expect(text.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(component(text, 'VEVENT')).toEqual([
+      'BEGIN:VEVENT',
+      'UID:standup@example.com',
+      'DTSTAMP:20250101T120000Z',
+      'DTSTART;TZID=Europe/Rome:20250110T090000',
+      'DTEND;TZID=Europe/Rome:20250110T091500',
+      'SUMMARY:Standup\\; daily\\, short',
+      'RRULE:FREQ=WEEKLY;BYDAY=MO,WE,FR',
+      ''
+    ]);
+
+    const timezone = component(text, 'VTIMEZONE');
+    expect(timezone).toContain('TZID:Europe/Rome');
+    expect(timezone).toContain('RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU');
+    expect(timezone).toContain('RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU');
+    expect(timezone).toContain('TZOFFSETFROM:+0100');
+    expect(timezone).toContain('TZOFFSETTO:+0200');
+    expect(timezone).toContain('TZNAME:CEST');
+  });
+
+  it('describes zones without daylight saving time with a single observance', () => {
+    const start = new DateTz(DateTz.fromISO('2025-06-01T10:00', 'Asia/Tokyo'));
+    const text = new ICalendar({ events: [{ uid: 'tokyo', start, stamp }] }).toString();
+    const timezone = component(text, 'VTIMEZONE');
+    expect(timezone.filter(line => line.startsWith('BEGIN:'))).toEqual(['BEGIN:VTIMEZONE', 'BEGIN:STANDARD']);
+    expect(timezone).toContain('TZOFFSETTO:+0900');
+    expect(timezone.some(line => line.startsWith('RRULE'))).toBe(false);
+  });
+
+  it('folds long lines and round-trips events', () => {
+    const start = new DateTz(DateTz.fromISO('2025-03-28T18:30', 'America/New_York'));
+    const description = 'Line one\nLine two, with commas; and semicolons. '.repeat(3);
+    const calendar = new ICalendar({
+      events: [
+        { uid: 'a', start, end: new DateTz(start).plus({ hours: 2 }) as DateTz, stamp, description, location: 'Café' },
+        { uid: 'b', start: new DateTz(Date.UTC(2025, 4, 1), 'UTC'), end: new DateTz(Date.UTC(2025, 4, 2), 'UTC'), allDay: true, stamp, summary: 'Holiday' }
+      ]
+    });
+    const text = calendar.toString();
+    expect(text.split('\r\n').every(line => new TextEncoder().encode(line).length <= 75)).toBe(true);
+    expect(text).toContain('DTSTART;VALUE=DATE:20250501');
+    expect(text).toContain('DTEND;VALUE=DATE:20250502');
+    expect(text).not.toContain('BEGIN:VTIMEZONE\r\nTZID:UTC');
+
+    const parsed = ICalendar.parse(text);
+    const [first, second] = parsed.events;
+    expect(first.description).toBe(description);
+    expect(first.location).toBe('Café');
+    expect(first.start.timezone).toBe('America/New_York');
+    expect(first.start.timestamp).toBe(start.timestamp);
+    expect(first.end.toISO({ offset: true })).toBe('2025-03-28T20:30:00-04:00');
+    expect(second.allDay).toBe(true);
+    expect(second.end.toString('YYYY-MM-DD')).toBe('2025-05-02');
+    expect(parsed.toString()).toBe(text);
+  });
+
+  it('parses UTC, floating, all-day and aliased TZID values', () => {
+    const text = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//Example//Calendar//EN',
+      'X-WR-CALNAME:Imported',
+      'BEGIN:VTIMEZONE',
+      'TZID:Rome Standard Time',
+      'X-LIC-LOCATION:Europe/Rome',
+      'END:VTIMEZONE',
+      'BEGIN:VEVENT',
+      'UID:1',
+      'DTSTART;TZID="Rome Standard Time":20250706T100000',
+      'DURATION:PT1H30M',
+      'RRULE:FREQ=DAILY;COUNT=3',
+      'EXDATE;TZID="Rome Standard Time":20250707T100000',
+      'BEGIN:VALARM',
+      'TRIGGER:-PT15M',
+      'END:VALARM',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:2',
+      'DTSTART:20250706T080000Z',
+      'SUMMARY:Folded',
+      '  summary',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:3',
+      'DTSTART:20250706T080000',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:4',
+      'DTSTART;VALUE=DATE:20251225',
+      'END:VEVENT',
+      'END:VCALENDAR'
+    ].join('\r\n');
+    const calendar = ICalendar.parse(text, { timezone: 'Asia/Tokyo' });
+    expect(calendar.prodId).toBe('-//Example//Calendar//EN');
+    expect(calendar.name).toBe('Imported');
+
+    const [aliased, utc, floating, allDay] = calendar.events;
+    expect(aliased.start.timezone).toBe('Europe/Rome');
+    expect(aliased.end.toISO({ offset: true })).toBe('2025-07-06T11:30:00+02:00');
+    expect(aliased.recurrence.all().map(date => date.toString('YYYY-MM-DD'))).toEqual(['2025-07-06', '2025-07-08']);
+    expect(utc.start.timezone).toBe('UTC');
+    expect(utc.summary).toBe('Folded summary');
+    expect(floating.start.toISO({ offset: true })).toBe('2025-07-06T08:00:00+09:00');
+    expect(allDay.allDay).toBe(true);
+    expect(allDay.end.toString('YYYY-MM-DD')).toBe('2025-12-26');
+  });
+
+  it('reads the Windows zone names of Outlook and Exchange invites', () => {
+    const text = [
+      'BEGIN:VCALENDAR',
+      'METHOD:REQUEST',
+      'PRODID:Microsoft Exchange Server 2010',
+      'VERSION:2.0',
+      'BEGIN:VTIMEZONE',
+      'TZID:W. Europe Standard Time',
+      'BEGIN:STANDARD',
+      'DTSTART:16010101T030000',
+      'TZOFFSETFROM:+0200',
+      'TZOFFSETTO:+0100',
+      'RRULE:FREQ=YEARLY;INTERVAL=1;BYDAY=-1SU;BYMONTH=10',
+      'END:STANDARD',
+      'BEGIN:DAYLIGHT',
+      'DTSTART:16010101T020000',
+      'TZOFFSETFROM:+0100',
+      'TZOFFSETTO:+0200',
+      'RRULE:FREQ=YEARLY;INTERVAL=1;BYDAY=-1SU;BYMONTH=3',
+      'END:DAYLIGHT',
+      'END:VTIMEZONE',
+      'BEGIN:VEVENT',
+      'UID:040000008200E00074C5B7101A82E008',
+      'DTSTART;TZID=W. Europe Standard Time:20251027T093000',
+      'DTEND;TZID=Eastern Standard Time:20251027T050000',
+      'END:VEVENT',
+      'END:VCALENDAR'
+    ].join('\r\n');
+    const [invite] = ICalendar.parse(text).events;
+    expect(invite.start.timezone).toBe('Europe/Berlin');
+    expect(invite.start.toISO({ offset: true })).toBe('2025-10-27T09:30:00+01:00');
+    expect(invite.end.timezone).toBe('America/New_York');
+    expect(invite.end.timestamp - invite.start.timestamp).toBe(30 * 60000);
+  });
+
+  it('rejects malformed calendars', () => {
+    expect(() => ICalendar.parse('BEGIN:VEVENT\r\nEND:VEVENT')).toThrow('Invalid iCalendar: expected BEGIN:VCALENDAR');
+    expect(() => ICalendar.parse('BEGIN:VCALENDAR\r\nBEGIN:VEVENT\r\nDTSTART:20250101T000000Z')).toThrow('Invalid iCalendar: missing END:VEVENT');
+    expect(() => ICalendar.parse('BEGIN:VCALENDAR\r\nBEGIN:VEVENT\r\nUID:1\r\nEND:VEVENT\r\nEND:VCALENDAR')).toThrow('Invalid iCalendar: VEVENT without DTSTART');
+    expect(() => ICalendar.parse('BEGIN:VCALENDAR\r\nBEGIN:VEVENT\r\nDTSTART;TZID=Mars/Olympus:20250101T000000\r\nEND:VEVENT\r\nEND:VCALENDAR'))
+      .toThrow('Invalid timezone: Mars/Olympus');
+  });
+
+  it('refuses to write years that do not fit four digits', () => {
+    const event = (start: DateTz, allDay = false) => new ICalendar({ events: [{ uid: 'far@example.com', start, stamp, allDay }] });
+    expect(() => event(new DateTz(Date.UTC(10000, 0, 1), 'UTC')).toString()).toThrow('Invalid iCalendar date: year 10000 is out of range (0000-9999)');
+    expect(() => event(new DateTz(new Date(0).setUTCFullYear(-44, 2, 15), 'UTC'), true).toString()).toThrow('Invalid iCalendar date: year -44 is out of range (0000-9999)');
+    const lastDay = event(new DateTz(Date.UTC(9999, 11, 31), 'UTC'), true).toString();
+    expect(ICalendar.parse(lastDay).events[0].start.year).toBe(9999);
+  });
+});
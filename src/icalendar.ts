@@ -0,0 +1,354 @@
+import { DateTz } from "./date-tz";
+import { Duration } from "./duration";
+import { ContentLine, escapeText, foldLine, formatDateProperty, formatDateValue, formatUtcDateValue, formatUtcOffset, parseContentLine, parseDateValue, unescapeText, unfoldLines } from "./ical-values";
+import { ICalendarEvent, ICalendarOptions, ICalendarParseOptions } from "./idate-tz";
+import { RecurrenceRule } from "./recurrence-rule";
+import { timezones } from "./timezones";
+import { windowsZones } from "./windows-zones";
+import { getNextZoneTransition, getPreviousZoneTransition, getZoneOffset, getZoneRule, getZoneTransitions, ZoneOffset } from "./zone-rules";
+
+const DEFAULT_PROD_ID = '-//lbd-sh//date-tz//EN';
+
+// Indexed like DateTz.dayOfWeek (0 = Sunday)
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// Zones that keep changing under a rule VTIMEZONE cannot express are listed up to here
+const TRANSITION_HORIZON = Date.UTC(2100, 0, 1);
+
+type Observance = {
+  kind: 'STANDARD' | 'DAYLIGHT';
+  offsetFrom: number;
+  offsetTo: number;
+  name: string;
+  // Local onset times in the offset before the change; the first is DTSTART, the rest RDATEs
+  onsets: string[];
+  rrule?: string;
+};
+
+// The onset of an observance: the local time of the change, in the offset before it
+function localValue(timestamp: number, offsetSeconds: number): string {
+  return formatDateValue(new DateTz(timestamp + offsetSeconds * 1000, 'UTC', 'second'), false);
+}
+
+function observanceOf(before: ZoneOffset, after: ZoneOffset, onset: string): Observance {
+  return {
+    kind: after.isDst ? 'DAYLIGHT' : 'STANDARD',
+    offsetFrom: before.offsetSeconds,
+    offsetTo: after.offsetSeconds,
+    name: after.abbreviation,
+    onsets: [onset]
+  };
+}
+
+/**
+ * Builds a VTIMEZONE component that describes a zone from `from` to `to` (inclusive),
+ * using the library's own timezone data. Changes under the zone's current yearly rule
+ * are written as RRULEs; earlier ones are listed.
+ */
+function buildTimezone(tz: string, from: number, to: number): string[] {
+  const rule = getZoneRule(tz);
+  const yearly = rule && rule.dst && rule.start && rule.end && rule.dst.offsetSeconds !== rule.std.offsetSeconds
+    && [rule.start, rule.end].every(date => date.time >= 0 && date.time < 86400)
+    ? rule
+    : null;
+  const listedEnd = Math.min(
+    Number.isFinite(to) ? to + 1 : TRANSITION_HORIZON,
+    yearly ? yearly.since + 1 : Infinity
+  );
+
+  const observances: Observance[] = [];
+  const byKey = new Map<string, Observance>();
+  const previous = getPreviousZoneTransition(tz, from);
+  const transitions = [...(previous ? [previous] : []), ...getZoneTransitions(tz, from + 1, listedEnd)];
+  for (const { timestamp, before, after } of transitions) {
+    const onset = localValue(timestamp, before.offsetSeconds);
+    const key = [after.isDst, before.offsetSeconds, after.offsetSeconds, after.abbreviation].join('|');
+    const existing = byKey.get(key);
+    if (existing) {
+      existing.onsets.push(onset);
+    } else {
+      const observance = observanceOf(before, after, onset);
+      byKey.set(key, observance);
+      observances.push(observance);
+    }
+  }
+  if (observances.length === 0) {
+    const offset = getZoneOffset(tz, from);
+    observances.push(observanceOf(offset, offset, '19700101T000000'));
+  }
+  if (yearly && to > yearly.since) {
+    let cursor = Math.max(from, yearly.since);
+    for (let index = 0; index < 2; index++) {
+      const next = getNextZoneTransition(tz, cursor);
+      const date = next.after.offsetSeconds === yearly.dst.offsetSeconds ? yearly.start : yearly.end;
+      observances.push({
+        ...observanceOf(next.before, next.after, localValue(next.timestamp, next.before.offsetSeconds)),
+        rrule: `FREQ=YEARLY;BYMONTH=${date.month + 1};BYDAY=${date.week === 5 ? -1 : date.week}${WEEKDAYS[date.weekday]}`
+      });
+      cursor = next.timestamp;
+    }
+  }
+
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${tz}`];
+  for (const observance of observances) {
+    lines.push(`BEGIN:${observance.kind}`, `DTSTART:${observance.onsets[0]}`);
+    if (observance.rrule) {
+      lines.push(`RRULE:${observance.rrule}`);
+    } else if (observance.onsets.length > 1) {
+      lines.push(`RDATE:${observance.onsets.slice(1).join(',')}`);
+    }
+    lines.push(
+      `TZOFFSETFROM:${formatUtcOffset(observance.offsetFrom)}`,
+      `TZOFFSETTO:${formatUtcOffset(observance.offsetTo)}`,
+      `TZNAME:${observance.name}`,
+      `END:${observance.kind}`
+    );
+  }
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
+
+/**
+ * An iCalendar (RFC 5545) calendar of events, read from and written to .ics text.
+ * Dates are DateTz values: TZID dates keep their zone, UTC dates are in UTC, and dates
+ * and floating times use the zone given when parsing. Written calendars carry a
+ * VTIMEZONE for every zone they use, generated from the bundled timezone data.
+ */
+export class ICalendar {
+
+  readonly events: ICalendarEvent[];
+  readonly prodId: string;
+  readonly name?: string;
+
+  /**
+   * Creates a calendar.
+   * @param options - The events, the PRODID and the calendar name (X-WR-CALNAME), all optional.
+   */
+  constructor(options: ICalendarOptions = {}) {
+    this.events = [...(options.events || [])];
+    this.prodId = options.prodId || DEFAULT_PROD_ID;
+    this.name = options.name;
+  }
+
+  /**
+   * Reads the events of an iCalendar text. Folded lines are joined and TEXT values unescaped.
+   * A TZID that is not an IANA name is resolved through the X-LIC-LOCATION of its VTIMEZONE,
+   * then as a Windows zone name such as Outlook and Exchange write (W. Europe Standard Time).
+   * @param text - The .ics content.
+   * @param options - The zone of dates and floating times and the precision of the dates (optional).
+   * @returns A new ICalendar.
+   * @throws Error if the text is not an iCalendar object or uses an unknown timezone.
+   */
+  static parse(text: string, options: ICalendarParseOptions = {}): ICalendar {
+    const lines = unfoldLines(String(text)).map(parseContentLine);
+
+    const aliases: Record<string, string> = {};
+    let timezoneId: string | undefined;
+    for (const { name, value } of lines) {
+      if (name === 'BEGIN' && value.toUpperCase() === 'VTIMEZONE') {
+        timezoneId = '';
+      } else if (name === 'END' && value.toUpperCase() === 'VTIMEZONE') {
+        timezoneId = undefined;
+      } else if (timezoneId !== undefined && name === 'TZID') {
+        timezoneId = value;
+      } else if (timezoneId && name === 'X-LIC-LOCATION') {
+        aliases[timezoneId] = value;
+      }
+    }
+    const resolveZone = (tzid?: string) => {
+      if (!tzid) {
+        return options.timezone || 'UTC';
+      }
+      if (timezones[tzid]) {
+        return tzid;
+      }
+      if (aliases[tzid] && timezones[aliases[tzid]]) {
+        return aliases[tzid];
+      }
+      if (windowsZones[tzid]) {
+        return windowsZones[tzid];
+      }
+      throw new Error(`Invalid timezone: ${tzid}`);
+    };
+
+    const events: ICalendarEvent[] = [];
+    const components: string[] = [];
+    let eventLines: ContentLine[] | null = null;
+    let prodId: string | undefined;
+    let calendarName: string | undefined;
+    for (const line of lines) {
+      const component = line.value.toUpperCase();
+      if (line.name === 'BEGIN') {
+        if (components.length === 0 && component !== 'VCALENDAR') {
+          throw new Error('Invalid iCalendar: expected BEGIN:VCALENDAR');
+        }
+        components.push(component);
+        if (component === 'VEVENT' && components.length === 2) {
+          eventLines = [];
+        }
+      } else if (line.name === 'END') {
+        if (components.pop() !== component) {
+          throw new Error(`Invalid iCalendar: unexpected END:${line.value}`);
+        }
+        if (component === 'VEVENT' && components.length === 1) {
+          events.push(ICalendar.parseEvent(eventLines, resolveZone, options));
+          eventLines = null;
+        }
+      } else if (components.length === 0) {
+        throw new Error('Invalid iCalendar: expected BEGIN:VCALENDAR');
+      } else if (components.length === 1 && line.name === 'PRODID') {
+        prodId = line.value;
+      } else if (components.length === 1 && line.name === 'X-WR-CALNAME') {
+        calendarName = unescapeText(line.value);
+      } else if (eventLines && components.length === 2) {
+        eventLines.push(line);
+      }
+    }
+    if (components.length > 0) {
+      throw new Error(`Invalid iCalendar: missing END:${components.pop()}`);
+    }
+    return new ICalendar({ events, prodId, name: calendarName });
+  }
+
+  /**
+   * Writes the calendar as iCalendar text, with CRLF line breaks and lines folded at 75 octets.
+   * Events without a stamp get the current time as DTSTAMP.
+   */
+  toString(): string {
+    const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${this.prodId}`, 'CALSCALE:GREGORIAN'];
+    if (this.name) {
+      lines.push(`X-WR-CALNAME:${escapeText(this.name)}`);
+    }
+    for (const [tz, range] of this.timezoneRanges()) {
+      lines.push(...buildTimezone(tz, range.from, range.to));
+    }
+    for (const event of this.events) {
+      lines.push(...ICalendar.formatEvent(event));
+    }
+    lines.push('END:VCALENDAR');
+    return `${lines.map(foldLine).join('\r\n')}\r\n`;
+  }
+
+  // The span of time each zone must be described for; endless recurrences reach Infinity
+  private timezoneRanges(): Map<string, { from: number; to: number; }> {
+    const ranges = new Map<string, { from: number; to: number; }>();
+    const extend = (date: DateTz, to = date.timestamp) => {
+      if (date.timezone === 'UTC') {
+        return;
+      }
+      const range = ranges.get(date.timezone);
+      ranges.set(date.timezone, range
+        ? { from: Math.min(range.from, date.timestamp), to: Math.max(range.to, to) }
+        : { from: date.timestamp, to });
+    };
+    for (const event of this.events) {
+      if (event.allDay) {
+        continue;
+      }
+      extend(event.start);
+      if (event.end) {
+        extend(event.end);
+      }
+      const { recurrence } = event;
+      if (recurrence) {
+        const length = event.end ? event.end.timestamp - event.start.timestamp : 0;
+        const finite = recurrence.count !== undefined || recurrence.until !== undefined;
+        const last = finite ? recurrence.all().pop() : undefined;
+        extend(event.start, finite ? (last ? last.timestamp + length : event.start.timestamp) : Infinity);
+        for (const date of [...recurrence.exdates, ...recurrence.rdates]) {
+          extend(date, date.timestamp + length);
+        }
+      }
+    }
+    return ranges;
+  }
+
+  private static parseEvent(lines: ContentLine[], resolveZone: (tzid?: string) => string, options: ICalendarParseOptions): ICalendarEvent {
+    const event: Partial<ICalendarEvent> = { uid: '' };
+    // UTC values stay in UTC whatever zone floating times are read in
+    const parseDate = (line: ContentLine, value = line.value) =>
+      parseDateValue(value, /Z$/i.test(value.trim()) ? 'UTC' : resolveZone(line.params.TZID), options.precision);
+    let duration: Duration | undefined;
+    let rule: string | undefined;
+    const exdates: DateTz[] = [];
+    const rdates: DateTz[] = [];
+    for (const line of lines) {
+      switch (line.name) {
+        case 'UID':
+          event.uid = unescapeText(line.value);
+          break;
+        case 'DTSTART': {
+          const { date, isDate } = parseDate(line);
+          event.start = date;
+          event.allDay = isDate;
+          break;
+        }
+        case 'DTEND':
+          event.end = parseDate(line).date;
+          break;
+        case 'DURATION':
+          duration = Duration.fromISO(line.value);
+          break;
+        case 'DTSTAMP':
+          event.stamp = parseDate(line).date;
+          break;
+        case 'SUMMARY':
+          event.summary = unescapeText(line.value);
+          break;
+        case 'DESCRIPTION':
+          event.description = unescapeText(line.value);
+          break;
+        case 'LOCATION':
+          event.location = unescapeText(line.value);
+          break;
+        case 'RRULE':
+          rule = line.value;
+          break;
+        case 'EXDATE':
+          exdates.push(...line.value.split(',').map(value => parseDate(line, value).date));
+          break;
+        case 'RDATE':
+          rdates.push(...line.value.split(',').map(value => parseDate(line, value).date));
+          break;
+      }
+    }
+    if (!event.start) {
+      throw new Error('Invalid iCalendar: VEVENT without DTSTART');
+    }
+    if (!event.end && duration) {
+      event.end = new DateTz(event.start).plus(duration);
+    } else if (!event.end && event.allDay) {
+      // An all-day event without an end lasts one day
+      event.end = new DateTz(event.start).plus({ days: 1 });
+    }
+    if (rule) {
+      const parsed = RecurrenceRule.parse(`RRULE:${rule}`, { start: event.start, precision: options.precision });
+      event.recurrence = new RecurrenceRule({ ...parsed.toOptions(), allDay: event.allDay, exdates, rdates });
+    }
+    return event as ICalendarEvent;
+  }
+
+  private static formatEvent(event: ICalendarEvent): string[] {
+    const allDay = event.allDay === true;
+    const lines = [
+      'BEGIN:VEVENT',
+      `UID:${escapeText(event.uid)}`,
+      `DTSTAMP:${formatUtcDateValue(event.stamp || new DateTz(DateTz.now('UTC')))}`,
+      `DTSTART${formatDateProperty([event.start], allDay)}`
+    ];
+    if (event.end) {
+      lines.push(`DTEND${formatDateProperty([event.end], allDay)}`);
+    }
+    for (const [name, value] of [['SUMMARY', event.summary], ['DESCRIPTION', event.description], ['LOCATION', event.location]]) {
+      if (value !== undefined) {
+        lines.push(`${name}:${escapeText(value)}`);
+      }
+    }
+    if (event.recurrence) {
+      // The event's DTSTART doubles as the start of its recurrence
+      lines.push(...event.recurrence.toString().split('\n').filter(line => !line.startsWith('DTSTART')));
+    }
+    lines.push('END:VEVENT');
+    return lines;
+  }
+}
@@ -1,3 +1,9 @@
+import type { CronExpression } from "./cron-expression";
+import type { DateTz } from "./date-tz";
+import type { Duration } from "./duration";
+import type { HolidayCalendar } from "./holiday-calendar";
+import type { RecurrenceRule } from "./recurrence-rule";
+import type { ScheduledJob } from "./scheduler";
 import { TimezoneOffset } from "./timezones";
 
 export type DateTzDiffUnit =
@@ -10,11 +16,17 @@ export type DateTzDiffUnit =
   | 'month'
   | 'year';
 
-export type DateTzGranularity = Exclude<DateTzDiffUnit, 'millisecond' | 'second'>;
+export type DateTzGranularity = Exclude<DateTzDiffUnit, 'millisecond'>;
+
+export type DateTzPrecision = 'minute' | 'second' | 'millisecond';
 
 export type DateTzInclusivity = '()' | '(]' | '[)' | '[]';
 
 export type DateTzDurationLike = Partial<{
+  millisecond: number;
+  milliseconds: number;
+  second: number;
+  seconds: number;
   minute: number;
   minutes: number;
   hour: number;
@@ -29,27 +41,338 @@ export type DateTzDurationLike = Partial<{
   years: number;
 }>;
 
+export type DateTzDiffMode = 'calendar' | 'elapsed';
+
+export type DateTzDiffBreakdown = Partial<{
+  years: number;
+  months: number;
+  weeks: number;
+  days: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+  milliseconds: number;
+}>;
+
+export type DateTzFields = Partial<{
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+}>;
+
+export type DateTzOffsetConflict = 'reject' | 'offset' | 'zone';
+
+export type DateTzDisambiguation = 'compatible' | 'earlier' | 'later' | 'reject';
+
+export type DateTzLocalOptions = {
+  disambiguation?: DateTzDisambiguation;
+};
+
+export type DateTzOverflow = 'constrain' | 'overflow' | 'reject';
+
+export type DateTzArithmeticOptions = DateTzLocalOptions & {
+  overflow?: DateTzOverflow;
+};
+
+export type DateTzParseOptions = {
+  precision?: DateTzPrecision;
+  offsetConflict?: DateTzOffsetConflict;
+  disambiguation?: DateTzDisambiguation;
+};
+
+export type DateTzISOOptions = {
+  offset?: boolean;
+  zone?: boolean;
+  precision?: DateTzPrecision;
+};
+
+export type DateTzRelativeStyle = 'long' | 'short' | 'narrow';
+
+// For each unit, the rounded amount below which toRelative uses it; larger amounts move on to the next unit
+export type DateTzRelativeThresholds = Partial<Record<Exclude<DateTzGranularity, 'year'>, number>>;
+
+export type DateTzRelativeOptions = {
+  // Defaults to 'en'
+  locale?: string;
+  style?: DateTzRelativeStyle;
+  // 'auto' writes "yesterday" and "next month" instead of "1 day ago" and "in 1 month"; defaults to 'always'
+  numeric?: 'always' | 'auto';
+  // Always use this unit instead of choosing one from the thresholds
+  unit?: DateTzGranularity;
+  // Merged with the defaults: second 45, minute 45, hour 22, day 26, month 11 (weeks are skipped)
+  thresholds?: DateTzRelativeThresholds;
+};
+
+export type DateTzRelativeCalendarUnit = 'day' | 'week' | 'month' | 'year';
+
+export type DateTzRelativeCalendarOptions = {
+  // Defaults to 'en'
+  locale?: string;
+  style?: DateTzRelativeStyle;
+  // Always use this unit instead of the closest one
+  unit?: DateTzRelativeCalendarUnit;
+  // Append the local time: "yesterday at 14:00" (or "hier, 14:00" outside English)
+  time?: boolean;
+};
+
+// How the remainder below the smallest unit is dropped: 'round' rounds half away from zero
+export type DurationRoundingMode = 'trunc' | 'floor' | 'ceil' | 'round';
+
+export type DurationHumanOptions = {
+  // Defaults to 'en'
+  locale?: string;
+  // Unit names as in Intl.NumberFormat: "1 hour", "1 hr" or "1h"; defaults to 'long'
+  style?: DateTzRelativeStyle;
+  // 'unit' lists the parts as "1 hour, 20 minutes", 'conjunction' as "1 hour and 20 minutes"; defaults to 'unit'
+  listStyle?: 'unit' | 'conjunction';
+  // Defaults to the largest unit in use, but at least days
+  largestUnit?: DateTzDiffUnit;
+  // Defaults to seconds
+  smallestUnit?: DateTzDiffUnit;
+  // Defaults to 'trunc'
+  roundingMode?: DurationRoundingMode;
+  // The remainder after the last part is rounded into it
+  maxParts?: number;
+};
+
+export type DurationClockUnit = 'hour' | 'minute' | 'second' | 'millisecond';
+
+export type DurationClockOptions = {
+  // Defaults to hours, which do not wrap at 24
+  largestUnit?: DurationClockUnit;
+  // Defaults to seconds
+  smallestUnit?: DurationClockUnit;
+  // Defaults to 'trunc'
+  roundingMode?: DurationRoundingMode;
+};
+
+export type DateTzTransitionDirection = 'gap' | 'overlap';
+
+export type DateTzTransition = {
+  timestamp: number;
+  offsetBefore: number;
+  offsetAfter: number;
+  isDst: boolean;
+  direction: DateTzTransitionDirection;
+};
+
+export type RecurrenceFrequency = 'yearly' | 'monthly' | 'weekly' | 'daily' | 'hourly' | 'minutely' | 'secondly';
+
+export type RecurrenceWeekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+// A weekday with an optional ordinal, as in RRULE BYDAY: 'FR', '1MO', '-1FR'
+export type RecurrenceByDay = RecurrenceWeekday | `${number}${RecurrenceWeekday}`;
+
+export type RecurrenceRuleOptions = {
+  frequency: RecurrenceFrequency;
+  // DTSTART: the first occurrence; its timezone is the zone the rule repeats in
+  start: IDateTz;
+  interval?: number;
+  count?: number;
+  until?: IDateTz;
+  byMonth?: number[];
+  byWeekNo?: number[];
+  byYearDay?: number[];
+  byMonthDay?: number[];
+  byDay?: RecurrenceByDay[];
+  byHour?: number[];
+  byMinute?: number[];
+  bySecond?: number[];
+  bySetPos?: number[];
+  weekStart?: RecurrenceWeekday;
+  exdates?: IDateTz[];
+  rdates?: IDateTz[];
+  // Serialize DTSTART, UNTIL, EXDATE and RDATE as dates (VALUE=DATE)
+  allDay?: boolean;
+};
+
+export type RecurrenceRuleParseOptions = {
+  // Used when the text has no DTSTART line
+  start?: IDateTz;
+  // The zone of floating DTSTART values (no TZID and no Z); defaults to UTC
+  timezone?: string;
+  precision?: DateTzPrecision;
+};
+
+export type ICalendarEvent = {
+  uid: string;
+  start: DateTz;
+  // Exclusive end; for all-day events, the day after the last day
+  end?: DateTz;
+  allDay?: boolean;
+  summary?: string;
+  description?: string;
+  location?: string;
+  // DTSTAMP; defaults to the current time when writing
+  stamp?: DateTz;
+  // RRULE, EXDATE and RDATE; its start is the event start
+  recurrence?: RecurrenceRule;
+};
+
+export type ICalendarOptions = {
+  events?: ICalendarEvent[];
+  prodId?: string;
+  name?: string;
+};
+
+export type ICalendarParseOptions = {
+  // The zone of floating and all-day values; defaults to UTC
+  timezone?: string;
+  precision?: DateTzPrecision;
+};
+
+export type CronExpressionParseOptions = {
+  // The zone the fields are read in; defaults to UTC
+  tz?: string;
+};
+
+// The time source and timers a Scheduler runs on; replace it to drive a scheduler with fake time
+export type SchedulerClock = {
+  now(): number;
+  setTimeout(callback: () => void, delay: number): unknown;
+  clearTimeout(handle: unknown): void;
+};
+
+export type SchedulerOptions = {
+  // Defaults to Date.now and the global timers
+  clock?: SchedulerClock;
+  // The longest single timer in milliseconds; longer waits are chunked. Defaults to 2^31 - 1
+  maxTimerDelay?: number;
+  // Receives errors thrown or rejected by callbacks; without it they are logged with console.error
+  onError?: (error: unknown, job: ScheduledJob) => void;
+};
+
+// A single date, a cron expression (a string is parsed with the `tz` schedule option) or a recurrence rule
+export type SchedulerTarget = IDateTz | CronExpression | RecurrenceRule | string;
+
+export type SchedulerCallback = (run: DateTz, job: ScheduledJob) => void | Promise<void>;
+
+export type ScheduleOptions = {
+  // The zone of cron strings; defaults to UTC
+  tz?: string;
+};
+
+export type ScheduledJobState = 'scheduled' | 'done' | 'cancelled';
+
+export type SchedulerRun = {
+  job: ScheduledJob;
+  at: DateTz;
+};
+
+export type BusinessCalendarOptions = {
+  // Days of the week that are not worked, 0 = Sunday as in DateTz.dayOfWeek; defaults to Saturday and Sunday
+  weekend?: number[];
+  // Days off, matched on their local date; strings are ISO dates such as '2025-12-25'
+  holidays?: (IDateTz | string)[];
+  // Holiday rules whose observed dates are also days off; a string is a registered calendar code such as 'IT'
+  holidayCalendar?: HolidayCalendar | string;
+};
+
+// How a holiday falling on a weekend is moved: 'nearest-weekday' moves Saturday to Friday and
+// Sunday to Monday, 'next-monday' moves both to Monday, 'sunday-to-monday' only moves Sunday
+export type HolidayObservance = 'none' | 'nearest-weekday' | 'next-monday' | 'sunday-to-monday';
+
+type HolidayRuleBase = {
+  name: string;
+  // First and last year the holiday is kept, both inclusive
+  from?: number;
+  to?: number;
+  observance?: HolidayObservance;
+};
+
+// Months are 1-12 and weekdays 0-6 with 0 = Sunday
+export type HolidayRule = HolidayRuleBase & (
+  | { kind: 'fixed'; month: number; day: number; }
+  // nth is 1-5 from the start of the month or -1 to -5 from its end; offset moves the result by days
+  | { kind: 'nth-weekday'; month: number; weekday: number; nth: number; offset?: number; }
+  // Days from Easter Sunday, in the Gregorian (Western) or Julian (Orthodox) computus
+  | { kind: 'easter'; offset?: number; calendar?: 'gregorian' | 'orthodox'; }
+);
+
+export type Holiday = {
+  name: string;
+  // The date the holiday falls on, at local midnight
+  date: DateTz;
+  // The day off: the date itself, or the substitute day when the holiday falls on a weekend
+  observed: DateTz;
+};
+
+export type WeeklyScheduleOptions = {
+  // The zone the opening hours are read in; defaults to UTC
+  timezone?: string;
+  // Opening hours by day of the week (0 = Sunday) as 'HH:mm-HH:mm' ranges, e.g. ['09:00-13:00', '14:00-18:00'];
+  // days left out are closed and '24:00' ends a range at midnight
+  hours: Partial<Record<number, string[]>>;
+  // Opening hours of specific dates, keyed by ISO date such as '2025-12-24'; an empty list closes the day
+  exceptions?: Record<string, string[]>;
+  // Holidays on which the schedule is closed unless an exception opens them; a string is a registered calendar code
+  holidayCalendar?: HolidayCalendar | string;
+};
+
+// A meeting participant: a name for the results (defaults to the timezone) and the working hours of a WeeklySchedule
+export type MeetingParticipant = WeeklyScheduleOptions & {
+  name?: string;
+};
+
+export type FindCommonSlotsOptions = {
+  // The length of the meeting
+  duration: Duration | DateTzDurationLike | string;
+  // The step between candidate start times, counted from the start of the range; defaults to 15 minutes
+  granularity?: Duration | DateTzDurationLike | string;
+  // The maximum number of slots returned
+  limit?: number;
+};
+
+export type MeetingSlotParticipant = {
+  name: string;
+  // The slot in the participant's timezone
+  start: DateTz;
+  end: DateTz;
+  // How central the slot is in the participant's working day, from 0 (at its edge) to 1 (in the middle)
+  score: number;
+};
+
+export type MeetingSlot = {
+  // The slot in the timezone of the start of the search range
+  start: DateTz;
+  end: DateTz;
+  // The score of the participant for whom the slot is least convenient
+  score: number;
+  participants: MeetingSlotParticipant[];
+};
+
 export interface IDateTz {
   timestamp: number;
   timezone?: string;
+  precision?: DateTzPrecision;
   readonly timezoneOffset?: TimezoneOffset;
   compare?(other: IDateTz): number;
   isComparable?(other: IDateTz): boolean;
   toString?(pattern?: string, locale?: string): string;
-  add?(value: number, unit: 'minute' | 'hour' | 'day' | 'month' | 'year'): IDateTz;
-  subtract?(value: number, unit: 'minute' | 'hour' | 'day' | 'week' | 'month' | 'year'): IDateTz;
-  plus?(duration: DateTzDurationLike): IDateTz;
-  minus?(duration: DateTzDurationLike): IDateTz;
-  diff?(other: IDateTz, unit?: DateTzDiffUnit, asFloat?: boolean): number;
-  set?(value: number, unit: 'year' | 'month' | 'day' | 'hour' | 'minute'): IDateTz;
-  startOf?(unit: DateTzGranularity): IDateTz;
-  endOf?(unit: DateTzGranularity): IDateTz;
+  add?(value: number, unit: 'millisecond' | 'second' | 'minute' | 'hour' | 'day' | 'month' | 'year', options?: DateTzArithmeticOptions): IDateTz;
+  subtract?(value: number, unit: 'millisecond' | 'second' | 'minute' | 'hour' | 'day' | 'week' | 'month' | 'year', options?: DateTzArithmeticOptions): IDateTz;
+  plus?(duration: DateTzDurationLike | Duration | string, options?: DateTzArithmeticOptions): IDateTz;
+  minus?(duration: DateTzDurationLike | Duration | string, options?: DateTzArithmeticOptions): IDateTz;
+  diff?(other: IDateTz, unit: 'duration'): Duration;
+  diff?(other: IDateTz, unit?: DateTzDiffUnit, asFloat?: boolean, mode?: DateTzDiffMode): number;
+  diffBreakdown?(other: IDateTz, units?: readonly DateTzDiffUnit[]): DateTzDiffBreakdown;
+  set?(fields: DateTzFields, options?: DateTzArithmeticOptions): IDateTz;
+  set?(value: number, unit: 'year' | 'month' | 'day' | 'hour' | 'minute' | 'second' | 'millisecond', options?: DateTzArithmeticOptions): IDateTz;
+  with?(fields: DateTzFields, options?: DateTzArithmeticOptions): IDateTz;
+  startOf?(unit: DateTzGranularity, options?: DateTzLocalOptions): IDateTz;
+  endOf?(unit: DateTzGranularity, options?: DateTzLocalOptions): IDateTz;
   convertToTimezone?(tz: string): IDateTz;
   cloneToTimezone?(tz: string): IDateTz;
   clone?(): IDateTz;
   toJSDate?(): Date;
   toISOString?(): string;
-  toISO?(): string;
+  toISO?(options?: DateTzISOOptions): string;
+  toRelative?(base?: IDateTz, options?: DateTzRelativeOptions): string;
+  toRelativeCalendar?(base?: IDateTz, options?: DateTzRelativeCalendarOptions): string;
   toUnix?(): number;
   valueOf?(): number;
   isBefore?(other: IDateTz, unit?: DateTzDiffUnit): boolean;
@@ -58,11 +381,15 @@ export interface IDateTz {
   isSameOrBefore?(other: IDateTz, unit?: DateTzDiffUnit): boolean;
   isSameOrAfter?(other: IDateTz, unit?: DateTzDiffUnit): boolean;
   isBetween?(start: IDateTz, end: IDateTz, unit?: DateTzDiffUnit, inclusivity?: DateTzInclusivity): boolean;
+  nextTransition?(): DateTzTransition | null;
+  previousTransition?(): DateTzTransition | null;
   readonly isDst?: boolean;
   readonly year?: number;
   readonly month?: number;
   readonly day?: number;
   readonly hour?: number;
   readonly minute?: number;
+  readonly second?: number;
+  readonly millisecond?: number;
   readonly dayOfWeek?: number;
 }
@@ -1,4 +1,15 @@
+export * from './business-calendar';
+export * from './cron-expression';
 export * from './date-tz';
+export * from './duration';
+export * from './holiday-calendar';
+export * from './icalendar';
 export * from './idate-tz';
+export * from './interval';
+export * from './meeting-planner';
+export * from './recurrence-rule';
+export * from './scheduler';
 export * from './timezones';
+export * from './weekly-schedule';
 
+export { tzdataVersion } from './tzdata';
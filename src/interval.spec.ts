@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { DateTz } from './date-tz';
+import { Duration } from './duration';
+import { DateTzInclusivity } from './idate-tz';
+import { Interval } from './interval';
+
+const rome = (iso: string) => DateTz.fromISO(iso, 'Europe/Rome');
+const slot = (from: string, to: string, inclusivity: DateTzInclusivity = '[)') =>
+  new Interval(rome(`2025-03-10T${from}`), rome(`2025-03-10T${to}`), inclusivity);
+const describeAll = (intervals: Interval[]) => intervals.map(interval => interval.toString());
+
+describe('Interval', () => {
+  it('validates endpoints and inclusivity', () => {
+    expect(() => slot('10:00', '09:00')).toThrow('Start date must be before end date');
+    expect(() => slot('09:00', '10:00', '[[' as unknown as DateTzInclusivity)).toThrow('Invalid inclusivity token: [[');
+    expect(slot('09:00', '09:00').isEmpty).toBe(true);
+    expect(slot('09:00', '09:00', '[]').isEmpty).toBe(false);
+    expect(slot('09:00', '10:00').toString()).toBe('[2025-03-10T09:00:00+01:00, 2025-03-10T10:00:00+01:00)');
+    expect(Interval.after(rome('2025-03-10T09:00'), 'PT90M').equals(slot('09:00', '10:30'))).toBe(true);
+  });
+
+  it('checks containment according to inclusivity', () => {
+    const morning = slot('09:00', '12:00');
+    expect(morning.contains(rome('2025-03-10T09:00'))).toBe(true);
+    expect(morning.contains(rome('2025-03-10T12:00'))).toBe(false);
+    expect(slot('09:00', '12:00', '(]').contains(rome('2025-03-10T12:00'))).toBe(true);
+    expect(morning.contains(slot('10:00', '12:00'))).toBe(true);
+    expect(morning.contains(slot('10:00', '12:00', '[]'))).toBe(false);
+  });
+
+  it('detects overlapping and abutting intervals', () => {
+    expect(slot('09:00', '10:00').overlaps(slot('09:30', '11:00'))).toBe(true);
+    expect(slot('09:00', '10:00').overlaps(slot('10:00', '11:00'))).toBe(false);
+    expect(slot('09:00', '10:00').abuts(slot('10:00', '11:00'))).toBe(true);
+    expect(slot('10:00', '11:00').abuts(slot('09:00', '10:00'))).toBe(true);
+    expect(slot('09:00', '10:00', '[]').overlaps(slot('10:00', '11:00'))).toBe(true);
+    expect(slot('09:00', '10:00', '[]').abuts(slot('10:00', '11:00'))).toBe(false);
+    expect(slot('09:00', '10:00', '()').abuts(slot('10:00', '11:00', '()'))).toBe(false);
+  });
+
+  it('computes intersection, union and difference', () => {
+    const intersection = slot('09:00', '11:00', '[]').intersection(slot('10:00', '12:00', '()'));
+    expect(intersection.toString()).toBe('(2025-03-10T10:00:00+01:00, 2025-03-10T11:00:00+01:00]');
+    expect(slot('09:00', '10:00').intersection(slot('10:00', '11:00'))).toBeNull();
+
+    expect(describeAll(slot('09:00', '10:00').union(slot('10:00', '11:00')))).toEqual([slot('09:00', '11:00').toString()]);
+    expect(slot('09:00', '10:00').union(slot('10:30', '11:00'))).toHaveLength(2);
+
+    const day = slot('09:00', '18:00');
+    const free = day.difference(slot('08:00', '09:30'), slot('12:00', '13:00'), slot('17:00', '19:00'));
+    expect(describeAll(free)).toEqual([
+      slot('09:30', '12:00').toString(),
+      slot('13:00', '17:00').toString()
+    ]);
+    expect(slot('09:00', '10:00').difference(slot('09:00', '10:00'))).toEqual([]);
+    expect(describeAll(slot('09:00', '10:00', '[]').difference(slot('09:00', '10:00')))).toEqual([slot('10:00', '10:00', '[]').toString()]);
+  });
+
+  it('merges a list of intervals', () => {
+    const busy = Interval.merge([
+      slot('14:00', '15:00'),
+      slot('09:00', '10:00'),
+      slot('09:30', '11:00'),
+      slot('11:00', '11:30'),
+      slot('12:00', '12:00')
+    ]);
+    expect(describeAll(busy)).toEqual([
+      slot('09:00', '11:30').toString(),
+      slot('14:00', '15:00').toString()
+    ]);
+  });
+
+  it('measures its length', () => {
+    const interval = slot('09:00', '10:30');
+    expect(interval.length('minute')).toBe(90);
+    expect(interval.length('hour', true)).toBe(1.5);
+    expect(interval.toDuration()).toEqual(Duration.fromISO('PT1H30M'));
+
+    // An intersection keeps the endpoints of both operands, here in two timezones
+    const newYork = new Interval(DateTz.fromISO('2025-03-10T04:30', 'America/New_York'), DateTz.fromISO('2025-03-10T09:00', 'America/New_York'));
+    const mixed = slot('09:00', '12:00').intersection(newYork);
+    expect(mixed.start.timezone).toBe('America/New_York');
+    expect(mixed.end.timezone).toBe('Europe/Rome');
+    expect(mixed.length('minute')).toBe(150);
+    expect(mixed.toDuration()).toEqual(Duration.fromISO('PT2H30M'));
+  });
+
+  it('splits at local day boundaries across DST', () => {
+    const weekend = new Interval(rome('2025-03-29T12:00'), rome('2025-03-31T06:00'));
+    const days = weekend.split('day');
+    expect(days.map(day => day.start.toISO({ offset: true }))).toEqual([
+      '2025-03-29T12:00:00+01:00',
+      '2025-03-30T00:00:00+01:00',
+      '2025-03-31T00:00:00+02:00'
+    ]);
+    expect(days.map(day => day.length('hour', true))).toEqual([12, 23, 6]);
+    expect(days.map(day => day.inclusivity)).toEqual(['[)', '[)', '[)']);
+
+    const autumn = new Interval(rome('2025-10-26T00:00'), rome('2025-10-27T00:00'), '[]');
+    expect(autumn.split('day').map(day => [day.length('hour'), day.inclusivity])).toEqual([[25, '[]']]);
+  });
+
+  it('splits at week and month boundaries', () => {
+    const quarter = new Interval(rome('2025-01-15T00:00'), rome('2025-03-15T00:00'), '(]');
+    const months = quarter.split('month');
+    expect(months.map(month => month.toString())).toEqual([
+      '(2025-01-15T00:00:00+01:00, 2025-02-01T00:00:00+01:00)',
+      '[2025-02-01T00:00:00+01:00, 2025-03-01T00:00:00+01:00)',
+      '[2025-03-01T00:00:00+01:00, 2025-03-15T00:00:00+01:00]'
+    ]);
+    const weeks = new Interval(rome('2025-03-05T00:00'), rome('2025-03-20T00:00')).split('week');
+    expect(weeks.map(week => week.start.toString('YYYY-MM-DD'))).toEqual(['2025-03-05', '2025-03-09', '2025-03-16']);
+  });
+});
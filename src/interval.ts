@@ -0,0 +1,289 @@
+import { DateTz } from "./date-tz";
+import { Duration } from "./duration";
+import { DateTzDiffUnit, DateTzGranularity, DateTzInclusivity, DateTzISOOptions, DateTzLocalOptions, IDateTz } from "./idate-tz";
+
+type Bound = { timestamp: number; closed: boolean; };
+
+function assertInclusivity(inclusivity: string) {
+  if (typeof inclusivity !== 'string' || inclusivity.length !== 2 || !['(', '['].includes(inclusivity[0]) || ![')', ']'].includes(inclusivity[1])) {
+    throw new Error(`Invalid inclusivity token: ${inclusivity}`);
+  }
+}
+
+// Orders lower bounds: at the same instant a closed bound starts earlier than an open one
+function compareLower(a: Bound, b: Bound): number {
+  return a.timestamp - b.timestamp || Number(b.closed) - Number(a.closed);
+}
+
+// Orders upper bounds: at the same instant an open bound ends earlier than a closed one
+function compareUpper(a: Bound, b: Bound): number {
+  return a.timestamp - b.timestamp || Number(a.closed) - Number(b.closed);
+}
+
+/**
+ * A span of time between two DateTz endpoints. The inclusivity token tells whether
+ * each endpoint belongs to the interval, as in isBetween: '[)' (the default) includes
+ * the start and excludes the end. Instances are immutable.
+ */
+export class Interval {
+
+  readonly inclusivity: DateTzInclusivity;
+
+  private readonly startDate: DateTz;
+  private readonly endDate: DateTz;
+
+  /**
+   * Creates an interval between two instants.
+   * @param start - The first instant.
+   * @param end - The last instant; must not be before the start.
+   * @param inclusivity - Inclusivity string ((), (], [), []), defaults to '[)'.
+   * @throws Error if the end is before the start or the inclusivity token is invalid.
+   */
+  constructor(start: IDateTz, end: IDateTz, inclusivity: DateTzInclusivity = '[)') {
+    assertInclusivity(inclusivity);
+    if (start.timestamp > end.timestamp) {
+      throw new Error('Start date must be before end date');
+    }
+    this.startDate = new DateTz(start);
+    this.endDate = new DateTz(end);
+    this.inclusivity = inclusivity;
+  }
+
+  /**
+   * Creates an interval that starts at a date and lasts for a duration.
+   * @param start - The first instant.
+   * @param duration - The length of the interval, applied in the start's timezone.
+   * @param inclusivity - Inclusivity string, defaults to '[)'.
+   */
+  static after(start: IDateTz, duration: Duration | string, inclusivity: DateTzInclusivity = '[)'): Interval {
+    return new Interval(start, new DateTz(start).plus(duration), inclusivity);
+  }
+
+  /**
+   * Sorts a list of intervals and merges the ones that overlap or abut,
+   * dropping empty intervals. Useful to turn busy slots into free/busy blocks.
+   * @param intervals - The intervals to normalize.
+   * @returns The disjoint intervals, in chronological order.
+   */
+  static merge(intervals: readonly Interval[]): Interval[] {
+    const sorted = intervals
+      .filter(interval => !interval.isEmpty)
+      .sort((a, b) => compareLower(a.lower, b.lower) || compareUpper(a.upper, b.upper));
+    const result: Interval[] = [];
+    for (const interval of sorted) {
+      const last = result[result.length - 1];
+      if (last && last.connects(interval)) {
+        if (compareUpper(interval.upper, last.upper) > 0) {
+          result[result.length - 1] = Interval.fromBounds(last.startDate, last.lower.closed, interval.endDate, interval.upper.closed);
+        }
+      } else {
+        result.push(interval);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Gets a copy of the start instant.
+   */
+  get start(): DateTz {
+    return new DateTz(this.startDate);
+  }
+
+  /**
+   * Gets a copy of the end instant.
+   */
+  get end(): DateTz {
+    return new DateTz(this.endDate);
+  }
+
+  /**
+   * True when the interval contains no instant, e.g. [t, t) or (t, t].
+   */
+  get isEmpty(): boolean {
+    return this.startDate.timestamp === this.endDate.timestamp && this.inclusivity !== '[]';
+  }
+
+  /**
+   * Checks whether an instant, or every instant of another interval, belongs to the interval.
+   * @param value - A date or an interval.
+   */
+  contains(value: IDateTz | Interval): boolean {
+    if (value instanceof Interval) {
+      return value.isEmpty
+        || (compareLower(value.lower, this.lower) >= 0 && compareUpper(value.upper, this.upper) <= 0);
+    }
+    const { timestamp } = value;
+    const { lower, upper } = this;
+    return (lower.closed ? timestamp >= lower.timestamp : timestamp > lower.timestamp)
+      && (upper.closed ? timestamp <= upper.timestamp : timestamp < upper.timestamp);
+  }
+
+  /**
+   * Checks whether the two intervals share at least one instant.
+   */
+  overlaps(other: Interval): boolean {
+    return this.intersection(other) !== null;
+  }
+
+  /**
+   * Checks whether one interval ends exactly where the other starts, without
+   * overlapping and without leaving a gap, e.g. [09:00, 10:00) and [10:00, 11:00).
+   */
+  abuts(other: Interval): boolean {
+    if (this.isEmpty || other.isEmpty) {
+      return false;
+    }
+    const touches = (first: Interval, second: Interval) =>
+      first.endDate.timestamp === second.startDate.timestamp && first.upper.closed !== second.lower.closed;
+    return touches(this, other) || touches(other, this);
+  }
+
+  /**
+   * Returns the instants shared by both intervals, or null when they do not overlap.
+   */
+  intersection(other: Interval): Interval | null {
+    const [start, startClosed] = compareLower(this.lower, other.lower) >= 0
+      ? [this.startDate, this.lower.closed]
+      : [other.startDate, other.lower.closed];
+    const [end, endClosed] = compareUpper(this.upper, other.upper) <= 0
+      ? [this.endDate, this.upper.closed]
+      : [other.endDate, other.upper.closed];
+    return Interval.fromBounds(start, startClosed, end, endClosed);
+  }
+
+  /**
+   * Returns the instants that belong to either interval: a single interval when
+   * they overlap or abut, otherwise both, in chronological order.
+   */
+  union(other: Interval): Interval[] {
+    return Interval.merge([this, other]);
+  }
+
+  /**
+   * Removes the instants of other intervals from this one.
+   * @param others - The intervals to subtract, e.g. busy slots from a working day.
+   * @returns The remaining pieces, in chronological order (possibly none).
+   */
+  difference(...others: Interval[]): Interval[] {
+    let pieces: Interval[] = this.isEmpty ? [] : [this];
+    for (const other of others) {
+      pieces = pieces.flatMap(piece => piece.subtract(other));
+    }
+    return pieces;
+  }
+
+  /**
+   * Returns the length of the interval in the provided unit, as DateTz.diff does, measured in the start's timezone.
+   * @param unit - The unit of the result (defaults to milliseconds).
+   * @param asFloat - Whether to return a fractional value (defaults to false).
+   */
+  length(unit: DateTzDiffUnit = 'millisecond', asFloat = false): number {
+    return new DateTz(this.endDate.timestamp, this.startDate.timezone, this.startDate.precision).diff(this.startDate, unit, asFloat);
+  }
+
+  /**
+   * Returns the length of the interval as a Duration, measured in the start's timezone.
+   * @param units - The units to express the duration in, largest first (optional).
+   */
+  toDuration(units?: readonly DateTzDiffUnit[]): Duration {
+    return Duration.between(this.startDate, new DateTz(this.endDate.timestamp, this.startDate.timezone, this.startDate.precision), units);
+  }
+
+  /**
+   * Splits the interval at the local boundaries of a unit in the start's timezone,
+   * so a day spans 23 or 25 hours across a DST change.
+   * Inner pieces include their start and exclude their end; the first and last
+   * pieces keep the inclusivity of the interval.
+   * @param unit - The unit whose boundaries cut the interval (e.g. 'day', 'week', 'month').
+   * @param options - How to resolve a boundary that is skipped or repeated locally (optional).
+   */
+  split(unit: DateTzGranularity, options: DateTzLocalOptions = {}): Interval[] {
+    if (this.isEmpty) {
+      return [];
+    }
+    const pieces: Interval[] = [];
+    let pieceStart = this.startDate;
+    let pieceStartClosed = this.lower.closed;
+    let boundary = new DateTz(this.startDate).startOf(unit, options);
+    for (;;) {
+      boundary = Interval.nextBoundary(boundary, unit, options);
+      if (boundary.timestamp >= this.endDate.timestamp) {
+        break;
+      }
+      pieces.push(Interval.fromBounds(pieceStart, pieceStartClosed, boundary, false));
+      pieceStart = boundary;
+      pieceStartClosed = true;
+    }
+    pieces.push(Interval.fromBounds(pieceStart, pieceStartClosed, this.endDate, this.upper.closed));
+    return pieces;
+  }
+
+  /**
+   * Checks whether two intervals have the same endpoints and inclusivity.
+   */
+  equals(other: Interval): boolean {
+    return this.startDate.timestamp === other.startDate.timestamp
+      && this.endDate.timestamp === other.endDate.timestamp
+      && this.inclusivity === other.inclusivity;
+  }
+
+  /**
+   * Returns the interval as an ISO 8601 "start/end" string.
+   * @param options - Passed to DateTz.toISO for both endpoints (optional).
+   */
+  toISO(options?: DateTzISOOptions): string {
+    return `${this.startDate.toISO(options)}/${this.endDate.toISO(options)}`;
+  }
+
+  toString(): string {
+    return `${this.inclusivity[0]}${this.startDate.toISO({ offset: true })}, ${this.endDate.toISO({ offset: true })}${this.inclusivity[1]}`;
+  }
+
+  private get lower(): Bound {
+    return { timestamp: this.startDate.timestamp, closed: this.inclusivity[0] === '[' };
+  }
+
+  private get upper(): Bound {
+    return { timestamp: this.endDate.timestamp, closed: this.inclusivity[1] === ']' };
+  }
+
+  // True when the union of the two intervals has no gap
+  private connects(other: Interval): boolean {
+    return this.overlaps(other) || this.abuts(other);
+  }
+
+  private subtract(other: Interval): Interval[] {
+    if (!this.overlaps(other)) {
+      return [this];
+    }
+    const pieces: Interval[] = [];
+    if (compareLower(this.lower, other.lower) < 0) {
+      const before = Interval.fromBounds(this.startDate, this.lower.closed, other.startDate, !other.lower.closed);
+      if (before) {
+        pieces.push(before);
+      }
+    }
+    if (compareUpper(this.upper, other.upper) > 0) {
+      const after = Interval.fromBounds(other.endDate, !other.upper.closed, this.endDate, this.upper.closed);
+      if (after) {
+        pieces.push(after);
+      }
+    }
+    return pieces;
+  }
+
+  private static fromBounds(start: DateTz, startClosed: boolean, end: DateTz, endClosed: boolean): Interval | null {
+    if (start.timestamp > end.timestamp || (start.timestamp === end.timestamp && !(startClosed && endClosed))) {
+      return null;
+    }
+    const inclusivity = `${startClosed ? '[' : '('}${endClosed ? ']' : ')'}` as DateTzInclusivity;
+    return new Interval(start, end, inclusivity);
+  }
+
+  private static nextBoundary(boundary: DateTz, unit: DateTzGranularity, options: DateTzLocalOptions): DateTz {
+    const next = new DateTz(boundary).plus({ [unit]: 1 }, options).startOf(unit, options);
+    // startOf can resolve to an earlier instant when the boundary time is repeated locally
+    return next.timestamp > boundary.timestamp ? next : new DateTz(boundary).plus({ [unit]: 2 }, options).startOf(unit, options);
+  }
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { DateTz } from './date-tz';
+import { MeetingParticipant } from './idate-tz';
+import { Interval } from './interval';
+import { findCommonSlots } from './meeting-planner';
+import { WeeklySchedule } from './weekly-schedule';
+
+const weekdays = (range: string) => ({ 1: [range], 2: [range], 3: [range], 4: [range], 5: [range] });
+const week = (from: string, to: string) => new Interval(new DateTz(DateTz.fromISO(from, 'UTC')), new DateTz(DateTz.fromISO(to, 'UTC')));
+
+const rome: MeetingParticipant = { name: 'Rome', timezone: 'Europe/Rome', hours: weekdays('09:00-18:00') };
+const newYork: MeetingParticipant = { name: 'New York', timezone: 'America/New_York', hours: weekdays('09:00-17:00') };
+
+describe('findCommonSlots', () => {
+  it('follows the overlap when only one zone has changed DST', () => {
+    const slots = (from: string, to: string) =>
+      findCommonSlots([rome, newYork], week(from, to), { duration: 'PT4H' }).map(slot => slot.start.toString('YYYY-MM-DD HH:mm'));
+    // Three hours of overlap in winter and summer, four while New York is on DST and Rome is not
+    expect(slots('2025-02-10T00:00', '2025-02-15T00:00')).toEqual([]);
+    expect(slots('2025-03-10T00:00', '2025-03-15T00:00')).toEqual([
+      '2025-03-10 13:00', '2025-03-11 13:00', '2025-03-12 13:00', '2025-03-13 13:00', '2025-03-14 13:00'
+    ]);
+    expect(slots('2025-03-31T00:00', '2025-04-05T00:00')).toEqual([]);
+    // Rome is back on standard time a week before New York
+    expect(slots('2025-10-27T00:00', '2025-11-01T00:00')).toHaveLength(5);
+  });
+
+  it('ranks slots by the participant they suit least', () => {
+    const slots = findCommonSlots([rome, newYork], week('2025-02-10T00:00', '2025-02-11T00:00'), { duration: { hours: 1 }, granularity: 'PT30M' });
+    expect(slots.map(slot => [slot.start.toString('HH:mm'), slot.score])).toEqual([
+      ['15:00', 0.333], ['14:30', 0.25], ['15:30', 0.222], ['14:00', 0.125], ['16:00', 0.111]
+    ]);
+    const [best] = slots;
+    expect(best.participants.map(({ name, start, end }) => `${name} ${start.toString('HH:mm')}-${end.toString('HH:mm')}`))
+      .toEqual(['Rome 16:00-17:00', 'New York 10:00-11:00']);
+    expect(best.participants.map(({ score }) => score)).toEqual([0.333, 0.375]);
+    expect(best.start.timezone).toBe('UTC');
+  });
+
+  it('accepts schedules, exceptions and a limit', () => {
+    const tokyo = new WeeklySchedule({ timezone: 'Asia/Tokyo', hours: weekdays('08:00-20:00'), exceptions: { '2025-02-11': [] } });
+    const range = week('2025-02-10T00:00', '2025-02-13T00:00');
+    const slots = findCommonSlots([rome, tokyo], range, { duration: 'PT1H', limit: 2 });
+    expect(slots).toHaveLength(2);
+    expect(slots.every(slot => slot.start.toString('YYYY-MM-DD') !== '2025-02-11')).toBe(true);
+    expect(slots[0].participants[1].name).toBe('Asia/Tokyo');
+    expect(findCommonSlots([rome, newYork, tokyo], range, { duration: 'PT30M' })).toEqual([]);
+
+    expect(() => findCommonSlots([], range, { duration: 'PT1H' })).toThrow('Invalid participants: at least one is required');
+    expect(() => findCommonSlots([rome], range, { duration: 'PT0S' })).toThrow('Invalid meeting duration: PT0S');
+    expect(() => findCommonSlots([rome], range, { duration: 'PT1H', granularity: { minutes: -5 } })).toThrow('Invalid slot granularity: -PT5M');
+  });
+});
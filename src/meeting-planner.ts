@@ -0,0 +1,109 @@
+import { DateTz } from "./date-tz";
+import { Duration } from "./duration";
+import { FindCommonSlotsOptions, MeetingParticipant, MeetingSlot } from "./idate-tz";
+import { Interval } from "./interval";
+import { WeeklySchedule } from "./weekly-schedule";
+
+const DEFAULT_GRANULARITY = 'PT15M';
+
+type Attendee = { name: string; schedule: WeeklySchedule; days: Map<number, [number, number] | null>; };
+
+function positiveMilliseconds(value: FindCommonSlotsOptions['duration'], label: string): number {
+  const ms = Duration.from(value).toMilliseconds();
+  if (!(ms > 0)) {
+    throw new Error(`Invalid ${label}: ${typeof value === 'string' ? value : Duration.from(value).toISO()}`);
+  }
+  return ms;
+}
+
+// The first opening and last closing time of the local day an instant falls on
+function daySpan(attendee: Attendee, timestamp: number): [number, number] | null {
+  const start = new DateTz(timestamp, attendee.schedule.timezone, 'millisecond').startOf('day');
+  if (!attendee.days.has(start.timestamp)) {
+    const openings = attendee.schedule.openingsBetween(start, new DateTz(start).plus({ days: 1 }));
+    attendee.days.set(start.timestamp, openings.length > 0 ? [openings[0].start.timestamp, openings[openings.length - 1].end.timestamp] : null);
+  }
+  return attendee.days.get(start.timestamp);
+}
+
+// 1 in the middle of the working day, falling to 0 at its first opening and last closing time
+function convenience(attendee: Attendee, start: number, end: number): number {
+  const span = daySpan(attendee, start);
+  if (!span) {
+    return 0;
+  }
+  const position = Math.min(Math.max(((start + end) / 2 - span[0]) / (span[1] - span[0]), 0), 1);
+  return Math.round((1 - Math.abs(2 * position - 1)) * 1000) / 1000;
+}
+
+function intersect(a: Interval[], b: Interval[]): Interval[] {
+  const result: Interval[] = [];
+  for (const left of a) {
+    for (const right of b) {
+      const common = left.intersection(right);
+      if (common && !common.isEmpty) {
+        result.push(common);
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Finds the times in a range when every participant is within their working hours, each
+ * participant's hours being read in their own timezone. This keeps the overlap right in the
+ * weeks when one zone has changed to or from DST and another has not yet.
+ * Slots are ranked by how convenient they are for the participant they suit least, where the
+ * middle of a working day is best and its first and last hours are worst; ties keep the
+ * higher total convenience, then the earlier start.
+ * @param participants - Weekly schedules, or the options to build them with a name for the results.
+ * @param range - The range to search; slots are counted from its start and shown in its start's timezone.
+ * @param options - The meeting duration, the step between candidate start times and a limit.
+ * @returns The slots, best first.
+ * @throws Error if there are no participants or the duration or granularity is not positive.
+ */
+export function findCommonSlots(participants: (MeetingParticipant | WeeklySchedule)[], range: Interval, options: FindCommonSlotsOptions): MeetingSlot[] {
+  if (participants.length === 0) {
+    throw new Error('Invalid participants: at least one is required');
+  }
+  const duration = positiveMilliseconds(options.duration, 'meeting duration');
+  const step = positiveMilliseconds(options.granularity || DEFAULT_GRANULARITY, 'slot granularity');
+  const attendees: Attendee[] = participants.map(participant => {
+    const schedule = participant instanceof WeeklySchedule ? participant : new WeeklySchedule(participant);
+    const name = participant instanceof WeeklySchedule ? schedule.timezone : participant.name || schedule.timezone;
+    return { name, schedule, days: new Map() };
+  });
+
+  let common = [new Interval(range.start, range.end)];
+  for (const attendee of attendees) {
+    common = intersect(common, attendee.schedule.openingsBetween(range.start, range.end));
+  }
+
+  const timezone = range.start.timezone;
+  const origin = range.start.timestamp;
+  const slots: (MeetingSlot & { total: number; })[] = [];
+  for (const interval of common) {
+    const first = origin + Math.ceil((interval.start.timestamp - origin) / step) * step;
+    for (let start = first; start + duration <= interval.end.timestamp; start += step) {
+      const end = start + duration;
+      const scores = attendees.map(attendee => ({
+        name: attendee.name,
+        start: new DateTz(start, attendee.schedule.timezone, 'millisecond'),
+        end: new DateTz(end, attendee.schedule.timezone, 'millisecond'),
+        score: convenience(attendee, start, end)
+      }));
+      slots.push({
+        start: new DateTz(start, timezone, 'millisecond'),
+        end: new DateTz(end, timezone, 'millisecond'),
+        score: Math.min(...scores.map(({ score }) => score)),
+        total: scores.reduce((total, { score }) => total + score, 0),
+        participants: scores
+      });
+    }
+  }
+
+  return slots
+    .sort((a, b) => b.score - a.score || b.total - a.total || a.start.timestamp - b.start.timestamp)
+    .slice(0, options.limit === undefined ? slots.length : Math.max(options.limit, 0))
+    .map(({ start, end, score, participants }) => ({ start, end, score, participants }));
+}
@@ -0,0 +1,180 @@
+import { describe, expect, it } from 'vitest';
+import { DateTz } from './date-tz';
+import { RecurrenceRule } from './recurrence-rule';
+
+const format = (dates: DateTz[], pattern = 'YYYY-MM-DD HH:mm') => dates.map(date => date.toString(pattern));
+
+describe('RecurrenceRule', () => {
+  it('expands the last Friday of every month in the local wall-clock time', () => {
+    const rule = RecurrenceRule.parse('DTSTART;TZID=Europe/Rome:20250131T090000\nRRULE:FREQ=MONTHLY;BYDAY=-1FR;COUNT=12');
+    const occurrences = rule.all();
+    expect(format(occurrences, 'YYYY-MM-DD')).toEqual([
+      '2025-01-31', '2025-02-28', '2025-03-28', '2025-04-25', '2025-05-30', '2025-06-27',
+      '2025-07-25', '2025-08-29', '2025-09-26', '2025-10-31', '2025-11-28', '2025-12-26'
+    ]);
+    expect(new Set(occurrences.map(date => date.toString('HH:mm')))).toEqual(new Set(['09:00']));
+    expect(occurrences[2].toISO({ offset: true })).toBe('2025-03-28T09:00:00+01:00');
+    expect(occurrences[3].toISO({ offset: true })).toBe('2025-04-25T09:00:00+02:00');
+    expect(occurrences.every(date => date.timezone === 'Europe/Rome')).toBe(true);
+  });
+
+  it('expands every other Tuesday and Thursday until a UTC instant', () => {
+    const rule = RecurrenceRule.parse(
+      'DTSTART;TZID=America/New_York:20250107T100000\nRRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH;UNTIL=20250206T150000Z'
+    );
+    expect(format(rule.all())).toEqual([
+      '2025-01-07 10:00', '2025-01-09 10:00', '2025-01-21 10:00',
+      '2025-01-23 10:00', '2025-02-04 10:00', '2025-02-06 10:00'
+    ]);
+  });
+
+  it('follows the RFC 5545 examples', () => {
+    // A start date that does not match the rule is not an occurrence
+    const expand = (text: string, limit?: number) => format(RecurrenceRule.parse(text).all(limit), 'YYYY-MM-DD');
+    expect(expand('DTSTART;TZID=America/New_York:19970512T090000\nRRULE:FREQ=YEARLY;BYWEEKNO=20;BYDAY=MO', 3))
+      .toEqual(['1997-05-12', '1998-05-11', '1999-05-17']);
+    expect(expand('DTSTART;TZID=America/New_York:19970929T090000\nRRULE:FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1', 4))
+      .toEqual(['1997-09-30', '1997-10-31', '1997-11-28', '1997-12-31']);
+    expect(expand('DTSTART;TZID=America/New_York:19970928T090000\nRRULE:FREQ=MONTHLY;BYMONTHDAY=-3', 3))
+      .toEqual(['1997-09-28', '1997-10-29', '1997-11-28']);
+    expect(expand('DTSTART;TZID=America/New_York:19970902T090000\nRRULE:FREQ=YEARLY;BYDAY=20MO', 3))
+      .toEqual(['1998-05-18', '1999-05-17', '2000-05-15']);
+    expect(expand('DTSTART;TZID=America/New_York:19980101T090000\nRRULE:FREQ=YEARLY;UNTIL=20000131T140000Z;BYMONTH=1;BYDAY=SU', 20).length)
+      .toBe(14);
+    expect(expand('DTSTART;TZID=America/New_York:19961105T090000\nRRULE:FREQ=YEARLY;INTERVAL=4;BYMONTH=11;BYDAY=TU;BYMONTHDAY=2,3,4,5,6,7,8', 3))
+      .toEqual(['1996-11-05', '2000-11-07', '2004-11-02']);
+
+    const everyTwentyMinutes = RecurrenceRule.parse(
+      'DTSTART;TZID=America/New_York:19970902T090000\nRRULE:FREQ=MINUTELY;INTERVAL=20;BYHOUR=9,10,11,12,13,14,15,16'
+    ).all(26);
+    expect(format(everyTwentyMinutes.slice(22), 'MM-DD HH:mm')).toEqual(['09-02 16:20', '09-02 16:40', '09-03 09:00', '09-03 09:20']);
+  });
+
+  it('skips dates that do not exist in a period', () => {
+    const monthly = new RecurrenceRule({ frequency: 'monthly', count: 4, start: new DateTz(Date.UTC(2025, 0, 31, 8, 0), 'UTC') });
+    expect(format(monthly.all(), 'YYYY-MM-DD')).toEqual(['2025-01-31', '2025-03-31', '2025-05-31', '2025-07-31']);
+    const leapDay = new RecurrenceRule({ frequency: 'yearly', count: 3, start: new DateTz(Date.UTC(2024, 1, 29), 'UTC') });
+    expect(format(leapDay.all(), 'YYYY-MM-DD')).toEqual(['2024-02-29', '2028-02-29', '2032-02-29']);
+    const never = RecurrenceRule.parse('FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=30', { start: new DateTz(Date.UTC(2025, 0, 1), 'UTC') });
+    expect(never.all(3)).toEqual([]);
+  });
+
+  it('keeps the wall-clock time across DST gaps', () => {
+    const rule = new RecurrenceRule({
+      frequency: 'daily',
+      count: 3,
+      start: DateTz.fromISO('2025-03-08T02:30', 'America/New_York')
+    });
+    expect(rule.all().map(date => date.toISO({ offset: true }))).toEqual([
+      '2025-03-08T02:30:00-05:00',
+      '2025-03-09T03:30:00-04:00',
+      '2025-03-10T02:30:00-04:00'
+    ]);
+  });
+
+  it('steps hourly, minutely and secondly rules in elapsed time across DST changes', () => {
+    const offsets = (rule: string, start: string) =>
+      RecurrenceRule.parse(rule, { start: DateTz.fromISO(start, 'Europe/Rome') }).all().map(date => date.toISO({ offset: true }));
+    // The repeated hour of the fall-back day occurs twice
+    expect(offsets('FREQ=HOURLY;COUNT=5', '2025-10-26T00:00')).toEqual([
+      '2025-10-26T00:00:00+02:00',
+      '2025-10-26T01:00:00+02:00',
+      '2025-10-26T02:00:00+02:00',
+      '2025-10-26T02:00:00+01:00',
+      '2025-10-26T03:00:00+01:00'
+    ]);
+    expect(offsets('FREQ=MINUTELY;INTERVAL=30;COUNT=4', '2025-10-26T02:00')).toEqual([
+      '2025-10-26T02:00:00+02:00',
+      '2025-10-26T02:30:00+02:00',
+      '2025-10-26T02:00:00+01:00',
+      '2025-10-26T02:30:00+01:00'
+    ]);
+    // The skipped hour of the spring-forward day is not an occurrence
+    expect(offsets('FREQ=HOURLY;COUNT=3', '2025-03-30T01:00')).toEqual([
+      '2025-03-30T01:00:00+01:00',
+      '2025-03-30T03:00:00+02:00',
+      '2025-03-30T04:00:00+02:00'
+    ]);
+  });
+
+  it('applies EXDATE and RDATE', () => {
+    const rule = RecurrenceRule.parse([
+      'DTSTART;TZID=Europe/Rome:20250106T093000',
+      'RRULE:FREQ=DAILY;COUNT=5',
+      'EXDATE;TZID=Europe/Rome:20250107T093000,20250108T093000',
+      'RDATE;TZID=Europe/Rome:20250104T120000'
+    ].join('\n'));
+    expect(format(rule.all())).toEqual(['2025-01-04 12:00', '2025-01-06 09:30', '2025-01-09 09:30', '2025-01-10 09:30']);
+    expect(rule.exdates).toHaveLength(2);
+  });
+
+  it('serializes back to DTSTART, RRULE, EXDATE and RDATE lines', () => {
+    const text = [
+      'DTSTART;TZID=America/New_York:20250107T100000',
+      'RRULE:FREQ=WEEKLY;INTERVAL=2;UNTIL=20250206T150000Z;BYDAY=TU,TH;WKST=SU',
+      'EXDATE;TZID=America/New_York:20250121T100000',
+      'RDATE;TZID=America/New_York:20250301T100000'
+    ].join('\n');
+    const rule = RecurrenceRule.parse(text);
+    expect(rule.toString()).toBe(text);
+    expect(RecurrenceRule.parse(rule.toString()).all()).toEqual(rule.all());
+
+    const utc = new RecurrenceRule({ frequency: 'monthly', byDay: ['-1FR'], count: 12, start: new DateTz(Date.UTC(2025, 0, 31, 9), 'UTC') });
+    expect(utc.toString()).toBe('DTSTART:20250131T090000Z\nRRULE:FREQ=MONTHLY;COUNT=12;BYDAY=-1FR');
+
+    const allDay = RecurrenceRule.parse('DTSTART;VALUE=DATE:20250101\nRRULE:FREQ=YEARLY;UNTIL=20270101');
+    expect(allDay.allDay).toBe(true);
+    expect(allDay.all()).toHaveLength(3);
+    expect(allDay.toString()).toBe('DTSTART;VALUE=DATE:20250101\nRRULE:FREQ=YEARLY;UNTIL=20270101');
+  });
+
+  it('answers between, after and before queries lazily on endless rules', () => {
+    const rule = RecurrenceRule.parse('DTSTART;TZID=Europe/Rome:20250106T093000\nRRULE:FREQ=WEEKLY;BYDAY=MO,WE');
+    const from = DateTz.fromISO('2025-03-01T00:00', 'Europe/Rome');
+    const to = DateTz.fromISO('2025-03-12T09:30', 'Europe/Rome');
+    expect(format(rule.between(from, to))).toEqual(['2025-03-03 09:30', '2025-03-05 09:30', '2025-03-10 09:30', '2025-03-12 09:30']);
+    expect(rule.between(from, to, '[)')).toHaveLength(3);
+    expect(rule.after(to).toString('YYYY-MM-DD HH:mm')).toBe('2025-03-17 09:30');
+    expect(rule.after(to, true).timestamp).toBe(to.timestamp);
+    expect(rule.before(to).toString('YYYY-MM-DD HH:mm')).toBe('2025-03-10 09:30');
+    expect(rule.before(rule.start)).toBeNull();
+    expect(() => rule.all()).toThrow('The rule repeats forever; pass a limit');
+
+    const iterator = rule[Symbol.iterator]();
+    expect(iterator.next().value.toString('YYYY-MM-DD')).toBe('2025-01-06');
+    expect(iterator.next().value.toString('YYYY-MM-DD')).toBe('2025-01-08');
+  });
+
+  it('gives up at once on sub-daily rules whose interval never reaches the allowed periods', () => {
+    const start = new DateTz(Date.UTC(2025, 0, 1, 9, 0), 'Europe/Rome');
+    const began = Date.now();
+    expect(RecurrenceRule.parse('FREQ=MINUTELY;INTERVAL=2;BYMINUTE=1', { start }).after(start)).toBeNull();
+    expect(RecurrenceRule.parse('FREQ=SECONDLY;INTERVAL=2;BYSECOND=1', { start }).after(start)).toBeNull();
+    // Tokyo keeps one offset, so the hours and weekdays reached never shift
+    const tokyo = new DateTz(Date.UTC(2025, 0, 1, 1, 0), 'Asia/Tokyo');
+    expect(RecurrenceRule.parse('FREQ=HOURLY;INTERVAL=4;BYHOUR=11', { start: tokyo }).after(tokyo)).toBeNull();
+    // Every seventh minute wraps to 00:00 on the same weekday each week, never a Monday
+    expect(RecurrenceRule.parse('FREQ=MINUTELY;INTERVAL=7;BYDAY=MO;BYHOUR=0;BYMINUTE=0', { start: tokyo }).after(tokyo)).toBeNull();
+    expect(Date.now() - began).toBeLessThan(2000);
+
+    // Elapsed hours reach 11:00 in Rome once the clocks go forward
+    expect(RecurrenceRule.parse('FREQ=HOURLY;INTERVAL=4;BYHOUR=11', { start }).after(start).toISO({ offset: true })).toBe('2025-03-30T11:00:00+02:00');
+
+    const reachable = RecurrenceRule.parse('FREQ=MINUTELY;INTERVAL=2;BYMINUTE=2', { start });
+    expect(format(reachable.all(3))).toEqual(['2025-01-01 10:02', '2025-01-01 11:02', '2025-01-01 12:02']);
+    const secondly = RecurrenceRule.parse('FREQ=SECONDLY;INTERVAL=25;BYSECOND=5', { start: new DateTz(start.timestamp, 'Europe/Rome', 'second') });
+    expect(format(secondly.all(2), 'HH:mm:ss')).toEqual(['10:02:05', '10:07:05']);
+  });
+
+  it('rejects invalid rules', () => {
+    const start = new DateTz(Date.UTC(2025, 0, 1), 'UTC');
+    expect(() => RecurrenceRule.parse('FREQ=FORTNIGHTLY', { start })).toThrow('Invalid recurrence rule: FREQ=fortnightly');
+    expect(() => RecurrenceRule.parse('FREQ=DAILY;COUNT=2;UNTIL=20250301', { start })).toThrow('Invalid recurrence rule: COUNT and UNTIL cannot be combined');
+    expect(() => RecurrenceRule.parse('FREQ=MONTHLY;BYMONTHDAY=32', { start })).toThrow('Invalid recurrence rule: BYMONTHDAY=32');
+    expect(() => RecurrenceRule.parse('FREQ=WEEKLY;BYDAY=1MO', { start })).toThrow('Invalid recurrence rule: BYDAY=1MO');
+    expect(() => RecurrenceRule.parse('FREQ=DAILY;BYWEEKNO=3', { start })).toThrow('Invalid recurrence rule: BYWEEKNO requires FREQ=YEARLY');
+    expect(() => RecurrenceRule.parse('FREQ=DAILY;FOO=1', { start })).toThrow('Invalid recurrence rule: unknown part FOO');
+    expect(() => RecurrenceRule.parse('RRULE:FREQ=DAILY')).toThrow('Invalid recurrence rule: a start date is required');
+    expect(() => RecurrenceRule.parse('DTSTART:2025', { start })).toThrow('Invalid recurrence date: 2025');
+  });
+});
@@ -0,0 +1,837 @@
+import { civilFromDays, daysFromCivil, weekdayOf } from "./calendar-days";
+import { DateTz } from "./date-tz";
+import { formatDateProperty, formatDateValue, formatUtcDateValue, parseDateValue } from "./ical-values";
+import { DateTzInclusivity, IDateTz, RecurrenceByDay, RecurrenceFrequency, RecurrenceRuleOptions, RecurrenceRuleParseOptions, RecurrenceWeekday } from "./idate-tz";
+import { getZoneOffset, getZoneRule, getZoneTransitions, resolveLocalTime } from "./zone-rules";
+
+// Indexed like DateTz.dayOfWeek (0 = Sunday)
+const WEEKDAYS: readonly RecurrenceWeekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const FREQUENCIES: readonly RecurrenceFrequency[] = ['yearly', 'monthly', 'weekly', 'daily', 'hourly', 'minutely', 'secondly'];
+
+// Length of one period of the sub-daily frequencies, in seconds
+const PERIOD_SECONDS: Partial<Record<RecurrenceFrequency, number>> = {
+  hourly: 3600,
+  minutely: 60,
+  secondly: 1
+};
+
+const BY_DAY = /^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/;
+
+// A rule that has produced nothing for this many years never will
+const MAX_EMPTY_YEARS = 400;
+
+type Ordinal = { weekday: number; nth: number; };
+
+// Sub-daily candidates also carry their instant, as those frequencies step elapsed time
+type Candidate = { day: number; time: number; timestamp?: number; };
+
+function greatestCommonDivisor(a: number, b: number): number {
+  return b === 0 ? a : greatestCommonDivisor(b, a % b);
+}
+
+// The UTC offsets, in seconds, a zone uses from an instant on
+function offsetsFrom(tz: string, timestamp: number): number[] {
+  const rule = getZoneRule(tz);
+  const offsets = new Set([getZoneOffset(tz, timestamp).offsetSeconds]);
+  for (const transition of getZoneTransitions(tz, timestamp, rule ? rule.since + 1 : Infinity)) {
+    offsets.add(transition.after.offsetSeconds);
+  }
+  if (rule) {
+    offsets.add(rule.std.offsetSeconds);
+    if (rule.dst) {
+      offsets.add(rule.dst.offsetSeconds);
+    }
+  }
+  return [...offsets];
+}
+
+/**
+ * Numbers the week of a day as RFC 5545 does: weeks start on `weekStart`, and week 1
+ * is the first week with at least four days in the year.
+ */
+function weekNumber(day: number, weekStart: number): { weekYear: number; week: number; } {
+  const firstDay = day - (weekdayOf(day) - weekStart + 7) % 7;
+  const { year } = civilFromDays(firstDay + 3);
+  return { weekYear: year, week: Math.floor((firstDay + 3 - daysFromCivil(year, 0, 1)) / 7) + 1 };
+}
+
+function invalid(reason: string): Error {
+  return new Error(`Invalid recurrence rule: ${reason}`);
+}
+
+function validateList(name: string, values: number[] | undefined, min: number, max: number, allowNegative: boolean): number[] | undefined {
+  if (values === undefined) {
+    return undefined;
+  }
+  for (const value of values) {
+    const magnitude = allowNegative ? Math.abs(value) : value;
+    if (!Number.isInteger(value) || magnitude < min || magnitude > max) {
+      throw invalid(`${name}=${value}`);
+    }
+  }
+  return values.length > 0 ? [...values] : undefined;
+}
+
+/**
+ * An RFC 5545 recurrence rule (RRULE) anchored to a start date, with optional
+ * exception (EXDATE) and extra (RDATE) dates. Occurrences are DateTz instances in the
+ * start's timezone. Daily and coarser rules keep the wall-clock time across DST changes,
+ * and a time skipped by a DST gap moves forward by the length of the gap; hourly,
+ * minutely and secondly rules step elapsed time, so a repeated hour occurs twice.
+ * Instances are immutable.
+ */
+export class RecurrenceRule {
+
+  readonly frequency: RecurrenceFrequency;
+  readonly interval: number;
+  readonly count?: number;
+  readonly weekStart: RecurrenceWeekday;
+  readonly allDay: boolean;
+
+  private readonly options: RecurrenceRuleOptions;
+  private readonly startDate: DateTz;
+  private readonly untilDate?: DateTz;
+  private readonly exceptions: DateTz[];
+  private readonly extras: DateTz[];
+
+  // The BYxxx parts after applying the defaults taken from the start date
+  private readonly months?: number[];
+  private readonly weekNos?: number[];
+  private readonly yearDays?: number[];
+  private readonly monthDays?: number[];
+  private readonly weekdays?: number[];
+  private readonly ordinals?: Ordinal[];
+  private readonly hours: number[];
+  private readonly minutes: number[];
+  private readonly seconds: number[];
+  private readonly setPositions?: number[];
+  // For hourly, minutely and secondly rules, the periods of the day (counted from midnight)
+  // that the BYxxx parts allow and the INTERVAL can reach from the start; empty when none can
+  private readonly dayPeriods?: number[];
+
+  /**
+   * Creates a recurrence rule.
+   * @param options - The rule parts; `start` is DTSTART and sets the rule's timezone.
+   * @throws Error if a part is out of range or the parts cannot be combined.
+   */
+  constructor(options: RecurrenceRuleOptions) {
+    if (!options || !options.start) {
+      throw invalid('a start date is required');
+    }
+    const { frequency, interval = 1, count, until, weekStart = 'MO' } = options;
+    if (!FREQUENCIES.includes(frequency)) {
+      throw invalid(`FREQ=${frequency}`);
+    }
+    if (!Number.isInteger(interval) || interval < 1) {
+      throw invalid(`INTERVAL=${interval}`);
+    }
+    if (count !== undefined && (!Number.isInteger(count) || count < 1)) {
+      throw invalid(`COUNT=${count}`);
+    }
+    if (count !== undefined && until !== undefined) {
+      throw invalid('COUNT and UNTIL cannot be combined');
+    }
+    if (!WEEKDAYS.includes(weekStart)) {
+      throw invalid(`WKST=${weekStart}`);
+    }
+    this.frequency = frequency;
+    this.interval = interval;
+    this.count = count;
+    this.weekStart = weekStart;
+    this.allDay = options.allDay === true;
+    this.options = { ...options };
+
+    const start = new DateTz(options.start);
+    const zoned = (date: IDateTz) => new DateTz(date.timestamp, start.timezone, start.precision);
+    this.startDate = start;
+    this.untilDate = until ? zoned(until) : undefined;
+    this.exceptions = (options.exdates || []).map(zoned);
+    this.extras = (options.rdates || []).map(zoned).sort((a, b) => a.timestamp - b.timestamp);
+
+    const isPeriodOf = (...frequencies: RecurrenceFrequency[]) => frequencies.includes(frequency);
+    let months = validateList('BYMONTH', options.byMonth, 1, 12, false);
+    const weekNos = validateList('BYWEEKNO', options.byWeekNo, 1, 53, true);
+    const yearDays = validateList('BYYEARDAY', options.byYearDay, 1, 366, true);
+    let monthDays = validateList('BYMONTHDAY', options.byMonthDay, 1, 31, true);
+    const hours = validateList('BYHOUR', options.byHour, 0, 23, false);
+    const minutes = validateList('BYMINUTE', options.byMinute, 0, 59, false);
+    const seconds = validateList('BYSECOND', options.bySecond, 0, 59, false);
+    this.setPositions = validateList('BYSETPOS', options.bySetPos, 1, 366, true);
+    if (weekNos && !isPeriodOf('yearly')) {
+      throw invalid('BYWEEKNO requires FREQ=YEARLY');
+    }
+    if (yearDays && isPeriodOf('monthly', 'weekly', 'daily')) {
+      throw invalid(`BYYEARDAY cannot be used with FREQ=${frequency.toUpperCase()}`);
+    }
+    if (monthDays && isPeriodOf('weekly')) {
+      throw invalid('BYMONTHDAY cannot be used with FREQ=WEEKLY');
+    }
+
+    let weekdays: number[] | undefined;
+    let ordinals: Ordinal[] | undefined;
+    for (const entry of options.byDay || []) {
+      const match = BY_DAY.exec(String(entry));
+      const nth = match && match[1] ? Number(match[1]) : 0;
+      if (!match || Math.abs(nth) > 53 || (match[1] && nth === 0)) {
+        throw invalid(`BYDAY=${entry}`);
+      }
+      const weekday = WEEKDAYS.indexOf(match[2] as RecurrenceWeekday);
+      if (nth === 0) {
+        (weekdays = weekdays || []).push(weekday);
+      } else if (!isPeriodOf('monthly', 'yearly') || weekNos) {
+        throw invalid(`BYDAY=${entry} needs FREQ=MONTHLY or FREQ=YEARLY without BYWEEKNO`);
+      } else {
+        (ordinals = ordinals || []).push({ weekday, nth });
+      }
+    }
+
+    // Parts left out repeat the corresponding field of the start date
+    if (!weekNos && !yearDays && !monthDays && !weekdays && !ordinals) {
+      if (frequency === 'yearly') {
+        months = months || [start.month + 1];
+        monthDays = [start.day];
+      } else if (frequency === 'monthly') {
+        monthDays = [start.day];
+      } else if (frequency === 'weekly') {
+        weekdays = [start.dayOfWeek];
+      }
+    }
+    this.months = months;
+    this.weekNos = weekNos;
+    this.yearDays = yearDays;
+    this.monthDays = monthDays;
+    this.weekdays = weekdays;
+    this.ordinals = ordinals;
+    this.hours = hours || (isPeriodOf('hourly', 'minutely', 'secondly') ? undefined : [start.hour]);
+    this.minutes = minutes || (isPeriodOf('minutely', 'secondly') ? undefined : [start.minute]);
+    this.seconds = seconds || (isPeriodOf('secondly') ? undefined : [start.second]);
+
+    const periodSeconds = PERIOD_SECONDS[frequency];
+    if (periodSeconds) {
+      // The periods step through the day by INTERVAL and wrap around midnight, so they
+      // only ever land on the periods congruent to the start's modulo this divisor,
+      // shifted by any change of UTC offset
+      const periodsPerDay = 86400 / periodSeconds;
+      let divisor = greatestCommonDivisor(interval, periodsPerDay);
+      const startOffset = getZoneOffset(start.timezone, start.timestamp).offsetSeconds;
+      for (const offsetSeconds of offsetsFrom(start.timezone, start.timestamp)) {
+        const shift = offsetSeconds - startOffset;
+        divisor = shift % periodSeconds === 0 ? greatestCommonDivisor(divisor, Math.abs(shift / periodSeconds)) : 1;
+      }
+      const startPeriod = Math.floor(((start.hour * 60 + start.minute) * 60 + start.second) / periodSeconds);
+      this.dayPeriods = Array.from({ length: periodsPerDay }, (_, period) => period)
+        .filter(period => (period - startPeriod) % divisor === 0 && this.matchesPeriod(period * periodSeconds));
+    }
+  }
+
+  /**
+   * Parses an RRULE, optionally preceded by a DTSTART line and followed by EXDATE and
+   * RDATE lines, e.g. "DTSTART;TZID=Europe/Rome:20250110T090000\nRRULE:FREQ=WEEKLY;BYDAY=TU,TH".
+   * A bare "FREQ=..." string is accepted when options.start is given.
+   * @param text - The rule text.
+   * @param options - The start date when the text has none, the zone of floating dates
+   * and the precision of the occurrences (optional).
+   * @returns A new RecurrenceRule.
+   * @throws Error if the text is not a valid recurrence rule.
+   */
+  static parse(text: string, options: RecurrenceRuleParseOptions = {}): RecurrenceRule {
+    let start: DateTz | undefined = options.start ? new DateTz(options.start) : undefined;
+    let allDay = false;
+    let rule: string | undefined;
+    const lists: { name: string; value: string; tzid?: string; }[] = [];
+
+    for (const line of String(text).split(/\r?\n/).map(entry => entry.trim()).filter(Boolean)) {
+      const separator = line.indexOf(':');
+      if (separator < 0 && /^FREQ=/i.test(line)) {
+        rule = line;
+        continue;
+      }
+      const [name, ...parameterList] = line.slice(0, separator).split(';');
+      const parameters = Object.fromEntries(parameterList.map(parameter => {
+        const [key, value = ''] = parameter.split('=');
+        return [key.toUpperCase(), value];
+      }));
+      const value = line.slice(separator + 1);
+      switch (separator < 0 ? '' : name.toUpperCase()) {
+        case 'DTSTART': {
+          const tz = parameters.TZID || options.timezone || 'UTC';
+          const parsed = parseDateValue(value, tz, options.precision, 'recurrence date');
+          start = parsed.date;
+          allDay = parsed.isDate;
+          break;
+        }
+        case 'RRULE':
+          if (rule !== undefined) {
+            throw invalid('only one RRULE is supported');
+          }
+          rule = value;
+          break;
+        case 'EXDATE':
+        case 'RDATE':
+          lists.push({ name: name.toUpperCase(), value, tzid: parameters.TZID });
+          break;
+        default:
+          throw invalid(`unsupported line ${line}`);
+      }
+    }
+    if (!rule) {
+      throw invalid('missing RRULE');
+    }
+    if (!start) {
+      throw invalid('a start date is required');
+    }
+
+    const zone = start.timezone;
+    const precision = start.precision;
+    const ruleOptions: RecurrenceRuleOptions = { frequency: undefined, start, allDay };
+    const numbers = (value: string) => value.split(',').map(Number);
+    for (const part of rule.split(';').filter(Boolean)) {
+      const [key, value = ''] = part.split('=');
+      switch (key.toUpperCase()) {
+        case 'FREQ':
+          ruleOptions.frequency = value.toLowerCase() as RecurrenceFrequency;
+          break;
+        case 'INTERVAL':
+          ruleOptions.interval = Number(value);
+          break;
+        case 'COUNT':
+          ruleOptions.count = Number(value);
+          break;
+        case 'UNTIL': {
+          const parsed = parseDateValue(value, zone, precision, 'recurrence date');
+          // A date-only UNTIL includes the occurrences of that whole day
+          ruleOptions.until = parsed.isDate ? parsed.date.endOf('day') : parsed.date;
+          break;
+        }
+        case 'BYMONTH':
+          ruleOptions.byMonth = numbers(value);
+          break;
+        case 'BYWEEKNO':
+          ruleOptions.byWeekNo = numbers(value);
+          break;
+        case 'BYYEARDAY':
+          ruleOptions.byYearDay = numbers(value);
+          break;
+        case 'BYMONTHDAY':
+          ruleOptions.byMonthDay = numbers(value);
+          break;
+        case 'BYDAY':
+          ruleOptions.byDay = value.toUpperCase().split(',') as RecurrenceByDay[];
+          break;
+        case 'BYHOUR':
+          ruleOptions.byHour = numbers(value);
+          break;
+        case 'BYMINUTE':
+          ruleOptions.byMinute = numbers(value);
+          break;
+        case 'BYSECOND':
+          ruleOptions.bySecond = numbers(value);
+          break;
+        case 'BYSETPOS':
+          ruleOptions.bySetPos = numbers(value);
+          break;
+        case 'WKST':
+          ruleOptions.weekStart = value.toUpperCase() as RecurrenceWeekday;
+          break;
+        default:
+          throw invalid(`unknown part ${key}`);
+      }
+    }
+    for (const { name, value, tzid } of lists) {
+      const dates = value.split(',').map(entry => parseDateValue(entry, tzid || zone, precision, 'recurrence date').date);
+      const key = name === 'EXDATE' ? 'exdates' : 'rdates';
+      ruleOptions[key] = [...(ruleOptions[key] || []), ...dates];
+    }
+    return new RecurrenceRule(ruleOptions);
+  }
+
+  /**
+   * Gets a copy of the start date (DTSTART), the first occurrence when it matches the rule.
+   */
+  get start(): DateTz {
+    return new DateTz(this.startDate);
+  }
+
+  /**
+   * Gets a copy of the last instant occurrences may fall on (UTC UNTIL), if any.
+   */
+  get until(): DateTz | undefined {
+    return this.untilDate ? new DateTz(this.untilDate) : undefined;
+  }
+
+  /**
+   * Gets the timezone the rule repeats in.
+   */
+  get timezone(): string {
+    return this.startDate.timezone;
+  }
+
+  /**
+   * Gets copies of the excluded dates (EXDATE).
+   */
+  get exdates(): DateTz[] {
+    return this.exceptions.map(date => new DateTz(date));
+  }
+
+  /**
+   * Gets copies of the extra dates (RDATE).
+   */
+  get rdates(): DateTz[] {
+    return this.extras.map(date => new DateTz(date));
+  }
+
+  /**
+   * Returns the parts of the rule as options for the constructor, e.g. to derive a modified rule.
+   */
+  toOptions(): RecurrenceRuleOptions {
+    return { ...this.options, start: this.start, until: this.until, exdates: this.exdates, rdates: this.rdates };
+  }
+
+  /**
+   * Returns the RRULE value, e.g. "FREQ=MONTHLY;COUNT=12;BYDAY=-1FR".
+   * UNTIL is written in UTC, or as a date for all-day rules.
+   */
+  toRRule(): string {
+    const { options } = this;
+    const parts = [`FREQ=${this.frequency.toUpperCase()}`];
+    if (this.interval !== 1) {
+      parts.push(`INTERVAL=${this.interval}`);
+    }
+    if (this.count !== undefined) {
+      parts.push(`COUNT=${this.count}`);
+    }
+    if (this.untilDate) {
+      parts.push(`UNTIL=${this.allDay
+        ? formatDateValue(this.untilDate, true)
+        : formatUtcDateValue(this.untilDate)}`);
+    }
+    const lists: [string, (number | string)[] | undefined][] = [
+      ['BYMONTH', options.byMonth],
+      ['BYWEEKNO', options.byWeekNo],
+      ['BYYEARDAY', options.byYearDay],
+      ['BYMONTHDAY', options.byMonthDay],
+      ['BYDAY', options.byDay],
+      ['BYHOUR', options.byHour],
+      ['BYMINUTE', options.byMinute],
+      ['BYSECOND', options.bySecond],
+      ['BYSETPOS', options.bySetPos]
+    ];
+    for (const [name, values] of lists) {
+      if (values && values.length > 0) {
+        parts.push(`${name}=${values.join(',')}`);
+      }
+    }
+    if (this.weekStart !== 'MO') {
+      parts.push(`WKST=${this.weekStart}`);
+    }
+    return parts.join(';');
+  }
+
+  /**
+   * Returns the rule as DTSTART, RRULE, EXDATE and RDATE lines, the format parse reads.
+   */
+  toString(): string {
+    const lines = [`DTSTART${formatDateProperty([this.startDate], this.allDay)}`, `RRULE:${this.toRRule()}`];
+    if (this.exceptions.length > 0) {
+      lines.push(`EXDATE${formatDateProperty(this.exceptions, this.allDay)}`);
+    }
+    if (this.extras.length > 0) {
+      lines.push(`RDATE${formatDateProperty(this.extras, this.allDay)}`);
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * Lazily yields the occurrences in chronological order: the dates the rule produces
+   * from the start date on and the RDATEs, minus the EXDATEs.
+   */
+  *occurrences(): Generator<DateTz> {
+    const excluded = new Set(this.exceptions.map(date => date.timestamp));
+    const extras = this.extras;
+    let next = 0;
+    let last = -Infinity;
+    const accept = (date: DateTz) => {
+      if (date.timestamp <= last || excluded.has(date.timestamp)) {
+        return false;
+      }
+      last = date.timestamp;
+      return true;
+    };
+    for (const occurrence of this.expand()) {
+      while (next < extras.length && extras[next].timestamp <= occurrence.timestamp) {
+        const extra = new DateTz(extras[next++]);
+        if (accept(extra)) {
+          yield extra;
+        }
+      }
+      if (accept(occurrence)) {
+        yield occurrence;
+      }
+    }
+    while (next < extras.length) {
+      const extra = new DateTz(extras[next++]);
+      if (accept(extra)) {
+        yield extra;
+      }
+    }
+  }
+
+  [Symbol.iterator](): Iterator<DateTz> {
+    return this.occurrences();
+  }
+
+  /**
+   * Lists every occurrence.
+   * @param limit - The maximum number of occurrences; required for rules without COUNT or UNTIL.
+   * @throws Error if the rule repeats forever and no limit is given.
+   */
+  all(limit?: number): DateTz[] {
+    if (limit === undefined && this.count === undefined && !this.untilDate) {
+      throw new Error('The rule repeats forever; pass a limit');
+    }
+    const result: DateTz[] = [];
+    for (const occurrence of this.occurrences()) {
+      if (limit !== undefined && result.length >= limit) {
+        break;
+      }
+      result.push(occurrence);
+    }
+    return result;
+  }
+
+  /**
+   * Lists the occurrences within a range.
+   * @param start - Start of the range.
+   * @param end - End of the range.
+   * @param inclusivity - Inclusivity string ((), (], [), []), defaults to '[]'.
+   */
+  between(start: IDateTz, end: IDateTz, inclusivity: DateTzInclusivity = '[]'): DateTz[] {
+    const includeStart = inclusivity[0] === '[';
+    const includeEnd = inclusivity[1] === ']';
+    const result: DateTz[] = [];
+    for (const occurrence of this.occurrences()) {
+      const { timestamp } = occurrence;
+      if (includeEnd ? timestamp > end.timestamp : timestamp >= end.timestamp) {
+        break;
+      }
+      if (includeStart ? timestamp >= start.timestamp : timestamp > start.timestamp) {
+        result.push(occurrence);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Finds the first occurrence after a date, or null when there is none.
+   * @param date - The reference date.
+   * @param inclusive - Whether an occurrence at the date itself counts (defaults to false).
+   */
+  after(date: IDateTz, inclusive = false): DateTz | null {
+    for (const occurrence of this.occurrences()) {
+      if (inclusive ? occurrence.timestamp >= date.timestamp : occurrence.timestamp > date.timestamp) {
+        return occurrence;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Finds the last occurrence before a date, or null when there is none.
+   * @param date - The reference date.
+   * @param inclusive - Whether an occurrence at the date itself counts (defaults to false).
+   */
+  before(date: IDateTz, inclusive = false): DateTz | null {
+    let previous: DateTz | null = null;
+    for (const occurrence of this.occurrences()) {
+      if (inclusive ? occurrence.timestamp > date.timestamp : occurrence.timestamp >= date.timestamp) {
+        break;
+      }
+      previous = occurrence;
+    }
+    return previous;
+  }
+
+  /**
+   * Yields the dates the RRULE produces from the start date on, period by period,
+   * honouring COUNT and UNTIL. As in the RFC 5545 examples, a start date that does not
+   * match the rule is not an occurrence.
+   */
+  private *expand(): Generator<DateTz> {
+    const start = this.startDate;
+    let produced = 0;
+    let last = -Infinity;
+
+    const startDay = daysFromCivil(start.year, start.month, start.day);
+    const startTime = ((start.hour * 60 + start.minute) * 60 + start.second) * 1000 + start.millisecond;
+    const periodSeconds = PERIOD_SECONDS[this.frequency];
+    // The period cursor: a year and month for yearly and monthly rules, a day for weekly
+    // and daily rules, and the instant the period starts for the sub-daily ones
+    let year = start.year;
+    let month = start.month;
+    let day = this.frequency === 'weekly'
+      ? startDay - (start.dayOfWeek - WEEKDAYS.indexOf(this.weekStart) + 7) % 7
+      : startDay;
+    let periodStart = periodSeconds ? start.timestamp - startTime % (periodSeconds * 1000) : 0;
+    const step = periodSeconds * this.interval * 1000;
+    let lastHitYear = start.year;
+    if (this.dayPeriods && this.dayPeriods.length === 0) {
+      return;
+    }
+
+    for (;;) {
+      let periodYear: number;
+      let candidates: Candidate[];
+      if (periodSeconds) {
+        const offset = getZoneOffset(start.timezone, periodStart).offsetSeconds * 1000;
+        const periodDay = Math.floor((periodStart + offset) / 86400000);
+        const localTime = periodStart + offset - periodDay * 86400000;
+        const period = Math.floor(localTime / 1000 / periodSeconds);
+        periodYear = civilFromDays(periodDay).year;
+        // The next period of the day the parts allow, skipping the ones in between
+        const next = this.matchesDay(periodDay, this.dayFilterContext(periodDay))
+          ? this.dayPeriods.find(candidate => candidate >= period && (candidate - period) % this.interval === 0)
+          : undefined;
+        if (next === undefined) {
+          // Jump to the first period from the next local midnight on
+          const nextDay = (periodDay + 1) * 86400000;
+          const midnight = getZoneOffset(start.timezone, nextDay - offset).offsetSeconds * 1000 === offset
+            ? nextDay - offset
+            : resolveLocalTime(start.timezone, nextDay);
+          periodStart += Math.ceil((midnight - periodStart) / step) * step;
+          if (periodYear - lastHitYear > MAX_EMPTY_YEARS) {
+            return;
+          }
+          continue;
+        }
+        if (next > period) {
+          // Read the landing period again, as the UTC offset may change on the way
+          periodStart += (next - period) * periodSeconds * 1000;
+          continue;
+        }
+        candidates = this.subDailyTimes(period * periodSeconds)
+          .map(time => ({ day: periodDay, time, timestamp: periodStart + time - localTime }));
+      } else {
+        const days = this.periodDays(year, month, day);
+        periodYear = civilFromDays(days[0]).year;
+        const context = this.dayFilterContext(days[0]);
+        candidates = [];
+        for (const candidateDay of days) {
+          if (this.matchesDay(candidateDay, context)) {
+            for (const time of this.dailyTimes(start.millisecond)) {
+              candidates.push({ day: candidateDay, time });
+            }
+          }
+        }
+      }
+      if (this.setPositions) {
+        candidates = this.selectPositions(candidates);
+      }
+
+      for (const candidate of candidates) {
+        const beforeStart = candidate.timestamp !== undefined
+          ? candidate.timestamp < start.timestamp
+          : candidate.day < startDay || (candidate.day === startDay && candidate.time < startTime);
+        if (beforeStart) {
+          continue;
+        }
+        const occurrence = this.resolve(candidate);
+        if (this.untilDate && occurrence.timestamp > this.untilDate.timestamp) {
+          return;
+        }
+        if (occurrence.timestamp <= last) {
+          continue;
+        }
+        yield occurrence;
+        last = occurrence.timestamp;
+        lastHitYear = periodYear;
+        produced++;
+        if (this.count !== undefined && produced >= this.count) {
+          return;
+        }
+      }
+
+      switch (this.frequency) {
+        case 'yearly':
+          year += this.interval;
+          break;
+        case 'monthly':
+          month += this.interval;
+          year += Math.floor(month / 12);
+          month %= 12;
+          break;
+        case 'weekly':
+          day += 7 * this.interval;
+          break;
+        case 'daily':
+          day += this.interval;
+          break;
+        default:
+          periodStart += step;
+      }
+      if (periodYear - lastHitYear > MAX_EMPTY_YEARS || periodYear > 275000) {
+        return;
+      }
+    }
+  }
+
+  // The days of the current period, before filtering
+  private periodDays(year: number, month: number, day: number): number[] {
+    let first: number;
+    let length: number;
+    switch (this.frequency) {
+      case 'yearly':
+        first = daysFromCivil(year, 0, 1);
+        length = daysFromCivil(year + 1, 0, 1) - first;
+        break;
+      case 'monthly':
+        first = daysFromCivil(year, month, 1);
+        length = daysFromCivil(year, month + 1, 1) - first;
+        break;
+      case 'weekly':
+        first = day;
+        length = 7;
+        break;
+      default:
+        first = day;
+        length = 1;
+    }
+    return Array.from({ length }, (_, index) => first + index);
+  }
+
+  // Precomputes the days picked by ordinal weekdays such as -1FR in the period's year or months
+  private dayFilterContext(periodDay: number): Set<number> | undefined {
+    if (!this.ordinals) {
+      return undefined;
+    }
+    const { year, month } = civilFromDays(periodDay);
+    const ranges: [number, number][] = [];
+    if (this.frequency === 'monthly') {
+      ranges.push([daysFromCivil(year, month, 1), daysFromCivil(year, month + 1, 0)]);
+    } else if (this.months) {
+      for (const byMonth of this.months) {
+        ranges.push([daysFromCivil(year, byMonth - 1, 1), daysFromCivil(year, byMonth, 0)]);
+      }
+    } else {
+      ranges.push([daysFromCivil(year, 0, 1), daysFromCivil(year, 11, 31)]);
+    }
+    const picked = new Set<number>();
+    for (const [first, last] of ranges) {
+      for (const { weekday, nth } of this.ordinals) {
+        const day = nth > 0
+          ? first + (weekday - weekdayOf(first) + 7) % 7 + (nth - 1) * 7
+          : last - (weekdayOf(last) - weekday + 7) % 7 + (nth + 1) * 7;
+        if (day >= first && day <= last) {
+          picked.add(day);
+        }
+      }
+    }
+    return picked;
+  }
+
+  private matchesDay(day: number, ordinalDays: Set<number> | undefined): boolean {
+    const date = civilFromDays(day);
+    if (this.months && !this.months.includes(date.month + 1)) {
+      return false;
+    }
+    if (this.weekNos) {
+      const weekStart = WEEKDAYS.indexOf(this.weekStart);
+      const { weekYear, week } = weekNumber(day, weekStart);
+      const weeksInYear = weekNumber(daysFromCivil(weekYear, 11, 28), weekStart).week;
+      if (!this.weekNos.includes(week) && !this.weekNos.includes(week - weeksInYear - 1)) {
+        return false;
+      }
+    }
+    if (this.weekdays || ordinalDays) {
+      const plain = this.weekdays && this.weekdays.includes(weekdayOf(day));
+      if (!plain && !(ordinalDays && ordinalDays.has(day))) {
+        return false;
+      }
+    }
+    if (this.monthDays) {
+      const length = daysFromCivil(date.year, date.month + 1, 1) - daysFromCivil(date.year, date.month, 1);
+      if (!this.monthDays.includes(date.day) && !this.monthDays.includes(date.day - length - 1)) {
+        return false;
+      }
+    }
+    if (this.yearDays) {
+      const firstOfYear = daysFromCivil(date.year, 0, 1);
+      const dayOfYear = day - firstOfYear + 1;
+      const length = daysFromCivil(date.year + 1, 0, 1) - firstOfYear;
+      if (!this.yearDays.includes(dayOfYear) && !this.yearDays.includes(dayOfYear - length - 1)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  // Milliseconds since local midnight for rules repeating daily or less often
+  private dailyTimes(millisecond: number): number[] {
+    const times: number[] = [];
+    for (const hour of this.hours) {
+      for (const minute of this.minutes) {
+        for (const second of this.seconds) {
+          times.push(((hour * 60 + minute) * 60 + second) * 1000 + millisecond);
+        }
+      }
+    }
+    return times.sort((a, b) => a - b);
+  }
+
+  // Whether the BYHOUR, BYMINUTE and BYSECOND parts allow the hourly, minutely or secondly period
+  private matchesPeriod(secondOfDay: number): boolean {
+    const hour = Math.floor(secondOfDay / 3600);
+    const minute = Math.floor(secondOfDay / 60) % 60;
+    const second = secondOfDay % 60;
+    if ((this.hours && !this.hours.includes(hour)) || (this.frequency !== 'hourly' && this.minutes && !this.minutes.includes(minute))) {
+      return false;
+    }
+    return this.frequency !== 'secondly' || !this.seconds || this.seconds.includes(second);
+  }
+
+  // Milliseconds since local midnight for the current hourly, minutely or secondly period
+  private subDailyTimes(secondOfDay: number): number[] {
+    const hour = Math.floor(secondOfDay / 3600);
+    const minute = Math.floor(secondOfDay / 60) % 60;
+    const second = secondOfDay % 60;
+    if (!this.matchesPeriod(secondOfDay)) {
+      return [];
+    }
+    const minutes = this.frequency === 'hourly' ? this.minutes : [minute];
+    const seconds = this.frequency === 'secondly' ? [second] : this.seconds;
+    const times: number[] = [];
+    for (const candidateMinute of minutes) {
+      for (const candidateSecond of seconds) {
+        times.push(((hour * 60 + candidateMinute) * 60 + candidateSecond) * 1000 + this.startDate.millisecond);
+      }
+    }
+    return times.sort((a, b) => a - b);
+  }
+
+  private selectPositions(candidates: Candidate[]): Candidate[] {
+    const selected = new Set<Candidate>();
+    for (const position of this.setPositions) {
+      const candidate = candidates[position > 0 ? position - 1 : candidates.length + position];
+      if (candidate) {
+        selected.add(candidate);
+      }
+    }
+    return candidates.filter(candidate => selected.has(candidate));
+  }
+
+  private resolve({ day, time, timestamp }: Candidate): DateTz {
+    if (timestamp !== undefined) {
+      return new DateTz(timestamp, this.startDate.timezone, this.startDate.precision);
+    }
+    const date = civilFromDays(day);
+    return new DateTz(this.startDate).set({
+      year: date.year,
+      month: date.month + 1,
+      day: date.day,
+      hour: Math.floor(time / 3600000),
+      minute: Math.floor(time / 60000) % 60,
+      second: Math.floor(time / 1000) % 60,
+      millisecond: time % 1000
+    });
+  }
+}
@@ -0,0 +1,176 @@
+import { describe, expect, it, vi } from 'vitest';
+import { CronExpression } from './cron-expression';
+import { DateTz } from './date-tz';
+import { SchedulerClock } from './idate-tz';
+import { RecurrenceRule } from './recurrence-rule';
+import { Scheduler } from './scheduler';
+
+const DAY = 86400000;
+
+class FakeClock implements SchedulerClock {
+  delays: number[] = [];
+  private timers = new Map<number, { at: number; callback: () => void; }>();
+  private lastId = 0;
+
+  constructor(private time: number) { }
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, delay: number): number {
+    this.delays.push(delay);
+    this.timers.set(++this.lastId, { at: this.time + delay, callback });
+    return this.lastId;
+  }
+
+  clearTimeout(handle: number): void {
+    this.timers.delete(handle);
+  }
+
+  get pending(): number {
+    return this.timers.size;
+  }
+
+  // Moves time forward, firing the timers that come due in order
+  advance(ms: number): void {
+    const end = this.time + ms;
+    for (;;) {
+      const due = Array.from(this.timers.entries())
+        .filter(([, timer]) => timer.at <= end)
+        .sort((a, b) => a[1].at - b[1].at || a[0] - b[0])[0];
+      if (!due) {
+        break;
+      }
+      this.timers.delete(due[0]);
+      this.time = Math.max(this.time, due[1].at);
+      due[1].callback();
+    }
+    this.time = end;
+  }
+
+  // Moves time forward without firing anything, as when the machine sleeps
+  sleep(ms: number): void {
+    this.time += ms;
+  }
+}
+
+describe('Scheduler', () => {
+  const start = Date.UTC(2025, 0, 1, 12);
+
+  it('fires at a date and chunks delays longer than a timer can hold', () => {
+    const clock = new FakeClock(start);
+    const scheduler = new Scheduler({ clock });
+    const fired: string[] = [];
+    const at = new DateTz(start + 40 * DAY, 'UTC');
+    const job = scheduler.schedule(at, run => { fired.push(run.toString('YYYY-MM-DD HH:mm')); });
+    expect(job.next.timestamp).toBe(at.timestamp);
+
+    clock.advance(39 * DAY);
+    expect(fired).toEqual([]);
+    clock.advance(DAY);
+    expect(fired).toEqual(['2025-02-10 12:00']);
+    expect(clock.delays.every(delay => delay <= 2147483647)).toBe(true);
+    expect(clock.delays.length).toBeGreaterThan(1);
+    expect(job.state).toBe('done');
+    expect(scheduler.jobs).toEqual([]);
+    expect(clock.pending).toBe(0);
+
+    const past = scheduler.schedule(new DateTz(start, 'UTC'), () => { fired.push('past'); });
+    expect(past.state).toBe('done');
+    expect(fired).toHaveLength(1);
+  });
+
+  it('runs cron expressions and recurrence rules across DST changes', () => {
+    const clock = new FakeClock(Date.UTC(2025, 2, 28, 12));
+    const scheduler = new Scheduler({ clock });
+    const fired: string[] = [];
+    scheduler.schedule('30 2 * * *', run => { fired.push(run.toISO({ offset: true })); }, { tz: 'Europe/Rome' });
+    clock.advance(3 * DAY);
+    expect(fired).toEqual([
+      '2025-03-29T02:30:00+01:00',
+      '2025-03-30T03:00:00+02:00',
+      '2025-03-31T02:30:00+02:00'
+    ]);
+
+    const weekly = RecurrenceRule.parse('DTSTART;TZID=America/New_York:20250303T090000\nRRULE:FREQ=WEEKLY;COUNT=7');
+    const runs: string[] = [];
+    const job = scheduler.schedule(weekly, run => { runs.push(run.toISO({ offset: true })); });
+    expect(job.upcoming().map(run => run.toString('YYYY-MM-DD'))).toEqual(['2025-03-31', '2025-04-07', '2025-04-14']);
+    clock.advance(30 * DAY);
+    expect(runs).toEqual(['2025-03-31T09:00:00-04:00', '2025-04-07T09:00:00-04:00', '2025-04-14T09:00:00-04:00']);
+    expect(job.state).toBe('done');
+  });
+
+  it('fires missed runs once after the clock jumps', () => {
+    const clock = new FakeClock(start + 1800000);
+    const scheduler = new Scheduler({ clock });
+    const fired: number[] = [];
+    const job = scheduler.schedule(CronExpression.parse('0 * * * *'), run => { fired.push(run.timestamp); });
+    clock.sleep(5 * 3600000);
+    clock.advance(0);
+    expect(fired).toEqual([start + 3600000]);
+    expect(job.runCount).toBe(1);
+    expect(job.next.toString('HH:mm')).toBe('18:00');
+    clock.advance(3600000);
+    expect(fired).toHaveLength(2);
+  });
+
+  it('cancels jobs and lists upcoming runs', () => {
+    const clock = new FakeClock(start + 1800000);
+    const scheduler = new Scheduler({ clock });
+    const hourly = scheduler.schedule('0 * * * *', () => undefined);
+    const daily = scheduler.schedule('0 0 * * *', () => undefined);
+    expect(scheduler.upcoming(3).map(({ job, at }) => [job.id, at.toString('HH:mm')])).toEqual([
+      [hourly.id, '13:00'], [hourly.id, '14:00'], [hourly.id, '15:00']
+    ]);
+    // Runs at the same instant are listed in the order the jobs were scheduled
+    expect(scheduler.upcoming(13).slice(-2).map(({ job, at }) => [job.id, at.toString('HH:mm')])).toEqual([[hourly.id, '00:00'], [daily.id, '00:00']]);
+
+    expect(scheduler.cancel(hourly)).toBe(true);
+    expect(scheduler.cancel(hourly.id)).toBe(false);
+    expect(hourly.state).toBe('cancelled');
+    expect(hourly.next).toBeNull();
+    expect(scheduler.jobs).toEqual([daily]);
+    scheduler.stop();
+    expect(clock.pending).toBe(0);
+  });
+
+  it('reports callback errors and keeps the schedule', () => {
+    const clock = new FakeClock(start + 1800000);
+    const errors: unknown[] = [];
+    const scheduler = new Scheduler({ clock, onError: error => errors.push(error) });
+    const job = scheduler.schedule('0 * * * *', () => { throw new Error('boom'); });
+    clock.advance(2 * 3600000);
+    expect(errors).toHaveLength(2);
+    expect(job.state).toBe('scheduled');
+    expect(() => new Scheduler({ maxTimerDelay: 0 })).toThrow('Invalid timer delay: 0');
+    expect(() => scheduler.schedule({} as DateTz, () => undefined)).toThrow('Invalid schedule target');
+  });
+
+  it('reports rejected promises, and logs errors when there is no handler', async () => {
+    const clock = new FakeClock(start + 1800000);
+    const errors: unknown[] = [];
+    const handled = new Scheduler({ clock, onError: error => errors.push(error) });
+    handled.schedule('0 * * * *', async () => { throw new Error('async boom'); });
+    clock.advance(3600000);
+    await Promise.resolve();
+    expect(errors.map(error => (error as Error).message)).toEqual(['async boom']);
+    handled.stop();
+
+    const log = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    try {
+      const scheduler = new Scheduler({ clock });
+      const failing = scheduler.schedule('0 * * * *', () => { throw new Error('sync boom'); });
+      scheduler.schedule('0 * * * *', () => Promise.reject(new Error('async boom')));
+      expect(() => clock.advance(3600000)).not.toThrow();
+      await Promise.resolve();
+      expect(log.mock.calls.map(([message, error]) => `${message} ${(error as Error).message}`))
+        .toEqual([`Scheduled job ${failing.id} failed: sync boom`, `Scheduled job ${failing.id + 1} failed: async boom`]);
+      expect(failing.state).toBe('scheduled');
+      scheduler.stop();
+    } finally {
+      log.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,266 @@
+import { CronExpression } from "./cron-expression";
+import { DateTz } from "./date-tz";
+import { IDateTz, ScheduledJobState, ScheduleOptions, SchedulerCallback, SchedulerClock, SchedulerOptions, SchedulerRun, SchedulerTarget } from "./idate-tz";
+import { RecurrenceRule } from "./recurrence-rule";
+import { getNextZoneTransition } from "./zone-rules";
+
+// setTimeout stores its delay as a signed 32-bit integer; longer delays fire at once
+const MAX_TIMER_DELAY = 2147483647;
+
+const systemClock: SchedulerClock = {
+  now: () => Date.now(),
+  setTimeout: (callback, delay) => setTimeout(callback, delay),
+  clearTimeout: handle => clearTimeout(handle as ReturnType<typeof setTimeout>)
+};
+
+// Without an onError option, callback errors are logged rather than thrown from a timer
+const reportError: NonNullable<SchedulerOptions['onError']> = (error, job) => console.error(`Scheduled job ${job.id} failed:`, error);
+
+type JobContext = {
+  clock: SchedulerClock;
+  maxTimerDelay: number;
+  onError: NonNullable<SchedulerOptions['onError']>;
+  onFinish: (job: ScheduledJob) => void;
+};
+
+/**
+ * A callback scheduled on a Scheduler. Jobs are created by `Scheduler.schedule` and run
+ * until their target has no more runs or they are cancelled.
+ */
+export class ScheduledJob {
+
+  readonly id: number;
+  readonly timezone: string;
+
+  private readonly nextAfter: (timestamp: number) => DateTz | null;
+  private readonly callback: SchedulerCallback;
+  private readonly context: JobContext;
+  private jobState: ScheduledJobState = 'scheduled';
+  private nextRun: DateTz | null;
+  // Runs are searched strictly after this instant
+  private anchor: number;
+  private timer: unknown = null;
+  private fired = 0;
+
+  constructor(id: number, timezone: string, nextAfter: (timestamp: number) => DateTz | null, callback: SchedulerCallback, context: JobContext) {
+    this.id = id;
+    this.timezone = timezone;
+    this.nextAfter = nextAfter;
+    this.callback = callback;
+    this.context = context;
+    this.anchor = context.clock.now() - 1;
+    this.nextRun = nextAfter(this.anchor);
+    this.arm();
+  }
+
+  /**
+   * Whether the job is still scheduled, done (no more runs) or cancelled.
+   */
+  get state(): ScheduledJobState {
+    return this.jobState;
+  }
+
+  /**
+   * The next run, or null when the job is done or cancelled.
+   */
+  get next(): DateTz | null {
+    return this.jobState === 'scheduled' && this.nextRun ? new DateTz(this.nextRun) : null;
+  }
+
+  /**
+   * The number of times the callback has been called.
+   */
+  get runCount(): number {
+    return this.fired;
+  }
+
+  /**
+   * Lists the next runs of the job.
+   * @param limit - The maximum number of runs (defaults to 10).
+   */
+  upcoming(limit = 10): DateTz[] {
+    const result: DateTz[] = [];
+    let run = this.next;
+    while (run && result.length < limit) {
+      result.push(run);
+      run = this.nextAfter(run.timestamp);
+    }
+    return result;
+  }
+
+  /**
+   * Stops the job. Returns false if it had already finished or been cancelled.
+   */
+  cancel(): boolean {
+    if (this.jobState !== 'scheduled') {
+      return false;
+    }
+    this.stop('cancelled');
+    return true;
+  }
+
+  /**
+   * Sets a timer towards the next run. Timers never exceed the maximum delay and also end
+   * at the zone's next offset change, so long waits are chunked and the run is recomputed
+   * against the offset in effect once the change has happened.
+   */
+  private arm(): void {
+    if (!this.nextRun) {
+      this.stop('done');
+      return;
+    }
+    const { clock, maxTimerDelay } = this.context;
+    const now = clock.now();
+    const transition = getNextZoneTransition(this.timezone, now);
+    const untilTransition = transition ? transition.timestamp - now : Infinity;
+    const delay = Math.max(Math.min(this.nextRun.timestamp - now, untilTransition, maxTimerDelay), 0);
+    this.timer = clock.setTimeout(() => this.wake(), delay);
+  }
+
+  // Timers may wake early (a chunk ended) or late (the system slept): re-check the clock
+  private wake(): void {
+    this.timer = null;
+    if (this.jobState !== 'scheduled') {
+      return;
+    }
+    this.nextRun = this.nextAfter(this.anchor);
+    if (this.nextRun && this.nextRun.timestamp <= this.context.clock.now()) {
+      this.fire();
+    } else {
+      this.arm();
+    }
+  }
+
+  private fire(): void {
+    const run = this.nextRun;
+    // Runs missed while the process was not running collapse into this one
+    this.anchor = Math.max(run.timestamp, this.context.clock.now());
+    this.nextRun = this.nextAfter(this.anchor);
+    this.fired++;
+    this.arm();
+
+    const { onError } = this.context;
+    try {
+      const result = this.callback(new DateTz(run), this);
+      if (result && typeof result.then === 'function') {
+        result.then(undefined, error => onError(error, this));
+      }
+    } catch (error) {
+      onError(error, this);
+    }
+  }
+
+  private stop(state: ScheduledJobState): void {
+    if (this.timer !== null) {
+      this.context.clock.clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.jobState = state;
+    this.context.onFinish(this);
+  }
+}
+
+/**
+ * Calls functions at DateTz instants, cron schedules or recurrence rules, in process.
+ * Long waits are split into timers Node can hold (about 24.8 days at most), the clock
+ * is re-read after every timer, and runs missed while the process slept fire once when
+ * it wakes. The clock is injectable, so schedules can be tested with fake time.
+ */
+export class Scheduler {
+
+  private readonly clock: SchedulerClock;
+  private readonly maxTimerDelay: number;
+  private readonly onError: NonNullable<SchedulerOptions['onError']>;
+  private readonly active = new Map<number, ScheduledJob>();
+  private lastId = 0;
+
+  /**
+   * Creates a scheduler.
+   * @param options - The clock, the longest single timer and an error handler for callbacks (optional).
+   * Errors thrown or rejected by callbacks go to the handler, or to console.error without one.
+   * @throws Error if the maximum timer delay is not between 1 and 2^31 - 1 milliseconds.
+   */
+  constructor(options: SchedulerOptions = {}) {
+    const { clock = systemClock, maxTimerDelay = MAX_TIMER_DELAY, onError = reportError } = options;
+    if (!Number.isInteger(maxTimerDelay) || maxTimerDelay < 1 || maxTimerDelay > MAX_TIMER_DELAY) {
+      throw new Error(`Invalid timer delay: ${maxTimerDelay}`);
+    }
+    this.clock = clock;
+    this.maxTimerDelay = maxTimerDelay;
+    this.onError = onError;
+  }
+
+  /**
+   * The jobs that are still scheduled.
+   */
+  get jobs(): ScheduledJob[] {
+    return Array.from(this.active.values());
+  }
+
+  /**
+   * Schedules a callback. A date fires once, unless it is already in the past; cron
+   * expressions and recurrence rules fire at each of their runs from now on.
+   * @param target - A date, a CronExpression or cron string, or a RecurrenceRule.
+   * @param callback - Called with the run and the job.
+   * @param options - The zone cron strings are read in (defaults to UTC).
+   * @returns The scheduled job.
+   */
+  schedule(target: SchedulerTarget, callback: SchedulerCallback, options: ScheduleOptions = {}): ScheduledJob {
+    const source = typeof target === 'string' ? CronExpression.parse(target, { tz: options.tz }) : target;
+    let timezone: string;
+    let nextAfter: (timestamp: number) => DateTz | null;
+    if (source instanceof CronExpression) {
+      timezone = source.timezone;
+      nextAfter = timestamp => source.next(new DateTz(timestamp, timezone, 'millisecond'));
+    } else if (source instanceof RecurrenceRule) {
+      timezone = source.timezone;
+      nextAfter = timestamp => source.after(new DateTz(timestamp, timezone, 'millisecond'));
+    } else if (source && Number.isFinite((source as IDateTz).timestamp)) {
+      const date = new DateTz(source as IDateTz);
+      timezone = date.timezone;
+      nextAfter = timestamp => date.timestamp > timestamp ? date : null;
+    } else {
+      throw new Error('Invalid schedule target');
+    }
+    const job = new ScheduledJob(++this.lastId, timezone, nextAfter, callback, {
+      clock: this.clock,
+      maxTimerDelay: this.maxTimerDelay,
+      onError: this.onError,
+      onFinish: finished => this.active.delete(finished.id)
+    });
+    if (job.state === 'scheduled') {
+      this.active.set(job.id, job);
+    }
+    return job;
+  }
+
+  /**
+   * Cancels a job.
+   * @param job - The job or its id.
+   * @returns False if the job was not scheduled on this scheduler or had already finished.
+   */
+  cancel(job: ScheduledJob | number): boolean {
+    const scheduled = this.active.get(typeof job === 'number' ? job : job.id);
+    return scheduled !== undefined && (typeof job === 'number' || scheduled === job) && scheduled.cancel();
+  }
+
+  /**
+   * Cancels every job.
+   */
+  stop(): void {
+    for (const job of this.jobs) {
+      job.cancel();
+    }
+  }
+
+  /**
+   * Lists the next runs across all the jobs, earliest first.
+   * @param limit - The maximum number of runs (defaults to 10).
+   */
+  upcoming(limit = 10): SchedulerRun[] {
+    return this.jobs
+      .flatMap(job => job.upcoming(limit).map(at => ({ job, at })))
+      .sort((a, b) => a.at.timestamp - b.at.timestamp || a.job.id - b.job.id)
+      .slice(0, limit);
+  }
+}
@@ -0,0 +1,609 @@
+// Generated by scripts/generate-tzdata.ts from the IANA tz database. Do not edit by hand.
+
+export const tzdataVersion = "2025b";
+
+export const tzdataZones: Record<string, string> = {
+  "Africa/Abidjan": "-968,0,LMT;0,0,GMT|-u9rgl4B|GMT0",
+  "Africa/Accra": "-52,0,LMT;0,0,GMT;1200,1,+0020;1800,0,+0030;1800,1,+0030|-s9p1akB24aamkC1yhyoBcjvlcC69weoBci0xcC69weoBci0xcC69weoBci0xcC69weoBcjvlcC69weoBci0xcC69weoBci0xcC69weoBci0xcC69weoBcjvlcC69weoBci0xcC69weoBci0xcC69weoBci0xcC69weoBcjvlcC69weoBci0xcC69weoBci0xcC69weoBci0xcC69weoBcjvlcC69weoBci0xcC69weoBci0xcC69weoBci0xcC69weoB683lcCcloeoB668xcCcloeoB1y8pcD21gem0B2fehm0E69vy0Bci1e0E69vy0Bcjw20E69vy0Bci1e0E69vy0Bci1e0E69vy0Bci1e0E69vy0B|GMT0",
+  "Africa/Addis_Ababa": "9288,0,LMT;9320,0,ADMT;10800,0,EAT|-1g6t8i0Bymedb4C|EAT-3",
+  "Africa/Algiers": "732,0,LMT;561,0,PMT;0,0,WET;3600,1,WEST;3600,0,CET;7200,1,CEST|-154gb8cBafgo4rC2qx1nlD5luo0C8y800Da4tc0C7vc00Dauqo0C7idc0Db7pc0C6sg00Dcyo00C7ayo0D53c00C9idxc0D3i040C51mw0E253uk0F9o2k0E92040F8l3s0Ejutc0C4uy840E3rdzw0C46xc00D7x6o0C2xco40D8n180E7x9g0F9d440Ekiqg0C9d440D9q2s0C9cyk0E|CET-1",
+  "Africa/Asmara": "9332,0,LMT;9332,0,AMT;9320,0,ADMT;10800,0,EAT|-1g6t8j8Bafrs00Co6mlccD|EAT-3",
+  "Africa/Bamako": "-1920,0,LMT;0,0,GMT;-3600,0,-01|-u9rfuoBbk956oCdqe840B|GMT0",
+  "Africa/Bangui": "4460,0,LMT;3600,0,WAT|-u9rkrwB|WAT-1",
+  "Africa/Banjul": "-3996,0,LMT;-3996,0,BMT;-3600,0,-01;0,0,GMT|-u9re90Bb38800C4m1rp0D|GMT0",
+  "Africa/Bissau": "-3740,0,LMT;-3600,0,-01;0,0,GMT|-u9rek0Bwvoyo0C|GMT0",
+  "Africa/Blantyre": "8400,0,LMT;8470,0,ZMT;8460,0,ZMT;7200,0,CAT|-ui1t5cB1j56m2C5qqlcaD|CAT-2",
+  "Africa/Brazzaville": "3668,0,LMT;3600,0,WAT|-u9rk5wB|WAT-1",
+  "Africa/Bujumbura": "7048,0,LMT;7200,0,CAT|-15r1ersB|CAT-2",
+  "Africa/Cairo": "7509,0,LMT;7200,0,EET;10800,1,EEST|-1054wglBkrj48lC40d80Ba31g0C7x3w0Ba4w40Caqyk0B80ys0Cb07w0B7tk40Cb07w0B8jhg0Ca8fw0B60go40C7el80Bawo40C7v980Bawqw0C7tk40Bb07w0C7tk40Bayd80C7tk40Bayd80C7tk40Bayd80C7tk40Bb07w0C7tk40Bayd80C7tk40Bayd80C7ves0Bawik0C7ves0Bayd80C7ves0Bawik0C7ves0Bawik0C7ves0Bawik0C7ves0Bayd80C7ves0Bawik0C7ves0Bawik0C7ves0Bawik0C7ves0Bayd80C7ves0Bawik0C7ves0Bawik0C7ves0Bawik0C7ves0Bayd80C7ves0Bawik0C7ves0Bf9x80C3i040Beluk0C462s0Bayd80C7ves0Bawik0C7ves0Bawik0C7ves0Bawik0C7ves0Bayd80C7ves0Bb5rw0C7m5g0Bawik0C7ves0Bawik0C7ves0Bayd80C7ves0Bawik0C7ves0Bawik0C7ves0Baqvs0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Bb5xg0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Bb5xg0C7x3w0Basys0C7x3w0Basys0C7k580Bb5xg0C6u7w0Bbvus0C6h980Bc8tg0C64ak0Bcyqs0C5anw0B1jms0C12t80B1w22s0C25p80B1sw40C2vmk0B4hbhg0C|EET-2EEST,M4.5.5/0,M10.5.4/24",
+  "Africa/Casablanca": "-1820,0,LMT;0,0,+00;3600,1,+01;3600,0,+01;0,1,+00|-tblt9gBdi7nxgC3huk0B51k40C2znuk0B2dp9g0C776k0B8nt2s0C657w0B3ifxg0C3jp80Bva040C4qak0Be1ms0C7pp80Bcnms0C3afw0B2xi840Dxqqk0Bbp56s0C4qak0Be1ms0C45x80Bd2g40C51ek0Bc8tg0C64ak0Be1sc0C47uo0B1leo0C23xc0Basw00C3lmo0B1qyo0C40g00B7x6o0C4mo00B1stc0C4deo0B7x6o0C3ylc0B1stc0C51hc0B7x6o0C3lmo0B1stc0C5reo0B7k800C2vpc0B25s00C64dc0B7k800C2iqo0B1stc0C6uao0D9q000E1stc0Dg7c00E25s00Dg7c00E1stc0Dg7c00E25s00Dg7c00E1stc0Dgkao0E1stc0Dg7c00E25s00Dg7c00E1stc0Dgkao0E1stc0Dg7c00E25s00Dg7c00E1stc0Dg7c00E25s00Dg7c00E1stc0Dgkao0E1stc0Dg7c00E25s00Dg7c00E1stc0Dg7c00E25s00Dg7c00E25s00Dg7c00E1stc0Dg7c00E25s00Dg7c00E1stc0Dgkao0E1stc0Dg7c00E25s00Dg7c00E1stc0Dg7c00E25s00Dg7c00E25s00Dg7c00E1stc0Dg7c00E25s00Dg7c00E1stc0Dgkao0E1stc0Dg7c00E25s00Dg7c00E1stc0Dg7c00E25s00Dg7c00E25s00Dg7c00E1stc0Dg7c00E25s00Dg7c00E1stc0Dgkao0E1stc0Dg7c00E25s00Dg7c00E1stc0Dg7c00E25s00Dg7c00E25s00Dg7c00E1stc0Dg7c00E25s00Dg7c00E1stc0Dgkao0E1stc0Dg7c00E25s00Dg7c00E1stc0Dg7c00E25s00Dg7c00E25s00Dg7c00E1stc0Dg7c00E25s00Dg7c00E1stc0Dgkao0E1stc0Dg7c00E25s00Dg7c00E1stc0Dg7c00E25s00Dg7c00E25s00Dg7c00E1stc0Dg7c00E25s00Dg7c00E1stc0Dgkao0E1stc0Dg7c00E25s00Dg7c00E1stc0Dg7c00E25s00Dg7c00E1stc0Dgkao0E1stc0Dg7c00E25s00Dg7c00E1stc0Dgkao0E1stc0Dg7c00E25s00D|<+01>-1",
+  "Africa/Ceuta": "-1276,0,LMT;0,0,WET;3600,1,WEST;3600,0,CET;7200,1,CEST|-100edc0B91vek0C7x3w0B2vt440C8sqs0Bssyk0C8n6s0B9px80C905g0Ba2yo0C902o0Bk69dc0C657w0B3ifxg0C3jp80Bva040C4qak0Be1ms0C7pp80Bcnms0C3afw0B2xi840D129us0E9d1c0D9d1c0E9d1c0D9d1c0E9d1c0D9d1c0E9d1c0D9d1c0E9q000D9d1c0E9d1c0D9d1c0E9d1c0D9d1c0E9d1c0D9d1c0E9d1c0D9d1c0E9d1c0D9q000E|CET-1CEST,M3.5.0,M10.5.0/3",
+  "Africa/Conakry": "-3292,0,LMT;0,0,GMT;-3600,0,-01|-u9reskBbk944kCdhlk40B|GMT0",
+  "Africa/Dakar": "-4184,0,LMT;-3600,0,-01;0,0,GMT|-u9re3sBfcoa7sC|GMT0",
+  "Africa/Dar_es_Salaam": "9428,0,LMT;10800,0,EAT;9900,0,+0245|-kcrtxwB8ve49wC6sagp0B|EAT-3",
+  "Africa/Djibouti": "10356,0,LMT;10800,0,EAT|-uj8fzoB|EAT-3",
+  "Africa/Douala": "2328,0,LMT;3600,0,WAT|-u9rj4oB|WAT-1",
+  "Africa/El_Aaiun": "-3168,0,LMT;-3600,0,-01;0,0,+00;3600,1,+01;3600,0,+01;0,1,+00|-isdxk0Bm2g0c0Cvek0D4qak0Ce1ms0D7pp80Ccnms0D3afw0Cfke5g0D4qak0Ce1ms0D45x80Cd2g40D51ek0Cc8tg0D64ak0Ce1sc0D47uo0C1leo0D23xc0Casw00D3lmo0C1qyo0D40g00C7x6o0D4mo00C1stc0D4deo0C7x6o0D3ylc0C1stc0D51hc0C7x6o0D3lmo0C1stc0D5reo0C7k800D2vpc0C25s00D64dc0C7k800D2iqo0C1stc0D6uao0E9q000F1stc0Eg7c00F25s00Eg7c00F1stc0Eg7c00F25s00Eg7c00F1stc0Egkao0F1stc0Eg7c00F25s00Eg7c00F1stc0Egkao0F1stc0Eg7c00F25s00Eg7c00F1stc0Eg7c00F25s00Eg7c00F1stc0Egkao0F1stc0Eg7c00F25s00Eg7c00F1stc0Eg7c00F25s00Eg7c00F25s00Eg7c00F1stc0Eg7c00F25s00Eg7c00F1stc0Egkao0F1stc0Eg7c00F25s00Eg7c00F1stc0Eg7c00F25s00Eg7c00F25s00Eg7c00F1stc0Eg7c00F25s00Eg7c00F1stc0Egkao0F1stc0Eg7c00F25s00Eg7c00F1stc0Eg7c00F25s00Eg7c00F25s00Eg7c00F1stc0Eg7c00F25s00Eg7c00F1stc0Egkao0F1stc0Eg7c00F25s00Eg7c00F1stc0Eg7c00F25s00Eg7c00F25s00Eg7c00F1stc0Eg7c00F25s00Eg7c00F1stc0Egkao0F1stc0Eg7c00F25s00Eg7c00F1stc0Eg7c00F25s00Eg7c00F25s00Eg7c00F1stc0Eg7c00F25s00Eg7c00F1stc0Egkao0F1stc0Eg7c00F25s00Eg7c00F1stc0Eg7c00F25s00Eg7c00F25s00Eg7c00F1stc0Eg7c00F25s00Eg7c00F1stc0Egkao0F1stc0Eg7c00F25s00Eg7c00F1stc0Eg7c00F25s00Eg7c00F1stc0Egkao0F1stc0Eg7c00F25s00Eg7c00F1stc0Egkao0F1stc0Eg7c00F25s00E|<+01>-1",
+  "Africa/Freetown": "-3180,0,LMT;-3180,0,FMT;-3600,0,-01;-2400,1,-0040;0,0,GMT|-19xcavoBgfpuo0Ca4v6zoD681qoC7vcxcDawkeoC7vcxcDawkeoC7vcxcDayf2oC7vcxcDawkeoC7vcxcDawkeoC7vcxcDe1j2oC4qe9cD7dqoC16dy9cE|GMT0",
+  "Africa/Gaborone": "6220,0,LMT;5400,0,SAST;7200,0,CAT;10800,1,CAST|-18cyvgsB9h5hysCl5xqu0D9cyk0C|CAT-2",
+  "Africa/Harare": "7452,0,LMT;7200,0,CAT|-yvtf30B|CAT-2",
+  "Africa/Johannesburg": "6720,0,LMT;5400,0,SAST;7200,0,SAST;10800,1,SAST|-14nj6ioB5rpt0oCkn7o60D9cyk0C9d440D9cyk0C|SAST-2",
+  "Africa/Juba": "7588,0,LMT;7200,0,CAT;10800,1,CAST;10800,0,EAT|-kcrsisBkixuysC8l6k0Ba4w40C8n180Ba6qs0C8n180Ba31g0C8ovw0Ba16s0C8qqk0B9zc40C8sl80B9xhg0C8wak0B9ts40C8y580Ba4w40C8n180Ba31g0C8ovw0Ba16s0C8sl80B9xhg0C8ufw0B9vms0C8wak0B9ts40C8y580Ba4w40C8ovw0Ba16s0C8qqk0B7frw40Dazg180B|CAT-2",
+  "Africa/Kampala": "7780,0,LMT;10800,0,EAT;9000,0,+0230;9900,0,+0245|-lnse04Bs8lo4C9e6420D4p4vb0B|EAT-3",
+  "Africa/Khartoum": "7808,0,LMT;7200,0,CAT;10800,1,CAST;10800,0,EAT|-kcrsowBkixv4wC8l6k0Ba4w40C8n180Ba6qs0C8n180Ba31g0C8ovw0Ba16s0C8qqk0B9zc40C8sl80B9xhg0C8wak0B9ts40C8y580Ba4w40C8n180Ba31g0C8ovw0Ba16s0C8sl80B9xhg0C8ufw0B9vms0C8wak0B9ts40C8y580Ba4w40C8ovw0Ba16s0C8qqk0B7frw40D9ac180B|CAT-2",
+  "Africa/Kigali": "7216,0,LMT;7200,0,CAT|-i1ulkgB|CAT-2",
+  "Africa/Kinshasa": "3672,0,LMT;3600,0,WAT|-11ngdi0B|WAT-1",
+  "Africa/Lagos": "815,0,LMT;0,0,GMT;1800,0,+0030;3600,0,WAT|-xnxnanB1kdnanA2ve7ddC2yfgknD|WAT-1",
+  "Africa/Libreville": "2268,0,LMT;3600,0,WAT|-u9rj30B|WAT-1",
+  "Africa/Lome": "292,0,LMT;0,0,GMT|-146nmw4B|GMT0",
+  "Africa/Luanda": "3176,0,LMT;3124,0,LMT;3600,0,WAT|-14phh48Bafpx08C|WAT-1",
+  "Africa/Lubumbashi": "6592,0,LMT;3600,0,WAT;7200,0,CAT|-11ngfr4Bbpwyb4C|CAT-2",
+  "Africa/Lusaka": "6788,0,LMT;7200,0,CAT|-yvtekkB|CAT-2",
+  "Africa/Malabo": "2108,0,LMT;0,0,GMT;3600,0,WAT|-u9riykBr44sakC|WAT-1",
+  "Africa/Maputo": "7818,0,LMT;7200,0,CAT|-vu3fd6B|CAT-2",
+  "Africa/Maseru": "6600,0,LMT;7200,0,SAST;10800,1,SAST|-yvtefcBl5xrrcC9cyk0B|SAST-2",
+  "Africa/Mbabane": "7464,0,LMT;7200,0,SAST|-yvtf3cB|SAST-2",
+  "Africa/Mogadishu": "10888,0,LMT;10800,0,EAT;9000,0,+0230|-13r0wegBje91egCdkj2q0B|EAT-3",
+  "Africa/Monrovia": "-2588,0,LMT;-2588,0,MMT;-2670,0,MMT;0,0,GMT|-19xcbc4Bje5c00Crl202aD|GMT0",
+  "Africa/Nairobi": "8836,0,LMT;9000,0,+0230;10800,0,EAT;9900,0,+0245|-w6p5hgBaiwqjgCsg1a0B3nbte0D2wu1z0C|EAT-3",
+  "Africa/Ndjamena": "3612,0,LMT;3600,0,WAT;7200,1,WAST|-u9rk4cBzdk5ccC7iak0B|WAT-1",
+  "Africa/Niamey": "508,0,LMT;-3600,0,-01;0,0,GMT;3600,0,WAT|-u9rhq4Bbk99u4Cdhlek0D|WAT-1",
+  "Africa/Nouakchott": "-3828,0,LMT;0,0,GMT;-3600,0,-01|-u9redoBbk93poCdyodg0B|GMT0",
+  "Africa/Ouagadougou": "-364,0,LMT;0,0,GMT|-u9rh1wB|GMT0",
+  "Africa/Porto-Novo": "628,0,LMT;0,0,GMT;3600,0,WAT|-u9rhtgBbk975gC|WAT-1",
+  "Africa/Sao_Tome": "1616,0,LMT;-2205,0,LMT;0,0,GMT;3600,0,WAT|-18vsjwwBem12kwC1jbm840Dirxc0C|GMT0",
+  "Africa/Tripoli": "3164,0,LMT;3600,0,CET;7200,1,CEST;7200,0,EET|-q3gfrwBgl6ajwC422c0Bxado0C4bbo0Bwrpg0C4s580B1kdpg0Dc05bw0B4mqs0C9et80B9d440C9et80B9eys0C9et80B9mdg0C95jw0B9io40C9cyk0B99es0C9et80B9eys0C9et80B9d440C9et80Bb2840D3cf3w0B9kis0C9et80D7vqyw0B75eo0Casw00D|EET-2",
+  "Africa/Tunis": "2444,0,LMT;561,0,PMT;3600,0,CET;7200,1,CEST|-1a9dr7wBfke44bCenxevlDb5uo0C53c00Du8w00C7x9g0Dc8w80C7k800Dz3w0Cew40D8bx80C9d440D9nx00C925o0D8l100Cgi3440D7k800Cb9k00D7vc00C51mw00D5ytc0C9d1c0D9d1c0Cb9k00D7thc0C7m0tc0D7tk40C93us0Db5uo0C7k800Db5uo0C7x6o0Dasw00C|CET-1",
+  "Africa/Windhoek": "4104,0,LMT;5400,0,+0130;7200,0,SAST;10800,1,SAST;7200,0,CAT;3600,1,WAT|-14nj4i0B5rpr00Ckn7o60D9cyk0Coj2nw0E235k00F8lho0East80F7x9g0Eb5rw0F7kas0Eb5rw0F7x9g0East80F7x9g0East80F7x9g0East80F7x9g0East80F7x9g0Eb5rw0F7kas0Eb5rw0F7x9g0East80F7x9g0East80F7x9g0East80F7x9g0East80F7x9g0Eb5rw0F7x9g0East80F7x9g0East80F7x9g0East80F7x9g0East80F7x9g0Eb5rw0F7kas0Eb5rw0F7x9g0East80F7x9g0East80F7x9g0East80F7x9g0E|CAT-2",
+  "America/Adak": "44002,0,LMT;-42398,0,LMT;-39600,0,NST;-36000,1,NWT;-36000,1,NPT;-39600,0,BST;-36000,1,BDT;-36000,0,AHST;-36000,0,HST;-32400,1,HDT|-1hc7qjzBh4z1xpCln70qaD1tyug0E2e6s0Cb7yik0F12y080G9cyk0F9d440G9cyk0F9d440G9px80F9d440G9cyk0F9d440G9cyk0F3lpg0Gf4d80F64g40Gclmk0F9d440G9px80F905g0G9px80F9d440G9cyk0F9d440G9cyk0F9d440G9cyk0F9d440G9cyk0F9d440G9px80F905g0G9px80H1l940I7rs80J9cyk0I9d440J9cyk0I9d440J9cyk0I8a840Jafuk0I8a840Jast80I7x9g0Jast80I7x9g0Jast80I8a840Jafuk0I8a840Jafuk0I8a840Jast80I7x9g0Jast80I7x9g0Jast80I8a840Jafuk0I8a840Jafuk0I8a840Jafuk0I8a840Jast80I7x9g0Jast80I7x9g0Jast80I8a840Jafuk0I8a840Jafuk0I8a840Jast80I7x9g0Jast80I7x9g0Jast80I6udg0J|HST10HDT,M3.2.0,M11.1.0",
+  "America/Anchorage": "50424,0,LMT;-35976,0,LMT;-36000,0,AST;-32400,1,AWT;-32400,1,APT;-36000,0,AHST;-32400,1,AHDT;-32400,0,YST;-32400,0,AKST;-28800,1,AKDT|-1hc7qjzBh4ywzbCln72woD1tyx80E2e400Cb7yik0F12y080G9cyk0F9d440G9cyk0F9d440G9px80F9d440G9cyk0F9d440G9cyk0F3lpg0Gf4d80F64g40Gclmk0F9d440G9px80F905g0G9px80F9d440G9cyk0F9d440G9cyk0F9d440G9cyk0F9d440G9cyk0F9d440G9px80F905g0G9px80H1l940I7rs80J9cyk0I9d440J9cyk0I9d440J9cyk0I8a840Jafuk0I8a840Jast80I7x9g0Jast80I7x9g0Jast80I8a840Jafuk0I8a840Jafuk0I8a840Jast80I7x9g0Jast80I7x9g0Jast80I8a840Jafuk0I8a840Jafuk0I8a840Jafuk0I8a840Jast80I7x9g0Jast80I7x9g0Jast80I8a840Jafuk0I8a840Jafuk0I8a840Jast80I7x9g0Jast80I7x9g0Jast80I6udg0J|AKST9AKDT,M3.2.0,M11.1.0",
+  "America/Anguilla": "-15136,0,LMT;-14400,0,AST|-u6m6zkB|AST4",
+  "America/Antigua": "-14832,0,LMT;-18000,0,EST;-14400,0,AST|-u6m780Bk9mqg0C|AST4",
+  "America/Araguaina": "-11568,0,LMT;-10800,0,-03;-7200,1,-02|-t85j2oB99k8moC9a9c0B9io40C99980B8p65g0C6zuo0Bbs2o0C67zw0Bcjxg0C69uk0Bcjxg0C4ml80B5mf440C49mk0Bhaas0C316k0Bcls40C4ml80Bcls40C66580Bcls40C67zw0B981s40C6u7w0Bbiw40C5rbw0Bd0lg0C5ed80Bcyqs0C5ed80Bdbpg0C64ak0B2yl440C64ak0Bc8tg0C6u7w0Bbxpg0C7iak0Bbiw40C6u7w0Bbiw40C7k580Bbiw40C6u7w0Bc8tg0C6h980Bdbpg0C5ed80B51udg0C64ak0B|<-03>3",
+  "America/Argentina/Buenos_Aires": "-14028,0,LMT;-15408,0,CMT;-14400,0,-04;-10800,1,-03;-10800,0,-03;-7200,1,-02|-138aaicBdb2bqcC5iv8k0D67zw0Ca4w40D73h80Ccls40D66580Ccls40D66580Ccls40D66580Ccls40D67zw0Ccls40D66580Ccls40D66580Ccls40D66580Ccls40D67zw0C6a040Dhy7w0C6a040Dxovw0C3uys0D18nbw0Cb0dg0D8ve2k0C3uys0D3yik0Cbqas0D71mk0Cbqas0D71mk0Cbqas0D8ovw0C9d440D9px80C9d440D9cyk0C9d440E28t6k0F51ek0E7m2qs0F4tzw0Ebiw40F776k0Ebvus0F6u7w0Ebvus0F6u7w0Ebvus0F776k0E3fidg0D7thc0E430lc0F3yik0Eb5xg0F7k580E|<-03>3",
+  "America/Argentina/Catamarca": "-15788,0,LMT;-15408,0,CMT;-14400,0,-04;-10800,1,-03;-10800,0,-03;-7200,1,-02|-138a95gBdb2adgC5iv8k0D67zw0Ca4w40D73h80Ccls40D66580Ccls40D66580Ccls40D66580Ccls40D67zw0Ccls40D66580Ccls40D66580Ccls40D66580Ccls40D67zw0C6a040Dhy7w0C6a040Dxovw0C3uys0D18nbw0Cb0dg0D8ve2k0C3uys0D3yik0Cbqas0D71mk0Cbqas0D71mk0Cbqas0D8ovw0C9d440D9px80C9d440D9cyk0C9d440E28t6k0F51ek0E7m2qs0F4tzw0Ebiw40F776k0Ebvus0F6u7w0Cbvxk0F6u540Ebvus0F776k0E3fidg0D7thc0E27s800Cz9g0E1u93w0F3yik0E|<-03>3",
+  "America/Argentina/Cordoba": "-15408,0,LMT;-15408,0,CMT;-14400,0,-04;-10800,1,-03;-10800,0,-03;-7200,1,-02|-138a9g0Bdb2ao0C5iv8k0D67zw0Ca4w40D73h80Ccls40D66580Ccls40D66580Ccls40D66580Ccls40D67zw0Ccls40D66580Ccls40D66580Ccls40D66580Ccls40D67zw0C6a040Dhy7w0C6a040Dxovw0C3uys0D18nbw0Cb0dg0D8ve2k0C3uys0D3yik0Cbqas0D71mk0Cbqas0D71mk0Cbqas0D8ovw0C9d440D9px80C9d440D9cyk0C9d440E28t6k0F51ek0E7m2qs0F4tzw0Ebiw40F776k0Ebvus0F6u7w0Cbvxk0F6u540Ebvus0F776k0E3fidg0D7thc0E430lc0F3yik0Eb5xg0F7k580E|<-03>3",
+  "America/Argentina/Jujuy": "-15672,0,LMT;-15408,0,CMT;-14400,0,-04;-10800,1,-03;-10800,0,-03;-7200,1,-02|-138a98oBdb2agoC5iv8k0D67zw0Ca4w40D73h80Ccls40D66580Ccls40D66580Ccls40D66580Ccls40D67zw0Ccls40D66580Ccls40D66580Ccls40D66580Ccls40D67zw0C6a040Dhy7w0C6a040Dxovw0C3uys0D18nbw0Cb0dg0D8ve2k0C3uys0D3yik0Cbqas0D71mk0Cbqas0D71mk0Cbqas0D8ovw0C9d440D9px80C9d440D9cyk0C9d440E28t6k0F51ek0E7m2qs0F4tzw0Ebiw40F776k0Cc8w80D776k0Cag040F7k2g0Ebvus0F776k0E3fidg0D7thc0E430lc0F3yik0E|<-03>3",
+  "America/Argentina/La_Rioja": "-16044,0,LMT;-15408,0,CMT;-14400,0,-04;-10800,1,-03;-10800,0,-03;-7200,1,-02|-138a8ycBdb2a6cC5iv8k0D67zw0Ca4w40D73h80Ccls40D66580Ccls40D66580Ccls40D66580Ccls40D67zw0Ccls40D66580Ccls40D66580Ccls40D66580Ccls40D67zw0C6a040Dhy7w0C6a040Dxovw0C3uys0D18nbw0Cb0dg0D8ve2k0C3uys0D3yik0Cbqas0D71mk0Cbqas0D71mk0Cbqas0D8ovw0C9d440D9px80C9d440D9cyk0C9d440E28t6k0F51ek0E7m2qs0F4tzw0Ebiw40F776k0Ebvus0F6qik0C3g880E8jbw0F6u7w0Ebvus0F776k0E3fidg0D7thc0E27s800Cz9g0E1u93w0F3yik0E|<-03>3",
+  "America/Argentina/Mendoza": "-16516,0,LMT;-15408,0,CMT;-14400,0,-04;-10800,1,-03;-10800,0,-03;-7200,1,-02|-138a8l8Bdb29t8C5iv8k0D67zw0Ca4w40D73h80Ccls40D66580Ccls40D66580Ccls40D66580Ccls40D67zw0Ccls40D66580Ccls40D66580Ccls40D66580Ccls40D67zw0C6a040Dhy7w0C6a040Dxovw0C3uys0D18nbw0Cb0dg0D8ve2k0C3uys0D3yik0Cbqas0D71mk0Cbqas0D71mk0Cbqas0D8ovw0C9d440D9px80C9d440D9cyk0C9d440E28t6k0F51ek0E7m2qs0F4tzw0Ebiw40F776k0Cbktk0D71mk0Cbqas0D73h80Cbvus0F773s0E3fidg0D7thc0E27bk00C6hes0E1p7mk0F3yik0E|<-03>3",
+  "America/Argentina/Rio_Gallegos": "-16612,0,LMT;-15408,0,CMT;-14400,0,-04;-10800,1,-03;-10800,0,-03;-7200,1,-02|-138a8ikBdb29qkC5iv8k0D67zw0Ca4w40D73h80Ccls40D66580Ccls40D66580Ccls40D66580Ccls40D67zw0Ccls40D66580Ccls40D66580Ccls40D66580Ccls40D67zw0C6a040Dhy7w0C6a040Dxovw0C3uys0D18nbw0Cb0dg0D8ve2k0C3uys0D3yik0Cbqas0D71mk0Cbqas0D71mk0Cbqas0D8ovw0C9d440D9px80C9d440D9cyk0C9d440E28t6k0F51ek0E7m2qs0F4tzw0Ebiw40F776k0Ebvus0F6u7w0Ebvus0F6u7w0Ebvus0F776k0E3fidg0D7thc0E27s800Cz9g0E1u93w0F3yik0E|<-03>3",
+  "America/Argentina/Salta": "-15700,0,LMT;-15408,0,CMT;-14400,0,-04;-10800,1,-03;-10800,0,-03;-7200,1,-02|-138a97wBdb2afwC5iv8k0D67zw0Ca4w40D73h80Ccls40D66580Ccls40D66580Ccls40D66580Ccls40D67zw0Ccls40D66580Ccls40D66580Ccls40D66580Ccls40D67zw0C6a040Dhy7w0C6a040Dxovw0C3uys0D18nbw0Cb0dg0D8ve2k0C3uys0D3yik0Cbqas0D71mk0Cbqas0D71mk0Cbqas0D8ovw0C9d440D9px80C9d440D9cyk0C9d440E28t6k0F51ek0E7m2qs0F4tzw0Ebiw40F776k0Ebvus0F6u7w0Cbvxk0F6u540Ebvus0F776k0E3fidg0D7thc0E430lc0F3yik0E|<-03>3",
+  "America/Argentina/San_Juan": "-16444,0,LMT;-15408,0,CMT;-14400,0,-04;-10800,1,-03;-10800,0,-03;-7200,1,-02|-138a8n8Bdb29v8C5iv8k0D67zw0Ca4w40D73h80Ccls40D66580Ccls40D66580Ccls40D66580Ccls40D67zw0Ccls40D66580Ccls40D66580Ccls40D66580Ccls40D67zw0C6a040Dhy7w0C6a040Dxovw0C3uys0D18nbw0Cb0dg0D8ve2k0C3uys0D3yik0Cbqas0D71mk0Cbqas0D71mk0Cbqas0D8ovw0C9d440D9px80C9d440D9cyk0C9d440E28t6k0F51ek0E7m2qs0F4tzw0Ebiw40F776k0Ebvus0F6qik0C3g880E8jbw0F6u7w0Ebvus0F776k0E3fidg0D7thc0E27qdc0C2txg0E1sgak0F3yik0E|<-03>3",
+  "America/Argentina/San_Luis": "-15924,0,LMT;-15408,0,CMT;-14400,0,-04;-10800,1,-03;-10800,0,-03;-7200,1,-02|-138a91oBdb2a9oC5iv8k0D67zw0Ca4w40D73h80Ccls40D66580Ccls40D66580Ccls40D66580Ccls40D67zw0Ccls40D66580Ccls40D66580Ccls40D66580Ccls40D67zw0C6a040Dhy7w0C6a040Dxovw0C3uys0D18nbw0Cb0dg0D8ve2k0C3uys0D3yik0Cbqas0D71mk0Cbqas0D71mk0Cbqas0D8ovw0C9d440D9px80C9d440D9cyk0C9d440E28t6k0F51ek0E7m2qs0F4tzw0Ebiw40F7pp80Cb2aw0D71mk0C4qg40E4conw0D7thc0E27qdc0C2txg0E1sgak0F14nw0D2gys0Cb5xg0D7k580Cb5xg0E|<-03>3",
+  "America/Argentina/Tucuman": "-15652,0,LMT;-15408,0,CMT;-14400,0,-04;-10800,1,-03;-10800,0,-03;-7200,1,-02|-138a998Bdb2ah8C5iv8k0D67zw0Ca4w40D73h80Ccls40D66580Ccls40D66580Ccls40D66580Ccls40D67zw0Ccls40D66580Ccls40D66580Ccls40D66580Ccls40D67zw0C6a040Dhy7w0C6a040Dxovw0C3uys0D18nbw0Cb0dg0D8ve2k0C3uys0D3yik0Cbqas0D71mk0Cbqas0D71mk0Cbqas0D8ovw0C9d440D9px80C9d440D9cyk0C9d440E28t6k0F51ek0E7m2qs0F4tzw0Ebiw40F776k0Ebvus0F6u7w0Cbvxk0F6u540Ebvus0F776k0E3fidg0D7thc0E27s800Cmas0E1um2k0F3yik0Eb5xg0F7k580E|<-03>3",
+  "America/Argentina/Ushuaia": "-16392,0,LMT;-15408,0,CMT;-14400,0,-04;-10800,1,-03;-10800,0,-03;-7200,1,-02|-138a8ooBdb29woC5iv8k0D67zw0Ca4w40D73h80Ccls40D66580Ccls40D66580Ccls40D66580Ccls40D67zw0Ccls40D66580Ccls40D66580Ccls40D66580Ccls40D67zw0C6a040Dhy7w0C6a040Dxovw0C3uys0D18nbw0Cb0dg0D8ve2k0C3uys0D3yik0Cbqas0D71mk0Cbqas0D71mk0Cbqas0D8ovw0C9d440D9px80C9d440D9cyk0C9d440E28t6k0F51ek0E7m2qs0F4tzw0Ebiw40F776k0Ebvus0F6u7w0Ebvus0F6u7w0Ebvus0F776k0E3fidg0D7thc0E27oio0C12ys0E1u93w0F3yik0E|<-03>3",
+  "America/Aruba": "-16824,0,LMT;-16200,0,-0430;-14400,0,AST|-u7lccoBrlo7ioC|AST4",
+  "America/Asuncion": "-13840,0,LMT;-13840,0,AMT;-14400,0,-04;-10800,0,-03;-10800,1,-03|-15r0ynkBlsruo0CldwofkDs4vw0Cs6w40E7tek0Cb0dg0E7rjw0Cb0dg0E7rjw0Cb0dg0E9cyk0C9eys0E9et80C9eys0E9cyk0C9eys0E9cyk0C9eys0E9cyk0C9eys0E9et80C9eys0E9cyk0C9eys0E9cyk0C9eys0E9cyk0C9eys0E9et80C9eys0E9cyk0Cahus0E8a2k0C9eys0E9cyk0C9o840E7k580Cb7s40E93p80C9gtg0E7nuk0Cb42s0E7lzw0Cb5xg0E7tek0Cb9ms0E776k0Cbiw40E7k580Cb5xg0E7x3w0Casys0E7x3w0Casys0E7x3w0Cb5xg0E9cyk0C7kas0Eb5rw0C7x9g0East80Ca31g0E7k580Cb5xg0E7k580Cb5xg0E7k580Cbiw40E776k0Cbiw40E776k0Cbiw40E8zzw0C905g0E9px80C905g0E9px80C9d440E8n180Ca31g0E8n180Ca31g0E8n180Ca31g0E8zzw0C9q2s0E8zzw0C9q2s0E8zzw0Ca31g0E8n180Ca31g0E8n180Ca31g0E8zzw0C9q2s0E8zzw0C9q2s0E8zzw0C9q2s0E8zzw0Ca31g0Egl80D|<-03>3",
+  "America/Atikokan": "-21988,0,LMT;-21600,0,CST;-18000,1,CDT;-18000,1,CWT;-18000,1,CPT;-18000,0,EST|-1353b18Bc5efx8Ca2vw0Bbfxjw0Cpmdk0D1tz8c0E2dsw0F|EST5",
+  "America/Bahia": "-9244,0,LMT;-10800,0,-03;-7200,1,-02|-t85kv8B99kaf8C9a9c0B9io40C99980B8p65g0C6zuo0Bbs2o0C67zw0Bcjxg0C69uk0Bcjxg0C4ml80B5mf440C49mk0Bhaas0C316k0Bcls40C4ml80Bcls40C66580Bcls40C67zw0B981s40C6u7w0Bbiw40C5rbw0Bd0lg0C5ed80Bcyqs0C5ed80Bdbpg0C64ak0Bcyqs0C64ak0Bcls40C5rbw0Bdbpg0C51ek0Bdbpg0C6h980Bc8tg0C6h980Bc8tg0C64ak0Bc8tg0C6u7w0Bbxpg0C7iak0Bbiw40C6u7w0Bbiw40C7k580Bbiw40C6u7w0Bc8tg0C6h980Bdbpg0C5ed80B4irc40C6u7w0B|<-03>3",
+  "America/Bahia_Banderas": "-25260,0,LMT;-25200,0,MST;-21600,0,CST;-21600,1,MDT;-18000,1,CDT|-p1u4k0B2u5s00C1si580B8jhg0D7x3w0B9eys0C591h80Bs5qoc0Dafuk0B8a840Dafuk0B8a840Dafuk0B8a840Dast80B7x9g0Dast80B9q2s0D7k580B9q2s0Dafuk0B8a840Dafuk0B8a840Dast80B7x9g0Dast80B7x9g0Dast80B7x9g0Dast80B8a840Dafuk0B8a840Dafuk0B8a840Easqg0C7x9g0East80C7x9g0East80C8a840Eafuk0C8a840Eafuk0C8a840Eafuk0C8a840East80C7x9g0East80C7x9g0East80C8a840Eafuk0C8a840Eafuk0C8a840East80C7x9g0East80C|CST6",
+  "America/Barbados": "-14309,0,LMT;-14400,0,AST;-10800,1,ADT;-12600,1,-0330|-ug8iajBfzq06jC6w840Bcjrw0C6hes0Bb7mk0D7ves0Bh3dpc0C5rbw0Ba31g0C8n180Ba31g0C8n180Bag040C84ik0B|AST4",
+  "America/Belem": "-11636,0,LMT;-10800,0,-03;-7200,1,-02|-t85j0sB99k8ksC9a9c0B9io40C99980B8p65g0C6zuo0Bbs2o0C67zw0Bcjxg0C69uk0Bcjxg0C4ml80B5mf440C49mk0Bhaas0C316k0Bcls40C4ml80Bcls40C66580Bcls40C67zw0B981s40C6u7w0Bbiw40C5rbw0Bd0lg0C5ed80B|<-03>3",
+  "America/Belize": "-21168,0,LMT;-21600,0,CST;-19800,1,-0530;-18000,1,CWT;-18000,1,CPT;-18000,1,CDT|-u52ic0B3edkc0C6ham0Bc8s20C6u9a0Bbvte0C6u9a0Bbvte0C6u9a0Bc8s20C6ham0Bc8s20C6ham0Bc8s20C6u9a0Bbvte0C6u9a0Bbvte0C6u9a0Bbvte0C6u9a0Bc8s20C6ham0Bc8s20C6ham0Bc8s20C6u9a0Bbvte0C6u9a0Bbvte0C6u9a0Bc8s20C6ham0Bc8s20C6ham0Bc8s20C6ham0Bc8s20C6u9a0Bbvte0C6u9a0Bbvte0C6u9a0Bc8s20C6ham0Bc8s20C6ham0Bc8s20C6u9a0B6uc20D1mtz80E6c8o0Bxulg0C6u9a0Bbvte0C6u9a0Bbvte0C6u9a0Bc8s20C6ham0Bc8s20C6ham0Bc8s20C6u9a0Bbvte0C6u9a0Bbvte0C6u9a0Bbvte0C6u9a0Bc8s20C6ham0Bc8s20C6ham0Bc8s20C6u9a0Bbvte0C6u9a0Bbvte0C6u9a0Bc8s20C6ham0Bc8s20C6ham0Bc8s20C6ham0Bc8s20C6u9a0Bbvte0C6u9a0Bbvte0C6u9a0Bc8s20C6ham0B319de0F3e580B4mcys0F2vmk0B|CST6",
+  "America/Blanc-Sablon": "-13708,0,LMT;-14400,0,AST;-10800,1,ADT;-10800,1,AWT;-10800,1,APT|-18vs838Bhw37f8Ca2vw0Bc5jxg0D1tzdw0E2dnc0B|AST4",
+  "America/Boa_Vista": "-14560,0,LMT;-14400,0,-04;-10800,1,-03|-t85grkB99k93kC9a9c0B9io40C99980B8p65g0C6zuo0Bbs2o0C67zw0Bcjxg0C69uk0Bcjxg0C4ml80B5mf440C49mk0Bhaas0C316k0Bcls40C4ml80Bcls40C66580Bcls40C67zw0B981s40C6u7w0Bbiw40C5rbw0Bd0lg0C5ed80B62xk40C7k580Bbiw40Ccvw0B|<-04>4",
+  "America/Bogota": "-17776,0,LMT;-17776,0,BMT;-18000,0,-05;-14400,1,-04|-18s2sy8Bg0p400C14f1hi8Deefw0C|<-05>5",
+  "America/Boise": "-27889,0,LMT;-28800,0,PST;-25200,1,PDT;-25200,0,MST;-21600,1,MWT;-21600,1,MPT;-21600,1,MDT|-18y0gg0Bhxltk0Cast80B7x9g0Cast80B1um840D9s7jw0E1tz5k0F2dvo0Db9gdg0G9cyk0D9d440G9cyk0D9d440G9cyk0D9d440G9cyk0D9d440G9px80D9d440G9cyk0D9d440G9cyk0D51k40Gdoik0D64g40Gclmk0D9d440G9px80D905g0G9px80D9d440G9cyk0D9d440G9cyk0D9d440G9cyk0D9d440G9cyk0D9d440G9px80D905g0G9px80D9d440G9cyk0D9d440G9cyk0D9d440G9cyk0D8a840Gafuk0D8a840Gast80D7x9g0Gast80D7x9g0Gast80D8a840Gafuk0D8a840Gafuk0D8a840Gast80D7x9g0Gast80D7x9g0Gast80D8a840Gafuk0D8a840Gafuk0D8a840Gafuk0D8a840Gast80D7x9g0Gast80D7x9g0Gast80D8a840Gafuk0D8a840Gafuk0D8a840Gast80D7x9g0Gast80D7x9g0Gast80D6udg0G|MST7MDT,M3.2.0,M11.1.0",
+  "America/Cambridge_Bay": "0,0,-00;-25200,0,MST;-21600,1,MWT;-21600,1,MPT;-21600,1,MDT;-21600,0,CST;-18000,1,CDT;-18000,0,EST|-q3gdc0Bbjeec0C1tz5k0D2dvo0Bdvfpg0E9cyk0B9d440E9cyk0B9d440E9cyk0B9d440E9cyk0B9d440E9px80B905g0E9px80B9d440E9cyk0B9d440E9cyk0B9d440E9cyk0B9d440E9cyk0B9d440E9px80B905g0E9px80B9d440E9cyk0B9d440E9cyk0B9d440E9cyk0B8a840Eafuk0B8a840East80B7x9g0East80B7x9g0East80B8a840Eafuk0B8a840Eafuk0B8a840East80B7x9g0East80B7x9g0East80B8a840Eafuk0B8a840Eafuk0B8a840Eafuk0B8a840East80F7x6o0Gast80Hct40F7kj40East80B8a840Eafuk0B8a840Eafuk0B8a840East80B7x9g0East80B7x9g0East80B6udg0E|MST7MDT,M3.2.0,M11.1.0",
+  "America/Campo_Grande": "-13108,0,LMT;-14400,0,-04;-10800,1,-03|-t85hvwB99ka7wC9a9c0B9io40C99980B8p65g0C6zuo0Bbs2o0C67zw0Bcjxg0C69uk0Bcjxg0C4ml80B5mf440C49mk0Bhaas0C316k0Bcls40C4ml80Bcls40C66580Bcls40C67zw0B981s40C6u7w0Bbiw40C5rbw0Bd0lg0C5ed80Bcyqs0C5ed80Bdbpg0C64ak0Bcyqs0C64ak0Bcls40C5rbw0Bdbpg0C51ek0Bdbpg0C6h980Bc8tg0C6h980Bc8tg0C64ak0Bc8tg0C6u7w0Bbxpg0C7iak0Bbiw40C6u7w0Bbiw40C7k580Bbiw40C6u7w0Bc8tg0C6h980Bdbpg0C5ed80Bcls40C64ak0Bdfes0C5nmk0Bc8tg0C6h980Bdbpg0C5rbw0Bbvus0C6h980Bcls40C64ak0Bcls40C6h980Bc8tg0C6h980Bc8tg0C6u7w0Bc8tg0C64ak0Bcls40C64ak0Bcls40C6h980Bc8tg0C6h980Bc8tg0C6h980Bc8tg0C6h980Bdbpg0C5ed80B|<-04>4",
+  "America/Cancun": "-20824,0,LMT;-21600,0,CST;-18000,0,EST;-18000,1,CDT;-14400,1,EDT|-p1u7c0Bvb0dk0Cj8d00B6x2wc0Dafuk0B8a840Dafuk0C8a5c0E64ak0D4bms0B8a840Dast80B7x9g0Dast80B9q2s0D7k580B9q2s0Dafuk0B8a840Dafuk0B8a840Dast80B7x9g0Dast80B7x9g0Dast80B7x9g0Dast80B8a840Dafuk0B8a840Dafuk0B8a840Dast80B7x9g0Dast80B7x9g0Dast80B8a840Dafuk0B8a840Dafuk0B51k40C|EST5",
+  "America/Caracas": "-16064,0,LMT;-16060,0,CMT;-16200,0,-0430;-14400,0,-04|-15r0wxsBbjfjzwCrlo83wDmeoxm0C4dps00D|<-04>4",
+  "America/Cayenne": "-12560,0,LMT;-14400,0,-04;-10800,0,-03|-uj7yb4Btcw6r4C|<-03>3",
+  "America/Cayman": "-19532,0,LMT;-18430,0,KMT;-18000,0,EST|-15r0u9gBbiv5teC|EST5",
+  "America/Chicago": "-21036,0,LMT;-21600,0,CST;-18000,1,CDT;-18000,0,EST;-18000,1,CWT;-18000,1,CPT|-18y0m00Bhxltk0Cast80B7x9g0Cast80Bbvus0C776k0B7kas0Cb5rw0B9d440C7k580Bb5xg0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Bb5xg0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Bb5xg0C7k580Bb5xg0C7x3w0Basys0C7x3w0B7x9g0Ddbjw0B8a840C7x3w0Basys0C7x3w0Bb5xg0C7k580Bb5xg0C7x3w0Basys0C7x3w0B6w840E1tz8c0F2dsw0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Bb5xg0C7k580Bb5xg0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B905g0C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B9d440C9cyk0B9d440C9cyk0B3lpg0Cf4d80B64g40Cclmk0B9d440C9px80B905g0C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B905g0C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B8a840Cafuk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B8a840Cafuk0B8a840Cafuk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B8a840Cafuk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B6udg0C|CST6CDT,M3.2.0,M11.1.0",
+  "America/Chihuahua": "-25460,0,LMT;-25200,0,MST;-21600,0,CST;-21600,1,MDT;-18000,1,CDT|-p1u4k0B2u5s00C1si580B8jhg0D7x3w0B9eys0Cxes2s0Eafuk0C8a840Eafuk0C8aaw0Dafuk0B8a840Dast80B7x9g0Dast80B9q2s0D7k580B9q2s0Dafuk0B8a840Dafuk0B8a840Dast80B7x9g0Dast80B7x9g0Dast80B7x9g0Dast80B8a840Dafuk0B8a840Dafuk0B8a840Dast80B7x9g0Dast80B7x9g0Dast80B8a840Dafuk0B8a840Dafuk0B8a840Dafuk0B8a840Dast80B7x9g0Dast80B7x9g0Dast80B8a840Dafuk0B8a840Dafuk0B8a840Dast80B7x9g0Dast80C|CST6",
+  "America/Ciudad_Juarez": "-25556,0,LMT;-25200,0,MST;-21600,0,CST;-21600,1,MDT;-18000,1,CDT|-p1u4k0B2u5s00C1si580B8jhg0D7x3w0B9eys0Cxes2s0Eafuk0C8a840Eafuk0C8aaw0Dafuk0B8a840Dast80B7x9g0Dast80B9q2s0D7k580B9q2s0Dafuk0B8a840Dafuk0B8a840Dast80B7x9g0Dast80B7x9g0Dast80B7x9g0Dast80B8a840Dafuk0B8a840Dafuk0B77c40Dc8nw0B6hes0Dc8nw0B6hes0Dc8nw0B6hes0Dc8nw0B6hes0Dc8nw0B6hes0Dc8nw0B6udg0Dc8nw0B6hes0Dc8nw0B6hes0Dc8nw0B6hes0Dc8nw0B6hes0Dc8nw0B6udg0Dc8nw0B6hes0Dbvp80C1l940B|MST7MDT,M3.2.0,M11.1.0",
+  "America/Costa_Rica": "-20173,0,LMT;-20173,0,SJMT;-21600,0,CST;-18000,1,CDT|-15r0trnBg74lc0Cubtl3nD51ek0Cdoo40D51ek0C5jso40D8drw0Cacas0D2xh80C|CST6",
+  "America/Creston": "-27964,0,LMT;-25200,0,MST;-28800,0,PST|-18vrx38Bh39xv8Cvbus0B|MST7",
+  "America/Cuiaba": "-13460,0,LMT;-14400,0,-04;-10800,1,-03|-t85hm4B99k9y4C9a9c0B9io40C99980B8p65g0C6zuo0Bbs2o0C67zw0Bcjxg0C69uk0Bcjxg0C4ml80B5mf440C49mk0Bhaas0C316k0Bcls40C4ml80Bcls40C66580Bcls40C67zw0B981s40C6u7w0Bbiw40C5rbw0Bd0lg0C5ed80Bcyqs0C5ed80Bdbpg0C64ak0Bcyqs0C64ak0Bcls40C5rbw0Bdbpg0C51ek0Bdbpg0C6h980Bc8tg0C6h980Bc8tg0C64ak0Bc8tg0C6u7w0Bbxpg0C7iak0Bbiw40C6u7w0Bbiw40C7k580Bbiw40C6u7w0Bc8tg0C6h980Bdbpg0C5ed80Bw5hg0C5nmk0Bc8tg0C6h980Bdbpg0C5rbw0Bbvus0C6h980Bcls40C64ak0Bcls40C6h980Bc8tg0C6h980Bc8tg0C6u7w0Bc8tg0C64ak0Bcls40C64ak0Bcls40C6h980Bc8tg0C6h980Bc8tg0C6h980Bc8tg0C6h980Bdbpg0C5ed80B|<-04>4",
+  "America/Curacao": "-16547,0,LMT;-16200,0,-0430;-14400,0,AST|-u7lckdBrlo7qdC|AST4",
+  "America/Danmarkshavn": "-4480,0,LMT;-10800,0,-03;-7200,1,-02;0,0,GMT|-rvusjkBx8nx3kC8zrk0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9q000B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9q000B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B53hk0D|GMT0",
+  "America/Dawson": "-33460,0,LMT;-32400,0,YST;-28800,1,YDT;-28800,1,YWT;-28800,1,YPT;-25200,1,YDDT;-28800,0,PST;-25200,1,PDT;-25200,0,MST|-1079sukB97l62kCa2vw0Basys0C882c0Bbmiwc0D1tz000E2e180Ba7n3w0F9q000B465k00G3e2is0H9cyk0G9d440H9cyk0G9d440H9px80G905g0H9px80G9d440H9cyk0G9d440H9cyk0G9d440H9cyk0G8a840Hafuk0G8a840Hast80G7x9g0Hast80G7x9g0Hast80G8a840Hafuk0G8a840Hafuk0G8a840Hast80G7x9g0Hast80G7x9g0Hast80G8a840Hafuk0G8a840Hafuk0G8a840Hafuk0G8a840Hast80G7x9g0Hast80G7x9g0Hast80G8a840Hafuk0G8a840Hafuk0G8a840Hast80G7x9g0Hast80G7x9g0Hast80G6udg0Hc8nw0G6hes0Hc8nw0G6hes0Hc8nw0G6udg0Hc8nw0G6hes0Hc8nw0G6hes0Hc8nw0G6hes0Hc8nw0G6hes0Hc8nw0G6hes0Hc8nw0G6udg0Hc8nw0G6hes0Hc8nw0G6hes0Hc8nw0G6hes0Hc8nw0G6hes0Hc8ic0I|MST7",
+  "America/Dawson_Creek": "-28856,0,LMT;-28800,0,PST;-25200,1,PDT;-25200,1,PWT;-25200,1,PPT;-25200,0,MST|-18vrwegBhw36ugCa2vw0Bc5jxg0D1tz2s0E2dyg0Btj1g0C7x3w0Basys0C7x3w0Basys0C7x3w0Bb5xg0C7k580Bb5xg0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Bb5xg0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Bb5xg0C7k580Bb5xg0C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B905g0C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B9d440C69uk0F|MST7",
+  "America/Denver": "-25196,0,LMT;-25200,0,MST;-21600,1,MDT;-21600,1,MWT;-21600,1,MPT|-18y0j80Bhxltk0Cast80B7x9g0Cast80B7x9g0Cb5rw0B7kas0C2vmk0Bataw40D1tz5k0E2dvo0Ba7n9g0C9px80B905g0C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B9d440C9cyk0B9d440C9cyk0B3lpg0Cf4d80B64g40Cclmk0B9d440C9px80B905g0C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B905g0C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B8a840Cafuk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B8a840Cafuk0B8a840Cafuk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B8a840Cafuk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B6udg0C|MST7MDT,M3.2.0,M11.1.0",
+  "America/Detroit": "-19931,0,LMT;-21600,0,CST;-18000,0,EST;-14400,1,EWT;-14400,1,EPT;-14400,1,EDT|-xx8dydB5eraudCdyeyk0D1tzb40E2dq40C1c9440F7x3w0C9rlbxoF71s2cC9d440F9cyk0C2cmdg0F9cyk0C3lpg0Ff4d80C9d440F9cyk0C9d440F9px80C905g0F9px80C9d440F9cyk0C9d440F9cyk0C9d440F9cyk0C9d440F9cyk0C9d440F9px80C905g0F9px80C9d440F9cyk0C9d440F9cyk0C9d440F9cyk0C8a840Fafuk0C8a840Fast80C7x9g0Fast80C7x9g0Fast80C8a840Fafuk0C8a840Fafuk0C8a840Fast80C7x9g0Fast80C7x9g0Fast80C8a840Fafuk0C8a840Fafuk0C8a840Fafuk0C8a840Fast80C7x9g0Fast80C7x9g0Fast80C8a840Fafuk0C8a840Fafuk0C8a840Fast80C7x9g0Fast80C7x9g0Fast80C6udg0F|EST5EDT,M3.2.0,M11.1.0",
+  "America/Dominica": "-14736,0,LMT;-14400,0,AST|-uj7wl0B|AST4",
+  "America/Edmonton": "-27232,0,LMT;-25200,0,MST;-21600,1,MDT;-21600,1,MWT;-21600,1,MPT|-x1yazkB629inkCa2vw0B8n6s0C29ek0Bh6lg0C9px80B905g0C7x3w0Bb5xg0C7k580Bb5xg0C7x3w0B9l0g40D1tz5k0E2dvo0Btj1g0C7x3w0Bctzk40C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B905g0C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B905g0C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B8a840Cafuk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B8a840Cafuk0B8a840Cafuk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B8a840Cafuk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B6udg0C|MST7MDT,M3.2.0,M11.1.0",
+  "America/Eirunepe": "-16768,0,LMT;-18000,0,-05;-14400,1,-04;-14400,0,-04|-t85f28B99ka68C9a9c0B9io40C99980B8p65g0C6zuo0Bbs2o0C67zw0Bcjxg0C69uk0Bcjxg0C4ml80B5mf440C49mk0Bhaas0C316k0Bcls40C4ml80Bcls40C66580Bcls40C67zw0B981s40C6u7w0Bbiw40C5rbw0Bd0lg0C5ed80B2yy2s0C6h980B7hg2s0D2t2t80B|<-05>5",
+  "America/El_Salvador": "-21408,0,LMT;-21600,0,CST;-18000,1,CDT|-pkm4tcBymao5cC7k580Bb5xg0C7k580B|CST6",
+  "America/Fort_Nelson": "-29447,0,LMT;-28800,0,PST;-25200,1,PDT;-25200,1,PWT;-25200,1,PPT;-25200,0,MST|-18vrvy1Bhw36e1Ca2vw0Bc5jxg0D1tz2s0E2dyg0Btj1g0C7x3w0Basys0C7x3w0Basys0C7x3w0Bb5xg0C7k580Bb5xg0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Bb5xg0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Bb5xg0C7k580Bb5xg0C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B905g0C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B905g0C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B905g0C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B8a840Cafuk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B8a840Cafuk0B8a840Cafuk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B8a840Cafuk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B6udg0Cc8nw0B6hes0Cc8nw0B6hes0Cc8nw0B6udg0Cc8nw0B6hes0Cc8nw0B6hes0Cc8nw0B6hes0Cc8nw0B6hes0Cc8nw0B6hes0F|MST7",
+  "America/Fortaleza": "-9240,0,LMT;-10800,0,-03;-7200,1,-02|-t85kvcB99kafcC9a9c0B9io40C99980B8p65g0C6zuo0Bbs2o0C67zw0Bcjxg0C69uk0Bcjxg0C4ml80B5mf440C49mk0Bhaas0C316k0Bcls40C4ml80Bcls40C66580Bcls40C67zw0B981s40C6u7w0Bbiw40C5rbw0Bd0lg0C5ed80Bcyqs0C5ed80Bdbpg0C64ak0B514g40C7k580Bbiw40Cpuk0Bid6s0C6h980B|<-03>3",
+  "America/Glace_Bay": "-14388,0,LMT;-14400,0,AST;-10800,1,ADT;-10800,1,AWT;-10800,1,APT|-z94kwcB89fk8cCa2vw0Bc5jxg0D1tzdw0E2dnc0B3y8g40C7x3w0B9pa5g0C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B905g0C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B905g0C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B8a840Cafuk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B8a840Cafuk0B8a840Cafuk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B8a840Cafuk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B6udg0C|AST4ADT,M3.2.0,M11.1.0",
+  "America/Godthab": "-12416,0,LMT;-10800,0,-03;-7200,1,-02;-7200,0,-02;-3600,1,-01|-rvumf4Bx8nqz4C8zrk0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9q000B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9q000B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9q000Casw00B7x6o0Casw00B7x6o0Casw00B7x6o0Cb5uo0B7k800Cb5uo0B7k800Cb5uo0B7x6o0Casw00B7x6o0Casw00B7x6o0Cb5uo0B7k800Cb5uo0B7k800Cb5uo0B7k800Cb5uo0B7x6o0Casw00B7x6o0Casw00B7x6o0Cb5uo0B7k800Cb5uo0B7k800Cb5uo0B7x6o0Casw00B7x6o0Casw00B7x6o0Casw00B7x6o0Cb5uo0B7k800Cb5uo0B7k800Cb5uo0B7x6o0Casw00B7x6o0Casw00B7x6o0Cb5uo0B7k800Cb5uo0B7k800Dj31c0E|<-02>2<-01>,M3.5.0/-1,M10.5.0/0",
+  "America/Goose_Bay": "-14500,0,LMT;-12652,0,NST;-9052,1,NDT;-12600,0,NST;-9000,1,NDT;-9000,1,NWT;-9000,1,NPT;-14400,0,AST;-10800,1,ADT;-7200,1,ADDT|-18vs7h8Bhw35goCa2vw0B8kjbw0DkzjykE7k580Db5xg0E7k580Db5xg0E7k580Dbiw40E776k0Dbiw40E7k580Db5xg0E7k580Db5xg0F1pb260G2dly0Dbiw40E7k580Db5xg0E7k580Db5xg0E7k580Db5xg0E7k580Dbiw40E7k580Dag040E7x3w0Dasys0E7x3w0Dasys0E7x3w0Dasys0E7x3w0Dasys0E7x3w0Db5xg0E7x3w0Dasys0E7x3w0Dasys0E7x3w0Dasys0E7x3w0Dasys0E9px80D9d440E9cyk0D9d440E9cyk0D9d440E9cyk0D9d440E9cyk0D9d440E9px80D6y2s0H22420I9px80H9d440I9cyk0H9d440I9cyk0H9d440I9cyk0H9d440I9cyk0H9d440I9px80H9d440I9cyk0H9d440I9cyk0H9d440I9cyk0H9d440I9cyk0H9d440I9px80H905g0I9px80H9d440I9cyk0H9d440I9cyk0H9d440I9cyk0H9d440I9cyk0H9d440I9px80H905g0I9px80H9d440I9cyk0H9d440I9cyk0H9d440I9cyk0H8a2loIafuk0H8a840Jasqg0H7xc80Iast80H7x9g0Iast80H8a840Iafuk0H8a840Iafuk0H8a840Iast80H7x9g0Iast80H7x9g0Iast80H8a840Iafuk0H8a840Iafuk0H8a840Iafuk0H8a840Iast80H7x9g0Iast80H7x9g0Iast80H8a840Iafuk0H8a840Iafuk0H8a840Iast80H7x9g0Iast80H7x9g0Iast80H6udg0Ic8nw0H6hes0Ic8nw0H6hes0Ic8nw0H6udg0Ic8nw0H6hes0Ic8tecH|AST4ADT,M3.2.0,M11.1.0",
+  "America/Grand_Turk": "-17072,0,LMT;-18430,0,KMT;-18000,0,EST;-14400,1,EDT;-14400,0,AST|-15r0w5sBbiv7pqCz3brw2D9cyk0C9d440D9cyk0C9d440D9cyk0C9d440D9px80C905g0D9px80C9d440D9cyk0C9d440D9cyk0C9d440D9cyk0C8a840Dafuk0C8a840Dast80C7x9g0Dast80C7x9g0Dast80C8a840Dafuk0C8a840Dafuk0C8a840Dast80C7x9g0Dast80C7x9g0Dast80C8a840Dafuk0C8a840Dafuk0C8a840Dafuk0C8a840Dast80C7x9g0Dast80C7x9g0Dast80C8a840Dafuk0C8a840Dafuk0C8a840Dast80C7x9g0Dast80C7x9g0Dast80C6udg0Dc8nw0C6hes0Dc8nw0C6hes0Dc8nw0C6udg0Dc8nw0C6hes0Dc8nw0C6hes0Dc8nw0C6hes0Dc8nw0C6hes0Dc8nw0C6hes0E1kj6o0D|EST5EDT,M3.2.0,M11.1.0",
+  "America/Grenada": "-14820,0,LMT;-14400,0,AST|-uj7wkcB|AST4",
+  "America/Guadeloupe": "-14768,0,LMT;-14400,0,AST|-ukehxsB|AST4",
+  "America/Guatemala": "-21724,0,LMT;-21600,0,CST;-18000,1,CDT|-qqqskkBss0akkC4ofw0B4tidg0C6djw0B3wwas0C8n180B7n5ms0C7x3w0B|CST6",
+  "America/Guayaquil": "-19160,0,LMT;-18840,0,QMT;-18000,0,-05;-14400,1,-04|-15r0ujsBle9mf4Cwb620oD3jp80C|<-05>5",
+  "America/Guyana": "-13959,0,LMT;-14400,0,-04;-13500,0,-0345;-10800,0,-03|-uhmik9B1va8c9Cvj6nb0D8p0jd0B|<-04>4",
+  "America/Halifax": "-15264,0,LMT;-14400,0,AST;-10800,1,ADT;-10800,1,AWT;-10800,1,APT|-z94k80B777go0C9et80Bst9o0Ca2vw0Bssyk0C5rbw0Bcv1g0C69uk0Bc6ys0C6kyk0Bci2s0C67zw0Bci2s0C6w2k0Bbu040C7lzw0Bbu040C66580Bbu040C7lzw0Bbu040C64ak0Bcls40C5v180Bcv1g0C6j3w0Bc6ys0C79180Bb42s0C7lzw0Bb42s0C7yyk0Bbu040C64ak0Bdbpg0C66580Bcls40C5ed80Bbu040C7lzw0Bb42s0C7lzw0Bcjxg0C66580Bbh1g0C7lzw0Bb42s0C7lzw0B6uj00D1tzdw0E2dnc0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Btw040C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Btw040C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0B1cm2s0C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B905g0C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B905g0C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B905g0C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B8a840Cafuk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B8a840Cafuk0B8a840Cafuk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B8a840Cafuk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B6udg0C|AST4ADT,M3.2.0,M11.1.0",
+  "America/Havana": "-19768,0,LMT;-19776,0,HMT;-18000,0,CST;-14400,1,CDT|-15r0u2wBijto08C1icfyoD69uk0C62s040D4ofw0Ce1ms0D51ek0Ce1ms0D4ofw0C1fhs40D4ofw0Ce1ms0D4ofw0C9s9k40D67zw0Ccedg0D6h980C9o840D7yyk0Cb5xg0D7k580Cbvus0D9cyk0C9d440D9cyk0C9d440D9px80C9d440D8a2k0Cag040D8bx80Cae5g0D8drw0Cacas0D9cyk0C9d440D9px80C905g0D9px80C9q2s0D7x3w0C8a840Dast80C7x9g0Dast80Casys0D7x3w0Casys0D7x3w0Casys0D7x3w0Casys0D8a2k0Cag040D8a2k0C7x9g0Dast80C7x9g0Dast80C8a840Dafuk0C8a840Dafuk0C905g0Da2vw0C905g0D9q000C902o0D9q000C902o0D9q000C902o0D9q000C902o0D9q000C9d1c0D9d1c0C9d1c0D9q000C8n400Dasw00C7x6o0Db5uo0C7x6o0Dasw00C7x6o0Dasw00C8a5c0Dafxc0C8a5c0Dafxc0C7x6o0D1cm000C6uao0Dbvs00C779c0Dbitc0C6uao0Dbvs00C779c0Dbvs00C779c0Dc8qo0C779c0D|CST5CDT,M3.2.0/0,M11.1.0/1",
+  "America/Hermosillo": "-26632,0,LMT;-25200,0,MST;-21600,0,CST;-21600,1,MDT|-p1u4k0B2u5s00C1si580B8jhg0D7x3w0B9eys0C591h80Bs5qoc0Dafuk0B8a840Dafuk0B8a840Dafuk0B|MST7",
+  "America/Indiana/Indianapolis": "-20678,0,LMT;-21600,0,CST;-18000,1,CDT;-18000,1,CWT;-18000,1,CPT;-18000,0,EST;-14400,1,EDT|-18y0m00Bhxltk0Cast80B7x9g0Cast80Bbaw840C51ek0B6w840D1tz8c0E2dsw0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Bb5xg0C7k580Bb5xg0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0F19q7w0Basys0F5qonw0G9cyk0F9d440G9cyk0Fihslg0Gast80F6udg0G|EST5EDT,M3.2.0,M11.1.0",
+  "America/Indiana/Knox": "-20790,0,LMT;-21600,0,CST;-18000,1,CDT;-18000,1,CWT;-18000,1,CPT;-18000,0,EST|-18y0m00Bhxltk0Cast80B7x9g0Cast80Bbmtus0D1tz8c0E2dsw0Btj1g0C7x3w0Basys0C7x3w0Basys0C7x3w0Bb5xg0C7k580Bb5xg0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C9px80B9d440C9cyk0B9d440C7x3w0Basys0C7x3w0Basys0C9cyk0B9d440C9px80B9d440C9cyk0B9d440Fs3180B1twas0C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B9d440C9cyk0B9d440C9cyk0B3lpg0Cf4d80B64g40Cclmk0B9d440C9px80B905g0C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B905g0C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B8a840Cafuk0F7j5400Casw00B6udg0C|CST6CDT,M3.2.0,M11.1.0",
+  "America/Indiana/Marengo": "-20723,0,LMT;-21600,0,CST;-18000,1,CDT;-18000,1,CWT;-18000,1,CPT;-18000,0,EST;-14400,1,EDT|-18y0m00Bhxltk0Cast80B7x9g0Cast80Bbmtus0D1tz8c0E2dsw0B2wsas0C7x3w0B1c9440C7x3w0Basys0C7x3w0Bb5xg0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Bb5xg0F465h80G9cyk0F9d440G9cyk0F9d440G9px80F9d440G9cyk0F9d440G9cyk0F3lpg0Cf4g00F64dc0Gclmk0Ffvt9g0Gast80F6udg0G|EST5EDT,M3.2.0,M11.1.0",
+  "America/Indiana/Petersburg": "-20947,0,LMT;-21600,0,CST;-18000,1,CDT;-18000,1,CWT;-18000,1,CPT;-18000,0,EST|-18y0m00Bhxltk0Cast80B7x9g0Cast80Bbmtus0D1tz8c0E2dsw0B501ek0C7kas0Bb5xg0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Bb5xg0C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440Fsfzw0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B9d440C9cyk0B9d440C9cyk0B3lpg0Cf4d80B64g40Cclmk0B9d440C9px80B905g0C9px80Feu02o0Casw00B6udg0Cc8nw0F|EST5EDT,M3.2.0,M11.1.0",
+  "America/Indiana/Tell_City": "-20823,0,LMT;-21600,0,CST;-18000,1,CDT;-18000,1,CWT;-18000,1,CPT;-18000,0,EST;-14400,1,EDT|-18y0m00Bhxltk0Cast80B7x9g0Cast80Bbmtus0D1tz8c0E2dsw0B501ek0C7kas0Bb5xg0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Bb5xg0C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440F1tw580B9d440C9cyk0B9d440G9cvs0F9d440G9cyk0Fihslg0Casw00B6udg0C|CST6CDT,M3.2.0,M11.1.0",
+  "America/Indiana/Vevay": "-20416,0,LMT;-21600,0,CST;-18000,1,CDT;-18000,1,CWT;-18000,1,CPT;-18000,0,EST;-14400,1,EDT|-18y0m00Bhxltk0Cast80B7x9g0Cast80Bbmtus0D1tz8c0E2dsw0B4gyis0F7txx80G9cyk0F9d440G9cyk0F9d440G9px80F9d440G9cyk0Fhfzhg0Gast80F6udg0G|EST5EDT,M3.2.0,M11.1.0",
+  "America/Indiana/Vincennes": "-21007,0,LMT;-21600,0,CST;-18000,1,CDT;-18000,1,CWT;-18000,1,CPT;-18000,0,EST;-14400,1,EDT|-18y0m00Bhxltk0Cast80B7x9g0Cast80Bbmtus0D1tz8c0E2dsw0Basys0C7x3w0B3fidg0C7x3w0Basys0C7x3w0Bb5rw0C7kas0Bb5xg0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C9px80B9d440C7k580Bb5xg0C9cyk0B9d440C9cyk0B9d440F2lz980G9cyk0F9d440G9cyk0Fihslg0Casw00B6udg0Cc8nw0F|EST5EDT,M3.2.0,M11.1.0",
+  "America/Indiana/Winamac": "-20785,0,LMT;-21600,0,CST;-18000,1,CDT;-18000,1,CWT;-18000,1,CPT;-18000,0,EST;-14400,1,EDT|-18y0m00Bhxltk0Cast80B7x9g0Cast80Bbmtus0D1tz8c0E2dsw0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Bb5xg0C7k580Bb5xg0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C9px80B9d440C9cyk0B9d440C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Bb5xg0F465h80G9cyk0F9d440G9cyk0Fihslg0Casw00B6udg0G|EST5EDT,M3.2.0,M11.1.0",
+  "America/Inuvik": "0,0,-00;-28800,0,PST;-25200,1,PDT;-21600,1,MDT;-25200,0,MST|-8ve5c0Ba34zs0C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B905g0C9px80B9d440C9cyk0B9d440D9cvs0E9d440D9cyk0E9d440D9cyk0E9d440D9px80E905g0D9px80E9d440D9cyk0E9d440D9cyk0E9d440D9cyk0E8a840Dafuk0E8a840Dast80E7x9g0Dast80E7x9g0Dast80E8a840Dafuk0E8a840Dafuk0E8a840Dast80E7x9g0Dast80E7x9g0Dast80E8a840Dafuk0E8a840Dafuk0E8a840Dafuk0E8a840Dast80E7x9g0Dast80E7x9g0Dast80E8a840Dafuk0E8a840Dafuk0E8a840Dast80E7x9g0Dast80E7x9g0Dast80E6udg0D|MST7MDT,M3.2.0,M11.1.0",
+  "America/Iqaluit": "0,0,-00;-14400,1,EWT;-14400,1,EPT;-18000,0,EST;-14400,1,EDT;-21600,0,CST;-18000,1,CDT|-eb6ao0B1l3h80C2dq40Ddvfpg0E9cyk0D9d440E9cyk0D9d440E9cyk0D9d440E9cyk0D9d440E9px80D905g0E9px80D9d440E9cyk0D9d440E9cyk0D9d440E9cyk0D9d440E9cyk0D9d440E9px80D905g0E9px80D9d440E9cyk0D9d440E9cyk0D9d440E9cyk0D8a840Eafuk0D8a840East80D7x9g0East80D7x9g0East80D8a840Eafuk0D8a840Eafuk0D8a840East80D7x9g0East80D7x9g0East80D8a840Eafuk0D8a840Eafuk0D8a840Eafuk0D8a840East80F7xc80Gast80D7x6o0East80D8a840Eafuk0D8a840Eafuk0D8a840East80D7x9g0East80D7x9g0East80D6udg0E|EST5EDT,M3.2.0,M11.1.0",
+  "America/Jamaica": "-18430,0,LMT;-18430,0,KMT;-18000,0,EST;-14400,1,EDT|-15r0v42Bbiv6o0Cwbl182Df4d80C64g40Dclmk0C9d440D9px80C905g0D9px80C9d440D9cyk0C9d440D9cyk0C9d440D9cyk0C9d440D9cyk0C9d440D9px80C905g0D9px80C|EST5",
+  "America/Juneau": "54139,0,LMT;-32261,0,LMT;-28800,0,PST;-25200,1,PWT;-25200,1,PPT;-25200,1,PDT;-28800,1,YDT;-32400,0,YST;-32400,0,AKST;-28800,1,AKDT|-1hc7qjzBh4yu44Cln707vD1tz2s0E2dyg0Ccawis0F9cyk0C9d440F9cyk0C9d440F9px80C9d440F9cyk0C9d440F9cyk0C3lpg0Ff4d80C64g40Fclmk0C9d440F9px80C905g0F9px80C9d440F9cyk0C9d440F9cyk0C9d440G9d1c0C9d1c0F9cyk0C9d440F9px80C905g0F9px80H1leo0I7rs80J9cyk0I9d440J9cyk0I9d440J9cyk0I8a840Jafuk0I8a840Jast80I7x9g0Jast80I7x9g0Jast80I8a840Jafuk0I8a840Jafuk0I8a840Jast80I7x9g0Jast80I7x9g0Jast80I8a840Jafuk0I8a840Jafuk0I8a840Jafuk0I8a840Jast80I7x9g0Jast80I7x9g0Jast80I8a840Jafuk0I8a840Jafuk0I8a840Jast80I7x9g0Jast80I7x9g0Jast80I6udg0J|AKST9AKDT,M3.2.0,M11.1.0",
+  "America/Kentucky/Louisville": "-20582,0,LMT;-21600,0,CST;-18000,1,CDT;-18000,1,CWT;-18000,1,CPT;-18000,0,EST;-14400,1,EDT|-18y0m00Bhxltk0Cast80B7x9g0Cast80Bsg5g0C6bp80Ba98o40C7x3w0B6w840D1tz8c0E2dsw0Bast9oC1sw2cB21gis0C7k580Bb5xg0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Bb5xg0C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B9d440C4bh80F3j3xc0G9cyk0F9d440G9cyk0F9d440G9cyk0F9d440G9px80F9d440G9cyk0F9d440G9cyk0F3lpg0Cf4g00F64dc0Gclmk0F9d440G9px80F905g0G9px80F9d440G9cyk0F9d440G9cyk0F9d440G9cyk0F9d440G9cyk0F9d440G9px80F905g0G9px80F9d440G9cyk0F9d440G9cyk0F9d440G9cyk0F8a840Gafuk0F8a840Gast80F7x9g0Gast80F7x9g0Gast80F8a840Gafuk0F8a840Gafuk0F8a840Gast80F7x9g0Gast80F7x9g0Gast80F8a840Gafuk0F8a840Gafuk0F8a840Gafuk0F8a840Gast80F7x9g0Gast80F7x9g0Gast80F8a840Gafuk0F8a840Gafuk0F8a840Gast80F7x9g0Gast80F7x9g0Gast80F6udg0G|EST5EDT,M3.2.0,M11.1.0",
+  "America/Kentucky/Monticello": "-20364,0,LMT;-21600,0,CST;-18000,1,CDT;-18000,1,CWT;-18000,1,CPT;-18000,0,EST;-14400,1,EDT|-18y0m00Bhxltk0Cast80B7x9g0Cast80Bbmtus0D1tz8c0E2dsw0Bbs6g40C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B9d440C9cyk0B9d440C9cyk0B3lpg0Cf4d80B64g40Cclmk0B9d440C9px80B905g0C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B905g0C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B8a840Cafuk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B8a840Cafuk0B8a840Cafuk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80F7x6o0Gast80F8a840Gafuk0F8a840Gafuk0F8a840Gast80F7x9g0Gast80F7x9g0Gast80F6udg0G|EST5EDT,M3.2.0,M11.1.0",
+  "America/La_Paz": "-16356,0,LMT;-16356,0,CMT;-12756,1,BST;-14400,0,-04|-15r0wpoBlt1400C84ik0D|<-04>4",
+  "America/Lima": "-18492,0,LMT;-18516,0,LMT;-18000,0,-05;-14400,1,-04|-15r0v2cB9ov9coCfcxjloD4ml80C93us0D9cyk0C9d440D9cyk0Cnw16s0D4ml80Ce5c40D4ml80C1fr1g0D4ml80C1yiys0D4ml80C|<-05>5",
+  "America/Los_Angeles": "-28378,0,LMT;-28800,0,PST;-25200,1,PDT;-25200,1,PWT;-25200,1,PPT|-18y0gg0Bhxltk0Cast80B7x9g0Cast80Bbmtus0D1tz2s0E2dyg0B1a3c5oCf2iicBowao0C7k800Bb5uo0C7x6o0Basw00C7x6o0Basw00C7x6o0Basw00C7x6o0Basw00C7x6o0Bb5uo0C7x6o0Basw00C7x6o0Basw00C7x6o0Basw00C7x6o0Basw00C7x6o0Bb5uo0C7k800Bb5uo0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9q000B902o0C9q000B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B9d440C9cyk0B9d440C9cyk0B3lpg0Cf4d80B64g40Cclmk0B9d440C9px80B905g0C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B905g0C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B8a840Cafuk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B8a840Cafuk0B8a840Cafuk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B8a840Cafuk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B6udg0C|PST8PDT,M3.2.0,M11.1.0",
+  "America/Maceio": "-8572,0,LMT;-10800,0,-03;-7200,1,-02|-t85ldwB99kaxwC9a9c0B9io40C99980B8p65g0C6zuo0Bbs2o0C67zw0Bcjxg0C69uk0Bcjxg0C4ml80B5mf440C49mk0Bhaas0C316k0Bcls40C4ml80Bcls40C66580Bcls40C67zw0B981s40C6u7w0Bbiw40C5rbw0Bd0lg0C5ed80Bcyqs0C5ed80Bdbpg0C64ak0B2yl440C64ak0B1wf1g0C7k580Bbiw40Cpuk0Bid6s0C6h980B|<-03>3",
+  "America/Managua": "-20708,0,LMT;-20712,0,MMT;-21600,0,CST;-18000,0,EST;-18000,1,CDT|-15r0tcsBn7jmo4Cka1i0oDxqqk0C24p6s0E53980Cdmtg0E53980C60itw0Ddq240C53es0D235h80C4beis0E8zzw0Cat4c0E7x140C|CST6",
+  "America/Manaus": "-14404,0,LMT;-14400,0,-04;-10800,1,-03|-t85gvwB99k97wC9a9c0B9io40C99980B8p65g0C6zuo0Bbs2o0C67zw0Bcjxg0C69uk0Bcjxg0C4ml80B5mf440C49mk0Bhaas0C316k0Bcls40C4ml80Bcls40C66580Bcls40C67zw0B981s40C6u7w0Bbiw40C5rbw0Bd0lg0C5ed80B2yy2s0C6h980B|<-04>4",
+  "America/Martinique": "-14660,0,LMT;-14660,0,FFMT;-14400,0,AST;-10800,1,ADT|-15r0y0sBb4o2o0Czz5x4sD8zzw0C|AST4",
+  "America/Matamoros": "-23400,0,LMT;-21600,0,CST;-18000,1,CDT|-p1u7c0Bykt480Cast80B3vppg0Cafuk0B8a840Cafuk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B9q2s0C7k580B9q2s0Cafuk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B7x9g0Cast80B8a840Cafuk0B8a840Cafuk0B77c40C|CST6CDT,M3.2.0,M11.1.0",
+  "America/Mazatlan": "-25540,0,LMT;-25200,0,MST;-21600,0,CST;-21600,1,MDT|-p1u4k0B2u5s00C1si580B8jhg0D7x3w0B9eys0C591h80Bs5qoc0Dafuk0B8a840Dafuk0B8a840Dafuk0B8a840Dast80B7x9g0Dast80B9q2s0D7k580B9q2s0Dafuk0B8a840Dafuk0B8a840Dast80B7x9g0Dast80B7x9g0Dast80B7x9g0Dast80B8a840Dafuk0B8a840Dafuk0B8a840Dast80B7x9g0Dast80B7x9g0Dast80B8a840Dafuk0B8a840Dafuk0B8a840Dafuk0B8a840Dast80B7x9g0Dast80B7x9g0Dast80B8a840Dafuk0B8a840Dafuk0B8a840Dast80B7x9g0Dast80B|MST7",
+  "America/Menominee": "-21027,0,LMT;-21600,0,CST;-18000,1,CDT;-18000,1,CWT;-18000,1,CPT;-18000,0,EST|-17zjvrxBgz53bxCast80B7x9g0Cast80Bbmtus0D1tz8c0E2dsw0Basys0C7x3w0Ba7n9g0C9px80B1at9g0F2396k0C9d1c0B3lpg0Cf4d80B64g40Cclmk0B9d440C9px80B905g0C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B905g0C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B8a840Cafuk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B8a840Cafuk0B8a840Cafuk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B8a840Cafuk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B6udg0C|CST6CDT,M3.2.0,M11.1.0",
+  "America/Merida": "-21508,0,LMT;-21600,0,CST;-18000,0,EST;-18000,1,CDT|-p1u7c0Bvb0dk0Cfzuk0B70bes0Dafuk0B8a840Dafuk0B8a840Dafuk0B8a840Dast80B7x9g0Dast80B9q2s0D7k580B9q2s0Dafuk0B8a840Dafuk0B8a840Dast80B7x9g0Dast80B7x9g0Dast80B7x9g0Dast80B8a840Dafuk0B8a840Dafuk0B8a840Dast80B7x9g0Dast80B7x9g0Dast80B8a840Dafuk0B8a840Dafuk0B8a840Dafuk0B8a840Dast80B7x9g0Dast80B7x9g0Dast80B8a840Dafuk0B8a840Dafuk0B8a840Dast80B7x9g0Dast80B|CST6",
+  "America/Metlakatla": "54822,0,LMT;-31578,0,LMT;-28800,0,PST;-25200,1,PWT;-25200,1,PPT;-25200,1,PDT;-32400,0,AKST;-28800,1,AKDT|-1hc7qjzBh4ytl5Cln70quD1tz2s0E2dyg0Ccawis0F9cyk0C9d440F9cyk0C9d440F9px80C9d440F9cyk0C9d440F9cyk0C3lpg0Ff4d80C64g40Fclmk0C9d440F9px80C905g0F9px80C9d440F9cyk0C9d440F9cyk0C9d440F9cyk0C9d440F9cyk0C9d440F9px80C905g0F9px80Cgpc840G6udg0Hc8nw0G6hes0Hc8nw0G6hes0Hc8nw0C3ylc0G|AKST9AKDT,M3.2.0,M11.1.0",
+  "America/Mexico_City": "-23796,0,LMT;-25200,0,MST;-21600,0,CST;-21600,1,MDT;-18000,1,CDT;-18000,1,CWT|-p1u4k0B2u5s00C1si580B8jhg0D7x3w0B9eys0C3knek0E776k0Crf440E5t6k0C1evk40F71mk0C30p1g0E8n180Cnufxo0Eafuk0C8a840Eafuk0C8a840Eafuk0C8a840East80C7x9g0East80C9q2s0E7k580C9q2s0Eafuk0C8a840Eafuk0C8a840East80C7x9g0East80C7x9g0East80C7x9g0East80C8a840Eafuk0C8a840Eafuk0C8a840East80C7x9g0East80C7x9g0East80C8a840Eafuk0C8a840Eafuk0C8a840Eafuk0C8a840East80C7x9g0East80C7x9g0East80C8a840Eafuk0C8a840Eafuk0C8a840East80C7x9g0East80C|CST6",
+  "America/Miquelon": "-13480,0,LMT;-14400,0,AST;-10800,0,-03;-7200,1,-02|-uk1k9kBzy4wpkC3m59g0Dafuk0C8a840Dast80C7x9g0Dast80C7x9g0Dast80C8a840Dafuk0C8a840Dafuk0C8a840Dast80C7x9g0Dast80C7x9g0Dast80C8a840Dafuk0C8a840Dafuk0C8a840Dafuk0C8a840Dast80C7x9g0Dast80C7x9g0Dast80C8a840Dafuk0C8a840Dafuk0C8a840Dast80C7x9g0Dast80C7x9g0Dast80C6udg0D|<-03>3<-02>,M3.2.0,M11.1.0",
+  "America/Moncton": "-15548,0,LMT;-18000,0,EST;-14400,0,AST;-10800,1,ADT;-10800,1,AWT;-10800,1,APT|-18wys04B9nu9w4C89fhg0Da2vw0C7mqqo0D4ofw0Ce1ms0D4ofw0Ce1ms0D4ofw0Ce1ms0D4ofw0Ce1ms0D4ofw0Ce1ms0D4ofw0Cdmtg0D64ak0Ccao40D6fek0Cbkqs0D7iak0C6y5k0E1tzdw0F2dnc0Casys0D7x3w0Casys0D7x3w0Casys0D7x3w0Casys0D7x3w0Cb5xg0D7k580Cb5xg0D7x3w0Casys0D7x3w0Casys0D7x3w0Casys0D7x3w0Casys0D7x3w0Cb5xg0D7x3w0Casys0D9cyk0C9d440D9cyk0C9d440D9cyk0C9d440D9px80C9d440D9cyk0C9d440D9cyk0C9d440D9cyk0C9d440D9cyk0C9d440D9px80C905g0D9px80C9d440D9cyk0C9d440D9cyk0C9d440D9cyk0C9d440D9cyk0C9d440D9px80C9d440D9cyk0Cs36s0D9cyk0C9d440D9cyk0C9d440D9px80C905g0D9px80C9d440D9cyk0C9d440D9cyk0C9d440D9cyk0C9d440D9cyk0C9d440D9px80C905g0D9px80C9d440D9cyk0C9d440D9cyk0C9d440D9cyk0C8a840Dafuk0C8a840Dast80C7x9g0Dast80C7x9g0Dast80C8a840Dafuk0C8a840Dafuk0C8a2loDast80C7x9g0Dast80C7x9g0Dast80C8a840Dafuk0C8a840Dafuk0C8a840Dafuk0C8a840Dast80C7x9g0Dast80C7x9g0Dast80C8a840Dafuk0C8a840Dafuk0C8a840Dast80C7x9g0Dast80C7x9g0Dast80C6uiycD|AST4ADT,M3.2.0,M11.1.0",
+  "America/Monterrey": "-24076,0,LMT;-25200,0,MST;-21600,0,CST;-21600,1,MDT;-18000,1,CDT|-p1u7c0B2u5us0C1si580B8jhg0D7x3w0B9eys0Ct89k40East80C3vppg0Eafuk0C8a840Eafuk0C8a840Eafuk0C8a840East80C7x9g0East80C9q2s0E7k580C9q2s0Eafuk0C8a840Eafuk0C8a840East80C7x9g0East80C7x9g0East80C7x9g0East80C8a840Eafuk0C8a840Eafuk0C8a840East80C7x9g0East80C7x9g0East80C8a840Eafuk0C8a840Eafuk0C8a840Eafuk0C8a840East80C7x9g0East80C7x9g0East80C8a840Eafuk0C8a840Eafuk0C8a840East80C7x9g0East80C|CST6",
+  "America/Montevideo": "-13491,0,LMT;-13491,0,MMT;-14400,0,-04;-10800,1,-03;-12600,0,-0330;-9000,1,-0230;-10800,0,-03;-7200,1,-02;-5400,1,-0130|-w4mll9B67elc0C1s74p9D9et80E9exe0D9czy0E9exe0D9czy0E3ydyq0D7x5a0Easxe0D7x5a0Easxe0D7x5a0Easxe0D7x5a0Eb5w20D7k6m0Eb5w20D7k6m0E9q1e0D9czy0Easxe0D7x5a0E6do20Dppvy0F4mmm0G8g9qq0F901a0G38pe0H2inw0G2nf9g0H8zzw0G1e3s40F9o3y0Gq8he0H2kik0Gyxhg0H4bh80Gs36s0I2vl60F905g0G5rg20H51ek0Gweqs0H3yik0Ge1ms0H4ofw0Gerk40H3yik0G2vs40Hgk7w0G41iys0H3wnw0Gerk40H4bh80Gc8tg0H64ak0Gc8tg0H6u7w0Gc8tg0H6h980Gbvus0H6u7w0G614qs0H9q2s0Ga31g0H7x3w0Gag040H8a2k0Gasys0H7x3w0Gasys0H7x3w0Gasys0H8a2k0Gag040H8a2k0Gag040H8a2k0Gasys0H7x3w0Gasys0H7x3w0Gasys0H7x3w0G|<-03>3",
+  "America/Montserrat": "-14932,0,LMT;-14400,0,AST|-uj7wfkB|AST4",
+  "America/Nassau": "-18570,0,LMT;-18000,0,EST;-14400,1,EWT;-14400,1,EPT;-14400,1,EDT|-u6m4c6Bfqrow6C1e5h80B1lhg0Ca0nc0D3awk0B9o00c0E9cyk0B9d440E9px80B905g0E9px80B9d440E9cyk0B9d440E9cyk0B9d440E9cyk0B9d440E9cyk0B9d440E9px80B9d440E9cyk0B9d440E9cyk0B9d440E9cyk0B9d440E9cyk0B9d440E9px80B905g0E9px80B9d440E9cyk0B9d440E9cyk0B9d440E9cyk0B9d440E9cyk0B9d440E9px80B905g0E9px80B9d440E9cyk0B9d440E9cyk0B9d440E9cyk0B8a840Eafuk0B8a840East80B7x9g0East80B7x9g0East80B8a840Eafuk0B8a840Eafuk0B8a840East80B7x9g0East80B7x9g0East80B8a840Eafuk0B8a840Eafuk0B8a840Eafuk0B8a840East80B7x9g0East80B7x9g0East80B8a840Eafuk0B8a840Eafuk0B8a840East80B7x9g0East80B7x9g0East80B6udg0E|EST5EDT,M3.2.0,M11.1.0",
+  "America/New_York": "-17762,0,LMT;-18000,0,EST;-14400,1,EDT;-14400,1,EWT;-14400,1,EPT|-18y0os0Bhxltk0Cast80B7x9g0Cast80B7x9g0Cb5rw0B905g0C7x3w0Bb5xg0C7k580Bb5xg0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Bb5xg0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Bb5xg0C7k580Bb5xg0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Bb5xg0C7k580Bb5xg0C7x3w0Basys0C7x3w0B6w840D1tzb40E2dq40Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Bb5xg0C7k580Bb5xg0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B905g0C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B9d440C9cyk0B9d440C9cyk0B3lpg0Cf4d80B64g40Cclmk0B9d440C9px80B905g0C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B905g0C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B8a840Cafuk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B8a840Cafuk0B8a840Cafuk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B8a840Cafuk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B6udg0C|EST5EDT,M3.2.0,M11.1.0",
+  "America/Nome": "46702,0,LMT;-39698,0,LMT;-39600,0,NST;-36000,1,NWT;-36000,1,NPT;-39600,0,BST;-36000,1,BDT;-32400,0,YST;-32400,0,AKST;-28800,1,AKDT|-1hc7qjzBh4yzupCln72taD1tyug0E2e6s0Cb7yik0F12y080G9cyk0F9d440G9cyk0F9d440G9px80F9d440G9cyk0F9d440G9cyk0F3lpg0Gf4d80F64g40Gclmk0F9d440G9px80F905g0G9px80F9d440G9cyk0F9d440G9cyk0F9d440G9cyk0F9d440G9cyk0F9d440G9px80F905g0G9px80H1l6c0I7rs80J9cyk0I9d440J9cyk0I9d440J9cyk0I8a840Jafuk0I8a840Jast80I7x9g0Jast80I7x9g0Jast80I8a840Jafuk0I8a840Jafuk0I8a840Jast80I7x9g0Jast80I7x9g0Jast80I8a840Jafuk0I8a840Jafuk0I8a840Jafuk0I8a840Jast80I7x9g0Jast80I7x9g0Jast80I8a840Jafuk0I8a840Jafuk0I8a840Jast80I7x9g0Jast80I7x9g0Jast80I6udg0J|AKST9AKDT,M3.2.0,M11.1.0",
+  "America/Noronha": "-7780,0,LMT;-7200,0,-02;-3600,1,-01|-t85lzwB99k8rwC9a9c0B9io40C99980B8p65g0C6zuo0Bbs2o0C67zw0Bcjxg0C69uk0Bcjxg0C4ml80B5mf440C49mk0Bhaas0C316k0Bcls40C4ml80Bcls40C66580Bcls40C67zw0B981s40C6u7w0Bbiw40C5rbw0Bd0lg0C5ed80Bcyqs0C5ed80Bdbpg0C64ak0B514g40C7k580Bbiw40Ccvw0Biq5g0C6h980B|<-02>2",
+  "America/North_Dakota/Beulah": "-24427,0,LMT;-25200,0,MST;-21600,1,MDT;-21600,1,MWT;-21600,1,MPT;-21600,0,CST|-18y0j80Bhxltk0Cast80B7x9g0Cast80Bbmtus0D1tz5k0E2dvo0Bb9gdg0C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B9d440C9cyk0B9d440C9cyk0B3lpg0Cf4d80B64g40Cclmk0B9d440C9px80B905g0C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B905g0C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B8a840Cafuk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B8a840Cafuk0B8a840Cafuk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B8a840Cafuk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B6udg0Cc8nw0B6hes0Cc8nw0B6hes0Cc8nw0B6udg0Cc8nw0F|CST6CDT,M3.2.0,M11.1.0",
+  "America/North_Dakota/Center": "-24312,0,LMT;-25200,0,MST;-21600,1,MDT;-21600,1,MWT;-21600,1,MPT;-21600,0,CST;-18000,1,CDT|-18y0j80Bhxltk0Cast80B7x9g0Cast80Bbmtus0D1tz5k0E2dvo0Bb9gdg0C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B9d440C9cyk0B9d440C9cyk0B3lpg0Cf4d80B64g40Cclmk0B9d440C9px80B905g0C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B905g0C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B8a840Cafuk0B8a840Cafuk0F8a5c0Gast80F7x9g0Gast80F7x9g0Gast80F8a840Gafuk0F8a840Gafuk0F8a840Gafuk0F8a840Gast80F7x9g0Gast80F7x9g0Gast80F8a840Gafuk0F8a840Gafuk0F8a840Gast80F7x9g0Gast80F7x9g0Gast80F6udg0G|CST6CDT,M3.2.0,M11.1.0",
+  "America/North_Dakota/New_Salem": "-24339,0,LMT;-25200,0,MST;-21600,1,MDT;-21600,1,MWT;-21600,1,MPT;-21600,0,CST;-18000,1,CDT|-18y0j80Bhxltk0Cast80B7x9g0Cast80Bbmtus0D1tz5k0E2dvo0Bb9gdg0C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B9d440C9cyk0B9d440C9cyk0B3lpg0Cf4d80B64g40Cclmk0B9d440C9px80B905g0C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B905g0C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B8a840Cafuk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B8a840Cafuk0B8a840Cafuk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B8a840Cafuk0B8a840Cafuk0F8a5c0Gast80F7x9g0Gast80F7x9g0Gast80F6udg0G|CST6CDT,M3.2.0,M11.1.0",
+  "America/Ojinaga": "-25060,0,LMT;-25200,0,MST;-21600,0,CST;-21600,1,MDT;-18000,1,CDT|-p1u4k0B2u5s00C1si580B8jhg0D7x3w0B9eys0Cxes2s0Eafuk0C8a840Eafuk0C8aaw0Dafuk0B8a840Dast80B7x9g0Dast80B9q2s0D7k580B9q2s0Dafuk0B8a840Dafuk0B8a840Dast80B7x9g0Dast80B7x9g0Dast80B7x9g0Dast80B8a840Dafuk0B8a840Dafuk0B77c40Dc8nw0B6hes0Dc8nw0B6hes0Dc8nw0B6hes0Dc8nw0B6hes0Dc8nw0B6hes0Dc8nw0B6udg0Dc8nw0B6hes0Dc8nw0B6hes0Dc8nw0B6hes0Dc8nw0B6hes0Dc8nw0B6udg0Dc8nw0B6hes0Dbvp80C6uao0E|CST6CDT,M3.2.0,M11.1.0",
+  "America/Panama": "-19088,0,LMT;-19176,0,CMT;-18000,0,EST|-15r0ulsB9jvmqgC|EST5",
+  "America/Paramaribo": "-13240,0,LMT;-13252,0,PMT;-13236,0,PMT;-12600,0,-0330;-10800,0,-03|-usj4g8Bcixc0cC5lydbkDkcrm6cE|<-03>3",
+  "America/Phoenix": "-26898,0,LMT;-25200,0,MST;-21600,1,MDT;-21600,1,MWT|-18y0j80Bhxltk0Cast80B7x9g0Cast80Bbmtus0DzjedoB4olg0D9et80Bbs6lmcC9cyk0B|MST7",
+  "America/Port-au-Prince": "-17360,0,LMT;-17340,0,PPMT;-18000,0,EST;-14400,1,EDT|-15r0vxsBe4gmngCylcf6cD8zzw0C9d440D9cyk0C9d440D9cyk0C9d440D9cyk0C9d440D9cyk0C8aaw0Dasw00C7x6o0Dasw00C7x6o0Dasw00C8a5c0Dafxc0C8a5c0Dafxc0C8a5c0Dasw00C7x6o0Dasw00C7x6o0Dasw00C8a5c0Dafxc0C8a5c0Dafxc0C3vpjw0Dast80C7x9g0Dast80C2stv00Dc8nw0C6hes0Dc8nw0C6hes0Dc8nw0C6hes0Dc8nw0Cpkg40D|EST5EDT,M3.2.0,M11.1.0",
+  "America/Port_of_Spain": "-14764,0,LMT;-14400,0,AST|-u6m79wB|AST4",
+  "America/Porto_Velho": "-15336,0,LMT;-14400,0,-04;-10800,1,-03|-t85g60B99k8i0C9a9c0B9io40C99980B8p65g0C6zuo0Bbs2o0C67zw0Bcjxg0C69uk0Bcjxg0C4ml80B5mf440C49mk0Bhaas0C316k0Bcls40C4ml80Bcls40C66580Bcls40C67zw0B981s40C6u7w0Bbiw40C5rbw0Bd0lg0C5ed80B|<-04>4",
+  "America/Puerto_Rico": "-15865,0,LMT;-14400,0,AST;-10800,1,AWT;-10800,1,APT|-10xhp3bBmhp1jbC1ppu40D2dnc0B|AST4",
+  "America/Punta_Arenas": "-17020,0,LMT;-16965,0,SMT;-18000,0,-05;-14400,0,-04;-14400,1,-04;-10800,1,-03;-10800,0,-03|-15r0w78Bag6lahC3dlssrB157b79Df4e0rB49hzb9Eaye0rC7ves0Eawik0C7ves0Eawik0C7ves0Eawik0C7ves0Eayd80C7ves0D534ik0C351g0D24lbw0Eb25c0C2mg00Db73400F7k580Dc8tg0F6h980Da31g0F7x3w0Dasys0F7x3w0Db5xg0F7k580Dag040F8a2k0Db5xg0F7k580Db5xg0F7x3w0Dasys0F7x3w0Dasys0F7x3w0Db5xg0F7k580Db5xg0F7k580Db5xg0F7x3w0Dasys0F7x3w0Dasys0F7x3w0Dasys0F7x3w0Db5xg0F7k580Db5xg0F7k580Db5xg0F9cyk0D9d440F7x3w0Dasys0F7x3w0Db5xg0F7k580D9q2s0F8zzw0Db5xg0F7x3w0Dasys0F7x3w0Dasys0F7x3w0Dasys0F7x3w0Db5xg0F7k580Db5xg0F8n180Da31g0F7x3w0Da31g0F9px80D9q2s0F7x3w0Db5xg0F7k580Db5xg0F7k580Db5xg0F7k580Db5xg0F7x3w0Dasys0F7x3w0Dasys0F7x3w0Db5xg0F7k580Db5xg0F8n180Da31g0F7x3w0Dasys0F8zzw0D9q2s0Fast80D5eis0Fcyl80D6hes0Fc8nw0D6udg0Fbvp80D6udg0Fvonw0D4olg0F5rbw0G|<-03>3",
+  "America/Rankin_Inlet": "0,0,-00;-21600,0,CST;-18000,1,CDT;-18000,0,EST|-6s8lc0B7zza80C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B905g0C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B905g0C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B8a840Cafuk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B8a840Cafuk0B8a840Cafuk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80D7x9g0Cast80B8a840Cafuk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B6udg0C|CST6CDT,M3.2.0,M11.1.0",
+  "America/Recife": "-8376,0,LMT;-10800,0,-03;-7200,1,-02|-t85ljcB99kb3cC9a9c0B9io40C99980B8p65g0C6zuo0Bbs2o0C67zw0Bcjxg0C69uk0Bcjxg0C4ml80B5mf440C49mk0Bhaas0C316k0Bcls40C4ml80Bcls40C66580Bcls40C67zw0B981s40C6u7w0Bbiw40C5rbw0Bd0lg0C5ed80Bcyqs0C5ed80Bdbpg0C64ak0B514g40C7k580Bbiw40Ccvw0Biq5g0C6h980B|<-03>3",
+  "America/Regina": "-25116,0,LMT;-25200,0,MST;-21600,1,MDT;-21600,1,MWT;-21600,1,MPT;-21600,0,CST|-xkq9ycB6l1hmcCa2vw0B60enw0C7x3w0Basys0C7x3w0Basys0C7x3w0Bb5xg0C7k580Bb5xg0C7x3w0B1b6840C9cyk0B9d440C8zzw0B9q2s0C9cyk0B9q2s0C9cyk0B9d440C9cyk0B66gc0D1tz5k0E2dvo0Ba31g0C9cyk0Ba31g0C7x3w0Basys0C7x3w0Basys0C7x3w0Bb5xg0C7k580Bb5xg0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Bb5xg0C7x3w0Basys0C7x3w0Btj1g0C9cyk0B9d440F|CST6",
+  "America/Resolute": "0,0,-00;-21600,0,CST;-18000,1,CDT;-18000,0,EST|-bnp9c0Bcvfy80C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B905g0C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B905g0C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B8a840Cafuk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B8a840Cafuk0B8a840Cafuk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80D7x9g0Cast80B8a840Cafuk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80D6udg0C|CST6CDT,M3.2.0,M11.1.0",
+  "America/Rio_Branco": "-16272,0,LMT;-18000,0,-05;-14400,1,-04;-14400,0,-04|-t85fg0B99kak0C9a9c0B9io40C99980B8p65g0C6zuo0Bbs2o0C67zw0Bcjxg0C69uk0Bcjxg0C4ml80B5mf440C49mk0Bhaas0C316k0Bcls40C4ml80Bcls40C66580Bcls40C67zw0B981s40C6u7w0Bbiw40C5rbw0Bd0lg0C5ed80Bamves0D2t2t80B|<-05>5",
+  "America/Santarem": "-13128,0,LMT;-14400,0,-04;-10800,1,-03;-10800,0,-03|-t85hvcB99ka7cC9a9c0B9io40C99980B8p65g0C6zuo0Bbs2o0C67zw0Bcjxg0C69uk0Bcjxg0C4ml80B5mf440C49mk0Bhaas0C316k0Bcls40C4ml80Bcls40C66580Bcls40C67zw0B981s40C6u7w0Bbiw40C5rbw0Bd0lg0C5ed80Bamves0D|<-03>3",
+  "America/Santiago": "-16965,0,LMT;-16965,0,SMT;-18000,0,-05;-14400,0,-04;-14400,1,-04;-10800,1,-03|-15r0w8rBag6lc0C3dlssrB157b79Df4e0rB49hzb9Eaye0rC7ves0Eawik0C7ves0Eawik0C7ves0Eawik0C7ves0Eayd80C7ves0D534ik0C351g0D229zw0F2b980Eb2840C2mg00Db73400F7k580Dc8tg0F6h980Da31g0F7x3w0Dasys0F7x3w0Db5xg0F7k580Dag040F8a2k0Db5xg0F7k580Db5xg0F7x3w0Dasys0F7x3w0Dasys0F7x3w0Db5xg0F7k580Db5xg0F7k580Db5xg0F7x3w0Dasys0F7x3w0Dasys0F7x3w0Dasys0F7x3w0Db5xg0F7k580Db5xg0F7k580Db5xg0F9cyk0D9d440F7x3w0Dasys0F7x3w0Db5xg0F7k580D9q2s0F8zzw0Db5xg0F7x3w0Dasys0F7x3w0Dasys0F7x3w0Dasys0F7x3w0Db5xg0F7k580Db5xg0F8n180Da31g0F7x3w0Da31g0F9px80D9q2s0F7x3w0Db5xg0F7k580Db5xg0F7k580Db5xg0F7k580Db5xg0F7x3w0Dasys0F7x3w0Dasys0F7x3w0Db5xg0F7k580Db5xg0F8n180Da31g0F7x3w0Dasys0F8zzw0D9q2s0Fast80D5eis0Fcyl80D6hes0Fc8nw0D6udg0Fbvp80D6udg0Fvonw0D4olg0Fe1h80D4olg0Fe1h80D4olg0Fc8nw0D7x9g0Fast80D7x9g0Fast80D7x9g0Fast80D8a840F|<-04>4<-03>,M9.1.6/24,M4.1.6/24",
+  "America/Santo_Domingo": "-16776,0,LMT;-16800,0,SDMT;-18000,0,EST;-14400,1,EDT;-16200,1,-0430;-14400,0,AST|-15r0we0BmkixcoChiw29cD67zw0C1dy840E62ha0Ccnle0E4h2m0Celyq0E47ta0Cei9e0E4bim0Ceek20E4dda0Cecpe0Fdkmtg0C1stc0F|AST4",
+  "America/Sao_Paulo": "-11188,0,LMT;-10800,0,-03;-7200,1,-02|-t85jd8B99k8x8C9a9c0B9io40C99980B8p65g0C6zuo0Bbs2o0C67zw0Bcjxg0C69uk0Bcjxg0C4ml80B5k02s0C6onw0Bhaas0C316k0Bcls40C4ml80Bcls40C66580Bcls40C67zw0B981s40C6u7w0Bbiw40C5rbw0Bd0lg0C5ed80Bcyqs0C5ed80Bdbpg0C64ak0Bcyqs0C64ak0Bcls40C5rbw0Bdbpg0C51ek0Bdbpg0C6h980Bc8tg0C6h980Bc8tg0C64ak0Bc8tg0C6u7w0Bbxpg0C7iak0Bbiw40C6u7w0Bbiw40C7k580Bbiw40C6u7w0Bc8tg0C6h980Bdbpg0C5ed80Bcls40C64ak0Bdfes0C5nmk0Bc8tg0C6h980Bdbpg0C5rbw0Bbvus0C6h980Bcls40C64ak0Bcls40C6h980Bc8tg0C6h980Bc8tg0C6u7w0Bc8tg0C64ak0Bcls40C64ak0Bcls40C6h980Bc8tg0C6h980Bc8tg0C6h980Bc8tg0C6h980Bdbpg0C5ed80B|<-03>3",
+  "America/Scoresbysund": "-5272,0,LMT;-7200,0,-02;-3600,1,-01;0,1,+00;-3600,0,-01|-rvurxkBx8ntpkC902o0B9cvs0D9cyk0E9d1c0D9d1c0E9d1c0D9d1c0E9d1c0D9q000E9d1c0D9d1c0E9d1c0D9d1c0E9d1c0D9d1c0E9d1c0D9d1c0E9d1c0D9d1c0E9d1c0D9q000E9d1c0D9d1c0E9d1c0D9d1c0E9d1c0D9d1c0E9d1c0D9d1c0E9d1c0D9d1c0E9q000Dasw00E7x6o0Dasw00E7x6o0Dasw00E7x6o0Db5uo0E7k800Db5uo0E7k800Db5uo0E7x6o0Dasw00E7x6o0Dasw00E7x6o0Db5uo0E7k800Db5uo0E7k800Db5uo0E7k800Db5uo0E7x6o0Dasw00E7x6o0Dasw00E7x6o0Db5uo0E7k800Db5uo0E7k800Db5uo0E7x6o0Dasw00E7x6o0Dasw00E7x6o0Dasw00E7x6o0Db5uo0E7k800Db5uo0E7k800Db5uo0E7x6o0Dasw00E7x6o0Dasw00E7x6o0Db5uo0E7k800Db5uo0E7k800Db5uo0E7x6o0C|<-02>2<-01>,M3.5.0/-1,M10.5.0/0",
+  "America/Sitka": "53927,0,LMT;-32473,0,LMT;-28800,0,PST;-25200,1,PWT;-25200,1,PPT;-25200,1,PDT;-32400,0,YST;-32400,0,AKST;-28800,1,AKDT|-1hc7qjzBh4yua0Cln701zD1tz2s0E2dyg0Ccawis0F9cyk0C9d440F9cyk0C9d440F9px80C9d440F9cyk0C9d440F9cyk0C3lpg0Ff4d80C64g40Fclmk0C9d440F9px80C905g0F9px80C9d440F9cyk0C9d440F9cyk0C9d440F9cyk0C9d440F9cyk0C9d440F9px80C905g0F9px80G1leo0H7rs80I9cyk0H9d440I9cyk0H9d440I9cyk0H8a840Iafuk0H8a840Iast80H7x9g0Iast80H7x9g0Iast80H8a840Iafuk0H8a840Iafuk0H8a840Iast80H7x9g0Iast80H7x9g0Iast80H8a840Iafuk0H8a840Iafuk0H8a840Iafuk0H8a840Iast80H7x9g0Iast80H7x9g0Iast80H8a840Iafuk0H8a840Iafuk0H8a840Iast80H7x9g0Iast80H7x9g0Iast80H6udg0I|AKST9AKDT,M3.2.0,M11.1.0",
+  "America/St_Johns": "-12652,0,LMT;-12652,0,NST;-9052,1,NDT;-12600,0,NST;-9000,1,NDT;-9000,1,NWT;-9000,1,NPT;-5400,1,NDDT|-18vs8wkBhd05k0C8bx80Bar440Ca2vw0B9tjs0C53980Bdkys0C9cyk0B9d440C9cyk0B9q2s0C8zzw0B9q2s0C8zzw0B9q2s0C8zzw0B9q2s0C8zzw0B9q2s0C9cyk0B9d440C9cyk0B9q2s0C8zzw0B9q2s0C8zzw0B9q2s0C8zzw0B9q2s0C8zzw0B9q2s0C9cyk0B9q2s0C8zzw0B9q2s0C8zzw0B7tmw0D1wfukE8zzw0Da3480E7k580Db5xg0E7k580Db5xg0E7k580Dbiw40E776k0Dbiw40E7k580Db5xg0E7k580Db5xg0F1pb260G2dly0Dbiw40E7k580Db5xg0E7k580Db5xg0E7k580Db5xg0E7k580Dbiw40E7k580Dag040E7x3w0Dasys0E7x3w0Dasys0E7x3w0Dasys0E7x3w0Dasys0E7x3w0Db5xg0E7x3w0Dasys0E7x3w0Dasys0E7x3w0Dasys0E7x3w0Dasys0E9px80D9d440E9cyk0D9d440E9cyk0D9d440E9cyk0D9d440E9cyk0D9d440E9px80D905g0E9px80D9d440E9cyk0D9d440E9cyk0D9d440E9cyk0D9d440E9cyk0D9d440E9px80D9d440E9cyk0D9d440E9cyk0D9d440E9cyk0D9d440E9cyk0D9d440E9px80D905g0E9px80D9d440E9cyk0D9d440E9cyk0D9d440E9cyk0D9d440E9cyk0D9d440E9px80D905g0E9px80D9d440E9cyk0D9d440E9cyk0D9d440E9cyk0D8a2loEafuk0D8a840Hasqg0D7xc80East80D7x9g0East80D8a840Eafuk0D8a840Eafuk0D8a840East80D7x9g0East80D7x9g0East80D8a840Eafuk0D8a840Eafuk0D8a840Eafuk0D8a840East80D7x9g0East80D7x9g0East80D8a840Eafuk0D8a840Eafuk0D8a840East80D7x9g0East80D7x9g0East80D6udg0Ec8nw0D6hes0Ec8nw0D6hes0Ec8nw0D6udg0Ec8nw0D6hes0Ec8tecD|NST3:30NDT,M3.2.0,M11.1.0",
+  "America/St_Kitts": "-15052,0,LMT;-14400,0,AST|-u6m71wB|AST4",
+  "America/St_Lucia": "-14640,0,LMT;-14640,0,CMT;-14400,0,AST|-15r0y1cBbh9s00C|AST4",
+  "America/St_Thomas": "-15584,0,LMT;-14400,0,AST|-uj7vz4B|AST4",
+  "America/St_Vincent": "-14696,0,LMT;-14696,0,KMT;-14400,0,AST|-15r0xzsBbh9s00C|AST4",
+  "America/Swift_Current": "-25880,0,LMT;-25200,0,MST;-21600,1,MDT;-21600,1,MWT;-21600,1,MPT;-21600,0,CST|-xkq9d4B6l1h14Ca2vw0Bc5jxg0D1tz5k0E2dvo0Basys0C8n180Ba31g0C7x3w0Basys0C7x3w0Basys0C7x3w0B3yles0C9cyk0Bs36s0C9cyk0B9d440C7x3w0Bb5xg0C7k580B5j4lg0F|CST6",
+  "America/Tegucigalpa": "-20932,0,LMT;-21600,0,CST;-18000,1,CDT|-pfzh6kByho0ikC7k580Bb5xg0C7k580B96x1g0C4qak0B|CST6",
+  "America/Thule": "-16508,0,LMT;-14400,0,AST;-10800,1,ADT|-rvuj9gB12yzilgC9cyk0B9d440C9cyk0B9q2s0Cast80B7x9g0Cast80B7x9g0Cast80B8a840Cafuk0B8a840Cafuk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B8a840Cafuk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B6udg0C|AST4ADT,M3.2.0,M11.1.0",
+  "America/Tijuana": "-28084,0,LMT;-25200,0,MST;-28800,0,PST;-25200,1,PDT;-25200,1,PWT;-25200,1,PPT|-p1u4k0B11juo0C1sm040B1si580C71s40D9cyk0C5iidg0E1q6700F4qzk0C18uw40Deluk0Coa5g0D7iak0Cb6300D7x3w0Casys0D7x3w0Ctiyo0D7x6o0Casw00D7x6o0Cb5uo0D7x6o0Casw00D7x6o0Casw00D7x6o0Casw00D7x6o0Casw00D7x6o0C84qys0D9px80C905g0D9px80C9d440D9cyk0C9d440D9cyk0C9d440D9cyk0C9d440D9cyk0C9d440D9px80C905g0D9px80C9d440D9cyk0C9d440D9cyk0C9d440D9cyk0C8a840Dafuk0C8a840Dast80C7x9g0Dast80C7x9g0Dast80C8a840Dafuk0C8a840Dafuk0C8a840Dast80C7x9g0Dast80C7x9g0Dast80C8a840Dafuk0C8a840Dafuk0C8a840Dafuk0C8a840Dast80C7x9g0Dast80C7x9g0Dast80C8a840Dafuk0C8a840Dafuk0C8a840Dast80C7x9g0Dast80C7x9g0Dast80C7x9g0Dast80C8a840Dafuk0C8a840Dafuk0C77c40D|PST8PDT,M3.2.0,M11.1.0",
+  "America/Toronto": "-19052,0,LMT;-18000,0,EST;-14400,1,EDT;-14400,1,EWT;-14400,1,EPT|-1353dasBc5efesCa2vw0B7yx60Caqzy0B9q8c0C7jzo0Bbw0c0C6bp80Bcedg0C6h980Bc8tg0C6h980Bbvus0C776k0Bbiw40C776k0Bbiw40C776k0Bbiw40C7k580Bb5xg0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Bb5xg0C7k580Bb5xg0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Bb5xg0C7k580Bb5xg0Cxjeo0D1tzb40E2dq40Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0Cb5rw0B7x9g0Cast80B7x9g0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Bb5xg0C7x3w0Basys0C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B905g0C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B905g0C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B905g0C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B8a840Cafuk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B8a840Cafuk0B8a840Cafuk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B8a840Cafuk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B6udg0C|EST5EDT,M3.2.0,M11.1.0",
+  "America/Tortola": "-15508,0,LMT;-14400,0,AST|-uj7w18B|AST4",
+  "America/Vancouver": "-29548,0,LMT;-28800,0,PST;-25200,1,PDT;-25200,1,PWT;-25200,1,PPT|-18vrvv8Bhw36b8Ca2vw0Bc5jxg0D1tz2s0E2dyg0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Bb5xg0C7k580Bb5xg0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Bb5xg0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Bb5xg0C7k580Bb5xg0C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B905g0C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B905g0C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B905g0C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B8a840Cafuk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B8a840Cafuk0B8a840Cafuk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B8a840Cafuk0B8a840Cafuk0B8a840Cast80B7x9g0Cast80B7x9g0Cast80B6udg0C|PST8PDT,M3.2.0,M11.1.0",
+  "America/Whitehorse": "-32412,0,LMT;-32400,0,YST;-28800,1,YDT;-28800,1,YWT;-28800,1,YPT;-25200,1,YDDT;-28800,0,PST;-25200,1,PDT;-25200,0,MST|-1079tnoB97l6voCa2vw0Basys0C882c0Bbmiwc0D1tz000E2e180Ba7n3w0F9q000B64dc0G7e3pg0H9cyk0G9d440H9cyk0G9d440H9px80G905g0H9px80G9d440H9cyk0G9d440H9cyk0G9d440H9cyk0G8a840Hafuk0G8a840Hast80G7x9g0Hast80G7x9g0Hast80G8a840Hafuk0G8a840Hafuk0G8a840Hast80G7x9g0Hast80G7x9g0Hast80G8a840Hafuk0G8a840Hafuk0G8a840Hafuk0G8a840Hast80G7x9g0Hast80G7x9g0Hast80G8a840Hafuk0G8a840Hafuk0G8a840Hast80G7x9g0Hast80G7x9g0Hast80G6udg0Hc8nw0G6hes0Hc8nw0G6hes0Hc8nw0G6udg0Hc8nw0G6hes0Hc8nw0G6hes0Hc8nw0G6hes0Hc8nw0G6hes0Hc8nw0G6hes0Hc8nw0G6udg0Hc8nw0G6hes0Hc8nw0G6hes0Hc8nw0G6hes0Hc8nw0G6hes0Hc8ic0I|MST7",
+  "America/Winnipeg": "-23316,0,LMT;-21600,0,CST;-18000,1,CDT;-18000,1,CWT;-18000,1,CPT|-171bfccBf0j80cC7k580Btj700Ca2vw0B9ok840C6u7w0B2a5hg0D1tz8c0E2dsw0Bbiw40C7x3w0Ba31g0C7x3w0Basys0C7x3w0Basys0C7x3w0Bb7s40C7tek0Bautg0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Bb5xg0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C9cyk0B9d440C7x3w0B1cm2s0C7k580B1cm2s0C9q000B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9q000B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9q000B902o0C9q000B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9q000B902o0C9q000B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B8a5c0Cafxc0B8a5c0Casw00B7x6o0Casw00B7x6o0Casw00B8a5c0Cafxc0B8a5c0Cafxc0B8a5c0Casw00B7x6o0Casw00B7x6o0Casw00B8a5c0Cafxc0B8a5c0Cafxc0B8a5c0Cafxc0B8a5c0Casw00B7x6o0Casw00B7x6o0Casw00B8a5c0Cafxc0B8a5c0Cafxc0B8a5c0Casw00B7x6o0Casw00B7x6o0Cast80B6udg0C|CST6CDT,M3.2.0,M11.1.0",
+  "America/Yakutat": "52865,0,LMT;-33535,0,LMT;-32400,0,YST;-28800,1,YWT;-28800,1,YPT;-28800,1,YDT;-32400,0,AKST;-28800,1,AKDT|-1hc7qjzBh4yv3iCln720hD1tz000E2e180Ccawis0F9cyk0C9d440F9cyk0C9d440F9px80C9d440F9cyk0C9d440F9cyk0C3lpg0Ff4d80C64g40Fclmk0C9d440F9px80C905g0F9px80C9d440F9cyk0C9d440F9cyk0C9d440F9cyk0C9d440F9cyk0C9d440F9px80C905g0F9px80C1lbw0G7rs80H9cyk0G9d440H9cyk0G9d440H9cyk0G8a840Hafuk0G8a840Hast80G7x9g0Hast80G7x9g0Hast80G8a840Hafuk0G8a840Hafuk0G8a840Hast80G7x9g0Hast80G7x9g0Hast80G8a840Hafuk0G8a840Hafuk0G8a840Hafuk0G8a840Hast80G7x9g0Hast80G7x9g0Hast80G8a840Hafuk0G8a840Hafuk0G8a840Hast80G7x9g0Hast80G7x9g0Hast80G6udg0H|AKST9AKDT,M3.2.0,M11.1.0",
+  "Antarctica/Casey": "0,0,-00;28800,0,+08;39600,0,+11|-irxc0Blag4o0C73bo0Buz1o0C60l80B2fnh80Cpz9g0Bat4c0C89u80Bacgc0C80no0Basw1oC89wycBag5poC89wycBag5poC84lacB|<+08>-8",
+  "Antarctica/Davis": "0,0,-00;25200,0,+07;18000,0,+05|-6rmdc0B42jdw0A27wgs0Bl8uss0C7eqs0Bunmk0C60qs0B|<+07>-7",
+  "Antarctica/DumontDUrville": "0,0,-00;36000,0,+10|-c05eo0B2mks80A2i72g0B|<+10>-10",
+  "Antarctica/Macquarie": "0,0,-00;36000,0,AEST;39600,1,AEDT|-10mb9c0B8ts4g0C902o0B11wns0Af4kh40Ba6p8g0C9d1c0Basw00C6uao0Bbvs00C6uao0Bbvs00C779c0Bbvs00C64dc0Bclpc0C6hc00Bc8qo0C6hc00Bc8qo0C6hc00Bc8qo0C6uao0Bc8qo0C6hc00Bc8qo0C6hc00Bc8qo0C6hc00Bc8qo0C6hc00Bc8qo0C6hc00Bc8qo0C7x6o0Bb5uo0C7k800Bb5uo0C6hc00Bc8qo0C6hc00Bc8qo0C6hc00Bbvs00C7k800Bbitc0C7k800Bbitc0C779c0Bbitc0C779c0Bbitc0C7x6o0B9q000C902o0B9q000C902o0B9q000C902o0B9q000C902o0B9q000C9d1c0B9q000C902o0B9q000C902o0B9q000C902o0B9q000C902o0B7x6o0Casw00Ba2yo0C902o0B9q000C902o0B9q000C902o0B9q000C902o0B9q000C9d1c0B9d1c0C902o0Ba2yo0C9d1c0B9d1c0C9d1c0B9d1c0Cs3400B|AEST-10AEDT,M10.1.0,M4.1.0/3",
+  "Antarctica/Mawson": "0,0,-00;21600,0,+06;18000,0,+05|-8aelc0Bt22y80C|<+05>-5",
+  "Antarctica/McMurdo": "0,0,-00;43200,0,NZST;46800,1,NZDT|-7b2dc0B9txtk0C5reo0Bclpc0C6uao0Bc8qo0C6hc00Bc8qo0C6hc00Bc8qo0C6hc00Bc8qo0C6hc00Bc8qo0C6hc00Bc8qo0C6uao0Bc8qo0C6hc00Bc8qo0C6hc00Bc8qo0C6hc00Bc8qo0C6hc00Bc8qo0C6hc00Bc8qo0C6uao0Bc8qo0C6hc00Bb5uo0C8a5c0Bafxc0C8a5c0Bafxc0C8a5c0Bafxc0C8n400Ba2yo0C8n400Ba2yo0C8n400Ba2yo0C8n400Bafxc0C8a5c0Bafxc0C8a5c0Bafxc0C8n400Ba2yo0C8n400Ba2yo0C8n400Bafxc0C8a5c0Bafxc0C8a5c0Bafxc0C8n400Ba2yo0C8n400Ba2yo0C8n400Ba2yo0C8n400Ba2yo0C|NZST-12NZDT,M9.5.0,M4.1.0/3",
+  "Antarctica/Palmer": "0,0,-00;-10800,1,-03;-14400,0,-04;-10800,0,-03;-7200,1,-02|-2lxhc0B31ho0Cbqas0B71mk0Cbqas0B8ovw0C9d440B9px80C9d440B9cyk0C9d440D28t6k0E51ek0D46b6s0C8c2s0B7x3w0Casys0B7x3w0Cb5xg0B7k580Cb5xg0B7k580Cb5xg0B9cyk0C9d440B7x3w0Casys0B7x3w0Cb5xg0B7k580C9q2s0B8zzw0Cb5xg0B7x3w0Casys0B7x3w0Casys0B7x3w0Casys0B7x3w0Cb5xg0B7k580Cb5xg0B8n180Ca31g0B7x3w0Ca31g0B9px80C9q2s0B7x3w0Cb5xg0B7k580Cb5xg0B7k580Cb5xg0B7k580Cb5xg0B7x3w0Casys0B7x3w0Casys0B7x3w0Cb5xg0B7k580Cb5xg0B8n180Ca31g0B7x3w0Casys0B8zzw0C9q2s0Bast80C5eis0Bcyl80C6hes0Bc8nw0C6udg0Bbvp80C6udg0Bvonw0C4olg0B5rbw0D|<-03>3",
+  "Antarctica/Rothera": "0,0,-00;-10800,0,-03|3lxs00B|<-03>3",
+  "Antarctica/Syowa": "0,0,-00;10800,0,+03|-6qsqo0B|<+03>-3",
+  "Antarctica/Troll": "0,0,-00;0,0,+00|ibruo0B|<+00>0<+02>-2,M3.5.0/1,M10.5.0/3",
+  "Antarctica/Vostok": "0,0,-00;25200,0,+07;18000,0,+05|-6aaao0Biushw0Ae23g0Bf79gs0C|<+05>-5",
+  "Asia/Aden": "10794,0,LMT;10800,0,+03|-afs0buB|<+03>-3",
+  "Asia/Almaty": "18468,0,LMT;18000,0,+05;21600,0,+06;25200,1,+07;21600,1,+06|-nu1a90B37a0d0Cqi27w0D9et80C9d440D9et80C9d440D9et80C9eys0D9d6w0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9d1c0E9d440B5reo0C3ljw0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9q000Dasw00C7x6o0Dasw00C7x6o0Dasw00C7x6o0Db5uo0C7k800Db5uo0C7k800Db5uo0C7x6o0Dasw00C7x6o0Dasw00C7x6o0Db5uo0Ca37rs0B|<+05>-5",
+  "Asia/Amman": "8624,0,LMT;7200,0,EET;10800,1,EEST;10800,0,+03|-kcrtbkBm566fkC60l80Bawo40C7v980Bawo40C7v980Bayis0C9gnw0B9b9g0C7v980Bautg0C7v980B3e6840C9et80B9io40C9cyk0B9d440C9cyk0B9d440C9px80Bayis0C7rjw0Bag040C8a2k0B9zc40C8drw0Ba31g0C8zzw0B9d440C9cyk0B9d440C8n180Bag040C8a5c0Bafxc0C8n400Ba2yo0C8n400Ba2yo0C8n400Bepmo0C4deo0B9o5c0C9ew00B9b6o0C9ew00B9d1c0C9d1c0B9d1c0Casw00B7x6o0Cafxc0B8n400C9d1c0B9d1c0Casw00B7x6o0Casw00B7x6o0Cb5uo0B7k800Cb5uo0B7k800Cb5uo0B7x6o0Casw00B7x6o0Cwel80B51k40Cb5uo0B7k800Cb5uo0B7x6o0Casw00B7x6o0Casw00B7x6o0Casw00B7x6o0Casw00B7x6o0Cb5uo0B7k800Cb5uo0B64dc0Cclpc0D|<+03>-3",
+  "Asia/Anadyr": "42596,0,LMT;43200,0,+12;46800,0,+13;50400,1,+14;46800,1,+13;43200,1,+12;39600,0,+11|-nu1sv8B379zj8Cqi27w0D9et80C9d440E9ew00B9d440E9et80B9eys0E9d6w0B9d1c0E9d1c0B9d1c0E9d1c0B9d1c0E9d1c0B9d1c0E9d1c0B9d1c0E9d1c0B9d1c0E9q000B9d1c0F9d440G5reo0B3ljw0E9d1c0B9d1c0E9d1c0B9d1c0E9d1c0B9d1c0E9d1c0B9q000Easw00B7x6o0Easw00B7x6o0Easw00B7x6o0Eb5uo0B7k800Eb5uo0B7k800Eb5uo0B7x6o0Easw00B7x6o0Easw00B7x6o0Eb5uo0B7k800Eb5uo0B7k800Eb5uo0B7k800Eb5uo0B7x6o0Easw00B7x6o0Easw00B7x6o0Fb5xg0G7k800B|<+12>-12",
+  "Asia/Aqtau": "12064,0,LMT;14400,0,+04;18000,0,+05;21600,0,+06;21600,1,+06;18000,1,+05|-nu15b4B379y74Cqrh3w0D9cyk0E9ew00C9d440E9et80C9eys0E9d6w0C9d1c0E9d1c0C9d1c0E9d1c0C9d1c0E9d1c0C9d1c0E9d1c0C9d1c0E9d1c0C9d1c0E9q000C9d1c0F9d440B5reo0C3ljw0E9d1c0C9d1c0E9d1c0C9d1c0E9d1c0B9d440F9d1c0B9q000Fasw00B7x6o0Fasw00B7x6o0Fasw00B7x6o0Fb5uo0B7k800Fb5uo0B7k800Fb5uo0B7x6o0Fasw00B7x6o0Fasw00B7x6o0Fb5uo0C|<+05>-5",
+  "Asia/Aqtobe": "13720,0,LMT;14400,0,+04;18000,0,+05;21600,1,+06;21600,0,+06;18000,1,+05|-nu16l4B379zh4Cqi27w0D9et80E9d1c0D9ew00C9d440D9et80C9eys0D9d6w0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9d1c0F9d440B5reo0C3ljw0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9q000Dasw00C7x6o0Dasw00C7x6o0Dasw00C7x6o0Db5uo0C7k800Db5uo0C7k800Db5uo0C7x6o0Dasw00C7x6o0Dasw00C7x6o0Db5uo0C|<+05>-5",
+  "Asia/Ashgabat": "14012,0,LMT;14400,0,+04;18000,0,+05;21600,1,+06;18000,1,+05|-nu16t8B379zp8Cqi27w0D9et80C9d440D9et80C9d440D9et80C9eys0D9d6w0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9d1c0E9d440B5reo0C|<+05>-5",
+  "Asia/Atyrau": "12464,0,LMT;10800,0,+03;18000,0,+05;21600,0,+06;21600,1,+06;18000,1,+05;14400,0,+04|-nu15m8B37a1a8Cqrh140D9cyk0E9ew00C9d440E9et80C9eys0E9d6w0C9d1c0E9d1c0C9d1c0E9d1c0C9d1c0E9d1c0C9d1c0E9d1c0C9d1c0E9d1c0C9d1c0E9q000C9d1c0F9d440G5reo0C3ljw0E9d1c0C9d1c0E9d1c0C9d1c0E9d1c0C9d1c0E9d1c0C9q000Easw00C7x6o0Easw00C7x6o0Easw00C7x6o0Fb5xg0G7k800Fb5uo0G7k800Fb5uo0G7x6o0Fasw00G7x6o0Fasw00G7x6o0Fb5uo0C|<+05>-5",
+  "Asia/Baghdad": "10660,0,LMT;10656,0,BMT;10800,0,+03;14400,1,+04|-15r1hk4Bem11c4Cxkn3w0D7v980C9b9g0D9gnw0C9eys0D9et80C9d440D9b9g0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9f1k0D9ew00C9ew00D9ew00C9d1c0D9ew00C9d1c0D9ew00C9d1c0D9ew00C9ew00D9ew00C9d1c0D9ew00C9d1c0D9ew00C9d1c0D9ew00C9ew00D9ew00C9d1c0D9ew00C9d1c0D9ew00C9d1c0D9ew00C9ew00D9ew00C9d1c0D9ew00C9d1c0D9ew00C9d1c0D9ew00C|<+03>-3",
+  "Asia/Bahrain": "12140,0,LMT;12600,0,+0330;14400,0,+04;10800,0,+03|-eukpd8B1a1eb8Cetwby0D|<+03>-3",
+  "Asia/Baku": "11964,0,LMT;10800,0,+03;14400,0,+04;18000,1,+05;14400,1,+04|-nu158cBh4tkwcCckinw0D9et80C9d440D9et80C9d440D9et80C9eys0D9d6w0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9d1c0E9d440B9d1c0E9d1c0C1twdk0Dasw00C7x3w0Dasw00C7x6o0Dasw00C7x6o0Db5uo0C7k800Db5uo0C7k800Db5uo0C7x6o0Dasw00C7x6o0Dasw00C7x6o0Db5uo0C7k800Db5uo0C7k800Db5uo0C7k800Db5uo0C7x6o0Dasw00C7x6o0Dasw00C7x6o0Db5uo0C7k800Db5uo0C7k800Db5uo0C7x6o0Dasw00C7x6o0Dasw00C7x6o0Dasw00C|<+04>-4",
+  "Asia/Bangkok": "24124,0,LMT;24124,0,BMT;25200,0,+07|-1ayyla4Bl06800C|<+07>-7",
+  "Asia/Barnaul": "20100,0,LMT;21600,0,+06;25200,0,+07;28800,1,+08;25200,1,+07|-q4ljicB5hu6ucCqi27w0D9et80C9d440D9et80C9d440D9et80C9eys0D9d6w0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9d1c0E9d440B5reo0C3ljw0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D38fo0E64og0B9q000Easw00B7x6o0Easw00B7x6o0Easw00B7x6o0Eb5uo0B7k800Eb5uo0B7k800Eb5uo0B7x6o0Easw00B7x6o0Easw00B7x6o0Eb5uo0B7k800Eb5uo0B7k800Eb5uo0B7k800Eb5uo0B7x6o0Easw00B7x6o0Easw00B7x6o0Eb5uo0B7k800C1vbzw0Bqnc40C|<+07>-7",
+  "Asia/Beirut": "8520,0,LMT;7200,0,EET;10800,1,EEST|-1ayy98oBkzyucoCaunw0B88dg0C9et80B8yas0Ca2vw0Ba31g0C7k580Bhjqo40C7v980Bawo40C7v980Bawo40C7v980Bayis0C7v980Bawo40C7v980B5lhs40C56yk0Bawo40C7v980Bawo40C7v980Bawo40C7v980Bayis0C7v980Bawo40C7v980Bautg0C7v980B2wxus0C8n180Ba4w40C8n180Ba4w40C8n180Ba4w40C8n180Bbs5g0C71mk0Balk40C86d80Ba4w40C8n180Ba4w40C8n180Ba6qs0C80t80B905g0C9cyk0B9d440C9cyk0B9d440C9cyk0B9q2s0C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C|EET-2EEST,M3.5.0/0,M10.5.0/0",
+  "Asia/Bishkek": "17904,0,LMT;18000,0,+05;21600,0,+06;25200,1,+07;21600,1,+06|-nu19tcB379zxcCqi27w0D9et80C9d440D9et80C9d440D9et80C9eys0D9d6w0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9d1c0E7vc00Bbkl80E8n180Ba31g0E8n180Ba31g0E8n180Ba31g0E8n180Ba31g0E8zzw0B9db20East80B7x9g0East80B7x9g0Eb5rw0B7kas0Eb5rw0B7kas0Eb5rw0B7x9g0East80B7x9g0East80B7x9g0Eb5rw0B7kas0E73aa0C|<+06>-6",
+  "Asia/Brunei": "27580,0,LMT;27000,0,+0730;28800,0,+08|-mvofy4B3khxs4C|<+08>-8",
+  "Asia/Chita": "27232,0,LMT;28800,0,+08;32400,0,+09;36000,1,+10;32400,1,+09;36000,0,+10|-q4cfogB5hkxggCqi27w0D9et80C9d440D9et80C9d440D9et80C9eys0D9d6w0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9d1c0E9d440B5reo0C3ljw0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9q000Dasw00C7x6o0Dasw00C7x6o0Dasw00C7x6o0Db5uo0C7k800Db5uo0C7k800Db5uo0C7x6o0Dasw00C7x6o0Dasw00C7x6o0Db5uo0C7k800Db5uo0C7k800Db5uo0C7k800Db5uo0C7x6o0Dasw00C7x6o0Dasw00C7x6o0Db5uo0C7k800F1vbzw0Bqnew0C|<+09>-9",
+  "Asia/Colombo": "19164,0,LMT;19172,0,MMT;19800,0,+0530;21600,1,+06;23400,1,+0630;23400,0,+0630;21600,0,+06|-1ayyhgcBdkh6nsCisle6kDcajy0E1mp2u0Cqetjw0F7x5a0G4xvqq0C|<+0530>-5:30",
+  "Asia/Damascus": "8712,0,LMT;7200,0,EET;10800,1,EEST;10800,0,+03|-q3gk20B5k6q0C8n180Ba31g0C8n180Ba31g0C8n180Ba31g0C8zzw0Bk4hk40C7yyk0Bawo40C7tek0Bb0dg0C7v980Bawo40C7tek0Balk40C887w0Bawo40C7v980Bayis0C7v980Bawo40C7v980Bawo40C7v980Bawo40C7v980Bayis0C7v980Bawo40C7v980Bawo40C7v980Bawo40C7v980Bayis0C7v980Bawo40C6bp80Bcg840C6bp80B2eh1g0C8zzw0B9ts40C8zzw0Bpvk40Cc33w0B7cw40Ccjrw0B6zxg0Cbtuk0B7rpg0C9gnw0B9d440C9cyk0B9et80C9et80B9rxg0C91uk0B92040C9et80B9o840C9et80B9d440C9et80B9eys0C9et80B9b9g0C9gnw0B99es0C9iik0B9d440C9et80B9eys0C9et80B9d440C9et80B9d440C9et80B9d440C9et80B9eys0C9et80B9d440C9et80B9d440C8y580B9q2s0Cb5rw0B7x9g0Caunw0B7ig40Cb5rw0B7x9g0Cast80B7x9g0Cast80B7x9g0Cast80B7x9g0Cast80B7x9g0Cb5rw0B7kas0Cb5rw0B7kas0Cb5rw0B7x9g0Cast80B7x9g0Cast80B7x9g0Cast80B7x9g0Cb5rw0B7kas0Cb5rw0B7kas0Cb5rw0D|<+03>-3",
+  "Asia/Dhaka": "21700,0,LMT;21200,0,HMT;23400,0,+0630;19800,0,+0530;21600,0,+06;25200,1,+07|-15r1q2sBr080dwCbmgywD5lxg0C4qknw0Eu4ijy0Fa1400E|<+06>-6",
+  "Asia/Dili": "30140,0,LMT;28800,0,+08;32400,0,+09|-u9s3k0Bfqct80Chufs00Bcpz440C|<+09>-9",
+  "Asia/Dubai": "13272,0,LMT;14400,0,+04|-q3gnkoB|<+04>-4",
+  "Asia/Dushanbe": "16512,0,LMT;18000,0,+05;21600,0,+06;25200,1,+07;21600,1,+06|-nu18qoB379yuoCqi27w0D9et80C9d440D9et80C9d440D9et80C9eys0D9d6w0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9d1c0E8c2s0B|<+05>-5",
+  "Asia/Famagusta": "8148,0,LMT;7200,0,EET;10800,1,EEST;10800,0,+03|-p4bqacBrvhy2cC9cyk0Bb42s0C7nuk0B8yas0C8zzw0B9q2s0C9et80B9b9g0C9cyk0B9q2s0C8zzw0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9q2s0C9cyk0B9d440C9cyk0B9d440Cat4c0B7x6o0Cb5uo0B7k800Cb5uo0B7k800Cb5uo0B7x6o0Casw00B7x6o0Casw00B7x6o0Cb5uo0B7k800Cb5uo0B7k800Cb5uo0B7k800Cb5uo0B7x6o0Casw00B7x6o0Casw00B7x6o0Cb5uo0B7k800Cb5uo0B7k800Cb5uo0B7x6o0Casw00B7x6o0Casw00B7x6o0Casw00B7x6o0C8h8w0Dleog0B|EET-2EEST,M3.5.0/3,M10.5.0/4",
+  "Asia/Gaza": "8272,0,LMT;7200,0,EET;10800,1,EEST;7200,0,IST;10800,1,IDT|-1054x1sBkp9t1sC69xc0B2f1c0C10q800B7rmo0Cb0ao0B7thc0Cb0ao0B8jeo0Ca8io0B8jeo0Ca8io0B5hoig0C7el80Bawo40C7v980Bawqw0C7tk40Bb07w0C7tk40Bayd80C7tk40Bayd80C7tk40Bayd80C7tk40Bb07w0C7tk40Bayd80C7tk40Bayd80C7ves0Bawik0C1sns0D3p6is0E51ek0D9q2s0E6u7w0D2kjk40E25s00D1weyo0E5reo0Dbvs00E776k0Ddbpg0E5rbw0Dbbhg0E7rjw0Dasys0E7k580Dc8tg0E6h980Dag040E7x3w0Dasys0E8a2k0Dasys0E8a2k0Dap9g0E80t80Dap9g0E7nuk0Db2840E80t80D66as0B4vxc0C8n400Ba2yo0C8n400Ba2yo0C8n400Basw00C9cyk0B9q2s0C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C8n400Ba2yo0C8ulg0B97ek0C8y580B9ts40C8hms0Ba4qk0C7x3w0Basys0C8a5c0Bahs1oC71micBbzk5oC69uicBcg840C902o0B9q000C9cyk0B9d440Cast80B7z440Car1c0B7z440Cb5rw0B7kas0Cb5rw0B7kas0Cb5rw0B7vc00Caunw0B7x9g0Casw00B7x6o0Cb4000B7nxc0Cb42s0B9d440C9cyk0B905g0C9px80B8n6s0Ca2vw0B7x9g0Cast80B7x9g0Cb5rw0B7kas0Cb5rw0B7kas0Cb5rw0B7x9g0Cast80B7x9g0Cast80B7x9g0Cb5rw0B7kas0Cb5rw0B7kas0Cb5rw0B7kas0Cb5rw0B7x9g0Cafuk0B8a840Ca2vw0B8n6s0C9cyk0B9d440C8zzw0B9q2s0C8a2k0B2itg0Ccvw0B7x9g0C7k580B25us0C12t80B7x9g0C776k0B25us0C1frw0B7x9g0C6h980B2itg0C1sqk0B7x9g0C64ak0B25us0C2vmk0B7kas0C5rbw0B25us0C38l80B7kas0C51ek0B2itg0C3ljw0B7x9g0C4bh80B25us0C4bh80B7x9g0C3ljw0B2itg0C4ofw0B7x9g0C38l80B25us0C5rbw0B7kas0C2vmk0B25us0C64ak0B7kas0C25p80B2itg0C6h980B7x9g0C1frw0B25us0C776k0B7x9g0Cpuk0B2itg0C7k580B7x9g0Ccvw0B2itg0C7x3w0Ba31g0C8zzw0B9d440C9cyk0B8n6s0Ca2vw0B8a840Cafuk0B7x9g0Cast80B7x9g0Cb5rw0B7kas0Cb5rw0B7kas0Cb5rw0B7kas0Cb5rw0B7x9g0Cast80B7x9g0Cast80B7x9g0Cb5rw0B7kas0Cb5rw0B7kas0Cast80B8a840Ca2vw0B8n6s0C9px80B905g0C8zzw0B9q2s0C8n180B25us0Ccvw0B7kas0C8a2k0B25us0Cpuk0B7kas0C7k580B2itg0C12t80B7x9g0C6u7w0B25us0C1sqk0B7x9g0C64ak0B2itg0C25p80B7x9g0C5rbw0B2itg0C2vmk0B7kas0C5ed80B25us0C3ljw0B7kas0C4ofw0B2itg0C3yik0B7x9g0C3yik0B25us0C4ofw0B7x9g0C3ljw0B25us0C51ek0B7x9g0C2vmk0B2itg0C5ed80B7x9g0C2inw0B25us0C6h980B7kas0C1sqk0B2itg0C6u7w0B7kas0C1frw0B2itg0C776k0B7x9g0Cpuk0B25us0C|EET-2EEST,M3.4.4/50,M10.4.4/50",
+  "Asia/Hebron": "8423,0,LMT;7200,0,EET;10800,1,EEST;7200,0,IST;10800,1,IDT|-1054x5zBkp9t5zC69xc0B2f1c0C10q800B7rmo0Cb0ao0B7thc0Cb0ao0B8jeo0Ca8io0B8jeo0Ca8io0B5hoig0C7el80Bawo40C7v980Bawqw0C7tk40Bb07w0C7tk40Bayd80C7tk40Bayd80C7tk40Bayd80C7tk40Bb07w0C7tk40Bayd80C7tk40Bayd80C7ves0Bawik0C1sns0D3p6is0E51ek0D9q2s0E6u7w0D2kjk40E25s00D1weyo0E5reo0Dbvs00E776k0Ddbpg0E5rbw0Dbbhg0E7rjw0Dasys0E7k580Dc8tg0E6h980Dag040E7x3w0Dasys0E8a2k0Dasys0E8a2k0Dap9g0E80t80Dap9g0E7nuk0Db2840E80t80D66as0B4vxc0C8n400Ba2yo0C8n400Ba2yo0C8n400Basw00C9cyk0B9q2s0C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C8n400Ba2yo0C8ulg0B97ek0C8y580B9ts40C8hms0Ba4qk0C82nw0Banes0C8a5c0Bafxc0C73h80Bbzk5oC69uicB1hs40C1lbw0B9d440C902o0B9q000C9cyk0B9d440Cast80B7z440Car1c0B7z440Cb5rw0B7kas0Cb5rw0B7kas0Cb5rw0B7vc00Caunw0B7x9g0Casw00B7x6o0Cb4000B7nxc0Cb42s0B9d440C9cyk0B905g0C9px80B8n6s0Ca2vw0B7x9g0Cast80B7x9g0Cb5rw0B7kas0Cb5rw0B7kas0Cb5rw0B7x9g0Cast80B7x9g0Cast80B7x9g0Cb5rw0B7kas0Cb5rw0B7kas0Cb5rw0B7kas0Cb5rw0B7x9g0Cafuk0B8a840Ca2vw0B8n6s0C9cyk0B9d440C8zzw0B9q2s0C8a2k0B2itg0Ccvw0B7x9g0C7k580B25us0C12t80B7x9g0C776k0B25us0C1frw0B7x9g0C6h980B2itg0C1sqk0B7x9g0C64ak0B25us0C2vmk0B7kas0C5rbw0B25us0C38l80B7kas0C51ek0B2itg0C3ljw0B7x9g0C4bh80B25us0C4bh80B7x9g0C3ljw0B2itg0C4ofw0B7x9g0C38l80B25us0C5rbw0B7kas0C2vmk0B25us0C64ak0B7kas0C25p80B2itg0C6h980B7x9g0C1frw0B25us0C776k0B7x9g0Cpuk0B2itg0C7k580B7x9g0Ccvw0B2itg0C7x3w0Ba31g0C8zzw0B9d440C9cyk0B8n6s0Ca2vw0B8a840Cafuk0B7x9g0Cast80B7x9g0Cb5rw0B7kas0Cb5rw0B7kas0Cb5rw0B7kas0Cb5rw0B7x9g0Cast80B7x9g0Cast80B7x9g0Cb5rw0B7kas0Cb5rw0B7kas0Cast80B8a840Ca2vw0B8n6s0C9px80B905g0C8zzw0B9q2s0C8n180B25us0Ccvw0B7kas0C8a2k0B25us0Cpuk0B7kas0C7k580B2itg0C12t80B7x9g0C6u7w0B25us0C1sqk0B7x9g0C64ak0B2itg0C25p80B7x9g0C5rbw0B2itg0C2vmk0B7kas0C5ed80B25us0C3ljw0B7kas0C4ofw0B2itg0C3yik0B7x9g0C3yik0B25us0C4ofw0B7x9g0C3ljw0B25us0C51ek0B7x9g0C2vmk0B2itg0C5ed80B7x9g0C2inw0B25us0C6h980B7kas0C1sqk0B2itg0C6u7w0B7kas0C1frw0B2itg0C776k0B7x9g0Cpuk0B25us0C|EET-2EEST,M3.4.4/50,M10.4.4/50",
+  "Asia/Ho_Chi_Minh": "25590,0,LMT;25590,0,PLMT;25200,0,+07;28800,0,+08;32400,0,+09|-x5692uB2isio0Cgj25iuD15ct80E8so00Ctmtk0D4azmo0C2cm7w0D8285c0C|<+07>-7",
+  "Asia/Hong_Kong": "27402,0,LMT;28800,0,HKT;32400,1,HKST;30600,1,HKWT;32400,0,JST|-y0i0s0Bj44dk0C5k000D4d4y0E2195i0B7x3w0Cbj320B6uao0Cbvs00B7x6o0C9d1c0B7x6o0Casw00B7x6o0Casw00B7x6o0Casw00B8a5c0Casw00B7x6o0Cast80B77c40Cbiqk0B77c40Cbvp80B6udg0Cbvp80B77c40Cbiqk0B77c40Cbiqk0B77c40Cbiqk0B77c40Cbvp80B6udg0Cbvp80B6udg0Cbvp80B77c40Cbiqk0B77c40Cbiqk0B8n6s0C9cyk0B9d440C9cyk0B9d440C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B9d440C9cyk0B3lpg0Cf4d80B9d440C9cyk0B9d440C9cyk0B1c9440C8a2k0B|HKT-8",
+  "Asia/Hovd": "21996,0,LMT;21600,0,+06;25200,0,+07;28800,1,+08|-xmcoz0B11sncb0C2qk2k0D9et80C9eys0D9cyk0C9d440D9cyk0C9d440D9cyk0C9d440D9cyk0C9d440D9cyk0C9d440D9cyk0C9d440D9px80C9d440D9cyk0C9d440D9cyk0C9d440D9cyk0C9d440D9cyk0C9d440D9cyk0C9q2s0D9cyk0C9d440D9cyk0C9d440D9cyk0C1ckdo0D7x3w0C9d440D9cyk0C9d440D9cyk0C9d440D9cyk0C9d440D9cyk0C9d440D9px80C4fio40D9ct00C9d9o0D9ct00C|<+07>-7",
+  "Asia/Irkutsk": "25025,0,LMT;25025,0,IMT;25200,0,+07;28800,0,+08;32400,1,+09;28800,1,+08;32400,0,+09|-1ayylz5Bkwq5c0C5fh175Dqi27w0E9et80D9d440E9et80D9d440E9et80D9eys0E9d6w0D9d1c0E9d1c0D9d1c0E9d1c0D9d1c0E9d1c0D9d1c0E9d1c0D9d1c0E9d1c0D9d1c0E9q000D9d1c0F9d440C5reo0D3ljw0E9d1c0D9d1c0E9d1c0D9d1c0E9d1c0D9d1c0E9d1c0D9q000Easw00D7x6o0Easw00D7x6o0Easw00D7x6o0Eb5uo0D7k800Eb5uo0D7k800Eb5uo0D7x6o0Easw00D7x6o0Easw00D7x6o0Eb5uo0D7k800Eb5uo0D7k800Eb5uo0D7k800Eb5uo0D7x6o0Easw00D7x6o0Easw00D7x6o0Eb5uo0D7k800G1vbzw0D|<+08>-8",
+  "Asia/Jakarta": "25632,0,LMT;25632,0,BMT;26400,0,+0720;27000,0,+0730;32400,0,+09;28800,0,+08;25200,0,WIB|-1hftyg0BtfikqoC4lzxc0D4wdzjcE1tu960D1cx860F11jta0D74uc20G|WIB-7",
+  "Asia/Jayapura": "33768,0,LMT;32400,0,+09;34200,0,+0930;32400,0,WIT|-jebm20B66bqe0Ca37vy0D|WIT-9",
+  "Asia/Jerusalem": "8454,0,LMT;8440,0,JMT;7200,0,IST;10800,1,IDT;14400,1,IDDT|-1ayy96uBjtxuoeCbp5aigD69xc0C2f1c0D10q800C7rmo0Db0ao0C7thc0Db0ao0C8jeo0Da8io0C8jeo0Da8io0Ct9pc0E571c0D34yo0C9b6o0D9gqo0C8jeo0D7thc0Ca6o00Dbitc0C8a5c0D9d1c0C902o0D7x6o0Ce1k00D4oio0Ce1k00D4oio0Cdolc0D64dc0Casw00D7k800C8rfeg0D51ek0C9q2s0D6u7w0C2kjk40D25s00C1weyo0D5reo0Cbvs00D776k0Cdbpg0D5rbw0Cbbhg0D7rjw0Casys0D7k580Cc8tg0D6h980Cag040D7x3w0Casys0D8a2k0Casys0D8a2k0Cap9g0D80t80Cap9g0D7nuk0Cb2840D80t80C9zc40D9iik0C9kis0D93p80C9mdg0D8qqk0Capf00D7x3w0Cbiw40D8zx40C9io40D8n180C9kis0D9vh80C8ulg0D9px80C9mdg0D8n180C9tuw0D9tmk0C8wg40D9gnw0C99es0D8qqk0C9zc40D9tmk0C8wg40D9gnw0C99es0D8qqk0Cacas0D9gnw0C99es0D93p80C9mdg0D|IST-2IDT,M3.4.4/26,M10.5.0",
+  "Asia/Kabul": "16608,0,LMT;14400,0,+04;16200,0,+0430|-15r1m5cBspc1pcC|<+0430>-4:30",
+  "Asia/Kamchatka": "38076,0,LMT;39600,0,+11;43200,0,+12;46800,1,+13;43200,1,+12|-olrupoB3z045oCqi27w0D9et80C9d440D9et80C9d440D9et80C9eys0D9d6w0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9d1c0E9d440B5reo0C3ljw0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9q000Dasw00C7x6o0Dasw00C7x6o0Dasw00C7x6o0Db5uo0C7k800Db5uo0C7k800Db5uo0C7x6o0Dasw00C7x6o0Dasw00C7x6o0Db5uo0C7k800Db5uo0C7k800Db5uo0C7k800Db5uo0C7x6o0Dasw00C7x6o0Dasw00C7x6o0Eb5xg0B7k800C|<+12>-12",
+  "Asia/Karachi": "16092,0,LMT;19800,0,+0530;23400,1,+0630;18000,0,+05;18000,0,PKT;21600,1,PKST|-wvpb30Bim3zt0C1mn180B33xpg0Da63o20Eg72qo0F9cyk0E2y85g0F7v980E8hms0Faaak0E|PKT-5",
+  "Asia/Kathmandu": "20476,0,LMT;19800,0,+0530;20700,0,+0545|-q3gt4sByg2lusC|<+0545>-5:45",
+  "Asia/Khandyga": "32533,0,LMT;28800,0,+08;32400,0,+09;36000,1,+10;32400,1,+09;36000,0,+10;39600,1,+11;39600,0,+11|-q4cjrpB5hl1jpCqi27w0D9et80C9d440D9et80C9d440D9et80C9eys0D9d6w0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9d1c0E9d440B5reo0C3ljw0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9q000Dasw00C7x6o0Dasw00C7x6o0Dasw00C7x6o0Db5uo0C7k800Db5uo0C7k800Db5uo0C7x6o0Dasw00C7x6o0Dasw00C3fx40F4h6s0Gb5uo0F7k800Gb5uo0F7k800Gb5uo0F7k800Gb5uo0F7x6o0Gasw00F7x6o0Gasw00F7x6o0Gb5uo0F7k800H8ql00F1mlho0C|<+09>-9",
+  "Asia/Kolkata": "21208,0,LMT;21200,0,HMT;19270,0,MMT;19800,0,IST;23400,1,+0630|-1oaa314B83glc8Cisc6tmDinnm9aEbmfw0D5lxg0E1mn180D|IST-5:30",
+  "Asia/Krasnoyarsk": "22286,0,LMT;21600,0,+06;25200,0,+07;28800,1,+08;25200,1,+07;28800,0,+08|-q37l72B5gg8j2Cqi27w0D9et80C9d440D9et80C9d440D9et80C9eys0D9d6w0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9d1c0E9d440B5reo0C3ljw0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9q000Dasw00C7x6o0Dasw00C7x6o0Dasw00C7x6o0Db5uo0C7k800Db5uo0C7k800Db5uo0C7x6o0Dasw00C7x6o0Dasw00C7x6o0Db5uo0C7k800Db5uo0C7k800Db5uo0C7k800Db5uo0C7x6o0Dasw00C7x6o0Dasw00C7x6o0Db5uo0C7k800F1vbzw0C|<+07>-7",
+  "Asia/Kuala_Lumpur": "24406,0,LMT;24925,0,SMT;25200,0,+07;26400,1,+0720;26400,0,+0720;27000,0,+0730;32400,0,+09;28800,0,+08|-100ew5yB2ax69lCeeb94dD1kbr2oE2yhc00F8n3jcG1v2p60Fiy3ms0H|<+08>-8",
+  "Asia/Kuching": "26480,0,LMT;27000,0,+0730;28800,0,+08;30000,1,+0820;32400,0,+09|-mvof3kB3khwxkC1epvy0D4ohqoCe5a9cD4ohqoCe3flcD4ohqoCe3flcD4ohqoCe3flcD4ohqoCe5a9cD4ohqoCe3flcD4ohqoC3ajlcE1v2qk0C|<+08>-8",
+  "Asia/Kuwait": "11516,0,LMT;10800,0,+03|-afs0vwB|<+03>-3",
+  "Asia/Macau": "27250,0,LMT;28800,0,CST;32400,0,+09;36000,1,+10;32400,1,CDT|-y0i2cyBjdvyoyC6onw0Dac580C8fs40D7v980C11luw0Bawlc0E7vc00Bac800Ebko00B7x6o0E9d1c0B7vc00Easw00B7x6o0Easw00B7x6o0Eauqo0B88ao0Easw00B7x6o0Easw00B779c0Ebitc0B779c0Ebvs00B6uao0Ebw1q0B77c40Ebiqk0B77c40Ebiqk0B77c40Ebiqk0B77c40Ebvp80B6udg0Ebvp80B6udg0Ebvp80B77c40Ebiqk0B77c40Ebiqk0B8n6s0E9cvs0B9d6w0E9cvs0B9d6w0E9px80B9d440E9cyk0B9d440E9cyk0B9d440E9cyk0B9d440E9cyk0B9d440E9px80B9d440E9cyk0B3lpg0Ef4d80B9d440E9cyk0B9d440E9cyk0B1c9440E8a2k0B|CST-8",
+  "Asia/Magadan": "36192,0,LMT;36000,0,+10;39600,0,+11;43200,1,+12;39600,1,+11;43200,0,+12|-nu1nxcB37a05cCqi27w0D9et80C9d440D9et80C9d440D9et80C9eys0D9d6w0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9d1c0E9d440B5reo0C3ljw0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9q000Dasw00C7x6o0Dasw00C7x6o0Dasw00C7x6o0Db5uo0C7k800Db5uo0C7k800Db5uo0C7x6o0Dasw00C7x6o0Dasw00C7x6o0Db5uo0C7k800Db5uo0C7k800Db5uo0C7k800Db5uo0C7x6o0Dasw00C7x6o0Dasw00C7x6o0Db5uo0C7k800F1vbzw0Bs39k0C|<+11>-11",
+  "Asia/Makassar": "28656,0,LMT;28656,0,MMT;28800,0,+08;32400,0,+09;28800,0,WITA|-q3gzg0B6p5hc0C4u87w0D1w02k0E|WITA-8",
+  "Asia/Manila": "-57368,0,LMT;29032,0,LMT;28800,0,PST;32400,1,PDT;32400,0,JST|-1t8ix2gBsjc9igCje0pc0D3wnw0C2kc5g0D2zbw0E1leo00Ddzpc0C4d3ms0D2rx80Cbwlpg0D95jw0C6lv1g0D3jp80C|PST-8",
+  "Asia/Muscat": "14064,0,LMT;14400,0,+04|-q3go6oB|<+04>-4",
+  "Asia/Nicosia": "8008,0,LMT;7200,0,EET;10800,1,EEST|-p4bq6gBrvhxygC9cyk0Bb42s0C7nuk0B8yas0C8zzw0B9q2s0C9et80B9b9g0C9cyk0B9q2s0C8zzw0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9px80B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9q2s0C9cyk0B9d440C9cyk0B9d440Cat4c0B|EET-2EEST,M3.5.0/3,M10.5.0/4",
+  "Asia/Novokuznetsk": "20928,0,LMT;21600,0,+06;25200,0,+07;28800,1,+08;25200,1,+07|-nu36tcB37bu5cCqi27w0D9et80C9d440D9et80C9d440D9et80C9eys0D9d6w0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9d1c0E9d440B5reo0C3ljw0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9q000Dasw00C7x6o0Dasw00C7x6o0Dasw00C7x6o0Db5uo0C7k800Db5uo0C7k800Db5uo0C7x6o0Dasw00C7x6o0Dasw00C7x6o0Db5uo0C7k800Db5uo0C7k800Db5uo0C7k800Db5uo0C7x6o0Dasw00C7x6o0Dasw00C7x6o0Eb5xg0B7k800C|<+07>-7",
+  "Asia/Novosibirsk": "19900,0,LMT;21600,0,+06;25200,0,+07;28800,1,+08;25200,1,+07|-q4do0sB5hmbcsCqi27w0D9et80C9d440D9et80C9d440D9et80C9eys0D9d6w0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9d1c0E9d440B5reo0C3ljw0D9d1c0C9d1c0D2vh00E6hn40B9d1c0E9d1c0B9d1c0E9d1c0B9q000Easw00B7x6o0Easw00B7x6o0Easw00B7x6o0Eb5uo0B7k800Eb5uo0B7k800Eb5uo0B7x6o0Easw00B7x6o0Easw00B7x6o0Eb5uo0B7k800Eb5uo0B7k800Eb5uo0B7k800Eb5uo0B7x6o0Easw00B7x6o0Easw00B7x6o0Eb5uo0B7k800C1vbzw0Bwrpg0C|<+07>-7",
+  "Asia/Omsk": "17610,0,LMT;18000,0,+05;21600,0,+06;25200,1,+07;21600,1,+06;25200,0,+07|-q5xmx6B5j6d16Cqi27w0D9et80C9d440D9et80C9d440D9et80C9eys0D9d6w0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9d1c0E9d440B5reo0C3ljw0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9q000Dasw00C7x6o0Dasw00C7x6o0Dasw00C7x6o0Db5uo0C7k800Db5uo0C7k800Db5uo0C7x6o0Dasw00C7x6o0Dasw00C7x6o0Db5uo0C7k800Db5uo0C7k800Db5uo0C7k800Db5uo0C7x6o0Dasw00C7x6o0Dasw00C7x6o0Db5uo0C7k800F1vbzw0C|<+06>-6",
+  "Asia/Oral": "12324,0,LMT;10800,0,+03;18000,0,+05;21600,1,+06;21600,0,+06;18000,1,+05;14400,0,+04|-nu15icB37a16cCqi2540D9et80E9d1c0D9ew00C9d440D9et80C9eys0D9d6w0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0F9d440G9d1c0F9q000G9d1c0F9d1c0G5reo0C3ljw0F9d440G9d1c0F9d1c0G9d1c0F9d1c0G9d1c0F9d1c0G9q000Fasw00G7x6o0Fasw00G7x6o0Fasw00G7x6o0Fb5uo0G7k800Fb5uo0G7k800Fb5uo0G7x6o0Fasw00G7x6o0Fasw00G7x6o0Fb5uo0C|<+05>-5",
+  "Asia/Phnom_Penh": "25180,0,LMT;25590,0,PLMT;25200,0,+07;28800,0,+08;32400,0,+09|-x568rgB2isicmCgj25iuD15ct80E8so00C|<+07>-7",
+  "Asia/Pontianak": "26240,0,LMT;26240,0,PMT;27000,0,+0730;32400,0,+09;28800,0,+08;28800,0,WITA;25200,0,WIB|-w6piwwBcse2o0C4tnu2wD1wkei0C1cx860E11jta0C74uc20Fcixam0G|WIB-7",
+  "Asia/Pyongyang": "30180,0,LMT;30600,0,KST;32400,0,JST;32400,0,KST|-w895ycB1yh10cChk5da0D10ipmo0B1f4qo0D|KST-9",
+  "Asia/Qatar": "12368,0,LMT;14400,0,+04;10800,0,+03|-q3gmvkBrctnrkC|<+03>-3",
+  "Asia/Qostanay": "15268,0,LMT;14400,0,+04;18000,0,+05;21600,1,+06;21600,0,+06;18000,1,+05|-nu17s4B37a0o4Cqi27w0D9et80E9d1c0D9ew00C9d440D9et80C9eys0D9d6w0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9d1c0F9d440B5reo0C3ljw0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9q000Dasw00C7x6o0Dasw00C7x6o0Dasw00C7x6o0Db5uo0C7k800Db5uo0C7k800Db5uo0C7x6o0Dasw00C7x6o0Dasw00C7x6o0Db5uo0Ea37p00C|<+05>-5",
+  "Asia/Qyzylorda": "15712,0,LMT;14400,0,+04;18000,0,+05;21600,1,+06;21600,0,+06;18000,1,+05|-nu184gB37a10gCqi27w0D9et80E9d1c0D9ew00C9d440D9et80C9eys0D9d6w0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9d1c0F9d440C5rbw0E3ljw0D9d440C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9q000Dasw00C7x6o0Dasw00C7x6o0Dasw00C7x6o0Db5uo0C7k800Db5uo0C7k800Db5uo0C7x6o0Dasw00C7x6o0Dasw00C7x6o0Db5uo0E7dmqc0C|<+05>-5",
+  "Asia/Rangoon": "23087,0,LMT;23087,0,RMT;23400,0,+0630;32400,0,+09|-1ayykhbBkvhpc0Cbnjp3bD1kh520C|<+0630>-6:30",
+  "Asia/Riyadh": "11212,0,LMT;10800,0,+03|-bwgbbgB|<+03>-3",
+  "Asia/Sakhalin": "34248,0,LMT;32400,0,+09;39600,0,+11;43200,1,+12;39600,1,+11;36000,0,+10|-xl87rcBkvnarcCikvh40D9et80C9d440D9et80C9d440D9et80C9eys0D9d6w0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9d1c0E9d440F5reo0C3ljw0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9q000Dasw00C7x6o0Easys0F7x6o0Easw00F7x6o0Eb5uo0F7k800Eb5uo0F7k800Eb5uo0F7x6o0Easw00F7x6o0Easw00F7x6o0Eb5uo0F7k800Eb5uo0F7k800Eb5uo0F7k800Eb5uo0F7x6o0Easw00F7x6o0Easw00F7x6o0Eb5uo0F7k800C1vbzw0Fqnc40C|<+11>-11",
+  "Asia/Samarkand": "16073,0,LMT;14400,0,+04;18000,0,+05;21600,1,+06;21600,0,+06|-nu18ehB37a1ahCqi27w0D9et80E9d1c0D9ew00C9d440D9et80C9eys0D9d6w0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9d1c0D9d1c0C|<+05>-5",
+  "Asia/Seoul": "30472,0,LMT;30600,0,KST;32400,0,JST;32400,0,KST;36000,1,KDT;34200,1,KDT|-w8966gB1yh18gChkx5a0D1faao0E5cik0Dae5g0E8a2k0Dae5g0E8bx80Dc8tg0E6h980D1bj6s0Bl3aq0F6j3w0Bd2g40F6u7w0Bb5xg0F776k0Bbiw40F776k0Bbiw40F776k0Bbiw40F776k0Bgrs40Ddfqxi0E7x6o0Dasw00E7x6o0D|KST-9",
+  "Asia/Shanghai": "29143,0,LMT;28800,0,CST;32400,1,CDT|-100eztjB9jeyxjC8sl80Basbpg0C6w2k0B7ves0Cbxjw0B4mqs0C1vduk0Bd4as0C75bw0Ba31g0Caaak0B9d440C7v980Bawo40C1dx80Bj9xpo0C6u7w0Basys0C7x3w0Bb5xg0C7k580Bb5xg0C7x3w0Basys0C7x3w0Basys0C7x3w0B|CST-8",
+  "Asia/Singapore": "24925,0,LMT;24925,0,SMT;25200,0,+07;26400,1,+0720;26400,0,+0720;27000,0,+0730;32400,0,+09;28800,0,+08|-100ewkdB2ax6o0Ceeb94dD1kbr2oE2yhc00F8n3jcG1v2p60Fiy3ms0H|<+08>-8",
+  "Asia/Srednekolymsk": "36892,0,LMT;36000,0,+10;39600,0,+11;43200,1,+12;39600,1,+11;43200,0,+12|-nu1ogsB37a0osCqi27w0D9et80C9d440D9et80C9d440D9et80C9eys0D9d6w0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9d1c0E9d440B5reo0C3ljw0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9q000Dasw00C7x6o0Dasw00C7x6o0Dasw00C7x6o0Db5uo0C7k800Db5uo0C7k800Db5uo0C7x6o0Dasw00C7x6o0Dasw00C7x6o0Db5uo0C7k800Db5uo0C7k800Db5uo0C7k800Db5uo0C7x6o0Dasw00C7x6o0Dasw00C7x6o0Db5uo0C7k800F1vbzw0C|<+11>-11",
+  "Asia/Taipei": "29160,0,LMT;28800,0,CST;32400,0,JST;32400,1,CDT|-12mch60Blsd1m0C45slc0Bc51c0D75bw0Ba31g0Daaak0B9d440D7v980Bawo40D7v980Bawo40D7v980Bawo40D7v980B7tk40Dclmk0B7rpg0Db07w0B7rpg0Db07w0B7rpg0D9et80B9eys0D9et80B9d440D9et80B9d440D9et80B9d440D9et80Bcjxg0D69uk0Bci2s0D69uk0B6its40D9et80B9d440D9et80B1yf9g0D4qak0B|CST-8",
+  "Asia/Tashkent": "16631,0,LMT;18000,0,+05;21600,0,+06;25200,1,+07;21600,1,+06|-nu18tzB379yxzCqi27w0D9et80C9d440D9et80C9d440D9et80C9eys0D9d6w0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9d1c0E9d440B|<+05>-5",
+  "Asia/Tbilisi": "10751,0,LMT;10751,0,TBMT;10800,0,+03;14400,0,+04;18000,1,+05;14400,1,+04|-1ayyaynBn4x6o0Ch4tjynDckinw0E9et80D9d440E9et80D9d440E9et80D9eys0E9d6w0D9d1c0E9d1c0D9d1c0E9d1c0D9d1c0E9d1c0D9d1c0E9d1c0D9d1c0E9d1c0D9d1c0E9q000D9d1c0F9d440C9cvs0F9cyk0C9d440F9cyk0C9d440F9cyk0D9d1c0E9cyk0D9q2s0Etivw0D7x9g0East80D7x9g0Eb5rw0D7kas0Eb5rw0D7kas0Eb5rw0D7x9g0East80D7x9g0East80D7x9g0E4ofw0F6hn40C7k800D|<+04>-4",
+  "Asia/Tehran": "12344,0,LMT;12344,0,TMT;12600,0,+0330;16200,1,+0430;14400,0,+04;18000,1,+05|-s6m6uwBa5dpc0Clsvh0wDayg00E7z2q0F6uao0E51hc0Ca4uq0D5wvw0C9gtg0D9kd80C5ja5g0D7avw0C9d440D9gnw0C9b9g0D9gnw0C9b9g0D9gnw0C9b9g0D9gnw0C9b9g0D9gnw0C9d440D9gnw0C9b9g0D9gnw0C9b9g0D9gnw0C9b9g0D9gnw0C9d440D9gnw0C9b9g0D9gnw0C9b9g0D9gnw0C9b9g0D9gnw0C9d440D9gnw0C1av440D9gnw0C9d440D9gnw0C9b9g0D9gnw0C9b9g0D9gnw0C9b9g0D9gnw0C9d440D9gnw0C9b9g0D9gnw0C9b9g0D9gnw0C9b9g0D9gnw0C9d440D9gnw0C9b9g0D9gnw0C9b9g0D9gnw0C9b9g0D9gnw0C9d440D9gnw0C9b9g0D9gnw0C|<+0330>-3:30",
+  "Asia/Thimphu": "21516,0,LMT;19800,0,+0530;21600,0,+06|-bojcloBkxymnoC|<+06>-6",
+  "Asia/Tokyo": "33539,0,LMT;32400,0,JST;36000,1,JDT|-16snno0Bvhjeo0C6uao0Bafxc0C8a5c0Bc8qo0C6hc00Bc8qo0C6hc00B|JST-9",
+  "Asia/Tomsk": "20391,0,LMT;21600,0,+06;25200,0,+07;28800,1,+08;25200,1,+07|-q3zbqfB5h7z2fCqi27w0D9et80C9d440D9et80C9d440D9et80C9eys0D9d6w0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9d1c0E9d440B5reo0C3ljw0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9q000Dasw00C7x6o0Dasw00C7x6o0Dasw00C7x6o0Db5uo0C7k800Db5uo0C7k800Db5uo0C7x6o0D1leo0E97k40B7x6o0Easw00B7x6o0Eb5uo0B7k800Eb5uo0B7k800Eb5uo0B7k800Eb5uo0B7x6o0Easw00B7x6o0Easw00B7x6o0Eb5uo0B7k800C1vbzw0Btw040C|<+07>-7",
+  "Asia/Ulaanbaatar": "25652,0,LMT;25200,0,+07;28800,0,+08;32400,1,+09|-xmcrskB11sncckC2qk2k0D9et80C9eys0D9cyk0C9d440D9cyk0C9d440D9cyk0C9d440D9cyk0C9d440D9cyk0C9d440D9cyk0C9d440D9px80C9d440D9cyk0C9d440D9cyk0C9d440D9cyk0C9d440D9cyk0C9d440D9cyk0C9q2s0D9cyk0C9d440D9cyk0C9d440D9cyk0C1ckdo0D7x3w0C9d440D9cyk0C9d440D9cyk0C9d440D9cyk0C9d440D9cyk0C9d440D9px80C4fio40D9ct00C9d9o0D9ct00C|<+08>-8",
+  "Asia/Urumqi": "21020,0,LMT;21600,0,+06|-lx5pjwB|<+06>-6",
+  "Asia/Ust-Nera": "34374,0,LMT;28800,0,+08;32400,0,+09;43200,1,+12;39600,0,+11;39600,1,+11;36000,0,+10;43200,0,+12|-q4cl6uB5hl2yuCqi27w0D9eno0E9d440D9et80E9d440D9et80E9eys0D9d6w0E9d1c0D9d1c0E9d1c0D9d1c0E9d1c0D9d1c0E9d1c0D9d1c0E9d1c0D9d1c0E9d1c0D9q000E9d1c0F9d440G5reo0E3ljw0D9d1c0E9d1c0D9d1c0E9d1c0D9d1c0E9d1c0D9d1c0E9q000Dasw00E7x6o0Dasw00E7x6o0Dasw00E7x6o0Db5uo0E7k800Db5uo0E7k800Db5uo0E7x6o0Dasw00E7x6o0Dasw00E7x6o0Db5uo0E7k800Db5uo0E7k800Db5uo0E7k800Db5uo0E7x6o0Dasw00E7x6o0Dasw00E7x6o0Db5uo0E7k800H8ql00E1mlho0G|<+10>-10",
+  "Asia/Vientiane": "24624,0,LMT;25590,0,PLMT;25200,0,+07;28800,0,+08;32400,0,+09|-x568c0B2ishx6Cgj25iuD15ct80E8so00Ctmtk0D470yk0C|<+07>-7",
+  "Asia/Vladivostok": "31651,0,LMT;32400,0,+09;36000,0,+10;39600,1,+11;36000,1,+10;39600,0,+11|-oligf7B3yqvf7Cqi27w0D9et80C9d440D9et80C9d440D9et80C9eys0D9d6w0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9d1c0E9d440B5reo0C3ljw0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9q000Dasw00C7x6o0Dasw00C7x6o0Dasw00C7x6o0Db5uo0C7k800Db5uo0C7k800Db5uo0C7x6o0Dasw00C7x6o0Dasw00C7x6o0Db5uo0C7k800Db5uo0C7k800Db5uo0C7k800Db5uo0C7x6o0Dasw00C7x6o0Dasw00C7x6o0Db5uo0C7k800F1vbzw0C|<+10>-10",
+  "Asia/Yakutsk": "31138,0,LMT;28800,0,+08;32400,0,+09;36000,1,+10;32400,1,+09;36000,0,+10|-q4cioyB5hl0gyCqi27w0D9et80C9d440D9et80C9d440D9et80C9eys0D9d6w0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9d1c0E9d440B5reo0C3ljw0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9q000Dasw00C7x6o0Dasw00C7x6o0Dasw00C7x6o0Db5uo0C7k800Db5uo0C7k800Db5uo0C7x6o0Dasw00C7x6o0Dasw00C7x6o0Db5uo0C7k800Db5uo0C7k800Db5uo0C7k800Db5uo0C7x6o0Dasw00C7x6o0Dasw00C7x6o0Db5uo0C7k800F1vbzw0C|<+09>-9",
+  "Asia/Yekaterinburg": "14553,0,LMT;13505,0,PMT;14400,0,+04;18000,0,+05;21600,1,+06;18000,1,+05;21600,0,+06|-rx5hw9B1kybx4C5pfyv5Dqi27w0E9et80D9d440E9et80D9d440E9et80D9eys0E9d6w0D9d1c0E9d1c0D9d1c0E9d1c0D9d1c0E9d1c0D9d1c0E9d1c0D9d1c0E9d1c0D9d1c0E9q000D9d1c0F9d440C5reo0D3ljw0E9d1c0D9d1c0E9d1c0D9d1c0E9d1c0D9d1c0E9d1c0D9q000Easw00D7x6o0Easw00D7x6o0Easw00D7x6o0Eb5uo0D7k800Eb5uo0D7k800Eb5uo0D7x6o0Easw00D7x6o0Easw00D7x6o0Eb5uo0D7k800Eb5uo0D7k800Eb5uo0D7k800Eb5uo0D7x6o0Easw00D7x6o0Easw00D7x6o0Eb5uo0D7k800G1vbzw0D|<+05>-5",
+  "Asia/Yerevan": "10680,0,LMT;10800,0,+03;14400,0,+04;18000,1,+05;14400,1,+04|-nu148oBh4tjwoCckinw0D9et80C9d440D9et80C9d440D9et80C9eys0D9d6w0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9d1c0E9d440B9d1c0E9d1c0B9d1c0E9d1c0B9d1c0E9d1c0B9d1c0E9d1c0Csfzw0Dasw00C7x6o0Dasw00C7x6o0Db5uo0C7k800Db5uo0C7k800Db5uo0C7x6o0Dasw00C7x6o0Dasw00C7x6o0Db5uo0C7k800Db5uo0C7k800Db5uo0C7k800Db5uo0C7x6o0Dasw00C7x6o0Dasw00C7x6o0Db5uo0C7k800Db5uo0C|<+04>-4",
+  "Atlantic/Azores": "-6160,0,LMT;-6872,0,HMT;-7200,0,-02;-3600,1,-01;0,1,+00;-3600,0,-01;0,0,WET;3600,1,WEST|-18vsdwwBem124wC2bufw0D6zxg0C66800Dbq580C71s40Dbq580C71s40Dbq580C73ms0Dbq580C71s40Dbq580C1b2g00D8so00Cst1c0D8n400C9q000D902o0Ca2yo0D902o0Ca2yo0D8n400Cst1c0D8n400C9d1c0D9d1c0Csg2o0D9d1c0C902o0D9q000Ca2yo0D8n400C9d1c0D9d1c0C902o0D9q000Ca2yo0Db5uo0C51hc0Dbmio0C99c00D9ew00C88ao0D25p80E5reo0D3lpg0C779c0D1sqk0E6uao0D38qs0C6uao0D25p80E6hc00D38qs0C6uao0D25p80E6hc00D38qs0C8a5c0D9d1c0C9d9o0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0F82xuc0E9d1c0F9d1c0E9d1c0F9d1c0E9q000F9d1c0E9d1c0F9d1c0E9d1c0F9d1c0E9d1c0F9d1c0E9d1c0F9d1c0E9d1c0F9d1c0E9q000F9d1c0E9d1c0F9d1c0E9d1c0F4olg0G4ofw0H46000E571c0F9d1c0E9d1c0F9d1c0E9d1c0F9q000E|<-01>1<+00>,M3.5.0/0,M10.5.0/1",
+  "Atlantic/Bermuda": "-15558,0,LMT;-15558,0,BMT;-11958,1,BST;-14400,0,AST;-10800,1,ADT|-15r0xbuBe851c0C95jw0Ba16s0C7yyk0B5w74c0D69z5ruEeefw0D7x9g0Ebiqk0D6udg0Ec8nw0D6hes0Ec8nw0Dst440E64ak0Dcyqs0E5ed80Ddbpg0E5ed80Ddoo40E51ek0Ddoo40E51ek0Ddoo40E5ed80D1xuw40E7x3w0D94r9g0E9cyk0D9d440E9cyk0D9d440E9px80D905g0E9px80D9d440E9cyk0D9d440E9cyk0D9d440E9cyk0D9d440E9cyk0D9d440E9px80D905g0E9px80D9d440E9cyk0D9d440E9cyk0D9d440E9cyk0D8a840Eafuk0D8a840East80D7x9g0East80D7x9g0East80D8a840Eafuk0D8a840Eafuk0D8a840East80D7x9g0East80D7x9g0East80D8a840Eafuk0D8a840Eafuk0D8a840Eafuk0D8a840East80D7x9g0East80D7x9g0East80D8a840Eafuk0D8a840Eafuk0D8a840East80D7x9g0East80D7x9g0East80D6udg0E|AST4ADT,M3.2.0,M11.1.0",
+  "Atlantic/Canary": "-3696,0,LMT;-3600,0,-01;0,0,WET;3600,1,WEST|-oytbtcBctvupcChhq7s0D905g0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9q000D|WET0WEST,M3.5.0/1,M10.5.0",
+  "Atlantic/Cape_Verde": "-5644,0,LMT;-7200,0,-02;-3600,1,-01;-3600,0,-01|-u9rbs0Bg06lc0C1mn180Bfpqwc0D|<-01>1",
+  "Atlantic/Faroe": "-1624,0,LMT;0,0,WET;3600,1,WEST|-wcehewB127keuwC9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9q000B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9q000B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9q000C|WET0WEST,M3.5.0/1,M10.5.0",
+  "Atlantic/Madeira": "-4056,0,LMT;-4056,0,FMT;-3600,0,-01;0,1,+00;3600,1,+01;0,0,WET;3600,1,WEST|-18vsfjcBem10zcC2bufw0D6zxg0C66800Dbq580C71s40Dbq580C71s40Dbq580C73ms0Dbq580C71s40Dbq580C1b2g00D8so00Cst1c0D8n400C9q000D902o0Ca2yo0D902o0Ca2yo0D8n400Cst1c0D8n400C9d1c0D9d1c0Csg2o0D9d1c0C902o0D9q000Ca2yo0D8n400C9d1c0D9d1c0C902o0D9q000Ca2yo0Db5uo0C51hc0Dbmio0C99c00D9ew00C88ao0D25p80E5reo0D3lpg0C779c0D1sqk0E6uao0D38qs0C6uao0D25p80E6hc00D38qs0C6uao0D25p80E6hc00D38qs0C8a5c0D9d1c0C9d9o0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0F83at00G902o0F9d1c0G9d1c0F9d1c0G9q000F9d1c0G9d1c0F9d1c0G9d440F9d1c0G9d1c0F9d1c0G9d1c0F9d1c0G9d1c0F9d1c0G9q000F9d1c0G9d1c0F9d1c0G9d1c0F9d1c0G9d1c0F9d1c0G9d1c0F9d1c0G9d1c0F9q000G|WET0WEST,M3.5.0/1,M10.5.0",
+  "Atlantic/Reykjavik": "-5280,0,LMT;-3600,0,-01;0,1,+00;0,0,GMT|-wcwx9cB4rpd9cCci2s0B69uk0Cdu840B4xp80Cdu840Bp7bw0C4w040B9bdzw0C9d6w0B64g40Ccyl80B64dc0Cclpc0B6hc00Cbvs00B6uao0Cbvs00B6uao0Cbvs00B6uao0Cc8qo0B6hc00Cc8qo0B8a5c0Cafxc0B8a5c0Cafxc0B8a5c0Casw00B7x6o0Cafxc0B8a5c0Casw00B8a5c0Cafxc0B8a5c0Cafxc0B8a5c0Cafxc0B8a5c0Cafxc0B8a5c0Casw00B8a5c0Cafxc0B8a5c0Cafxc0B8a5c0Cafxc0B8a5c0Cafxc0B8a5c0Cafxc0B8a5c0Casw00B8a5c0Cafxc0B8a5c0Cafxc0B8a5c0Cafxc0B8a5c0Cafxc0B8a5c0Casw00B8a5c0D|GMT0",
+  "Atlantic/South_Georgia": "-8768,0,LMT;-7200,0,-02|-15r12kgB|<-02>2",
+  "Atlantic/St_Helena": "-1368,0,LMT;-1368,0,JMT;0,0,GMT|-15r18a0Bvu1eo0C|GMT0",
+  "Atlantic/Stanley": "-13884,0,LMT;-13884,0,SMT;-14400,0,-04;-10800,1,-03;-10800,0,-03;-7200,1,-02|-15r0ymcBbkx9c0CdbvxqcD8zzw0C9q2s0D8zzw0Ca31g0D8zzw0C9q2s0D8zzw0C9q2s0D8zzw0C9q2s0D4xp80Cl1pus0E7k580Fb5rw0E77c40Fbiqk0E77c40Db5uo0C7kas0Db5rw0C7kas0Db5rw0C7kas0Db5rw0C7kas0Dbiqk0C77c40Dbiqk0C7kas0Db5rw0C7kas0Db5rw0C7kas0Db5rw0C7kas0Db5rw0C7kas0Dbiqk0C7kas0Db5rw0C7kas0Db5rw0C7kas0Db5rw0C7kas0Db5rw0C7kas0Db5xg0C77c40Dbvp80C6udg0Dbvp80C77c40Dbiqk0C77c40Dbiqk0C77c40Dbiqk0C77c40Dbiqk0C77c40Dbvp80C77c40Dbiqk0C77c40Dbiqk0C77c40E|<-03>3",
+  "Australia/Adelaide": "33260,0,LMT;32400,0,ACST;34200,0,ACST;37800,1,ACDT|-133j2zwB27qdzwC97zyu0D49pc0Ccxfk00D4h400C9d1c0D9d1c0C9q000D902o0Ceeio00D64dc0Cclpc0D6hc00Cc8qo0D6hc00Cc8qo0D6hc00Cc8qo0D6uao0Cc8qo0D6hc00Cc8qo0D6hc00Cc8qo0D6hc00Cc8qo0D6hc00Cc8qo0D6hc00Cc8qo0D6uao0Cc8qo0D6hc00Cc8qo0D6hc00Cc8qo0D6hc00Cc8qo0D779c0Cb5uo0D7k800Cbitc0D7k800Cbitc0D779c0Cbitc0D779c0Cbitc0D6hc00Cc8qo0D7k800Cb5uo0D6uao0Cc8qo0D779c0Cbitc0D7k800Cb5uo0D7x6o0Casw00D7x6o0Casw00D7x6o0Casw00D7x6o0Cb5uo0D7k800Cb5uo0D7k800Cb5uo0D7x6o0Casw00D7x6o0Casw00D7x6o0Cb5uo0D7k800Cb5uo0D7x6o0Casw00D7k800Cb5uo0D|ACST-9:30ACDT,M10.1.0,M4.1.0/3",
+  "Australia/Brisbane": "36728,0,LMT;36000,0,AEST;39600,1,AEDT|-1354kc8Bbhbss8C49pc0Bcxfk00C4h400B9d1c0C9d1c0B9q000C902o0Beeio00C64dc0B97zuo0C6hc00Bc8qo0C6hc00Bc8qo0C6hc00B|AEST-10",
+  "Australia/Broken_Hill": "33948,0,LMT;36000,0,AEST;32400,0,ACST;34200,0,ACST;37800,1,ACDT|-133j3j0Bt9nr0C1egqs0D97zyu0E49pc0Dcxfk00E4h400D9d1c0E9d1c0D9q000E902o0Deeio00E64dc0Dclpc0E6hc00Dc8qo0E6hc00Dc8qo0E6hc00Dc8qo0E6uao0Dc8qo0E6hc00Dc8qo0E6hc00Dc8qo0E6hc00Dc8qo0E6hc00Dc8qo0E6hc00Dc8qo0E8a5c0Dasw00E6hc00Dc8qo0E6hc00Dc8qo0E6hc00Dc8qo0E779c0Db5uo0E7k800Dbitc0E7k800Dbitc0E779c0Dbitc0E6hc00Dc8qo0E6hc00Dc8qo0E6hc00Dc8qo0E6uao0Dc8qo0E6hc00Dc8qo0E6hc00Dc8qo0E7x6o0Dasw00E7x6o0Dasw00E7x6o0Dasw00E7x6o0Db5uo0E7k800Db5uo0E7k800Db5uo0E7x6o0Dasw00E7x6o0Dasw00E7x6o0Db5uo0E7k800Db5uo0E7x6o0Dasw00E7k800Db5uo0E|ACST-9:30ACDT,M10.1.0,M4.1.0/3",
+  "Australia/Darwin": "31400,0,LMT;32400,0,ACST;34200,0,ACST;37800,1,ACDT|-133j1k8B27qck8C97zyu0D49pc0Ccxfk00D4h400C9d1c0D9d1c0C9q000D902o0C|ACST-9:30",
+  "Australia/Eucla": "30928,0,LMT;31500,0,+0845;35100,1,+0945|-12nxx74Bb05944C49pc0Bcxfk00C4h400B9d1c0C9d1c0Bgheyo0C6hc00B4ir9c0C6hc00B40r400C5eg00B7p9hc0C5reo0Bb5uo0C7x6o0Basw00C7x6o0B|<+0845>-8:45",
+  "Australia/Hobart": "35356,0,LMT;36000,0,AEST;39600,1,AEDT|-12smja4Bb03ee4C902o0Bb5uo0C6hc00Bc8qo0C6hc00Bbx2ao0C4h400B9d1c0C9d1c0B9q000C902o0Bc9tk00C9d1c0Basw00C6uao0Bbvs00C6uao0Bbvs00C779c0Bbvs00C64dc0Bclpc0C6hc00Bc8qo0C6hc00Bc8qo0C6hc00Bc8qo0C6uao0Bc8qo0C6hc00Bc8qo0C6hc00Bc8qo0C6hc00Bc8qo0C6hc00Bc8qo0C6hc00Bc8qo0C7x6o0Bb5uo0C7k800Bb5uo0C6hc00Bc8qo0C6hc00Bc8qo0C6hc00Bbvs00C7k800Bbitc0C7k800Bbitc0C779c0Bbitc0C779c0Bbitc0C7x6o0B9q000C902o0B9q000C902o0B9q000C902o0B9q000C902o0B9q000C9d1c0B9q000C902o0B9q000C902o0B9q000C902o0B9q000C902o0B7x6o0Casw00Ba2yo0C902o0B9q000C902o0B9q000C902o0B9q000C902o0B9q000C9d1c0B9d1c0C902o0Ba2yo0C|AEST-10AEDT,M10.1.0,M4.1.0/3",
+  "Australia/Lindeman": "35756,0,LMT;36000,0,AEST;39600,1,AEDT|-1354jl8Bbhbs18C49pc0Bcxfk00C4h400B9d1c0C9d1c0B9q000C902o0Beeio00C64dc0B97zuo0C6hc00Bc8qo0C6hc00Bc8qo0C6hc00Bc8qo0C6uao0Bc8qo0C6hc00B|AEST-10",
+  "Australia/Lord_Howe": "38180,0,LMT;36000,0,AEST;37800,0,+1030;41400,1,+1130;39600,1,+11|-133j6skB18x8f0kCc8uu0D6u7w0Cc8tg0D6h980Cc8tg0D6h980Cc8tg0D6h980Cc8tg0E777y0Cb5w20E7k6m0Cbiuq0E7k6m0Cbiuq0E777y0Cbiuq0E6ham0Cc8s20E6ham0Cc8s20E6ham0Cc8s20E6u9a0Cc8s20E6ham0Cc8s20E6ham0Cc8s20E7x5a0Casxe0E7x5a0Casxe0E7x5a0Casxe0E7x5a0Cb5w20E7k6m0C7x820Easum0Cb5w20E7x5a0Casxe0E7x5a0Casxe0E7x5a0Cb5w20E7k6m0Cb5w20E7x5a0Casxe0E7k6m0Cb5w20E|<+1030>-10:30<+11>-11,M10.1.0,M4.1.0",
+  "Australia/Melbourne": "34792,0,LMT;36000,0,AEST;39600,1,AEDT|-133j46gBbfqcmgC49pc0Bcxfk00C4h400B9d1c0C9d1c0B9q000C902o0Beeio00C64dc0Bclpc0C6hc00Bc8qo0C6hc00Bc8qo0C6hc00Bc8qo0C6uao0Bc8qo0C6hc00Bc8qo0C6hc00Bc8qo0C6hc00Bc8qo0C6hc00Bc8qo0C6hc00Bc8qo0C6uao0Bc8qo0C6hc00Bc8qo0C6hc00Bc8qo0C6hc00Bc8qo0C779c0Bb5uo0C7k800Bb5uo0C7x6o0Bbitc0C779c0Bbitc0C779c0Bbitc0C6hc00Bc8qo0C6hc00Bc8qo0C6uao0Bc8qo0C6hc00Bc8qo0C7k800Bb5uo0C7x6o0Basw00C7x6o0Basw00C7x6o0Basw00C7x6o0Bb5uo0C7k800B7x6o0Casw00Bb5uo0C7x6o0Basw00C7x6o0Basw00C7x6o0Bb5uo0C7k800Bb5uo0C7x6o0Basw00C7k800Bb5uo0C|AEST-10AEDT,M10.1.0,M4.1.0/3",
+  "Australia/Perth": "27804,0,LMT;28800,0,AWST;32400,1,AWDT|-12nxuscBb058scC49pc0Bcxfk00C4h400B9d1c0C9d1c0Bgheyo0C6hc00B4ir9c0C6hc00B40r400C5eg00B7p9hc0C5reo0Bb5uo0C7x6o0Basw00C7x6o0B|AWST-8",
+  "Australia/Sydney": "36292,0,LMT;36000,0,AEST;39600,1,AEDT|-133j5c4Bbfqds4C49pc0Bcxfk00C4h400B9d1c0C9d1c0B9q000C902o0Beeio00C64dc0Bclpc0C6hc00Bc8qo0C6hc00Bc8qo0C6hc00Bc8qo0C6uao0Bc8qo0C6hc00Bc8qo0C6hc00Bc8qo0C6hc00Bc8qo0C6hc00Bc8qo0C6hc00Bc8qo0C8a5c0Basw00C6hc00Bc8qo0C6hc00Bc8qo0C6hc00Bc8qo0C779c0Bb5uo0C7k800Bbitc0C7k800Bbitc0C779c0Bbitc0C6hc00Bc8qo0C6hc00Bc8qo0C6hc00Bc8qo0C6uao0Bc8qo0C6hc00Bc8qo0C6hc00Bc8qo0C7x6o0Basw00C7x6o0Basw00C7x6o0Basw00C7x6o0Bb5uo0C7k800B7x6o0Casw00Bb5uo0C7x6o0Basw00C7x6o0Basw00C7x6o0Bb5uo0C7k800Bb5uo0C7x6o0Basw00C7k800Bb5uo0C|AEST-10AEDT,M10.1.0,M4.1.0/3",
+  "CET": "3600,0,CET;7200,1,CEST|-s0e080B7ves0Aa4yw0B7x6o0Aasw00B7x6o0Ab8qdc0B1cm000A7k800B9q000A9d1c0B9d1c0A9d1c0B8l9c0Aggp1c0B902o0A9q000B9d1c0A9d1c0B9d1c0A9q000B902o0A9d1c0B9d1c0A9d1c0B9d1c0A9d1c0B9d1c0A9d1c0B9q000A9d1c0B9d1c0A9d1c0B9d1c0A9d1c0B9d1c0A9d1c0B9d1c0A9d1c0B9d1c0A9d1c0B9q000A9d1c0B9d1c0A9d1c0B9d1c0A9d1c0B9d1c0A9d1c0B9d1c0A9d1c0B9d1c0A9q000B|CET-1CEST,M3.5.0,M10.5.0/3",
+  "CST6CDT": "-21600,0,CST;-18000,1,CDT;-18000,1,CWT;-18000,1,CPT|-r0esg0Bast80A7x9g0Bast80Abmtus0C1tz8c0D2dsw0Ab9gdg0B9cyk0A9d440B9cyk0A9d440B9cyk0A9d440B9cyk0A9d440B9px80A9d440B9cyk0A9d440B9cyk0A3lpg0Bf4d80A64g40Bclmk0A9d440B9px80A905g0B9px80A9d440B9cyk0A9d440B9cyk0A9d440B9cyk0A9d440B9cyk0A9d440B9px80A905g0B9px80A9d440B9cyk0A9d440B9cyk0A9d440B9cyk0A8a840Bafuk0A8a840Bast80A7x9g0Bast80A7x9g0Bast80A8a840Bafuk0A8a840Bafuk0A8a840Bast80A7x9g0Bast80A7x9g0Bast80A8a840Bafuk0A8a840Bafuk0A8a840Bafuk0A8a840Bast80A7x9g0Bast80A7x9g0Bast80A8a840Bafuk0A8a840Bafuk0A8a840Bast80A7x9g0Bast80A7x9g0Bast80A6udg0B|CST6CDT,M3.2.0,M11.1.0",
+  "EET": "7200,0,EET;10800,1,EEST|3s9ms0B902o0A9q000B9d1c0A9d1c0B9d1c0A9q000B902o0A9d1c0B9d1c0A9d1c0B9d1c0A9d1c0B9d1c0A9d1c0B9q000A9d1c0B9d1c0A9d1c0B9d1c0A9d1c0B9d1c0A9d1c0B9d1c0A9d1c0B9d1c0A9d1c0B9q000A9d1c0B9d1c0A9d1c0B9d1c0A9d1c0B9d1c0A9d1c0B9d1c0A9d1c0B9d1c0A9q000B|EET-2EEST,M3.5.0/3,M10.5.0/4",
+  "EST": "-18000,0,EST||EST5",
+  "EST5EDT": "-18000,0,EST;-14400,1,EDT;-14400,1,EWT;-14400,1,EPT|-r0ev80Bast80A7x9g0Bast80Abmtus0C1tzb40D2dq40Ab9gdg0B9cyk0A9d440B9cyk0A9d440B9cyk0A9d440B9cyk0A9d440B9px80A9d440B9cyk0A9d440B9cyk0A3lpg0Bf4d80A64g40Bclmk0A9d440B9px80A905g0B9px80A9d440B9cyk0A9d440B9cyk0A9d440B9cyk0A9d440B9cyk0A9d440B9px80A905g0B9px80A9d440B9cyk0A9d440B9cyk0A9d440B9cyk0A8a840Bafuk0A8a840Bast80A7x9g0Bast80A7x9g0Bast80A8a840Bafuk0A8a840Bafuk0A8a840Bast80A7x9g0Bast80A7x9g0Bast80A8a840Bafuk0A8a840Bafuk0A8a840Bafuk0A8a840Bast80A7x9g0Bast80A7x9g0Bast80A8a840Bafuk0A8a840Bafuk0A8a840Bast80A7x9g0Bast80A7x9g0Bast80A6udg0B|EST5EDT,M3.2.0,M11.1.0",
+  "Etc/GMT": "0,0,GMT||GMT0",
+  "Etc/GMT+1": "-3600,0,-01||<-01>1",
+  "Etc/GMT+10": "-36000,0,-10||<-10>10",
+  "Etc/GMT+11": "-39600,0,-11||<-11>11",
+  "Etc/GMT+12": "-43200,0,-12||<-12>12",
+  "Etc/GMT+2": "-7200,0,-02||<-02>2",
+  "Etc/GMT+3": "-10800,0,-03||<-03>3",
+  "Etc/GMT+4": "-14400,0,-04||<-04>4",
+  "Etc/GMT+5": "-18000,0,-05||<-05>5",
+  "Etc/GMT+6": "-21600,0,-06||<-06>6",
+  "Etc/GMT+7": "-25200,0,-07||<-07>7",
+  "Etc/GMT+8": "-28800,0,-08||<-08>8",
+  "Etc/GMT+9": "-32400,0,-09||<-09>9",
+  "Etc/GMT-1": "3600,0,+01||<+01>-1",
+  "Etc/GMT-10": "36000,0,+10||<+10>-10",
+  "Etc/GMT-11": "39600,0,+11||<+11>-11",
+  "Etc/GMT-12": "43200,0,+12||<+12>-12",
+  "Etc/GMT-13": "46800,0,+13||<+13>-13",
+  "Etc/GMT-14": "50400,0,+14||<+14>-14",
+  "Etc/GMT-2": "7200,0,+02||<+02>-2",
+  "Etc/GMT-3": "10800,0,+03||<+03>-3",
+  "Etc/GMT-4": "14400,0,+04||<+04>-4",
+  "Etc/GMT-5": "18000,0,+05||<+05>-5",
+  "Etc/GMT-6": "21600,0,+06||<+06>-6",
+  "Etc/GMT-7": "25200,0,+07||<+07>-7",
+  "Etc/GMT-8": "28800,0,+08||<+08>-8",
+  "Etc/GMT-9": "32400,0,+09||<+09>-9",
+  "Etc/UTC": "0,0,UTC||UTC0",
+  "Europe/Amsterdam": "1172,0,LMT;1172,0,AMT;4772,1,NST;4800,1,+0120;1200,0,+0020;7200,1,CEST;3600,0,CET|-1ygf4wkB16g19c0C7v980Ba51o0C7x6o0Ba2yo0C9d1c0B9q000C902o0B9q000C902o0B9q000C902o0B9b6o0Ca2yo0Bc51c0C6l1c0B902o0C9q000Bci000C682o0Bbgyo0C79400Bbitc0C779c0Bbmio0C7gio0Bbbeo0C7eo00Bbd9c0C7ctc0Bbf400C7ayo0Bbvs00C6uao0Bbko00C7idc0Bb9k00C7gio0Bbbeo0C7eo00Bbf400C7ayo0Bbtxc0C21uc0D4uaz8Ebitc0D779c0Ebko00D7idc0Ebd3s0F1aarpcG7k800F9q000G9d1c0F9d1c0G9d1c0F8l9c0Gggp1c0F902o0G9q000F9d1c0G9d1c0F9d1c0G9q000F902o0G9d1c0F9d1c0G9d1c0F9d1c0G9d1c0F9d1c0G9d1c0F9q000G9d1c0F9d1c0G9d1c0F9d1c0G9d1c0F9d1c0G9d1c0F9d1c0G9d1c0F9d1c0G9d1c0F9q000G9d1c0F9d1c0G9d1c0F9d1c0G9d1c0F9d1c0G9d1c0F9d1c0G9d1c0F9d1c0G9q000F|CET-1CEST,M3.5.0,M10.5.0/3",
+  "Europe/Andorra": "364,0,LMT;0,0,WET;3600,0,CET;7200,1,CEST|-100edm4Bnvgqy4Ck3ctg0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9q000D|CET-1CEST,M3.5.0,M10.5.0/3",
+  "Europe/Astrakhan": "11532,0,LMT;10800,0,+03;14400,0,+04;18000,1,+05;14400,1,+04|-nu2zkcB37bv8cCqi27w0D9et80C9d440D9et80C9d440D9et80C9eys0D9d6w0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0E9d440B9d1c0E9q000B9d1c0Cipzw0E9d440B9d1c0E9d1c0B9d1c0E9d1c0B9d1c0E9d1c0B9q000Easw00B7x6o0Easw00B7x6o0Easw00B7x6o0Eb5uo0B7k800Eb5uo0B7k800Eb5uo0B7x6o0Easw00B7x6o0Easw00B7x6o0Eb5uo0B7k800Eb5uo0B7k800Eb5uo0B7k800Eb5uo0B7x6o0Easw00B7x6o0Easw00B7x6o0Eb5uo0B7k800C1vbzw0Bqnc40C|<+04>-4",
+  "Europe/Athens": "5692,0,LMT;5692,0,AMT;7200,0,EET;10800,1,EEST;7200,1,CEST;3600,0,CET|-12rxtq4Baw2tdoC8bjasgD2vmk0C4hiw40D16ik0Escog0F7lx40E9o2k0F9eys0C4atzw0D6djw0Cbplus0Dbq800C71uw0D9d1c0C902o0D91xc0C9o5c0D905g0C9qgo0D9akg0C9iik0D99980C9dcg0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9q000D|EET-2EEST,M3.5.0/3,M10.5.0/4",
+  "Europe/Belgrade": "4920,0,LMT;3600,0,CET;7200,1,CEST|-18vsmgoBtwhnkoCswz00B7k800C9q000B9d1c0C9d1c0Bb7pc0C6qlc0Bjl1hc0C9d1c0B9d1c0C9q000B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9q000B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9q000C|CET-1CEST,M3.5.0,M10.5.0/3",
+  "Europe/Berlin": "3208,0,LMT;3600,0,CET;7200,1,CEST;10800,1,CEMT|-1421154Bc1n0x4C7ves0Ba4yw0C7x6o0Basw00C7x6o0Bb8qdc0C1cm000B7k800C9q000B9d1c0C9d1c0B9d1c0C2o7w0D6bs00C2txg0B7k800C91xc0B9b9g0C1sqk0D2inw0C51k40Ba2yo0C8n400B9q000C902o0Bfx91c0C902o0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9q000B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9q000B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9q000C|CET-1CEST,M3.5.0,M10.5.0/3",
+  "Europe/Brussels": "1050,0,LMT;1050,0,BMT;0,0,WET;3600,0,CET;7200,1,CEST;3600,1,WEST|-1ayy3h6B6forh6Cbr3hc0Drrx80E7vc00Da4yw0E7x6o0Dasw00E7x6o0D2wh40C5omo0Fb5uo0C6uao0Fcyo00C7ayo0Fbko00C7rmo0Fa2yo0Ca2yo0F8n400C902o0F9q000C9d1c0F9d1c0Ca2yo0F8n400C9q000F902o0Ca2yo0F90b00Ca2yo0F8n400C9q000F902o0Ca2yo0F8n400C9d1c0F9d1c0C902o0Fa2yo0C9d1c0F9d1c0C902o0F9q000Ca2yo0F8n400C9d1c0F9d1c0C902o0F9q000Ca2yo0Fb5uo0C51hc0F4deo0E1a36k0D7k800E9q000D9d1c0E8l9c0Da4tc0E8l9c0Dclpc0E79400Dfwu800E902o0D9q000E9d1c0D9d1c0E9d1c0D9q000E902o0D9d1c0E9d1c0D9d1c0E9d1c0D9d1c0E9d1c0D9d1c0E9q000D9d1c0E9d1c0D9d1c0E9d1c0D9d1c0E9d1c0D9d1c0E9d1c0D9d1c0E9d1c0D9d1c0E9q000D9d1c0E9d1c0D9d1c0E9d1c0D9d1c0E9d1c0D9d1c0E9d1c0D9d1c0E9d1c0D9q000E|CET-1CEST,M3.5.0,M10.5.0/3",
+  "Europe/Bucharest": "6264,0,LMT;6264,0,BMT;7200,0,EET;10800,1,EEST|-14u7wu0Bkrxxc0Cfj8m0D6w5c0C9d1c0D9d1c0C9q000D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0Ckp0dc0D6h980C9q000D905g0C9d6w0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9cvs0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9cyk0C9d440D9cyk0C9q2s0Dast80C7xhs0D|EET-2EEST,M3.5.0/3,M10.5.0/4",
+  "Europe/Budapest": "4580,0,LMT;3600,0,CET;7200,1,CEST|-15bee78Bdb0dz8C7ves0Ba4yw0C7x6o0Basw00C7x6o0Bauqo0C7vc00Bafxc0C8n400Baq1x00Cthcc0B7k800C9q000B9d1c0C9d1c0Bawd00C9eys0B7pxk0C9rrw0B9b9g0C9d1c0B9d1c0C9d1c0B9q000C902o0B2f4vs0C6u7w0Bbw0c0C6uao0Bclpc0C64dc0Bclpc0C64dc0Bbr3bs0C902o0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d6w0C9q000B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9q000B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9q000C|CET-1CEST,M3.5.0,M10.5.0/3",
+  "Europe/Chisinau": "6920,0,LMT;6900,0,CMT;6264,0,BMT;7200,0,EET;10800,1,EEST;7200,1,CEST;3600,0,CET;10800,0,MSK;14400,1,MSD|-1ayy808Bjw96okC70f1toDfj8m0E6w5c0D9d1c0E9d1c0D9q000E9d1c0D9d1c0E9d1c0D9d1c0E9d1c0D9d1c0E9d1c0D9d1c0E9d1c0D9d1c0E9d1c0Dgeqo0Eha580Foc8g0G7k800F9q000G9d1c0F7cl00Hj3pbw0I9et80H9d440I9et80H9d440I9et80H9eys0I9d6w0H9d1c0I9d1c0H9d1c0I9d1c0H9d1c0I9d1c0H9d1c0I9d1c0H9d1c0I9d1c0H9d1c0I25p80E7kdk0D9d1c0E9d1c0D9cvs0E9cyk0D9d440E9cyk0D9d440E9cyk0D9d440E9cyk0D9q2s0East80D7xf00E|EET-2EEST,M3.5.0,M10.5.0/3",
+  "Europe/Copenhagen": "3020,0,LMT;3020,0,CMT;3600,0,CET;7200,1,CEST|-15r1bnwB235k00Cbo7orwD75bw0Ccbs2w0D1aco80C7k800D9q000C9d1c0D9d1c0C9d1c0D6y000Cdbmo0D6bs00Cclpc0D51hc0Ce1k00D4oio0Cgiutc0D902o0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9q000D|CET-1CEST,M3.5.0,M10.5.0/3",
+  "Europe/Dublin": "-1521,0,LMT;-1521,0,DMT;2079,1,IST;0,0,GMT;3600,1,BST;3600,1,IST;3600,0,IST;0,1,GMT|-1anxqtrBiol480C6uao0D9pytrE8c000D9o5c0E9ruo0D9b6o0E9ew00D9b6o0Eauqo0D88ao0E9ew00D8y800Fa2yo0Da2yo0F7k800Dasw00F8a5c0Dasw00F8n400Da2yo0F8n400D9q000F902o0Dafxc0F8n400Da2yo0F8n400D9q000F902o0Da2yo0F8n400Da2yo0F8n400D9q000F9d1c0Da2yo0F8n400D9q000F902o0Da2yo0F8n400Da2yo0F8n400D9q000F902o0Da2yo0Fb5uo0D51hc0F3g8800D8a5c0Fbvs00D8n400Fa2yo0D7x6o0Fasw00D8n400F9q000D902o0F9q000D9d1c0F9q000D902o0F8n400D9q000F902o0Da2yo0F8n400Dafxc0F8n400D9q000F902o0Da2yo0F8n400Da2yo0F8n400D9q000F902o0D902o0Fb5uo0D7k800Fb5uo0D7x6o0Fasw00D7k800Fb5uo0D7k800Fb5uo0D7k800Fb5uo0D7k800Fbitc0D5reo0Fcyfo0G1kjf00H779c0Gbitc0H779c0Gbitc0H779c0Gbitc0H779c0Gbitc0H7k800Gb5uo0H7k800Gb5uo0H7k800Gbitc0H779c0Gbitc0H779c0Gbitc0H7x3w0Gasw00H7x6o0Gasw00H7x6o0Gasw00H7x6o0Gb5uo0H7x6o0Gasw00H7x6o0Gasw00H7x6o0Gasw00H7x6o0Gasw00H7x6o0Gb5uo0H7k800Gb5uo0H7x6o0Gasw00H7x6o0Gasw00H7x6o0Gasw00H7x6o0Gasw00H7x6o0Gasw00H8a5c0G|IST-1GMT0,M10.5.0,M3.5.0/1",
+  "Europe/Gibraltar": "-1284,0,LMT;0,0,GMT;3600,1,BST;7200,1,BDST;3600,0,CET;7200,1,CEST|-1anxr0cBiol38cC6uao0B9q000C8c000B9o5c0C9ruo0B9b6o0C9ew00B9b6o0Cauqo0B88ao0C9ew00B8y800Ca2yo0Ba2yo0C7k800Basw00C8a5c0Basw00C8n400Ba2yo0C8n400B9q000C902o0Bafxc0C8n400Ba2yo0C8n400B9q000C902o0Ba2yo0C8n400Ba2yo0C8n400B9q000C9d1c0Ba2yo0C8n400B9q000C902o0Ba2yo0C8n400Ba2yo0C8n400B9q000C902o0Ba2yo0Cb5uo0B51hc0Cmbmk0D51hc0Cc8qo0D6hc00Cc8qo0D6uao0Cbvs00D8n400Ca4tc0D5clc0C4bms0B9q000C902o0B8a5c0C1frw0D64dc0C4bms0B6uao0Cbvs00B7x6o0Casw00B8n400C9q000B902o0C9q000B9d1c0C9q000B902o0C8n400B9q000C902o0Ba2yo0C8n400Bafxc0C8n400B9q000Ed0tp80F9d1c0E9d1c0F9d1c0E9d1c0F9q000E9d1c0F9d1c0E9d1c0F9d1c0E9d1c0F9d1c0E9d1c0F9d1c0E9d1c0F9d1c0E9d1c0F9q000E9d1c0F9d1c0E9d1c0F9d1c0E9d1c0F9d1c0E9d1c0F9d1c0E9d1c0F9d1c0E9q000F|CET-1CEST,M3.5.0,M10.5.0/3",
+  "Europe/Guernsey": "-609,0,LMT;0,0,GMT;3600,1,BST;7200,1,CEST;3600,0,CET;7200,1,BDST;3600,0,BST|-tiakv3B1ixx33C6uao0B9q000C8c000B9o5c0C9ruo0B9b6o0C9ew00B9b6o0Cauqo0B88ao0C9ew00B8y800Ca2yo0Ba2yo0C7k800Basw00C8a5c0Basw00C8n400Ba2yo0C8n400B9q000C902o0Bafxc0C8n400Ba2yo0C8n400B9q000C902o0Ba2yo0C8n400Ba2yo0C8n400B9q000C9d1c0Ba2yo0C8n400B9q000C902o0Ba2yo0C8n400Ba2yo0C8n400B9q000C902o0Ba2yo0Cb5uo0B51hc0C6kt00D17vs80E7k800D9q000E9d1c0D9d1c0E9d1c0D1ufo0F3i5o0C4bms0B9q000C902o0B8a5c0C1frw0F64dc0C4bms0B6uao0Cbvs00B7x6o0Casw00B8n400C9q000B902o0C9q000B9d1c0C9q000B902o0C8n400B9q000C902o0Ba2yo0C8n400Bafxc0C8n400B9q000C902o0Ba2yo0C8n400Ba2yo0C8n400B9q000C902o0B902o0Cb5uo0B7k800Cb5uo0B7x6o0Casw00B7k800Cb5uo0B7k800Cb5uo0B7k800Cb5uo0B7k800Cbitc0B5reo0Ccyfo0G1kjf00B779c0Cbitc0B779c0Cbitc0B779c0Cbitc0B779c0Cbitc0B7k800Cb5uo0B7k800Cb5uo0B7k800Cbitc0B779c0Cbitc0B779c0Cbitc0B7x3w0Casw00B7x6o0Casw00B7x6o0Casw00B7x6o0Cb5uo0B7x6o0Casw00B7x6o0Casw00B7x6o0Casw00B7x6o0Casw00B7x6o0Cb5uo0B7k800Cb5uo0B7x6o0Casw00B7x6o0Casw00B7x6o0Casw00B7x6o0Casw00B7x6o0Casw00B8a5c0C|GMT0BST,M3.5.0/1,M10.5.0",
+  "Europe/Helsinki": "5989,0,LMT;5989,0,HMT;7200,0,EET;10800,1,EEST|-1bss9ydBmebs00Cax3tqdD9gqo0Ck31s80D9d1c0C9d1c0D9d1c0C9d440D9d1c0C9d1c0D9q000C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9q000D|EET-2EEST,M3.5.0/3,M10.5.0/4",
+  "Europe/Isle_of_Man": "-1075,0,LMT;0,0,GMT;3600,1,BST;7200,1,BDST;3600,0,BST|-19a1gi5Bhaosq5C6uao0B9q000C8c000B9o5c0C9ruo0B9b6o0C9ew00B9b6o0Cauqo0B88ao0C9ew00B8y800Ca2yo0Ba2yo0C7k800Basw00C8a5c0Basw00C8n400Ba2yo0C8n400B9q000C902o0Bafxc0C8n400Ba2yo0C8n400B9q000C902o0Ba2yo0C8n400Ba2yo0C8n400B9q000C9d1c0Ba2yo0C8n400B9q000C902o0Ba2yo0C8n400Ba2yo0C8n400B9q000C902o0Ba2yo0Cb5uo0B51hc0Cmbmk0D51hc0Cc8qo0D6hc00Cc8qo0D6uao0Cbvs00D8n400Ca4tc0D5clc0C4bms0B9q000C902o0B8a5c0C1frw0D64dc0C4bms0B6uao0Cbvs00B7x6o0Casw00B8n400C9q000B902o0C9q000B9d1c0C9q000B902o0C8n400B9q000C902o0Ba2yo0C8n400Bafxc0C8n400B9q000C902o0Ba2yo0C8n400Ba2yo0C8n400B9q000C902o0B902o0Cb5uo0B7k800Cb5uo0B7x6o0Casw00B7k800Cb5uo0B7k800Cb5uo0B7k800Cb5uo0B7k800Cbitc0B5reo0Ccyfo0E1kjf00B779c0Cbitc0B779c0Cbitc0B779c0Cbitc0B779c0Cbitc0B7k800Cb5uo0B7k800Cb5uo0B7k800Cbitc0B779c0Cbitc0B779c0Cbitc0B7x3w0Casw00B7x6o0Casw00B7x6o0Casw00B7x6o0Cb5uo0B7x6o0Casw00B7x6o0Casw00B7x6o0Casw00B7x6o0Casw00B7x6o0Cb5uo0B7k800Cb5uo0B7x6o0Casw00B7x6o0Casw00B7x6o0Casw00B7x6o0Casw00B7x6o0Casw00B8a5c0C|GMT0BST,M3.5.0/1,M10.5.0",
+  "Europe/Istanbul": "6952,0,LMT;7016,0,IMT;7200,0,EET;10800,1,EEST;10800,0,+03;14400,1,+04|-1ayy814Bg1oam8C2wvx6wD7v980C1tjc40Daunw0C88dg0D9et80C8yas0Da2vw0Ctzpg0D79180Cawo40D7v980C7p4040D4zjw0C2vs40Df4d80C9vms0D1u5ek0Cc5440D69uk0Cacas0D8n180Ca31g0D8n180C9q2s0D8zzw0Ca31g0D8zzw0Ca31g0D8n180C5md9g0Do9zw0Ca6qs0D75bw0C4iwyw0D7x6o0C7kas0Db5rw0C75hg0Dbkl80C77c40Dbiqk0C7x9g0Da2vw0C8n6s0D4iqc0E2nkw80F38l80Ekdes0C8qtc0D8a5c0C9ew00D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C902o0D9q000C9d1c0D9d1c0C9q000Dasw00C7x6o0Dasw00C7x6o0Dasw00C7x6o0Db5uo0C7k800Db5uo0C7k800Db5uo0C7x6o0Dasw00C7x6o0Dasw00C7x6o0Db5uo0C7k800Db5uo0C7k800Db5uo0C7kdk0Db5uo0C7x6o0Dasw00C7x6o0Dasw00C7x6o0Db5uo0C7m2o0Db4000C7k800Db5uo0C7x6o0Dasw00C7z1c0Dar1c0C7x6o0Dbitc0C779c0D8fe80E|<+03>-3",
+  "Europe/Jersey": "-506,0,LMT;0,0,GMT;3600,1,BST;7200,1,CEST;3600,0,CET;7200,1,BDST;3600,0,BST|-11cerk0B9d23s0C6uao0B9q000C8c000B9o5c0C9ruo0B9b6o0C9ew00B9b6o0Cauqo0B88ao0C9ew00B8y800Ca2yo0Ba2yo0C7k800Basw00C8a5c0Basw00C8n400Ba2yo0C8n400B9q000C902o0Bafxc0C8n400Ba2yo0C8n400B9q000C902o0Ba2yo0C8n400Ba2yo0C8n400B9q000C9d1c0Ba2yo0C8n400B9q000C902o0Ba2yo0C8n400Ba2yo0C8n400B9q000C902o0Ba2yo0Cb5uo0B51hc0C6kt00D17vs80E7k800D9q000E9d1c0D9d1c0E9d1c0D1ufo0F3i5o0C4bms0B9q000C902o0B8a5c0C1frw0F64dc0C4bms0B6uao0Cbvs00B7x6o0Casw00B8n400C9q000B902o0C9q000B9d1c0C9q000B902o0C8n400B9q000C902o0Ba2yo0C8n400Bafxc0C8n400B9q000C902o0Ba2yo0C8n400Ba2yo0C8n400B9q000C902o0B902o0Cb5uo0B7k800Cb5uo0B7x6o0Casw00B7k800Cb5uo0B7k800Cb5uo0B7k800Cb5uo0B7k800Cbitc0B5reo0Ccyfo0G1kjf00B779c0Cbitc0B779c0Cbitc0B779c0Cbitc0B779c0Cbitc0B7k800Cb5uo0B7k800Cb5uo0B7k800Cbitc0B779c0Cbitc0B779c0Cbitc0B7x3w0Casw00B7x6o0Casw00B7x6o0Casw00B7x6o0Cb5uo0B7x6o0Casw00B7x6o0Casw00B7x6o0Casw00B7x6o0Casw00B7x6o0Cb5uo0B7k800Cb5uo0B7x6o0Casw00B7x6o0Casw00B7x6o0Casw00B7x6o0Casw00B7x6o0Casw00B8a5c0C|GMT0BST,M3.5.0/1,M10.5.0",
+  "Europe/Kaliningrad": "4920,0,LMT;3600,0,CET;7200,1,CEST;7200,0,EET;10800,1,EEST;10800,0,MSK;14400,1,MSD;10800,0,+03|-14212goBc1n28oC7ves0Ba4yw0C7x6o0Basw00C7x6o0Bb8qdc0C1cm000B7k800C9q000B9d1c0C9d1c0B9d1c0Cel00Dz6o0E9kd80D82tg0Fi9avw0G9et80F9d440G9et80F9d440G9et80F9eys0G9d6w0F9d1c0G9d1c0F9d1c0G9d1c0F9d1c0G9d1c0F9d1c0G9d1c0F9d1c0E9d440D9d1c0E9q000D9d1c0E9d1c0D9d1c0E9d1c0D9d1c0E9d1c0D9d1c0E9d1c0D9d1c0E9d1c0D9q000Easw00D7x6o0Easw00D7x6o0Easw00D7x6o0Eb5uo0D7k800Eb5uo0D7k800Eb5uo0D7x6o0Easw00D7x6o0Easw00D7x6o0Eb5uo0D7k800Eb5uo0D7k800Eb5uo0D7k800Eb5uo0D7x6o0Easw00D7x6o0Easw00D7x6o0Eb5uo0D7k800H1vbzw0D|EET-2",
+  "Europe/Kiev": "7324,0,LMT;7324,0,KMT;7200,0,EET;10800,0,MSK;7200,1,CEST;3600,0,CET;14400,1,MSD;10800,1,EEST|-1ayy8bgBn4x6o0C37a03gD5vd6k0Ekzv40F7k800E9q000F1oyg0Djipzs0G9et80D9d440G9et80D9d440G9et80D9eys0G9d6w0D9d1c0G9d1c0D9d1c0G9d1c0D9d1c0G9d1c0D9d1c0G9d1c0D9d1c0G9d1c0D9d1c0G51ek0Hneqw0C9d1c0H9d1c0C9d1c0H9d1c0C9d1c0H9d1c0C9d1c0H9d1c0C9q000Hasys0C|EET-2EEST,M3.5.0/3,M10.5.0/4",
+  "Europe/Kirov": "11928,0,LMT;10800,0,+03;14400,0,+04;18000,1,+05;14400,1,MSD;10800,0,MSK;14400,0,MSK|-qcx400B5q5zo0Cqi27w0D9et80C9d440D9et80C9d440D9et80C9eys0D9d6w0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0E9d440F9d1c0E9q000F9d1c0Cipzw0E9d440F9d1c0E9d1c0F9d1c0E9d1c0F9d1c0E9d1c0F9q000Easw00F7x6o0Easw00F7x6o0Easw00F7x6o0Eb5uo0F7k800Eb5uo0F7k800Eb5uo0F7x6o0Easw00F7x6o0Easw00F7x6o0Eb5uo0F7k800Eb5uo0F7k800Eb5uo0F7k800Eb5uo0F7x6o0Easw00F7x6o0Easw00F7x6o0Eb5uo0F7k800G1vbzw0F|MSK-3",
+  "Europe/Lisbon": "-2205,0,LMT;0,0,WET;3600,1,WEST;7200,1,WEMT;3600,0,CET;7200,1,CEST|-u9rhc0B2bufw0C6zxg0B66800Cbq580B71s40Cbq580B71s40Cbq580B73ms0Cbq580B71s40Cbq580B1b2g00C8so00Bst1c0C8n400B9q000C902o0Ba2yo0C902o0Ba2yo0C8n400Bst1c0C8n400B9d1c0C9d1c0Bsg2o0C9d1c0B902o0C9q000Ba2yo0C8n400B9d1c0C9d1c0B902o0C9q000Ba2yo0Cb5uo0B51hc0Cbmio0B99c00C9ew00B88ao0C25p80D5reo0C3lpg0B779c0C1sqk0D6uao0C38qs0B6uao0C25p80D6hc00C38qs0B6uao0C25p80D6hc00C38qs0B8a5c0C9d1c0B9d9o0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9q000B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9q000B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9q000B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0E57ljs0B9d1c0C9d1c0B9q2s0C9d1c0B9d1c0C9d1c0B9q000C902o0B9cyk0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9q000B9d1c0C9d1c0B9d440C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9q000B9d1c0C9d1c0B9d1c0C9d1c0E9d1c0F9d1c0E9d1c0F9d1c0E9d1c0F9d1c0E9q000C|WET0WEST,M3.5.0/1,M10.5.0",
+  "Europe/Ljubljana": "3484,0,LMT;3600,0,CET;7200,1,CEST|-18vslcsBtwhmgsCswz00B7k800C9q000B9d1c0C9d1c0B9d1c0C8l9c0Bjl1hc0C9d1c0B9d1c0C9q000B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9q000B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9q000C|CET-1CEST,M3.5.0,M10.5.0/3",
+  "Europe/London": "-75,0,LMT;0,0,GMT;3600,1,BST;7200,1,BDST;3600,0,BST|-1rprx9xBzqf9hxC6uao0B9q000C8c000B9o5c0C9ruo0B9b6o0C9ew00B9b6o0Cauqo0B88ao0C9ew00B8y800Ca2yo0Ba2yo0C7k800Basw00C8a5c0Basw00C8n400Ba2yo0C8n400B9q000C902o0Bafxc0C8n400Ba2yo0C8n400B9q000C902o0Ba2yo0C8n400Ba2yo0C8n400B9q000C9d1c0Ba2yo0C8n400B9q000C902o0Ba2yo0C8n400Ba2yo0C8n400B9q000C902o0Ba2yo0Cb5uo0B51hc0Cmbmk0D51hc0Cc8qo0D6hc00Cc8qo0D6uao0Cbvs00D8n400Ca4tc0D5clc0C4bms0B9q000C902o0B8a5c0C1frw0D64dc0C4bms0B6uao0Cbvs00B7x6o0Casw00B8n400C9q000B902o0C9q000B9d1c0C9q000B902o0C8n400B9q000C902o0Ba2yo0C8n400Bafxc0C8n400B9q000C902o0Ba2yo0C8n400Ba2yo0C8n400B9q000C902o0B902o0Cb5uo0B7k800Cb5uo0B7x6o0Casw00B7k800Cb5uo0B7k800Cb5uo0B7k800Cb5uo0B7k800Cbitc0B5reo0Ccyfo0E1kjf00B779c0Cbitc0B779c0Cbitc0B779c0Cbitc0B779c0Cbitc0B7k800Cb5uo0B7k800Cb5uo0B7k800Cbitc0B779c0Cbitc0B779c0Cbitc0B7x3w0Casw00B7x6o0Casw00B7x6o0Casw00B7x6o0Cb5uo0B7x6o0Casw00B7x6o0Casw00B7x6o0Casw00B7x6o0Casw00B7x6o0Cb5uo0B7k800Cb5uo0B7x6o0Casw00B7x6o0Casw00B7x6o0Casw00B7x6o0Casw00B7x6o0Casw00B8a5c0C|GMT0BST,M3.5.0/1,M10.5.0",
+  "Europe/Luxembourg": "1476,0,LMT;3600,0,CET;7200,1,CEST;0,0,WET;3600,1,WEST;7200,1,WEST;3600,0,WET|-y89550B68l290C75hg0Bast80C796s0Bat1k0C7x6o0B3lh40D4zmo0Eb6300D6u2c0Ecytk0D7at40Ebktk0D7rh40Ea31g0Da2vw0E8n9k0D8zx40E9q2s0D9et80E9b9g0Da2vw0E8n6s0D9px80E905g0Da2vw0E905g0Da2vw0E8ncc0D9q000E902o0Da2yo0E8n400D9d1c0E9d1c0D902o0Ea2yo0D9d1c0E9d1c0D902o0E9q000Da2yo0E8n400D9d1c0E9d1c0D902o0E9q000Da2yo0Eb5uo0D51hc0E42ao0F1aeak0G7k800F9q000G9d1c0F8n400Ba2yo0C8l9c0Bclpc0C79400Bfwu800C902o0B9q000C9d1c0B9d1c0C9d1c0B9q000C902o0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9q000B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9q000B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9q000C|CET-1CEST,M3.5.0,M10.5.0/3",
+  "Europe/Madrid": "-884,0,LMT;0,0,WET;3600,1,WEST;7200,1,WEMT;3600,0,CET;7200,1,CEST|-100edc0B90sik0C8yas0B9cyk0C9eys0B2d2vw0C8sqs0Bssyk0C8n6s0B9px80C905g0Ba2yo0C902o0Ba2vw0C8n6s0B40lh80C5k2s0B9cyk0C1frw0D7z1c0Cj1c80B8a2k0E13yt80F685g0Ebrzw0F8n6s0Ea2vw0F8n6s0Ea2vw0F8n6s0Ea2vw0F8n6s0E1clx80F7x9g0Ecswik0F905g0E9px80F905g0E8zzw0F9d440E9px80F905g0E9q5k0F9d1c0E9d1c0F9d1c0E9q000F902o0E9d1c0F9d1c0E9d1c0F9d1c0E9d1c0F9d1c0E9d1c0F9q000E9d1c0F9d1c0E9d1c0F9d1c0E9d1c0F9d1c0E9d1c0F9d1c0E9d1c0F9d1c0E9d1c0F9q000E9d1c0F9d1c0E9d1c0F9d1c0E9d1c0F9d1c0E9d1c0F9d1c0E9d1c0F9d1c0E9q000F|CET-1CEST,M3.5.0,M10.5.0/3",
+  "Europe/Malta": "3484,0,LMT;3600,0,CET;7200,1,CEST|-13qyw0sBbsbx8sC64ak0B9d440C9et80B88dg0Caunw0B7ig40Cb5rw0B8n6s0C9cyk0Baau2s0C18r9k0B7k800C9q000B9b6o0C8n400Ba4tc0C8j940B9f1k0Cafxc0B89zs0Cafxc0B7kdk0Cb5uo0B979rs0C6h980Bcls40C64dc0Bclpc0C64dc0Bcyo00C64dc0Bclpc0C64dc0Bc8qo0C6hc00Bclpc0C6hc00B9b6o0C9d1c0Bahs00C7m2o0Bb45k0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Basys0C7x3w0Ba4w40C8y580B9q2s0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9q000B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9q000B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9q000C|CET-1CEST,M3.5.0,M10.5.0/3",
+  "Europe/Minsk": "6616,0,LMT;6600,0,MMT;7200,0,EET;10800,0,MSK;7200,1,CEST;3600,0,CET;14400,1,MSD;10800,1,EEST;10800,0,+03|-1ayy7rsBn4x6ogC379zjcD5r1mk0Epbf40F7k800E9q000F9d1c0E4oac0Dj6dmk0G9et80D9d440G9et80D9d440G9et80D9eys0G9d6w0D9d1c0G9d1c0D9d1c0G9d1c0D9d1c0G9d1c0D9d1c0G9d1c0D9d1c0G9d1c0Dsg2o0H9d440C9d1c0H9d1c0C9d1c0H9d1c0C9d1c0H9d1c0C9d1c0H9d1c0C9q000Hasw00C7x6o0Hasw00C7x6o0Hasw00C7x6o0Hb5uo0C7k800Hb5uo0C7k800Hb5uo0C7x6o0Hasw00C7x6o0Hasw00C7x6o0Hb5uo0C7k800Hb5uo0C7k800Hb5uo0C7k800Hb5uo0C7x6o0Hasw00C7x6o0Hasw00C7x6o0Hb5uo0C7k800I|<+03>-3",
+  "Europe/Monaco": "1772,0,LMT;561,0,PMT;0,0,WET;3600,1,WEST;7200,1,WEMT;3600,0,CET;7200,1,CEST|-14hnyp8B9tlnlnC2pzpnlD5luo0C8y800Da4tc0C7vc00Dauqo0C7idc0Db7pc0C6sg00Dcyo00C7ayo0Dbko00C7rmo0Da2yo0Cbvs00D6uao0C902o0D9q000C9d1c0D9d1c0Ca2yo0D8n400C9q000D902o0Ca2yo0D902o0Ca2yo0D8n400C9q000D902o0Ca2yo0D8n400C9d1c0D9d1c0C902o0Da2yo0C9d1c0D9d1c0C902o0D9q000Ca2yo0D8n400C9d1c0D9d1c0C902o0D9q000Ca2yo0Db5uo0C51po0Dmdbo0E7x3w0D7x9g0Ec8w80D7k800E9q000D9d1c0E9nzs0D922w0E8l9c0Ffxlx80G9cyk0F9q5k0G902o0F9q000G9d1c0F9d1c0G9d1c0F9q000G902o0F9d1c0G9d1c0F9d1c0G9d1c0F9d1c0G9d1c0F9d1c0G9q000F9d1c0G9d1c0F9d1c0G9d1c0F9d1c0G9d1c0F9d1c0G9d1c0F9d1c0G9d1c0F9d1c0G9q000F9d1c0G9d1c0F9d1c0G9d1c0F9d1c0G9d1c0F9d1c0G9d1c0F9d1c0G9d1c0F9q000G|CET-1CEST,M3.5.0,M10.5.0/3",
+  "Europe/Moscow": "9017,0,LMT;9017,0,MMT;9079,0,MMT;12679,1,MST;16279,1,MDST;14400,1,MSD;10800,0,MSK;18000,1,+05;7200,0,EET;10800,1,EEST;14400,0,MSK|-1ayy9mhBj1sw00CipzuaD97hc0C7yyk0E5i840Dd9p80E1jwk7F2cvk0Gs8o00F1qvw0H8fpc0F1jms0Gis040I412as0Gqi27w0F9et80G9d440F9et80G9d440F9et80G9eys0F9d6w0G9d1c0F9d1c0G9d1c0F9d1c0G9d1c0F9d1c0G9d1c0F9d1c0G9d1c0F9d1c0G9d1c0F9q000G9d1c0J9d440I5reo0G3ljw0F9d1c0G9d1c0F9d1c0G9d1c0F9d1c0G9d1c0F9d1c0G9q000Fasw00G7x6o0Fasw00G7x6o0Fasw00G7x6o0Fb5uo0G7k800Fb5uo0G7k800Fb5uo0G7x6o0Fasw00G7x6o0Fasw00G7x6o0Fb5uo0G7k800Fb5uo0G7k800Fb5uo0G7k800Fb5uo0G7x6o0Fasw00G7x6o0Fasw00G7x6o0Fb5uo0G7k800K1vbzw0G|MSK-3",
+  "Europe/Oslo": "2580,0,LMT;3600,0,CET;7200,1,CEST|-1353tzoBb5svboC6qfs0Bcgcqo0C15tsc0B7k800C9q000B9d1c0C9d1c0B9d1c0C9d1c0B70q5c0C9q000B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9q000Bb5uo0C7k800B7law00C902o0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9q000B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9q000B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9q000C|CET-1CEST,M3.5.0,M10.5.0/3",
+  "Europe/Paris": "561,0,LMT;561,0,PMT;0,0,WET;3600,1,WEST;7200,1,CEST;3600,0,CET;7200,1,WEMT|-154gb3lBafgo00C2qx1nlD5luo0C8y800Da4tc0C7vc00Dauqo0C7idc0Db7pc0C6sg00Dcyo00C7ayo0Dbko00C7rmo0Da2yo0Cbvs00D6uao0C902o0D9q000C9d1c0D9d1c0Ca2yo0D8n400C9q000D902o0Ca2yo0D902o0Ca2yo0D8n400C9q000D902o0Ca2yo0D8n400C9d1c0D9d1c0C902o0Da2yo0C9d1c0D9d1c0C902o0D9q000Ca2yo0D8n400C9d1c0D9d1c0C902o0D9q000Ca2yo0Db5uo0C51po0D5p8w0E18rcc0F7k800E9q000F9d1c0E7efo0G29k40D922w0G8l9c0Ffxlx80E9cyk0F9q5k0E902o0F9q000E9d1c0F9d1c0E9d1c0F9q000E902o0F9d1c0E9d1c0F9d1c0E9d1c0F9d1c0E9d1c0F9d1c0E9q000F9d1c0E9d1c0F9d1c0E9d1c0F9d1c0E9d1c0F9d1c0E9d1c0F9d1c0E9d1c0F9d1c0E9q000F9d1c0E9d1c0F9d1c0E9d1c0F9d1c0E9d1c0F9d1c0E9d1c0F9d1c0E9d1c0F9q000E|CET-1CEST,M3.5.0,M10.5.0/3",
+  "Europe/Prague": "3464,0,LMT;3464,0,PMT;3600,0,CET;7200,1,CEST;0,1,GMT|-1qmkw08Blsd1c0Ccttug8D7ves0Ca4yw0D7x6o0Casw00D7x6o0Cb8qdc0D1cm000C7k800D9q000C9d1c0D9d1c0C9d1c0D9d1c0Cb5uo0D7vc00C2vs40E4bk00C2vmk0D8n400Ca2yo0D8n400C9o5c0D91xc0Cfe6000D9d1c0C9q000D902o0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9q000D|CET-1CEST,M3.5.0,M10.5.0/3",
+  "Europe/Riga": "5794,0,LMT;5794,0,RMT;9394,1,LST;7200,0,EET;10800,0,MSK;7200,1,CEST;3600,0,CET;14400,1,MSD;10800,1,EEST|-1ayy74yBjzalk0C7x6o0Ba4tc0C2mg00B3myns0D7fhlkyEgz180Fp5v40G7k800F9q000G9d1c0F9d1c0Gk7s0Ej14ns0H9et80E9d440H9et80E9d440H9et80E9eys0H9d6w0E9d1c0H9d1c0E9d1c0H9d1c0E9d1c0H9d1c0E9d1c0H9d1c0E9d1c0I9d440D9d1c0I9q000D9d1c0I9d1c0D9d1c0I9d1c0D9d1c0I9d1c0D9d1c0I9d1c0D9d1c0I9d1c0D9q000I9d1c0D9d440Iasw00D7x6o0Iasw00D7x6o0Ib5uo0Dqaao0I|EET-2EEST,M3.5.0/3,M10.5.0/4",
+  "Europe/Rome": "2996,0,LMT;2996,0,RMT;3600,0,CET;7200,1,CEST|-1hs7rn8Be170v8Cbsds00D64ak0C9d440D9et80C88dg0Daunw0C7ig40Db5rw0C8n6s0D9cyk0Caau2s0D18r9k0C7k800D9q000C9d1c0D8l9c0Ca4tc0D8j940C9f1k0Dafxc0C89zs0Dafxc0C7kdk0Db5uo0C979rs0D6h980Ccls40D64dc0Cclpc0D64dc0Ccyo00D64dc0Cclpc0D64dc0Cc8qo0D6hc00Cclpc0D6hc00Cclpc0D64dc0Cc8qo0D6hc00Cclpc0D64dc0Cclpc0D64dc0Cc8qo0D6hc00Cclpc0D6hc00Cc8qo0D6hc00C9q5k0D902o0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9q000D|CET-1CEST,M3.5.0,M10.5.0/3",
+  "Europe/Samara": "12020,0,LMT;10800,0,+03;14400,0,+04;18000,1,+05;14400,1,+04;10800,1,+03|-qcx400B5q5zo0Cqi27w0D9et80C9d440D9et80C9d440D9et80C9eys0D9d6w0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0E9d440B9d1c0E9q000B9d1c0F9d440B12w00C89zs0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9q000Dasw00C7x6o0Dasw00C7x6o0Dasw00C7x6o0Db5uo0C7k800Db5uo0C7k800Db5uo0C7x6o0Dasw00C7x6o0Dasw00C7x6o0Db5uo0C7k800Db5uo0C7k800Db5uo0C7k800Db5uo0C7x6o0Dasw00C7x6o0Dasw00C7x6o0Eb5xg0B7k800C|<+04>-4",
+  "Europe/Sarajevo": "4420,0,LMT;3600,0,CET;7200,1,CEST|-18vsm2sBtwhn6sCswz00B7k800C9q000B9d1c0C9d1c0B9d1c0C8l9c0Bjl1hc0C9d1c0B9d1c0C9q000B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9q000B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9q000C|CET-1CEST,M3.5.0,M10.5.0/3",
+  "Europe/Saratov": "11058,0,LMT;10800,0,+03;14400,0,+04;18000,1,+05;14400,1,+04|-qcx400B5q5zo0Cqi27w0D9et80C9d440D9et80C9d440D9et80C9eys0D9d6w0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0E9d440B9d1c0E9d1c0B9d1c0E9q000B9d1c0Cipzw0E9d440B9d1c0E9d1c0B9d1c0E9d1c0B9d1c0E9d1c0B9q000Easw00B7x6o0Easw00B7x6o0Easw00B7x6o0Eb5uo0B7k800Eb5uo0B7k800Eb5uo0B7x6o0Easw00B7x6o0Easw00B7x6o0Eb5uo0B7k800Eb5uo0B7k800Eb5uo0B7k800Eb5uo0B7x6o0Easw00B7x6o0Easw00B7x6o0Eb5uo0B7k800C1vbzw0B13m040C|<+04>-4",
+  "Europe/Simferopol": "8184,0,LMT;8160,0,SMT;7200,0,EET;10800,0,MSK;7200,1,CEST;3600,0,CET;14400,1,MSD;10800,1,EEST;14400,0,MSK|-1ayy8zcBn4x6ooC37a0qoD5xiyk0Eiu340F7k800E9q000F9d1c0Eiac0Djajmk0G9et80D9d440G9et80D9d440G9et80D9eys0G9d6w0D9d1c0G9d1c0D9d1c0G9d1c0D9d1c0G9d1c0D9d1c0G9d1c0D9d1c0G9d1c0Deeio0Cwrpg0H9d1c0C9d1c0H9d1c0C9d1c0H1sl00G7kdk0D9d1c0G9d1c0D9pug0Gat4c0D7x9g0Hasw00C7x6o0Hasw00C7x6o0Hb5uo0C7k800Hb5uo0C7k800Hb5uo0C7x6o0Hasw00C7x6o0Hasw00C7x6o0Hb5uo0C7k800Hb5uo0C7k800Hb5uo0C7k800Hb5uo0C7x6o0Hasw00C7x6o0Hasw00C7x6o0Hb5uo0C7k800Hb5uo0C7k800Hb5uo0C7x6o0Hasw00C7x3w0Iasqg0D|MSK-3",
+  "Europe/Skopje": "5144,0,LMT;3600,0,CET;7200,1,CEST|-18vsmmwBtwhnqwCswz00B7k800C9q000B9d1c0C9d1c0B9d1c0C8l9c0Bjl1hc0C9d1c0B9d1c0C9q000B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9q000B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9q000C|CET-1CEST,M3.5.0,M10.5.0/3",
+  "Europe/Sofia": "5596,0,LMT;7016,0,IMT;7200,0,EET;3600,0,CET;7200,1,CEST;10800,1,EEST|-1ayy6zgB7s708kCp0d6uwD7k800E9q000D9d1c0E9d1c0D9d440Chqq240F9eys0C9o2k0F92040C9o2k0F90880C9pug0F90b00C9d1c0F9d1c0C9d1c0F9q000C9d1c0F9d1c0C9d1c0F9d1c0C9d1c0F9d1c0C9d1c0F9d1c0C9d1c0F9d1c0C9d1c0F9q000C9cvs0F9cyk0C9d440F9cyk0C9d440F9cyk0C9d440F9cyk0C9d440F9cyk0C9q2s0Fast80C7xhs0F|EET-2EEST,M3.5.0/3,M10.5.0/4",
+  "Europe/Stockholm": "4332,0,LMT;3614,0,SET;3600,0,CET;7200,1,CEST|-1bhq3ccBayjpvyC8jiakeD75hg0Cx5bew0D902o0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9q000D|CET-1CEST,M3.5.0,M10.5.0/3",
+  "Europe/Tallinn": "5940,0,LMT;5940,0,TMT;3600,0,CET;7200,1,CEST;7200,0,EET;10800,0,MSK;14400,1,MSD;10800,1,EEST|-1ayy790Bjvj9c0C3re10D7x6o0Cet6g0Bygov0Ea1zgd0Fktx80Dl94g0C7k800D9q000C9d1c0D8uac0Fj27mk0G9et80F9d440G9et80F9d440G9et80F9eys0G9d6w0F9d1c0G9d1c0F9d1c0G9d1c0F9d1c0G9d1c0F9d1c0G9d1c0F9d1c0H9d440E9d1c0H9q000E9d1c0H9d1c0E9d1c0H9d1c0E9d1c0H9d1c0E9d1c0H9d1c0E9d1c0H9d1c0E9q000Hasw00E7x6o0Hasw00E7x6o0Hasys0E7x6o0Hb5uo0E19dc00H|EET-2EEST,M3.5.0/3,M10.5.0/4",
+  "Europe/Tirane": "4760,0,LMT;3600,0,CET;7200,1,CEST|-t85vo8Bdt2gw8C18pew0B7k800Cm800Bg7ot40C7rjw0Bautg0C7x3w0Bayis0C7x3w0Bb5xg0C7k580Bb42s0C7lzw0Bb42s0C7lzw0Bb42s0C7x3w0Bahus0C7x3w0Bb5xg0C7x3w0Ba4w40C8jbw0B9eys0C9d6w0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9q000B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9q000C|CET-1CEST,M3.5.0,M10.5.0/3",
+  "Europe/Ulyanovsk": "11616,0,LMT;10800,0,+03;14400,0,+04;18000,1,+05;14400,1,+04;10800,1,+03;7200,0,+02|-qcx400B5q5zo0Cqi27w0D9et80C9d440D9et80C9d440D9et80C9eys0D9d6w0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0E9d440B9d1c0E9q000B9d1c0F9d440G5reo0B3ljw0E9d1c0B9d1c0E9d1c0B9d1c0E9d1c0B9d1c0E9d1c0B9q000Easw00B7x6o0Easw00B7x6o0Easw00B7x6o0Eb5uo0B7k800Eb5uo0B7k800Eb5uo0B7x6o0Easw00B7x6o0Easw00B7x6o0Eb5uo0B7k800Eb5uo0B7k800Eb5uo0B7k800Eb5uo0B7x6o0Easw00B7x6o0Easw00B7x6o0Eb5uo0B7k800C1vbzw0Bqnc40C|<+04>-4",
+  "Europe/Vaduz": "2284,0,LMT;3600,0,CET;7200,1,CEST|-13g44fgBohmxrgC7x6o0Basw00C7x6o0Bk2zus0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9q000B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9q000B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9q000C|CET-1CEST,M3.5.0,M10.5.0/3",
+  "Europe/Vienna": "3921,0,LMT;3600,0,CET;7200,1,CEST|-14211oxBc1n1gxC7ves0Ba4yw0C7x6o0Basw00C7x6o0Bt6000C8a5c0Ba7a800C1cm000B7k800C9q000B9d1c0C9d1c0B9d1c0Ciio0Bivmo0C91xc0B9b6o0C9d1c0Ba2yo0C8n400Bgfyyg0C8zzw0B9d9o0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9q000B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9q000B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9q000C|CET-1CEST,M3.5.0,M10.5.0/3",
+  "Europe/Vilnius": "6076,0,LMT;5040,0,WMT;5736,0,KMT;3600,0,CET;7200,0,EET;10800,0,MSK;7200,1,CEST;14400,1,MSD;10800,1,EEST|-1ayy7csBjb5y4sC1g224oDe75ncE4kqk0Dacbs40Fgpp40Gpits0D7k800G9q000D9d1c0G65zo0Fj4vx80H9et80F9d440H9et80F9d440H9et80F9eys0H9d6w0F9d1c0H9d1c0F9d1c0H9d1c0F9d1c0H9d1c0F9d1c0H9d1c0F9d1c0I9d440E9d1c0I9q000E9d1c0I9d1c0E9d1c0I9d1c0E9d1c0I9d1c0E9d1c0I9d1c0E9d1c0I9d1c0E9q000Iasw00E7x6o0Iasw00E7x9g0Gasw00D7x6o0Gb5uo0E1s3eo0I|EET-2EEST,M3.5.0/3,M10.5.0/4",
+  "Europe/Volgograd": "10660,0,LMT;10800,0,+03;14400,0,+04;18000,1,+05;14400,1,MSD;10800,0,MSK;14400,0,MSK|-q3cw84B5glrw4Cqi27w0D9et80C9d440D9et80C9d440D9et80C9eys0D9d6w0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0E9d440F9d1c0E9d1c0F9d1c0E9q000F9d1c0Cipzw0E9d440F9d1c0E9d1c0F9d1c0E9d1c0F9d1c0E9d1c0F9q000Easw00F7x6o0Easw00F7x6o0Easw00F7x6o0Eb5uo0F7k800Eb5uo0F7k800Eb5uo0F7x6o0Easw00F7x6o0Easw00F7x6o0Eb5uo0F7k800Eb5uo0F7k800Eb5uo0F7k800Eb5uo0F7x6o0Easw00F7x6o0Easw00F7x6o0Eb5uo0F7k800G1vbzw0F239c40C14oqk0F|MSK-3",
+  "Europe/Warsaw": "5040,0,LMT;5040,0,WMT;3600,0,CET;7200,1,CEST;7200,0,EET;10800,1,EEST|-1ayy6k0Biko800Cdvyc0D7ves0Ca4yw0D7x6o0Casw00D7x6o0Eaunw0F7x6o0E1evbs0C9fcwc0D18cao0C7k800D9q000C9d1c0D9gnw0Can980D9kd80C8fs40D922w0Car1c0D7x6o0Ca2yo0D8n400C9q000D902o0C4013w0D64dc0C9d1c0D9d1c0Cclpc0D6hc00C9d1c0D9d1c0Cc8qo0D6hc00Cc8qo0D6hc00Cc8qo0D6hc00Cclpc0D64dc0C6j4tc0D902o0C9q000D9d1c0C9d1c0D9d1c0C9q000D902o0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d440D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9q000D|CET-1CEST,M3.5.0,M10.5.0/3",
+  "Europe/Zagreb": "3832,0,LMT;3600,0,CET;7200,1,CEST|-18vslmgBtwhmqgCswz00B7k800C9q000B9d1c0C9d1c0B9d1c0C8l9c0Bjl1hc0C9d1c0B9d1c0C9q000B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9q000B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9d1c0C9d1c0B9q000C|CET-1CEST,M3.5.0,M10.5.0/3",
+  "Europe/Zurich": "2048,0,LMT;1786,0,BMT;3600,0,CET;7200,1,CEST|-1os49kwBlc05jaCohmxdmD7x6o0Casw00D7x6o0Ck2zus0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9q000C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9d1c0D9d1c0C9q000D|CET-1CEST,M3.5.0,M10.5.0/3",
+  "Factory": "0,0,-00||<-00>0",
+  "HST": "-36000,0,HST||HST10",
+  "Indian/Antananarivo": "11404,0,LMT;10800,0,EAT;14400,1,EAST|-uj8gssBm9lccsC4oio0B|EAT-3",
+  "Indian/Chagos": "17380,0,LMT;18000,0,+05;21600,0,+06|-wvpc2sB1ag64usC|<+06>-6",
+  "Indian/Christmas": "25372,0,LMT;25200,0,+07|-133iwwsB|<+07>-7",
+  "Indian/Cocos": "23260,0,LMT;23400,0,+0630|-10j6sm4B|<+0630>-6:30",
+  "Indian/Comoro": "10384,0,LMT;10800,0,EAT|-uj8g0gB|EAT-3",
+  "Indian/Kerguelen": "0,0,-00;18000,0,+05|-afrs00B|<+05>-5",
+  "Indian/Mahe": "13308,0,LMT;14400,0,+04|-wvp8xoB|<+04>-4",
+  "Indian/Maldives": "17640,0,LMT;17640,0,MMT;18000,0,+05|-1ayyga0B15r19c0C|<+05>-5",
+  "Indian/Mauritius": "13800,0,LMT;14400,0,+04;18000,1,+05|-wvp9bcB13jnu7cC8bx80Bdd0wc0C7x3w0B|<+04>-4",
+  "Indian/Mayotte": "10856,0,LMT;10800,0,EAT|-uj8gdkB|EAT-3",
+  "Indian/Reunion": "13312,0,LMT;14400,0,+04|-uks29sB|<+04>-4",
+  "MET": "3600,0,MET;7200,1,MEST|-s0e080B7ves0Aa4yw0B7x6o0Aasw00B7x6o0Ab8qdc0B1cm000A7k800B9q000A9d1c0B9d1c0A9d1c0B8l9c0Aggp1c0B902o0A9q000B9d1c0A9d1c0B9d1c0A9q000B902o0A9d1c0B9d1c0A9d1c0B9d1c0A9d1c0B9d1c0A9d1c0B9q000A9d1c0B9d1c0A9d1c0B9d1c0A9d1c0B9d1c0A9d1c0B9d1c0A9d1c0B9d1c0A9d1c0B9q000A9d1c0B9d1c0A9d1c0B9d1c0A9d1c0B9d1c0A9d1c0B9d1c0A9d1c0B9d1c0A9q000B|MET-1MEST,M3.5.0,M10.5.0/3",
+  "MST": "-25200,0,MST||MST7",
+  "MST7MDT": "-25200,0,MST;-21600,1,MDT;-21600,1,MWT;-21600,1,MPT|-r0epo0Bast80A7x9g0Bast80Abmtus0C1tz5k0D2dvo0Ab9gdg0B9cyk0A9d440B9cyk0A9d440B9cyk0A9d440B9cyk0A9d440B9px80A9d440B9cyk0A9d440B9cyk0A3lpg0Bf4d80A64g40Bclmk0A9d440B9px80A905g0B9px80A9d440B9cyk0A9d440B9cyk0A9d440B9cyk0A9d440B9cyk0A9d440B9px80A905g0B9px80A9d440B9cyk0A9d440B9cyk0A9d440B9cyk0A8a840Bafuk0A8a840Bast80A7x9g0Bast80A7x9g0Bast80A8a840Bafuk0A8a840Bafuk0A8a840Bast80A7x9g0Bast80A7x9g0Bast80A8a840Bafuk0A8a840Bafuk0A8a840Bafuk0A8a840Bast80A7x9g0Bast80A7x9g0Bast80A8a840Bafuk0A8a840Bafuk0A8a840Bast80A7x9g0Bast80A7x9g0Bast80A6udg0B|MST7MDT,M3.2.0,M11.1.0",
+  "PST8PDT": "-28800,0,PST;-25200,1,PDT;-25200,1,PWT;-25200,1,PPT|-r0emw0Bast80A7x9g0Bast80Abmtus0C1tz2s0D2dyg0Ab9gdg0B9cyk0A9d440B9cyk0A9d440B9cyk0A9d440B9cyk0A9d440B9px80A9d440B9cyk0A9d440B9cyk0A3lpg0Bf4d80A64g40Bclmk0A9d440B9px80A905g0B9px80A9d440B9cyk0A9d440B9cyk0A9d440B9cyk0A9d440B9cyk0A9d440B9px80A905g0B9px80A9d440B9cyk0A9d440B9cyk0A9d440B9cyk0A8a840Bafuk0A8a840Bast80A7x9g0Bast80A7x9g0Bast80A8a840Bafuk0A8a840Bafuk0A8a840Bast80A7x9g0Bast80A7x9g0Bast80A8a840Bafuk0A8a840Bafuk0A8a840Bafuk0A8a840Bast80A7x9g0Bast80A7x9g0Bast80A8a840Bafuk0A8a840Bafuk0A8a840Bast80A7x9g0Bast80A7x9g0Bast80A6udg0B|PST8PDT,M3.2.0,M11.1.0",
+  "Pacific/Apia": "45184,0,LMT;-41216,0,LMT;-41400,0,-1130;-39600,0,-11;-36000,1,-10;50400,1,+14;46800,0,+13|-14fxxj4B9nfeo0Ckcrmt4Dvp3la0E9odo0D902o0E4zbk0F4qog0G9d1c0F9q000G902o0F9q000G902o0F9q000G902o0F9q000G902o0F9q000G902o0F9q000G9d1c0F9q000G902o0F9q000G902o0F9q000G|<+13>-13",
+  "Pacific/Auckland": "41944,0,LMT;41400,0,NZMT;45000,1,NZST;43200,1,NZST;43200,0,NZST;46800,1,NZDT|-1gsoz14Busn9z4C64ak0Bbiw40D7x5a0Basxe0D7x5a0Basxe0D7x5a0Basxe0D8a3y0Bafyq0D8a3y0Bafyq0Dafvy0B7x820Dasum0B7x820Dasum0B7x820Dasum0B7x820Dasum0B7x820Db5ta0B7k9e0Db5ta0B7x820D2qrd20Ef1tpk0F5reo0Eclpc0F6uao0Ec8qo0F6hc00Ec8qo0F6hc00Ec8qo0F6hc00Ec8qo0F6hc00Ec8qo0F6hc00Ec8qo0F6uao0Ec8qo0F6hc00Ec8qo0F6hc00Ec8qo0F6hc00Ec8qo0F6hc00Ec8qo0F6hc00Ec8qo0F6uao0Ec8qo0F6hc00Eb5uo0F8a5c0Eafxc0F8a5c0Eafxc0F8a5c0Eafxc0F8n400Ea2yo0F8n400Ea2yo0F8n400Ea2yo0F8n400Eafxc0F8a5c0Eafxc0F8a5c0Eafxc0F8n400Ea2yo0F8n400Ea2yo0F8n400Eafxc0F8a5c0Eafxc0F8a5c0Eafxc0F8n400Ea2yo0F8n400Ea2yo0F8n400Ea2yo0F8n400Ea2yo0F|NZST-12NZDT,M9.5.0,M4.1.0/3",
+  "Pacific/Bougainville": "37336,0,LMT;35312,0,PMMT;36000,0,+10;32400,0,+09;39600,0,+11|-1ayyvh4B7tuc88Cosc24wD1n05g0C1071c40E|<+11>-11",
+  "Pacific/Chatham": "44028,0,LMT;44100,0,+1215;45900,0,+1245;49500,1,+1345|-1gsp0n0B149qqm0Cf1tq90D5reo0Cclpc0D6uao0Cc8qo0D6hc00Cc8qo0D6hc00Cc8qo0D6hc00Cc8qo0D6hc00Cc8qo0D6hc00Cc8qo0D6uao0Cc8qo0D6hc00Cc8qo0D6hc00Cc8qo0D6hc00Cc8qo0D6hc00Cc8qo0D6hc00Cc8qo0D6uao0Cc8qo0D6hc00Cb5uo0D8a5c0Cafxc0D8a5c0Cafxc0D8a5c0Cafxc0D8n400Ca2yo0D8n400Ca2yo0D8n400Ca2yo0D8n400Cafxc0D8a5c0Cafxc0D8a5c0Cafxc0D8n400Ca2yo0D8n400Ca2yo0D8n400Cafxc0D8a5c0Cafxc0D8a5c0Cafxc0D8n400Ca2yo0D8n400Ca2yo0D8n400Ca2yo0D8n400Ca2yo0D|<+1245>-12:45<+1345>,M9.5.0/2:45,M4.1.0/3:45",
+  "Pacific/Chuuk": "-49972,0,LMT;36428,0,LMT;36000,0,+10;32400,0,+09|-1t8j2rwBt83xc0C76a5nwD29hes0Cbkenw0D29fk40C|<+10>-10",
+  "Pacific/Easter": "-26248,0,LMT;-26248,0,EMT;-25200,0,-07;-21600,1,-06;-21600,0,-06;-18000,1,-05|-15r0p2wBm9leo0CivmeuwD7k580Cc8tg0D6h980Ca31g0D7x3w0Casys0D7x3w0Cb5xg0D7k580Cag040D8a2k0Cb5xg0D7k580Cb5xg0D7x3w0Casys0D7x3w0Casys0D7x3w0Cb5xg0D7k580Cb5xg0D7k580Cb5xg0D7x3w0Casys0D7x3w0Easys0F7x3w0Easys0F7x3w0Eb5xg0F7k580Eb5xg0F7k580Eb5xg0F9cyk0E9d440F7x3w0Easys0F7x3w0Eb5xg0F7k580E9q2s0F8zzw0Eb5xg0F7x3w0Easys0F7x3w0Easys0F7x3w0Easys0F7x3w0Eb5xg0F7k580Eb5xg0F8n180Ea31g0F7x3w0Ea31g0F9px80E9q2s0F7x3w0Eb5xg0F7k580Eb5xg0F7k580Eb5xg0F7k580Eb5xg0F7x3w0Easys0F7x3w0Easys0F7x3w0Eb5xg0F7k580Eb5xg0F8n180Ea31g0F7x3w0Easys0F8zzw0E9q2s0Fast80E5eis0Fcyl80E6hes0Fc8nw0E6udg0Fbvp80E6udg0Fvonw0E4olg0Fe1h80E4olg0Fe1h80E4olg0Fc8nw0E7x9g0Fast80E7x9g0Fast80E7x9g0Fast80E8a840F|<-06>6<-05>,M9.1.6/22,M4.1.6/22",
+  "Pacific/Efate": "40396,0,LMT;39600,0,+11;43200,1,+12|-u964i4Bwbu364C51hc0B4y8qs0C9cyk0B9d440C9cyk0B9q2s0C8zzw0B9q2s0C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9d440C9cyk0B9q2s0C64ak0Be1ms0C4ofw0B|<+11>-11",
+  "Pacific/Enderbury": "0,0,-00;-43200,0,-12;-39600,0,-11;46800,0,+13|-gvk800Blypqo0C7yiqk0D|<+13>-13",
+  "Pacific/Fakaofo": "-41096,0,LMT;-39600,0,-11;46800,0,+13|-100dhmgB1lxe1igC|<+13>-13",
+  "Pacific/Fiji": "42944,0,LMT;43200,0,+12;46800,1,+13|-sa2x4wB17bs00wC64dc0Bcyo00C5reo0B53a5c0C64dc0Basw00C6uao0Bbvs00C4oio0Be1k00C4oio0Beeio0C4bh80Berk40C3ylc0Berhc0C3ylc0Bf4g00C3lmo0Bf4g00C3lmo0Bf4g00C3lmo0Bfheo0C38o00Bhn6o0C1fuo0B|<+12>-12",
+  "Pacific/Funafuti": "43012,0,LMT;43200,0,+12|-100faisB|<+12>-12",
+  "Pacific/Galapagos": "-21504,0,LMT;-18000,0,-05;-21600,0,-06;-18000,1,-05|-kcr62oBspdryoC3lsas0D3jp80C|<-06>6",
+  "Pacific/Gambier": "-32388,0,LMT;-32400,0,-09|-tvndocB|<-09>9",
+  "Pacific/Guadalcanal": "38388,0,LMT;39600,0,+11|-tvowacB|<+11>-11",
+  "Pacific/Guam": "-51660,0,LMT;34740,0,LMT;36000,0,GST;32400,0,+09;39600,1,GDT;36000,0,ChST|-1t8j1h0Bt83xc0Cld6pp0D1dl9g0C7s1k40Etxp80C3frms0EqdrpoC7kgacE3ljw0Cc8tg0E6u7w0Cbvus0E6u7w0C16uo40E3ljw0C16aas0E4ivxoCcls2cE6h980Cc65zw0F|ChST-10",
+  "Pacific/Honolulu": "-37886,0,LMT;-37800,0,HST;-34200,1,HDT;-34200,1,HWT;-34200,1,HPT;-36000,0,HST|-12lnw3mBjgnatmC13l00B4jvb00D1tyvu0E2e5e0Bvotg0F|HST10",
+  "Pacific/Kiritimati": "-37760,0,LMT;-38400,0,-1040;-36000,0,-10;50400,0,+14|-100dk74B153iz5sC7yirhcD|<+14>-14",
+  "Pacific/Kosrae": "-47284,0,LMT;39116,0,LMT;39600,0,+11;32400,0,+09;36000,0,+10;43200,0,+12|-1t8j4ukBt83xc0C76a4ykD29hhk0C9cmd40E27sas0D29fk40Ccm2540Ff9l3w0C|<+11>-11",
+  "Pacific/Kwajalein": "40160,0,LMT;39600,0,+11;36000,0,+10;32400,0,+09;-43200,0,-12;43200,0,+12|-100f8bkBise0fkC27sas0D1hjus0Bddxug0Ecgv6k0F|<+12>-12",
+  "Pacific/Majuro": "41088,0,LMT;39600,0,+11;32400,0,+09;36000,0,+10;43200,0,+12|-100f91cB76a6hcC29hhk0B9cmd40D27sas0C1h6w40Bdeat40E|<+12>-12",
+  "Pacific/Marquesas": "-33480,0,LMT;-34200,0,-0930|-tvncu0B|<-0930>9:30",
+  "Pacific/Midway": "-42568,0,LMT;-39600,0,-11;-36000,1,-10;-39600,0,SST|-100dghkBsx94dkC4ofw0D|SST11",
+  "Pacific/Nauru": "40060,0,LMT;41400,0,+1130;32400,0,+09;43200,0,+12|-pjxiwsBba66ysC1kwca0Bhfzda0D|<+12>-12",
+  "Pacific/Niue": "-40780,0,LMT;-40800,0,-1120;-39600,0,-11|-8zbv78B63yiokC|<-11>11",
+  "Pacific/Norfolk": "40312,0,LMT;40320,0,+1112;41400,0,+1130;45000,1,+1230;39600,0,+11;43200,1,+12|-100f8fsBq3einsCcfj8q0D6hc00Cl6nk00E239aq0F|<+11>-11<+12>,M10.1.0,M4.1.0/3",
+  "Pacific/Noumea": "39948,0,LMT;39600,0,+11;43200,1,+12|-u9645oBye0ixoC4dbw0Becqs0C4f6k0B99p700C4oio0B|<+11>-11",
+  "Pacific/Pago_Pago": "45432,0,LMT;-40968,0,LMT;-39600,0,SST|-14fxxq0B9nfeo0C|SST11",
+  "Pacific/Palau": "-54124,0,LMT;32276,0,LMT;32400,0,+09|-1t8izkkBt83xc0C|<+09>-9",
+  "Pacific/Pitcairn": "-31220,0,LMT;-30600,0,-0830;-28800,0,-08|-100dp8sB1esg26sC|<-08>8",
+  "Pacific/Port_Moresby": "35320,0,LMT;35312,0,PMMT;36000,0,+10|-1ayytx4B7tuao8C|<+10>-10",
+  "Pacific/Rarotonga": "48056,0,LMT;-38344,0,LMT;-37800,0,-1030;-34200,1,-0930;-36000,0,-10|-10jifqwBrk6io0Cdlv68wD5rbw0Ec8s20D6ham0Ec8s20D6ham0Ec8s20D6u9a0Ec8s20D6ham0Ec8s20D6ham0Ec8s20D6ham0Ec8s20D6ham0Ec8s20D6ham0Ec8s20D6u9a0Ec8s20D6ham0Ec8s20D6ham0Ec8s20D6ham0E|<-10>10",
+  "Pacific/Saipan": "-51420,0,LMT;34980,0,LMT;32400,0,+09;36000,0,GST;39600,1,GDT;36000,0,ChST|-1t8j1noBt83xc0Cmpn8noD7t6as0Etxp80D3frms0EqdrpoD7kgacE3ljw0Dc8tg0E6u7w0Dbvus0E6u7w0D16uo40E3ljw0D16aas0E4ivxoDcls2cE6h980Dc65zw0F|ChST-10",
+  "Pacific/Tahiti": "-35896,0,LMT;-36000,0,-10|-tvnaywB|<-10>10",
+  "Pacific/Tarawa": "41524,0,LMT;43200,0,+12|-100f9dgB|<+12>-12",
+  "Pacific/Tongatapu": "44352,0,LMT;44400,0,+1220;46800,0,+13;50400,1,+14|-corjk0B7znjyoCk8amdcD8fpc0Cbvs00D4bh80Ceelg0D4bh80C7pmis0D3lmo0C|<+13>-13",
+  "Pacific/Wake": "39988,0,LMT;43200,0,+12|-100f86sB|<+12>-12",
+  "Pacific/Wallis": "44120,0,LMT;43200,0,+12|-100fbdkB|<+12>-12",
+  "WET": "0,0,WET;3600,1,WEST|3s9ms0B902o0A9q000B9d1c0A9d1c0B9d1c0A9q000B902o0A9d1c0B9d1c0A9d1c0B9d1c0A9d1c0B9d1c0A9d1c0B9q000A9d1c0B9d1c0A9d1c0B9d1c0A9d1c0B9d1c0A9d1c0B9d1c0A9d1c0B9d1c0A9d1c0B9q000A9d1c0B9d1c0A9d1c0B9d1c0A9d1c0B9d1c0A9d1c0B9d1c0A9d1c0B9d1c0A9q000B|WET0WEST,M3.5.0/1,M10.5.0"
+};
+
+export const tzdataLinks: Record<string, string> = {
+  "Africa/Asmera": "Africa/Nairobi",
+  "Africa/Timbuktu": "Africa/Abidjan",
+  "America/Argentina/ComodRivadavia": "America/Argentina/Catamarca",
+  "America/Atka": "America/Adak",
+  "America/Buenos_Aires": "America/Argentina/Buenos_Aires",
+  "America/Catamarca": "America/Argentina/Catamarca",
+  "America/Coral_Harbour": "America/Panama",
+  "America/Cordoba": "America/Argentina/Cordoba",
+  "America/Ensenada": "America/Tijuana",
+  "America/Fort_Wayne": "America/Indiana/Indianapolis",
+  "America/Indianapolis": "America/Indiana/Indianapolis",
+  "America/Jujuy": "America/Argentina/Jujuy",
+  "America/Knox_IN": "America/Indiana/Knox",
+  "America/Kralendijk": "America/Puerto_Rico",
+  "America/Louisville": "America/Kentucky/Louisville",
+  "America/Lower_Princes": "America/Puerto_Rico",
+  "America/Marigot": "America/Puerto_Rico",
+  "America/Mendoza": "America/Argentina/Mendoza",
+  "America/Montreal": "America/Toronto",
+  "America/Nipigon": "America/Toronto",
+  "America/Pangnirtung": "America/Iqaluit",
+  "America/Porto_Acre": "America/Rio_Branco",
+  "America/Rainy_River": "America/Winnipeg",
+  "America/Rosario": "America/Argentina/Cordoba",
+  "America/Santa_Isabel": "America/Tijuana",
+  "America/Shiprock": "America/Denver",
+  "America/St_Barthelemy": "America/Puerto_Rico",
+  "America/Thunder_Bay": "America/Toronto",
+  "America/Virgin": "America/Puerto_Rico",
+  "America/Yellowknife": "America/Edmonton",
+  "Antarctica/South_Pole": "Pacific/Auckland",
+  "Arctic/Longyearbyen": "Europe/Berlin",
+  "Asia/Ashkhabad": "Asia/Ashgabat",
+  "Asia/Calcutta": "Asia/Kolkata",
+  "Asia/Choibalsan": "Asia/Ulaanbaatar",
+  "Asia/Chongqing": "Asia/Shanghai",
+  "Asia/Chungking": "Asia/Shanghai",
+  "Asia/Dacca": "Asia/Dhaka",
+  "Asia/Harbin": "Asia/Shanghai",
+  "Asia/Istanbul": "Europe/Istanbul",
+  "Asia/Kashgar": "Asia/Urumqi",
+  "Asia/Katmandu": "Asia/Kathmandu",
+  "Asia/Macao": "Asia/Macau",
+  "Asia/Riyadh87": "Asia/Riyadh",
+  "Asia/Riyadh88": "Asia/Riyadh",
+  "Asia/Riyadh89": "Asia/Riyadh",
+  "Asia/Saigon": "Asia/Ho_Chi_Minh",
+  "Asia/Tel_Aviv": "Asia/Jerusalem",
+  "Asia/Thimbu": "Asia/Thimphu",
+  "Asia/Ujung_Pandang": "Asia/Makassar",
+  "Asia/Ulan_Bator": "Asia/Ulaanbaatar",
+  "Atlantic/Faeroe": "Atlantic/Faroe",
+  "Atlantic/Jan_Mayen": "Europe/Berlin",
+  "Australia/ACT": "Australia/Sydney",
+  "Australia/Canberra": "Australia/Sydney",
+  "Australia/Currie": "Australia/Hobart",
+  "Australia/LHI": "Australia/Lord_Howe",
+  "Australia/NSW": "Australia/Sydney",
+  "Australia/North": "Australia/Darwin",
+  "Australia/Queensland": "Australia/Brisbane",
+  "Australia/South": "Australia/Adelaide",
+  "Australia/Tasmania": "Australia/Hobart",
+  "Australia/Victoria": "Australia/Melbourne",
+  "Australia/West": "Australia/Perth",
+  "Australia/Yancowinna": "Australia/Broken_Hill",
+  "Brazil/Acre": "America/Rio_Branco",
+  "Brazil/DeNoronha": "America/Noronha",
+  "Brazil/East": "America/Sao_Paulo",
+  "Brazil/West": "America/Manaus",
+  "Canada/Atlantic": "America/Halifax",
+  "Canada/Central": "America/Winnipeg",
+  "Canada/East-Saskatchewan": "America/Regina",
+  "Canada/Eastern": "America/Toronto",
+  "Canada/Mountain": "America/Edmonton",
+  "Canada/Newfoundland": "America/St_Johns",
+  "Canada/Pacific": "America/Vancouver",
+  "Canada/Saskatchewan": "America/Regina",
+  "Canada/Yukon": "America/Whitehorse",
+  "Chile/Continental": "America/Santiago",
+  "Chile/EasterIsland": "Pacific/Easter",
+  "Cuba": "America/Havana",
+  "Egypt": "Africa/Cairo",
+  "Eire": "Europe/Dublin",
+  "Etc/GMT+0": "Etc/GMT",
+  "Etc/GMT-0": "Etc/GMT",
+  "Etc/GMT0": "Etc/GMT",
+  "Etc/Greenwich": "Etc/GMT",
+  "Etc/UCT": "Etc/UTC",
+  "Etc/Universal": "Etc/UTC",
+  "Etc/Zulu": "Etc/UTC",
+  "Europe/Belfast": "Europe/London",
+  "Europe/Bratislava": "Europe/Prague",
+  "Europe/Busingen": "Europe/Zurich",
+  "Europe/Mariehamn": "Europe/Helsinki",
+  "Europe/Nicosia": "Asia/Nicosia",
+  "Europe/Podgorica": "Europe/Belgrade",
+  "Europe/San_Marino": "Europe/Rome",
+  "Europe/Tiraspol": "Europe/Chisinau",
+  "Europe/Uzhgorod": "Europe/Kiev",
+  "Europe/Vatican": "Europe/Rome",
+  "Europe/Zaporozhye": "Europe/Kiev",
+  "GB": "Europe/London",
+  "GB-Eire": "Europe/London",
+  "GMT": "Etc/GMT",
+  "GMT+0": "Etc/GMT",
+  "GMT-0": "Etc/GMT",
+  "GMT0": "Etc/GMT",
+  "Greenwich": "Etc/GMT",
+  "Hongkong": "Asia/Hong_Kong",
+  "Iceland": "Africa/Abidjan",
+  "Iran": "Asia/Tehran",
+  "Israel": "Asia/Jerusalem",
+  "Jamaica": "America/Jamaica",
+  "Japan": "Asia/Tokyo",
+  "Kwajalein": "Pacific/Kwajalein",
+  "Libya": "Africa/Tripoli",
+  "Mexico/BajaNorte": "America/Tijuana",
+  "Mexico/BajaSur": "America/Mazatlan",
+  "Mexico/General": "America/Mexico_City",
+  "Mideast/Riyadh87": "Asia/Riyadh",
+  "Mideast/Riyadh88": "Asia/Riyadh",
+  "Mideast/Riyadh89": "Asia/Riyadh",
+  "NZ": "Pacific/Auckland",
+  "NZ-CHAT": "Pacific/Chatham",
+  "Navajo": "America/Denver",
+  "PRC": "Asia/Shanghai",
+  "Pacific/Johnston": "Pacific/Honolulu",
+  "Pacific/Ponape": "Pacific/Guadalcanal",
+  "Pacific/Samoa": "Pacific/Pago_Pago",
+  "Pacific/Truk": "Pacific/Port_Moresby",
+  "Pacific/Yap": "Pacific/Port_Moresby",
+  "Poland": "Europe/Warsaw",
+  "Portugal": "Europe/Lisbon",
+  "ROC": "Asia/Taipei",
+  "ROK": "Asia/Seoul",
+  "Singapore": "Asia/Singapore",
+  "Turkey": "Europe/Istanbul",
+  "UCT": "Etc/UTC",
+  "US/Alaska": "America/Anchorage",
+  "US/Aleutian": "America/Adak",
+  "US/Arizona": "America/Phoenix",
+  "US/Central": "America/Chicago",
+  "US/East-Indiana": "America/Indiana/Indianapolis",
+  "US/Eastern": "America/New_York",
+  "US/Hawaii": "Pacific/Honolulu",
+  "US/Indiana-Starke": "America/Indiana/Knox",
+  "US/Michigan": "America/Detroit",
+  "US/Mountain": "America/Denver",
+  "US/Pacific": "America/Los_Angeles",
+  "US/Pacific-New": "America/Los_Angeles",
+  "US/Samoa": "Pacific/Pago_Pago",
+  "UTC": "Etc/UTC",
+  "Universal": "Etc/UTC",
+  "W-SU": "Europe/Moscow",
+  "Zulu": "Etc/UTC"
+};
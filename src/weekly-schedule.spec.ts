@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { DateTz } from './date-tz';
+import { WeeklySchedule } from './weekly-schedule';
+
+const at = (iso: string, tz: string) => new DateTz(DateTz.fromISO(iso, tz));
+const local = (date: DateTz | null) => date && date.toString('YYYY-MM-DD HH:mm');
+
+const OFFICE = ['09:00-13:00', '14:00-18:00'];
+
+describe('WeeklySchedule', () => {
+  const support = new WeeklySchedule({
+    timezone: 'Europe/Rome',
+    hours: { 1: OFFICE, 2: OFFICE, 3: OFFICE, 4: OFFICE, 5: OFFICE },
+    exceptions: { '2025-12-24': ['09:00-13:00'] },
+    holidayCalendar: 'IT'
+  });
+
+  it('tells when the schedule opens and closes', () => {
+    const morning = at('2025-12-15T10:00', 'Europe/Rome');
+    expect(support.isOpen(morning)).toBe(true);
+    expect(local(support.nextOpen(morning))).toBe('2025-12-15 10:00');
+    expect(local(support.nextClose(morning))).toBe('2025-12-15 13:00');
+
+    const lunch = at('2025-12-15T13:30', 'Europe/Rome');
+    expect(support.isOpen(lunch)).toBe(false);
+    expect(local(support.nextOpen(lunch))).toBe('2025-12-15 14:00');
+    expect(local(support.nextClose(lunch))).toBe('2025-12-15 13:30');
+
+    expect(local(support.nextOpen(at('2025-12-19T18:00', 'Europe/Rome')))).toBe('2025-12-22 09:00');
+    // Dates in other zones are read in the schedule's zone
+    expect(support.isOpen(at('2025-12-15T08:30', 'UTC'))).toBe(true);
+    expect(support.nextOpen(at('2025-12-15T07:00', 'UTC')).timezone).toBe('Europe/Rome');
+  });
+
+  it('applies exceptions and holidays', () => {
+    expect(support.isOpen(at('2025-12-24T12:00', 'Europe/Rome'))).toBe(true);
+    expect(support.isOpen(at('2025-12-24T15:00', 'Europe/Rome'))).toBe(false);
+    expect(local(support.nextOpen(at('2025-12-24T15:00', 'Europe/Rome')))).toBe('2025-12-29 09:00');
+
+    const open = new WeeklySchedule({ timezone: 'Europe/Rome', hours: { 1: OFFICE }, exceptions: { '2025-12-25': ['10:00-12:00'] }, holidayCalendar: 'IT' });
+    expect(open.isOpen(at('2025-12-25T11:00', 'Europe/Rome'))).toBe(true);
+    expect(new WeeklySchedule({ hours: {} }).nextOpen(at('2025-12-25T11:00', 'UTC'))).toBeNull();
+
+    const openings = support.openingsBetween(at('2025-12-23T10:00', 'Europe/Rome'), at('2025-12-29T10:00', 'Europe/Rome'));
+    expect(openings.map(interval => `${local(interval.start)} ${interval.end.toString('HH:mm')}`)).toEqual([
+      '2025-12-23 10:00 13:00', '2025-12-23 14:00 18:00', '2025-12-24 09:00 13:00', '2025-12-29 09:00 10:00'
+    ]);
+  });
+
+  it('computes deadlines in working time', () => {
+    const ticket = at('2025-12-19T16:00', 'Europe/Rome');
+    const due = support.addWorkingTime(ticket, { hours: 8 });
+    expect(local(due)).toBe('2025-12-22 16:00');
+    expect(local(support.addWorkingTime(ticket, 'PT2H'))).toBe('2025-12-19 18:00');
+    expect(local(support.addWorkingTime(at('2025-12-23T15:00', 'Europe/Rome'), 'PT8H'))).toBe('2025-12-29 10:00');
+    expect(local(support.addWorkingTime(due, { hours: -8 }))).toBe('2025-12-19 16:00');
+    expect(local(support.addWorkingTime(at('2025-12-20T10:00', 'Europe/Rome'), {}))).toBe('2025-12-20 10:00');
+
+    expect(support.workingTimeBetween(ticket, due).toISO()).toBe('PT8H');
+    expect(support.workingTimeBetween(due, ticket).hours).toBe(-8);
+    expect(support.workingTimeBetween(ticket, new DateTz(ticket.timestamp + 2730000, 'UTC', 'millisecond')).toISO()).toBe('PT45M30S');
+    expect(() => support.addWorkingTime(ticket, { months: 1 })).toThrow('A reference date is required');
+    expect(() => new WeeklySchedule({ hours: {} }).addWorkingTime(ticket, 'PT1H')).toThrow('The schedule is not open within ten years');
+  });
+
+  it('measures elapsed time on DST days', () => {
+    const always = new WeeklySchedule({
+      timezone: 'Europe/Rome',
+      hours: { 0: ['00:00-24:00'], 1: ['00:00-24:00'], 2: ['00:00-24:00'], 3: ['00:00-24:00'], 4: ['00:00-24:00'], 5: ['00:00-24:00'], 6: ['00:00-24:00'] }
+    });
+    expect(always.workingTimeBetween(at('2025-03-30T00:00', 'Europe/Rome'), at('2025-03-31T00:00', 'Europe/Rome')).toISO()).toBe('PT23H');
+    expect(always.workingTimeBetween(at('2025-10-26T00:00', 'Europe/Rome'), at('2025-10-27T00:00', 'Europe/Rome')).toISO()).toBe('PT25H');
+    expect(always.nextClose(at('2025-03-30T00:00', 'Europe/Rome'))).toBeNull();
+
+    const night = new WeeklySchedule({ timezone: 'Europe/Rome', hours: { 0: ['01:00-04:00'] } });
+    const springForward = at('2025-03-30T01:00', 'Europe/Rome');
+    expect(night.workingTimeBetween(springForward, at('2025-03-30T12:00', 'Europe/Rome')).toISO()).toBe('PT2H');
+    const afterChange = night.addWorkingTime(springForward, 'PT1H30M');
+    expect(local(afterChange)).toBe('2025-03-30 03:30');
+    expect(afterChange.timestamp).toBe(Date.UTC(2025, 2, 30, 1, 30));
+    expect(night.workingTimeBetween(at('2025-10-26T00:00', 'Europe/Rome'), at('2025-10-26T12:00', 'Europe/Rome')).toISO()).toBe('PT4H');
+    expect(night.nextClose(at('2025-10-26T01:30', 'Europe/Rome')).timestamp).toBe(Date.UTC(2025, 9, 26, 3));
+
+    // Hours that the clocks skip never open
+    const skipped = new WeeklySchedule({ timezone: 'Europe/Rome', hours: { 0: ['02:00-02:30'] } });
+    expect(local(skipped.nextOpen(at('2025-03-30T00:00', 'Europe/Rome')))).toBe('2025-04-06 02:00');
+  });
+
+  it('validates the opening hours', () => {
+    expect(() => new WeeklySchedule({ hours: { 1: ['18:00-09:00'] } })).toThrow('Invalid working hours: 18:00-09:00');
+    expect(() => new WeeklySchedule({ hours: { 1: ['9-13'] } })).toThrow('Invalid working hours: 9-13');
+    expect(() => new WeeklySchedule({ hours: { 1: ['09:00-13:00', '12:00-18:00'] } })).toThrow('Invalid working hours: 09:00-13:00, 12:00-18:00 overlap');
+    expect(() => new WeeklySchedule({ hours: { 7: OFFICE } })).toThrow('Invalid weekday: 7');
+    expect(() => new WeeklySchedule({ hours: {}, exceptions: { '2025-02-30': [] } })).toThrow('Invalid exception date: 2025-02-30');
+    expect(() => new WeeklySchedule({ timezone: 'Mars/Olympus', hours: {} })).toThrow('Invalid timezone: Mars/Olympus');
+  });
+});
@@ -0,0 +1,259 @@
+import { daysFromCivil, localDay, weekdayOf } from "./calendar-days";
+import { DateTz } from "./date-tz";
+import { Duration } from "./duration";
+import { HolidayCalendar } from "./holiday-calendar";
+import { DateTzDurationLike, IDateTz, WeeklyScheduleOptions } from "./idate-tz";
+import { Interval } from "./interval";
+import { timezones } from "./timezones";
+import { resolveLocalTime } from "./zone-rules";
+
+const MS_PER_MINUTE = 60000;
+const MS_PER_DAY = 86400000;
+
+// No zone is more than 14 hours away from UTC
+const MAX_OFFSET = 14 * 3600000;
+
+// How far the opening hours are searched before giving up, about ten years
+const MAX_SEARCH_DAYS = 3653;
+
+// A range of local minutes of the day, the end excluded
+type Range = [number, number];
+
+// A range of instants, the end excluded
+type Window = [number, number];
+
+function parseRanges(ranges: string[]): Range[] {
+  const parsed = ranges.map(range => {
+    const match = /^(\d{2}):(\d{2})\s*-\s*(\d{2}):(\d{2})$/.exec(String(range).trim());
+    const start = match ? Number(match[1]) * 60 + Number(match[2]) : NaN;
+    const end = match ? Number(match[3]) * 60 + Number(match[4]) : NaN;
+    if (!match || Number(match[2]) > 59 || Number(match[4]) > 59 || !(start < end && end <= 1440)) {
+      throw new Error(`Invalid working hours: ${range}`);
+    }
+    return [start, end] as Range;
+  }).sort((a, b) => a[0] - b[0]);
+  for (let i = 1; i < parsed.length; i++) {
+    if (parsed[i][0] < parsed[i - 1][1]) {
+      throw new Error(`Invalid working hours: ${ranges.join(', ')} overlap`);
+    }
+  }
+  return parsed;
+}
+
+/**
+ * Opening hours that repeat every week, such as Monday to Friday 09:00–13:00 and 14:00–18:00,
+ * with exceptions for specific dates. The hours are read in the schedule's timezone, so a
+ * working day is shorter or longer when the clocks change during it, and working time is
+ * measured in elapsed time. A local time that occurs twice is read at its first occurrence,
+ * and one skipped by a DST change at the moment the clocks change.
+ */
+export class WeeklySchedule {
+
+  readonly timezone: string;
+  readonly holidayCalendar?: HolidayCalendar;
+
+  private readonly hours = new Map<number, Range[]>();
+  private readonly exceptions = new Map<number, Range[]>();
+
+  /**
+   * Creates a weekly schedule.
+   * @param options - The timezone, the opening hours by day of the week, the exceptions and a holiday calendar.
+   * @throws Error if the timezone is not supported, a weekday is not between 0 and 6, an exception is not an
+   * ISO date, a range is not 'HH:mm-HH:mm' or the ranges of a day overlap.
+   */
+  constructor(options: WeeklyScheduleOptions) {
+    const { timezone = 'UTC', hours, exceptions = {}, holidayCalendar } = options;
+    if (!timezones[timezone]) {
+      throw new Error(`Invalid timezone: ${timezone}`);
+    }
+    this.timezone = timezone;
+    for (const [key, ranges] of Object.entries(hours || {})) {
+      const weekday = Number(key);
+      if (!Number.isInteger(weekday) || weekday < 0 || weekday > 6) {
+        throw new Error(`Invalid weekday: ${key}`);
+      }
+      this.hours.set(weekday, parseRanges(ranges || []));
+    }
+    for (const [key, ranges] of Object.entries(exceptions)) {
+      const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(key);
+      const day = match ? daysFromCivil(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : NaN;
+      if (!match || new DateTz(day * MS_PER_DAY, 'UTC').toString('YYYY-MM-DD') !== key) {
+        throw new Error(`Invalid exception date: ${key}`);
+      }
+      this.exceptions.set(day, parseRanges(ranges || []));
+    }
+    this.holidayCalendar = typeof holidayCalendar === 'string' ? HolidayCalendar.get(holidayCalendar) : holidayCalendar;
+  }
+
+  /**
+   * Checks whether the schedule is open at a date.
+   */
+  isOpen(at: IDateTz): boolean {
+    const day = localDay(new DateTz(at.timestamp, this.timezone, 'millisecond'));
+    for (let current = day - 1; current <= day + 1; current++) {
+      if (this.windowsOn(current).some(([open, close]) => open <= at.timestamp && at.timestamp < close)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Finds when the schedule is next open: the date itself when it is open, or the next opening time.
+   * @param at - The date to start from.
+   * @returns A DateTz in the schedule's timezone, or null when it does not open within ten years.
+   */
+  nextOpen(at: IDateTz): DateTz | null {
+    for (const [open] of this.windowsAfter(at.timestamp)) {
+      return this.toDate(Math.max(open, at.timestamp));
+    }
+    return null;
+  }
+
+  /**
+   * Finds when the schedule next closes: the date itself when it is closed, or the end of the
+   * opening hours it falls in. Ranges that follow one another, also across midnight, count as one.
+   * @param at - The date to start from.
+   * @returns A DateTz in the schedule's timezone, or null when it does not close within ten years.
+   */
+  nextClose(at: IDateTz): DateTz | null {
+    if (!this.isOpen(at)) {
+      return this.toDate(at.timestamp);
+    }
+    let close = at.timestamp;
+    for (const [open, end] of this.windowsAfter(at.timestamp)) {
+      if (open > close) {
+        return this.toDate(close);
+      }
+      close = Math.max(close, end);
+    }
+    return null;
+  }
+
+  /**
+   * Moves a date forward by an amount of working time, counting only the opening hours.
+   * A deadline that uses up the last minutes of a day falls on its closing time. Negative
+   * durations move backwards and a zero duration returns the date unchanged, even when closed.
+   * @param start - The date to start from.
+   * @param duration - The working time, e.g. { hours: 8 } or 'PT8H'; days are 24 hours.
+   * @returns A new DateTz in the schedule's timezone.
+   * @throws Error if the duration has years or months, or the schedule is not open within ten years.
+   */
+  addWorkingTime(start: IDateTz, duration: Duration | DateTzDurationLike | string): DateTz {
+    const amount = Duration.from(duration).toMilliseconds();
+    if (amount === 0) {
+      return this.toDate(start.timestamp);
+    }
+    let remaining = Math.abs(amount);
+    if (amount > 0) {
+      for (const [open, close] of this.windowsAfter(start.timestamp)) {
+        const from = Math.max(open, start.timestamp);
+        if (remaining <= close - from) {
+          return this.toDate(from + remaining);
+        }
+        remaining -= close - from;
+      }
+    } else {
+      for (const [open, close] of this.windowsBefore(start.timestamp)) {
+        const to = Math.min(close, start.timestamp);
+        if (remaining <= to - open) {
+          return this.toDate(to - remaining);
+        }
+        remaining -= to - open;
+      }
+    }
+    throw new Error('The schedule is not open within ten years');
+  }
+
+  /**
+   * Measures the working time between two dates, counting only the opening hours.
+   * The result is negative when the end is before the start.
+   * @param start - The start date.
+   * @param end - The end date, in any timezone.
+   * @returns A Duration in hours, minutes, seconds and milliseconds.
+   */
+  workingTimeBetween(start: IDateTz, end: IDateTz): Duration {
+    if (end.timestamp < start.timestamp) {
+      return this.workingTimeBetween(end, start).negate();
+    }
+    let total = 0;
+    for (const [open, close] of this.windowsAfter(start.timestamp, end.timestamp)) {
+      if (open >= end.timestamp) {
+        break;
+      }
+      total += Math.min(close, end.timestamp) - Math.max(open, start.timestamp);
+    }
+    return new Duration({ milliseconds: total }).shiftTo(['hour', 'minute', 'second', 'millisecond']);
+  }
+
+  /**
+   * Lists the opening hours between two dates, cut to the range. Ranges that follow one
+   * another, also across midnight, are joined.
+   * @param start - The start of the range.
+   * @param end - The end of the range, in any timezone.
+   * @returns Intervals in the schedule's timezone, in order.
+   */
+  openingsBetween(start: IDateTz, end: IDateTz): Interval[] {
+    const windows: Window[] = [];
+    for (const [open, close] of this.windowsAfter(start.timestamp, end.timestamp)) {
+      if (open >= end.timestamp) {
+        break;
+      }
+      const window: Window = [Math.max(open, start.timestamp), Math.min(close, end.timestamp)];
+      const last = windows[windows.length - 1];
+      if (last && last[1] >= window[0]) {
+        last[1] = Math.max(last[1], window[1]);
+      } else {
+        windows.push(window);
+      }
+    }
+    return windows.map(([open, close]) => new Interval(this.toDate(open), this.toDate(close)));
+  }
+
+  private toDate(timestamp: number): DateTz {
+    return new DateTz(timestamp, this.timezone, 'millisecond');
+  }
+
+  // The opening hours of a local day as instants; an exception replaces the weekly hours and a holiday closes the day
+  private windowsOn(day: number): Window[] {
+    let ranges = this.exceptions.get(day);
+    if (!ranges) {
+      ranges = this.hours.get(weekdayOf(day)) || [];
+      if (ranges.length > 0 && this.holidayCalendar && this.holidayCalendar.isHoliday(new DateTz(day * MS_PER_DAY, 'UTC'))) {
+        ranges = [];
+      }
+    }
+    return ranges
+      .map(([start, end]) => [
+        resolveLocalTime(this.timezone, day * MS_PER_DAY + start * MS_PER_MINUTE),
+        resolveLocalTime(this.timezone, day * MS_PER_DAY + end * MS_PER_MINUTE)
+      ] as Window)
+      // A range inside a DST gap never happens
+      .filter(([open, close]) => open < close);
+  }
+
+  // The opening hours ending after an instant, in order, up to an optional limit
+  private *windowsAfter(timestamp: number, until = Infinity): Generator<Window> {
+    const first = localDay(new DateTz(timestamp, this.timezone, 'millisecond')) - 1;
+    for (let day = first; day <= first + MAX_SEARCH_DAYS && day * MS_PER_DAY - MAX_OFFSET <= until; day++) {
+      for (const window of this.windowsOn(day)) {
+        if (window[1] > timestamp) {
+          yield window;
+        }
+      }
+    }
+  }
+
+  // The opening hours starting before an instant, latest first
+  private *windowsBefore(timestamp: number): Generator<Window> {
+    const last = localDay(new DateTz(timestamp, this.timezone, 'millisecond')) + 1;
+    for (let day = last; day >= last - MAX_SEARCH_DAYS; day--) {
+      const windows = this.windowsOn(day);
+      for (let i = windows.length - 1; i >= 0; i--) {
+        if (windows[i][0] < timestamp) {
+          yield windows[i];
+        }
+      }
+    }
+  }
+}
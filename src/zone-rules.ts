@@ -0,0 +1,370 @@
+import { daysFromCivil } from "./calendar-days";
+import { tzdataLinks, tzdataZones } from "./tzdata";
+
+/**
+ * The local time type in effect in a zone at a given instant.
+ */
+export type ZoneOffset = {
+  offsetSeconds: number;
+  isDst: boolean;
+  abbreviation: string;
+};
+
+type RuleDate =
+  | { kind: 'month'; month: number; week: number; weekday: number; }
+  | { kind: 'julian'; day: number; }
+  | { kind: 'zero-based'; day: number; };
+
+type PosixRule = {
+  std: ZoneOffset;
+  dst?: ZoneOffset;
+  start?: { date: RuleDate; time: number; };
+  end?: { date: RuleDate; time: number; };
+};
+
+type CompiledZone = {
+  types: ZoneOffset[];
+  // Transition instants in seconds since the epoch, ascending
+  times: number[];
+  // Index into `types` of the local time type starting at each transition
+  typeIndices: number[];
+  rule?: PosixRule;
+};
+
+const compiled = new Map<string, CompiledZone>();
+
+const TRANSITION_PATTERN = /(-?[0-9a-z]+)([A-Z])/g;
+
+/**
+ * Resolves the offset, DST flag and abbreviation in effect in a zone at an instant.
+ * @param tz - The timezone identifier.
+ * @param timestamp - The instant in milliseconds since the Unix epoch.
+ */
+export function getZoneOffset(tz: string, timestamp: number): ZoneOffset {
+  const zone = compileZone(tz);
+  const seconds = Math.floor(timestamp / 1000);
+  const { times } = zone;
+  if (times.length === 0 || seconds < times[0]) {
+    return times.length === 0 && zone.rule ? ruleOffsetAt(zone.rule, seconds) : zone.types[0];
+  }
+  if (seconds >= times[times.length - 1] && zone.rule) {
+    return ruleOffsetAt(zone.rule, seconds);
+  }
+  let low = 0;
+  let high = times.length - 1;
+  while (low < high) {
+    const middle = (low + high + 1) >> 1;
+    if (times[middle] <= seconds) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return zone.types[zone.typeIndices[low]];
+}
+
+/**
+ * Resolves the local time type a POSIX TZ rule assigns to an instant.
+ * @param rule - The POSIX TZ string, e.g. "CET-1CEST,M3.5.0,M10.5.0/3".
+ * @param timestamp - The instant in milliseconds since the Unix epoch.
+ */
+export function getPosixRuleOffset(rule: string, timestamp: number): ZoneOffset {
+  return ruleOffsetAt(parsePosixRule(rule), Math.floor(timestamp / 1000));
+}
+
+function compileZone(tz: string): CompiledZone {
+  const cached = compiled.get(tz);
+  if (cached) {
+    return cached;
+  }
+  const target = tzdataLinks[tz] || tz;
+  const data = tzdataZones[target];
+  if (data === undefined) {
+    throw new Error(`Invalid timezone: ${tz}`);
+  }
+  const [typesPart, transitionsPart, rulePart] = data.split('|');
+  const types = typesPart.split(';').map(entry => {
+    const [offset, isDst, abbreviation] = entry.split(',');
+    return { offsetSeconds: Number(offset), isDst: isDst === '1', abbreviation };
+  });
+  const times: number[] = [];
+  const typeIndices: number[] = [];
+  let time = 0;
+  for (const match of transitionsPart.matchAll(TRANSITION_PATTERN)) {
+    time += parseInt(match[1], 36);
+    times.push(time);
+    typeIndices.push(match[2].charCodeAt(0) - 65);
+  }
+  const zone: CompiledZone = { types, times, typeIndices, rule: rulePart ? parsePosixRule(rulePart) : undefined };
+  compiled.set(tz, zone);
+  return zone;
+}
+
+/**
+ * Parses a POSIX TZ string such as "CET-1CEST,M3.5.0,M10.5.0/3" (RFC 8536, section 3.3).
+ * POSIX offsets count hours west of Greenwich, so their sign is inverted.
+ */
+function parsePosixRule(text: string): PosixRule {
+  const [zonesPart, startPart, endPart] = text.split(',');
+  const match = /^(<[^>]+>|[A-Za-z]+)([+-]?[\d:]+)(?:(<[^>]+>|[A-Za-z]+)([+-]?[\d:]+)?)?$/.exec(zonesPart);
+  if (!match) {
+    throw new Error(`Invalid POSIX TZ rule: ${text}`);
+  }
+  const stdOffset = -parsePosixTime(match[2]);
+  const rule: PosixRule = { std: { offsetSeconds: stdOffset, isDst: false, abbreviation: parsePosixName(match[1]) } };
+  if (!match[3]) {
+    return rule;
+  }
+  rule.dst = {
+    offsetSeconds: match[4] ? -parsePosixTime(match[4]) : stdOffset + 3600,
+    isDst: true,
+    abbreviation: parsePosixName(match[3])
+  };
+  rule.start = parsePosixDate(startPart);
+  rule.end = parsePosixDate(endPart);
+  return rule;
+}
+
+function parsePosixName(text: string): string {
+  return text.startsWith('<') ? text.slice(1, -1) : text;
+}
+
+function parsePosixTime(text: string): number {
+  const [hours, minutes = '0', seconds = '0'] = text.replace(/^[+-]/, '').split(':');
+  const value = Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+  return text.startsWith('-') ? -value : value;
+}
+
+function parsePosixDate(text: string): { date: RuleDate; time: number; } {
+  const [datePart, timePart] = text.split('/');
+  // Transitions happen at 02:00 local time unless stated otherwise
+  const time = timePart === undefined ? 7200 : parsePosixTime(timePart);
+  if (datePart.startsWith('M')) {
+    const [month, week, weekday] = datePart.slice(1).split('.').map(Number);
+    return { date: { kind: 'month', month: month - 1, week, weekday }, time };
+  }
+  if (datePart.startsWith('J')) {
+    return { date: { kind: 'julian', day: Number(datePart.slice(1)) }, time };
+  }
+  return { date: { kind: 'zero-based', day: Number(datePart) }, time };
+}
+
+/**
+ * Computes the instant, in seconds since the epoch, at which a rule date and
+ * local time occur in a year, given the offset in effect before the transition.
+ */
+function ruleTransitionTime(year: number, transition: { date: RuleDate; time: number; }, offsetBefore: number): number {
+  const { date } = transition;
+  let days: number;
+  if (date.kind === 'month') {
+    const first = daysFromCivil(year, date.month, 1);
+    const firstWeekday = ((first + 4) % 7 + 7) % 7;
+    let day = first + (date.weekday - firstWeekday + 7) % 7 + (date.week - 1) * 7;
+    if (date.week === 5) {
+      const nextMonth = daysFromCivil(year, date.month + 1, 1);
+      while (day >= nextMonth) {
+        day -= 7;
+      }
+    }
+    days = day;
+  } else if (date.kind === 'julian') {
+    // Jn counts 1–365 and never includes February 29
+    const isLeap = (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+    days = daysFromCivil(year, 0, date.day) + (isLeap && date.day >= 60 ? 1 : 0);
+  } else {
+    days = daysFromCivil(year, 0, date.day + 1);
+  }
+  return days * 86400 + transition.time - offsetBefore;
+}
+
+function ruleOffsetAt(rule: PosixRule, seconds: number): ZoneOffset {
+  if (!rule.dst) {
+    return rule.std;
+  }
+  const year = new Date((seconds + rule.std.offsetSeconds) * 1000).getUTCFullYear();
+  const start = ruleTransitionTime(year, rule.start, rule.std.offsetSeconds);
+  const end = ruleTransitionTime(year, rule.end, rule.dst.offsetSeconds);
+  const inDst = start < end
+    ? seconds >= start && seconds < end
+    : seconds < end || seconds >= start;
+  return inDst ? rule.dst : rule.std;
+}
+
+/**
+ * A yearly transition date of a zone rule: the nth (5 = last) weekday of a month,
+ * at a local time in seconds (which may fall outside 0–24 h).
+ */
+export type ZoneRuleDate = {
+  month: number;
+  week: number;
+  weekday: number;
+  time: number;
+};
+
+/**
+ * The rule a zone follows after its last listed transition.
+ * Start and end are omitted for rules that use Julian days.
+ */
+export type ZoneRule = {
+  since: number;
+  std: ZoneOffset;
+  dst?: ZoneOffset;
+  start?: ZoneRuleDate;
+  end?: ZoneRuleDate;
+};
+
+/**
+ * Describes the rule that extends a zone past its transition table, or null when the
+ * zone has none.
+ * @param tz - The timezone identifier.
+ */
+export function getZoneRule(tz: string): ZoneRule | null {
+  const zone = compileZone(tz);
+  const { rule, times } = zone;
+  if (!rule) {
+    return null;
+  }
+  const toRuleDate = (transition?: { date: RuleDate; time: number; }): ZoneRuleDate | undefined =>
+    transition && transition.date.kind === 'month'
+      ? { month: transition.date.month, week: transition.date.week, weekday: transition.date.weekday, time: transition.time }
+      : undefined;
+  return {
+    since: times.length > 0 ? times[times.length - 1] * 1000 : -Infinity,
+    std: rule.std,
+    dst: rule.dst,
+    start: toRuleDate(rule.start),
+    end: toRuleDate(rule.end)
+  };
+}
+
+/**
+ * A change of UTC offset in a zone.
+ */
+export type ZoneTransition = {
+  timestamp: number;
+  before: ZoneOffset;
+  after: ZoneOffset;
+};
+
+/**
+ * Lists the offset changes in a zone between two instants (from inclusive, to exclusive).
+ * Changes of abbreviation or DST flag alone are not reported.
+ */
+export function getZoneTransitions(tz: string, from: number, to: number): ZoneTransition[] {
+  const result: ZoneTransition[] = [];
+  let cursor = getNextZoneTransition(tz, from - 1);
+  while (cursor && cursor.timestamp < to) {
+    result.push(cursor);
+    cursor = getNextZoneTransition(tz, cursor.timestamp);
+  }
+  return result;
+}
+
+/**
+ * Finds the first offset change strictly after an instant, or null when the zone never changes again.
+ */
+export function getNextZoneTransition(tz: string, timestamp: number): ZoneTransition | null {
+  const zone = compileZone(tz);
+  const seconds = Math.floor(timestamp / 1000);
+  const { times } = zone;
+  for (let i = firstIndexAfter(times, seconds); i < times.length; i++) {
+    const transition = tableTransition(zone, i);
+    if (transition) {
+      return transition;
+    }
+  }
+  if (!zone.rule || !zone.rule.dst) {
+    return null;
+  }
+  const lastTime = times.length > 0 ? times[times.length - 1] : -Infinity;
+  const startYear = new Date(Math.max(seconds, lastTime) * 1000).getUTCFullYear() - 1;
+  for (let year = startYear; year <= startYear + 2; year++) {
+    const next = ruleTransitions(zone.rule, year).find(transition => transition.time > seconds && transition.time > lastTime);
+    if (next) {
+      return toZoneTransition(next.time, next.before, next.after);
+    }
+  }
+  return null;
+}
+
+/**
+ * Finds the last offset change at or before an instant, or null when there is none.
+ */
+export function getPreviousZoneTransition(tz: string, timestamp: number): ZoneTransition | null {
+  const zone = compileZone(tz);
+  const seconds = Math.floor(timestamp / 1000);
+  const { times } = zone;
+  const lastTime = times.length > 0 ? times[times.length - 1] : -Infinity;
+  if (zone.rule && zone.rule.dst && seconds > lastTime) {
+    const endYear = new Date(seconds * 1000).getUTCFullYear() + 1;
+    const firstYear = Math.max(endYear - 3, new Date(Math.max(lastTime, -8.64e12) * 1000).getUTCFullYear() - 1);
+    for (let year = endYear; year >= firstYear; year--) {
+      const previous = ruleTransitions(zone.rule, year).reverse().find(transition => transition.time <= seconds && transition.time > lastTime);
+      if (previous) {
+        return toZoneTransition(previous.time, previous.before, previous.after);
+      }
+    }
+  }
+  for (let i = firstIndexAfter(times, seconds) - 1; i >= 0; i--) {
+    const transition = tableTransition(zone, i);
+    if (transition) {
+      return transition;
+    }
+  }
+  return null;
+}
+
+/**
+ * Resolves a local wall-clock time in a zone to an instant: the earlier pass of a repeated
+ * time, or the moment the clocks change (the first valid time) for a skipped one.
+ * @param tz - The timezone identifier.
+ * @param local - The wall-clock time as milliseconds since 1970-01-01T00:00 local time.
+ */
+export function resolveLocalTime(tz: string, local: number): number {
+  const before = getZoneOffset(tz, local - 86400000).offsetSeconds;
+  const after = getZoneOffset(tz, local + 86400000).offsetSeconds;
+  const instants = Array.from(new Set([before, getZoneOffset(tz, local).offsetSeconds, after]))
+    .map(offsetSeconds => local - offsetSeconds * 1000)
+    .filter(instant => getZoneOffset(tz, instant).offsetSeconds * 1000 === local - instant);
+  if (instants.length > 0) {
+    return Math.min(...instants);
+  }
+  return getNextZoneTransition(tz, local - Math.max(before, after) * 1000).timestamp;
+}
+
+function firstIndexAfter(times: number[], seconds: number): number {
+  let low = 0;
+  let high = times.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (times[middle] <= seconds) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
+
+function tableTransition(zone: CompiledZone, index: number): ZoneTransition | null {
+  const before = zone.types[index === 0 ? 0 : zone.typeIndices[index - 1]];
+  const after = zone.types[zone.typeIndices[index]];
+  if (before.offsetSeconds === after.offsetSeconds) {
+    return null;
+  }
+  return toZoneTransition(zone.times[index], before, after);
+}
+
+function toZoneTransition(seconds: number, before: ZoneOffset, after: ZoneOffset): ZoneTransition {
+  return { timestamp: seconds * 1000, before, after };
+}
+
+function ruleTransitions(rule: PosixRule, year: number): { time: number; before: ZoneOffset; after: ZoneOffset; }[] {
+  if (rule.dst.offsetSeconds === rule.std.offsetSeconds) {
+    return [];
+  }
+  return [
+    { time: ruleTransitionTime(year, rule.start, rule.std.offsetSeconds), before: rule.std, after: rule.dst },
+    { time: ruleTransitionTime(year, rule.end, rule.dst.offsetSeconds), before: rule.dst, after: rule.std }
+  ].sort((a, b) => a.time - b.time);
+}